@@ -3,6 +3,8 @@ import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { StateMachineModule } from './state-machine/state-machine.module';
+import { ConnectionProfileModule } from './connection-profile/connection-profile.module';
+import { DraftModule } from './draft/draft.module';
 import { LoggerModule } from './common/logger/logger.module';
 import { DatabaseModule } from './database/database.module';
 
@@ -14,6 +16,8 @@ import { DatabaseModule } from './database/database.module';
     }),
     DatabaseModule,
     StateMachineModule,
+    ConnectionProfileModule,
+    DraftModule,
     LoggerModule,
   ],
   controllers: [AppController],
@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+import { FindOperator } from 'typeorm';
+
+type Row = Record<string, unknown>;
+type Where = Row | Row[];
+
+interface FindOptions {
+  where?: Where;
+  order?: Record<string, 'ASC' | 'DESC'>;
+}
+
+/**
+ * Stand-in for a TypeORM repository in specs: rows are kept in memory and `where`
+ * supports plain values and the operators the services use (In, Not, IsNull, Like,
+ * LessThan). Saving a row without an id inserts it with an id and timestamps.
+ */
+export class InMemoryRepository {
+  readonly rows: Row[] = [];
+
+  create(values: Row | Row[] = {}) {
+    return Array.isArray(values)
+      ? values.map((row) => ({ ...row }))
+      : { ...values };
+  }
+
+  save<T extends Row | Row[]>(values: T): Promise<T> {
+    const now = new Date();
+    const rows: Row[] = Array.isArray(values) ? values : [values];
+    for (const row of rows) {
+      if (!row.id) {
+        Object.assign(row, { id: randomUUID(), createdAt: now });
+        this.rows.push(row);
+      }
+      row.updatedAt = now;
+    }
+    return Promise.resolve(values);
+  }
+
+  find(options: FindOptions = {}) {
+    const rows = this.rows.filter((row) => matches(row, options.where));
+    const [key, direction] = Object.entries(options.order ?? {})[0] ?? [];
+    if (key) {
+      const sign = direction === 'DESC' ? -1 : 1;
+      // Dates and numbers compare by value, strings alphabetically
+      const sortValue = (row: Row) => row[key] as number | string;
+      rows.sort((a, b) =>
+        sortValue(a) > sortValue(b)
+          ? sign
+          : sortValue(a) < sortValue(b)
+            ? -sign
+            : 0,
+      );
+    }
+    return Promise.resolve(rows);
+  }
+
+  async findOne(options: FindOptions) {
+    return (await this.find(options))[0] ?? null;
+  }
+
+  async update(where: Where, changes: Row) {
+    const rows = await this.find({ where });
+    rows.forEach((row) =>
+      Object.assign(row, changes, { updatedAt: new Date() }),
+    );
+    return { affected: rows.length };
+  }
+
+  async delete(where: Where) {
+    const rows = await this.find({ where });
+    rows.forEach((row) => this.rows.splice(this.rows.indexOf(row), 1));
+    return { affected: rows.length };
+  }
+
+  remove<T extends Row>(row: T): Promise<T> {
+    this.rows.splice(this.rows.indexOf(row), 1);
+    return Promise.resolve(row);
+  }
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  if (Array.isArray(where)) {
+    return where.some((alternative) => matches(row, alternative));
+  }
+  return Object.entries(where).every(([key, condition]) =>
+    satisfies(row[key], condition),
+  );
+}
+
+function satisfies(value: unknown, condition: unknown): boolean {
+  if (!(condition instanceof FindOperator)) {
+    return value === condition;
+  }
+  const operand: unknown = condition.value;
+  switch (condition.type) {
+    case 'not':
+      return !satisfies(value, condition.child ?? operand);
+    case 'in':
+      return (operand as unknown[]).includes(value);
+    case 'isNull':
+      return value === null || value === undefined;
+    case 'lessThan':
+      return (value as number) < (operand as number);
+    case 'like':
+      return (
+        typeof value === 'string' &&
+        new RegExp(
+          `^${(operand as string)
+            .split('%')
+            .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*')}$`,
+        ).test(value)
+      );
+    default:
+      throw new Error(`InMemoryRepository does not support ${condition.type}`);
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Post,
+  Put,
+  Delete,
+  Get,
+  Body,
+  Param,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ConnectionProfileService } from './connection-profile.service';
+import { CreateConnectionProfileDto } from './dto/create-connection-profile.dto';
+import { UpdateConnectionProfileDto } from './dto/update-connection-profile.dto';
+
+@ApiTags('connection-profiles')
+@Controller('connection-profiles')
+export class ConnectionProfileController {
+  constructor(
+    private readonly connectionProfileService: ConnectionProfileService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List connection profiles' })
+  @ApiResponse({
+    status: 200,
+    description: 'Connection profiles (secret keys are never returned)',
+  })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  listConnectionProfiles() {
+    return this.connectionProfileService.listConnectionProfiles();
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a connection profile' })
+  @ApiBody({ type: CreateConnectionProfileDto })
+  @ApiResponse({ status: 201, description: 'Connection profile created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid profile settings',
+  })
+  @ApiResponse({ status: 409, description: 'Profile name already in use' })
+  createConnectionProfile(@Body() body: CreateConnectionProfileDto) {
+    return this.connectionProfileService.createConnectionProfile(body);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a connection profile' })
+  @ApiParam({ name: 'id', description: 'ID of the connection profile' })
+  @ApiBody({ type: UpdateConnectionProfileDto })
+  @ApiResponse({ status: 200, description: 'Connection profile updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid profile settings',
+  })
+  @ApiResponse({ status: 404, description: 'Connection profile not found' })
+  @ApiResponse({ status: 409, description: 'Profile name already in use' })
+  updateConnectionProfile(
+    @Param('id') id: string,
+    @Body() body: UpdateConnectionProfileDto,
+  ) {
+    return this.connectionProfileService.updateConnectionProfile(id, body);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a connection profile' })
+  @ApiParam({ name: 'id', description: 'ID of the connection profile' })
+  @ApiResponse({ status: 200, description: 'Connection profile deleted' })
+  @ApiResponse({ status: 404, description: 'Connection profile not found' })
+  deleteConnectionProfile(@Param('id') id: string) {
+    return this.connectionProfileService.deleteConnectionProfile(id);
+  }
+}
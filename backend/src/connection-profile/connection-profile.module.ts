@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConnectionProfileController } from './connection-profile.controller';
+import { ConnectionProfileService } from './connection-profile.service';
+import { SfnClientFactory } from './sfn-client.factory';
+import { SecretCipher } from './secret-cipher';
+import { ConnectionProfile } from './entities/connection-profile.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ConnectionProfile])],
+  controllers: [ConnectionProfileController],
+  providers: [ConnectionProfileService, SfnClientFactory, SecretCipher],
+  exports: [ConnectionProfileService, SfnClientFactory],
+})
+export class ConnectionProfileModule {}
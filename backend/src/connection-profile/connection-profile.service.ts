@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import {
+  ConnectionProfile,
+  CREDENTIALS_SOURCES,
+} from './entities/connection-profile.entity';
+import { CreateConnectionProfileDto } from './dto/create-connection-profile.dto';
+import { UpdateConnectionProfileDto } from './dto/update-connection-profile.dto';
+import { SfnClientFactory } from './sfn-client.factory';
+import { SecretCipher, isEncryptedSecret } from './secret-cipher';
+
+const PROFILE_FIELDS = [
+  'name',
+  'region',
+  'endpoint',
+  'credentialsSource',
+  'sharedConfigProfile',
+  'accessKeyId',
+  'secretAccessKey',
+  'assumeRoleArn',
+  'externalId',
+  'isDefault',
+] as const;
+
+/**
+ * Named AWS connection profiles (region, endpoint, credentials source, assumed role).
+ * State machines reference a profile; requests may name one to override it.
+ * Static secret keys are stored encrypted (see SecretCipher); ones stored in plain
+ * text before are encrypted at startup once CONNECTION_PROFILE_SECRET_KEY is set.
+ */
+@Injectable()
+export class ConnectionProfileService implements OnApplicationBootstrap {
+  constructor(
+    @InjectRepository(ConnectionProfile)
+    private readonly connectionProfileRepository: Repository<ConnectionProfile>,
+    private readonly sfnClientFactory: SfnClientFactory,
+    private readonly secretCipher: SecretCipher,
+  ) {}
+
+  async onApplicationBootstrap() {
+    try {
+      const profiles = await this.connectionProfileRepository.find({
+        where: { secretAccessKey: Not(IsNull()) },
+      });
+      const plaintext = profiles.filter(
+        (profile) => !isEncryptedSecret(profile.secretAccessKey as string),
+      );
+      if (!plaintext.length) {
+        return;
+      }
+      if (!this.secretCipher.isConfigured) {
+        console.warn(
+          `Warning: ${plaintext.length} connection profile(s) store a secret key in plain text; set CONNECTION_PROFILE_SECRET_KEY to encrypt them`,
+        );
+        return;
+      }
+      for (const profile of plaintext) {
+        profile.secretAccessKey = this.secretCipher.encrypt(
+          profile.secretAccessKey as string,
+        );
+      }
+      await this.connectionProfileRepository.save(plaintext);
+    } catch (error) {
+      console.error(
+        'Warning: Failed to encrypt the secret keys of connection profiles:',
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+  }
+
+  async listConnectionProfiles() {
+    try {
+      const profiles = await this.connectionProfileRepository.find({
+        order: { name: 'ASC' },
+      });
+
+      return {
+        success: true,
+        connectionProfiles: profiles.map((profile) => this.toResponse(profile)),
+      };
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to list connection profiles',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async createConnectionProfile(dto: CreateConnectionProfileDto) {
+    const profile = this.connectionProfileRepository.create({
+      credentialsSource: 'default',
+      isDefault: false,
+    });
+    this.applyChanges(profile, dto);
+
+    return {
+      success: true,
+      connectionProfile: this.toResponse(await this.save(profile)),
+      message: 'Connection profile created successfully!',
+    };
+  }
+
+  async updateConnectionProfile(id: string, dto: UpdateConnectionProfileDto) {
+    const profile = await this.findById(id);
+    this.applyChanges(profile, dto);
+
+    return {
+      success: true,
+      connectionProfile: this.toResponse(await this.save(profile)),
+      message: 'Connection profile updated successfully!',
+    };
+  }
+
+  /**
+   * State machines using the profile fall back to the default profile.
+   */
+  async deleteConnectionProfile(id: string) {
+    const profile = await this.findById(id);
+
+    try {
+      await this.connectionProfileRepository.remove(profile);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to delete connection profile',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    this.sfnClientFactory.evict(id);
+
+    return {
+      success: true,
+      message: 'Connection profile deleted successfully!',
+    };
+  }
+
+  /**
+   * Picks the profile for an AWS call: the one named in the request, else the
+   * state machine's own, else the default profile. Null means the environment client.
+   */
+  async resolveConnectionProfile(
+    requestedName?: string,
+    profileId?: string | null,
+  ): Promise<ConnectionProfile | null> {
+    if (requestedName) {
+      const profile = await this.connectionProfileRepository.findOne({
+        where: { name: requestedName },
+      });
+      if (!profile) {
+        throw new BadRequestException({
+          error: 'Unknown connection profile',
+          details: `No connection profile is named "${requestedName}"`,
+        });
+      }
+      return profile;
+    }
+
+    if (profileId) {
+      const profile = await this.connectionProfileRepository.findOne({
+        where: { id: profileId },
+      });
+      if (profile) {
+        return profile;
+      }
+    }
+
+    return this.connectionProfileRepository.findOne({
+      where: { isDefault: true },
+    });
+  }
+
+  private async findById(id: string): Promise<ConnectionProfile> {
+    const profile = await this.connectionProfileRepository.findOne({
+      where: { id },
+    });
+    if (!profile) {
+      throw new NotFoundException('Connection profile not found');
+    }
+    return profile;
+  }
+
+  private applyChanges(
+    profile: ConnectionProfile,
+    dto: UpdateConnectionProfileDto,
+  ) {
+    for (const field of PROFILE_FIELDS) {
+      if (dto[field] !== undefined) {
+        Object.assign(profile, { [field]: dto[field] });
+      }
+    }
+
+    // Only the secret carried over from the stored row is encrypted already;
+    // one in the request is the plain key
+    const storedSecret =
+      dto.secretAccessKey === undefined &&
+      isEncryptedSecret(profile.secretAccessKey ?? '');
+
+    const problems: string[] = [];
+    if (!profile.name?.trim()) problems.push('name is required');
+    if (!profile.region?.trim()) problems.push('region is required');
+    if (!CREDENTIALS_SOURCES.includes(profile.credentialsSource)) {
+      problems.push(
+        `credentialsSource must be one of ${CREDENTIALS_SOURCES.join(', ')}`,
+      );
+    }
+    if (
+      profile.credentialsSource === 'static' &&
+      (!profile.accessKeyId || !profile.secretAccessKey)
+    ) {
+      problems.push(
+        'accessKeyId and secretAccessKey are required for static credentials',
+      );
+    } else if (
+      profile.credentialsSource === 'static' &&
+      !storedSecret &&
+      !this.secretCipher.isConfigured
+    ) {
+      problems.push(
+        'static credentials can only be stored once CONNECTION_PROFILE_SECRET_KEY is set',
+      );
+    }
+    if (dto.secretAccessKey && isEncryptedSecret(dto.secretAccessKey)) {
+      problems.push(
+        'secretAccessKey must be the secret key itself, not an encrypted value',
+      );
+    }
+    if (
+      profile.credentialsSource === 'shared-config' &&
+      !profile.sharedConfigProfile
+    ) {
+      problems.push('sharedConfigProfile is required for shared-config');
+    }
+    if (profile.endpoint && !URL.canParse(profile.endpoint)) {
+      problems.push(`endpoint "${profile.endpoint}" is not a valid URL`);
+    }
+
+    if (problems.length) {
+      throw new BadRequestException({
+        error: 'Invalid connection profile',
+        details: problems.join('; '),
+      });
+    }
+
+    // Keys from a previous static configuration are not kept around
+    if (profile.credentialsSource !== 'static') {
+      profile.accessKeyId = null;
+      profile.secretAccessKey = null;
+    } else if (!storedSecret) {
+      profile.secretAccessKey = this.secretCipher.encrypt(
+        profile.secretAccessKey as string,
+      );
+    }
+  }
+
+  private async save(profile: ConnectionProfile): Promise<ConnectionProfile> {
+    const duplicate = await this.connectionProfileRepository.findOne({
+      where: profile.id
+        ? { name: profile.name, id: Not(profile.id) }
+        : { name: profile.name },
+    });
+    if (duplicate) {
+      throw new ConflictException({
+        error: 'Connection profile already exists',
+        details: `A connection profile named "${profile.name}" already exists`,
+      });
+    }
+
+    try {
+      const saved = await this.connectionProfileRepository.save(profile);
+      // Only one profile can be the default
+      if (saved.isDefault) {
+        await this.connectionProfileRepository.update(
+          { isDefault: true, id: Not(saved.id) },
+          { isDefault: false },
+        );
+      }
+      return saved;
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to save connection profile',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Secrets never leave the server
+  private toResponse(profile: ConnectionProfile) {
+    return {
+      id: profile.id,
+      name: profile.name,
+      region: profile.region,
+      endpoint: profile.endpoint,
+      credentialsSource: profile.credentialsSource,
+      sharedConfigProfile: profile.sharedConfigProfile,
+      accessKeyId: profile.accessKeyId,
+      hasSecretAccessKey: Boolean(profile.secretAccessKey),
+      assumeRoleArn: profile.assumeRoleArn,
+      externalId: profile.externalId,
+      isDefault: profile.isDefault,
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt,
+    };
+  }
+}
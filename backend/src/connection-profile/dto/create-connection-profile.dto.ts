@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  CREDENTIALS_SOURCES,
+  type CredentialsSource,
+} from '../entities/connection-profile.entity';
+
+export class CreateConnectionProfileDto {
+  @ApiProperty({
+    description: 'Unique name of the profile',
+    example: 'localstack',
+  })
+  name: string;
+
+  @ApiProperty({ description: 'AWS region', example: 'us-east-1' })
+  region: string;
+
+  @ApiProperty({
+    description:
+      'Step Functions endpoint override, e.g. Step Functions Local or LocalStack',
+    example: 'http://localhost:4566',
+    required: false,
+    nullable: true,
+  })
+  endpoint?: string | null;
+
+  @ApiProperty({
+    description:
+      'Where credentials come from: SDK default chain, server environment variables, a shared config profile or static keys',
+    enum: CREDENTIALS_SOURCES,
+    default: 'default',
+    required: false,
+  })
+  credentialsSource?: CredentialsSource;
+
+  @ApiProperty({
+    description:
+      'Shared config profile name (credentialsSource "shared-config")',
+    example: 'staging',
+    required: false,
+    nullable: true,
+  })
+  sharedConfigProfile?: string | null;
+
+  @ApiProperty({
+    description: 'Access key ID (credentialsSource "static")',
+    example: 'test',
+    required: false,
+    nullable: true,
+  })
+  accessKeyId?: string | null;
+
+  @ApiProperty({
+    description:
+      'Secret access key (credentialsSource "static"); never returned by the API',
+    example: 'test',
+    required: false,
+    nullable: true,
+  })
+  secretAccessKey?: string | null;
+
+  @ApiProperty({
+    description: 'Role to assume with the source credentials',
+    example: 'arn:aws:iam::123456789012:role/FlowBuilderDeployer',
+    required: false,
+    nullable: true,
+  })
+  assumeRoleArn?: string | null;
+
+  @ApiProperty({
+    description: 'External ID passed when assuming the role',
+    required: false,
+    nullable: true,
+  })
+  externalId?: string | null;
+
+  @ApiProperty({
+    description:
+      'Use this profile when neither the request nor the state machine names one',
+    default: false,
+    required: false,
+  })
+  isDefault?: boolean;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateConnectionProfileDto } from './create-connection-profile.dto';
+
+export class UpdateConnectionProfileDto extends PartialType(
+  CreateConnectionProfileDto,
+) {}
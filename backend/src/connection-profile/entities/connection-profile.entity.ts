@@ -0,0 +1,91 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { StateMachine } from '../../state-machine/entities/state-machine.entity';
+
+export const CREDENTIALS_SOURCES = [
+  'default',
+  'environment',
+  'shared-config',
+  'static',
+] as const;
+
+export type CredentialsSource = (typeof CREDENTIALS_SOURCES)[number];
+
+@Entity('connection_profiles')
+export class ConnectionProfile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  region: string;
+
+  // Overrides the Step Functions endpoint, e.g. Step Functions Local or LocalStack
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  endpoint: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    name: 'credentials_source',
+    default: 'default',
+  })
+  credentialsSource: CredentialsSource;
+
+  // Profile in ~/.aws/config when credentialsSource is "shared-config"
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    name: 'shared_config_profile',
+  })
+  sharedConfigProfile: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 128,
+    nullable: true,
+    name: 'access_key_id',
+  })
+  accessKeyId: string | null;
+
+  // Encrypted with CONNECTION_PROFILE_SECRET_KEY (see SecretCipher)
+  @Column({ type: 'text', nullable: true, name: 'secret_access_key' })
+  secretAccessKey: string | null;
+
+  // Role assumed on top of the credentials source
+  @Column({
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+    name: 'assume_role_arn',
+  })
+  assumeRoleArn: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'external_id' })
+  externalId: string | null;
+
+  // Used when neither the request nor the state machine names a profile
+  @Column({ type: 'boolean', default: false, name: 'is_default' })
+  isDefault: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @OneToMany(
+    () => StateMachine,
+    (stateMachine) => stateMachine.connectionProfile,
+  )
+  stateMachines: StateMachine[];
+}
@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { SecretCipher, isEncryptedSecret } from './secret-cipher';
+
+function cipherWithKey(key?: string) {
+  return new SecretCipher(
+    new ConfigService(key ? { CONNECTION_PROFILE_SECRET_KEY: key } : {}),
+  );
+}
+
+describe('SecretCipher', () => {
+  const secret = 'wJalrXUtnFEMI/K7MDENG/bPxRfiCYEXAMPLEKEY';
+
+  it('encrypts secrets so only the same key reads them back', () => {
+    const cipher = cipherWithKey('correct horse battery staple');
+    const stored = cipher.encrypt(secret);
+
+    expect(isEncryptedSecret(stored)).toBe(true);
+    expect(stored).not.toContain(secret);
+    expect(cipher.encrypt(secret)).not.toBe(stored);
+    expect(cipher.decrypt(stored)).toBe(secret);
+    expect(() => cipherWithKey('another key').decrypt(stored)).toThrow();
+  });
+
+  it('needs a key for encrypted secrets but passes plain text ones through', () => {
+    const cipher = cipherWithKey();
+
+    expect(cipher.isConfigured).toBe(false);
+    expect(() => cipher.encrypt(secret)).toThrow(
+      'CONNECTION_PROFILE_SECRET_KEY',
+    );
+    expect(cipher.decrypt(secret)).toBe(secret);
+  });
+});
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Stored as enc:v1:<iv>:<auth tag>:<ciphertext>, each part base64
+const PREFIX = 'enc:v1:';
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypts the secrets of connection profiles before they are stored, with AES-256-GCM
+ * and a key derived from CONNECTION_PROFILE_SECRET_KEY. Without that setting secrets
+ * cannot be stored or read.
+ */
+@Injectable()
+export class SecretCipher {
+  private readonly key: Buffer | null;
+
+  constructor(configService: ConfigService) {
+    const secret = configService.get<string>('CONNECTION_PROFILE_SECRET_KEY');
+    this.key = secret ? createHash('sha256').update(secret).digest() : null;
+  }
+
+  get isConfigured(): boolean {
+    return this.key !== null;
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.requireKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+    return (
+      PREFIX +
+      [iv, cipher.getAuthTag(), ciphertext]
+        .map((part) => part.toString('base64'))
+        .join(':')
+    );
+  }
+
+  // Values stored before encryption was introduced are returned as they are
+  decrypt(stored: string): string {
+    if (!isEncryptedSecret(stored)) {
+      return stored;
+    }
+    const [iv, tag, ciphertext] = stored
+      .slice(PREFIX.length)
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv(ALGORITHM, this.requireKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error(
+        'CONNECTION_PROFILE_SECRET_KEY must be set to store or use static credentials',
+      );
+    }
+    return this.key;
+  }
+}
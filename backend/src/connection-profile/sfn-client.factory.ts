@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SFNClient } from '@aws-sdk/client-sfn';
+import {
+  fromEnv,
+  fromIni,
+  fromTemporaryCredentials,
+} from '@aws-sdk/credential-providers';
+import { ConnectionProfile } from './entities/connection-profile.entity';
+import { SecretCipher } from './secret-cipher';
+
+/**
+ * Builds one SFNClient per connection profile and reuses it until the profile changes.
+ * Without a profile the client comes from AWS_REGION, AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY
+ * and the optional AWS_STEP_FUNCTIONS_ENDPOINT, as before profiles existed.
+ */
+@Injectable()
+export class SfnClientFactory {
+  private readonly defaultClient: SFNClient;
+  private readonly clients = new Map<
+    string,
+    { version: number; client: SFNClient }
+  >();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly secretCipher: SecretCipher,
+  ) {
+    const region = this.configService.get<string>('AWS_REGION') || 'us-east-1';
+    const accessKeyId = this.configService.get<string>('AWS_ACCESS_KEY_ID');
+    const secretAccessKey = this.configService.get<string>(
+      'AWS_SECRET_ACCESS_KEY',
+    );
+
+    this.defaultClient = new SFNClient({
+      region,
+      endpoint:
+        this.configService.get<string>('AWS_STEP_FUNCTIONS_ENDPOINT') ||
+        undefined,
+      credentials:
+        accessKeyId && secretAccessKey
+          ? {
+              accessKeyId,
+              secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  getClient(profile?: ConnectionProfile | null): SFNClient {
+    if (!profile) {
+      return this.defaultClient;
+    }
+
+    const version = profile.updatedAt ? profile.updatedAt.getTime() : 0;
+    const cached = this.clients.get(profile.id);
+    if (cached && cached.version === version) {
+      return cached.client;
+    }
+
+    cached?.client.destroy();
+    const client = this.createClient(profile);
+    this.clients.set(profile.id, { version, client });
+    return client;
+  }
+
+  // Drops the cached client of a deleted profile
+  evict(profileId: string) {
+    this.clients.get(profileId)?.client.destroy();
+    this.clients.delete(profileId);
+  }
+
+  private createClient(profile: ConnectionProfile): SFNClient {
+    const sourceCredentials = this.sourceCredentials(profile);
+    const credentials = profile.assumeRoleArn
+      ? fromTemporaryCredentials({
+          masterCredentials: sourceCredentials,
+          params: {
+            RoleArn: profile.assumeRoleArn,
+            RoleSessionName: `flow-builder-${profile.name}`.slice(0, 64),
+            ExternalId: profile.externalId || undefined,
+          },
+          clientConfig: { region: profile.region },
+        })
+      : sourceCredentials;
+
+    return new SFNClient({
+      region: profile.region,
+      endpoint: profile.endpoint || undefined,
+      credentials,
+    });
+  }
+
+  private sourceCredentials(profile: ConnectionProfile) {
+    switch (profile.credentialsSource) {
+      case 'environment':
+        return fromEnv();
+      case 'shared-config':
+        return fromIni({ profile: profile.sharedConfigProfile || undefined });
+      case 'static':
+        // Decrypted when the client signs a request, so a missing key fails that request
+        return () =>
+          Promise.resolve({
+            accessKeyId: profile.accessKeyId || '',
+            secretAccessKey: this.secretCipher.decrypt(
+              profile.secretAccessKey || '',
+            ),
+          });
+      default:
+        // SDK default provider chain
+        return undefined;
+    }
+  }
+}
@@ -2,6 +2,12 @@ import { DataSource, DataSourceOptions } from 'typeorm';
 import { config } from 'dotenv';
 import { StateMachine } from '../state-machine/entities/state-machine.entity';
 import { Execution } from '../state-machine/entities/execution.entity';
+import { StateMachineVersion } from '../state-machine/entities/state-machine-version.entity';
+import { StateMachineAlias } from '../state-machine/entities/state-machine-alias.entity';
+import { ExecutionEvent } from '../state-machine/entities/execution-event.entity';
+import { Operation } from '../state-machine/entities/operation.entity';
+import { ConnectionProfile } from '../connection-profile/entities/connection-profile.entity';
+import { Draft } from '../draft/entities/draft.entity';
 
 // Load environment variables
 config();
@@ -14,7 +20,16 @@ const dataSourceOptions: DataSourceOptions = databaseUrl
   ? {
       type: 'postgres',
       url: databaseUrl,
-      entities: [StateMachine, Execution],
+      entities: [
+        StateMachine,
+        Execution,
+        StateMachineVersion,
+        StateMachineAlias,
+        ExecutionEvent,
+        Operation,
+        ConnectionProfile,
+        Draft,
+      ],
       migrations: ['dist/database/migrations/*.js'],
       migrationsTableName: 'migrations',
       synchronize: false, // Always false, use migrations
@@ -30,7 +45,16 @@ const dataSourceOptions: DataSourceOptions = databaseUrl
       username: process.env.DB_USERNAME || 'postgres',
       password: process.env.DB_PASSWORD || 'postgres',
       database: process.env.DB_NAME || 'flow_builder',
-      entities: [StateMachine, Execution],
+      entities: [
+        StateMachine,
+        Execution,
+        StateMachineVersion,
+        StateMachineAlias,
+        ExecutionEvent,
+        Operation,
+        ConnectionProfile,
+        Draft,
+      ],
       migrations: ['dist/database/migrations/*.js'],
       migrationsTableName: 'migrations',
       synchronize: false, // Always false, use migrations
@@ -38,4 +62,3 @@ const dataSourceOptions: DataSourceOptions = databaseUrl
     };
 
 export const AppDataSource = new DataSource(dataSourceOptions);
-
@@ -3,6 +3,12 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { StateMachine } from '../state-machine/entities/state-machine.entity';
 import { Execution } from '../state-machine/entities/execution.entity';
+import { StateMachineVersion } from '../state-machine/entities/state-machine-version.entity';
+import { StateMachineAlias } from '../state-machine/entities/state-machine-alias.entity';
+import { ExecutionEvent } from '../state-machine/entities/execution-event.entity';
+import { Operation } from '../state-machine/entities/operation.entity';
+import { ConnectionProfile } from '../connection-profile/entities/connection-profile.entity';
+import { Draft } from '../draft/entities/draft.entity';
 
 @Module({
   imports: [
@@ -17,7 +23,16 @@ import { Execution } from '../state-machine/entities/execution.entity';
           return {
             type: 'postgres',
             url: databaseUrl,
-            entities: [StateMachine, Execution],
+            entities: [
+              StateMachine,
+              Execution,
+              StateMachineVersion,
+              StateMachineAlias,
+              ExecutionEvent,
+              Operation,
+              ConnectionProfile,
+              Draft,
+            ],
             migrations: ['dist/database/migrations/*.js'],
             migrationsTableName: 'migrations',
             synchronize: false, // Always false - use migrations instead
@@ -36,7 +51,16 @@ import { Execution } from '../state-machine/entities/execution.entity';
           username: configService.get<string>('DB_USERNAME', 'postgres'),
           password: configService.get<string>('DB_PASSWORD', 'postgres'),
           database: configService.get<string>('DB_NAME', 'flow_builder'),
-          entities: [StateMachine, Execution],
+          entities: [
+            StateMachine,
+            Execution,
+            StateMachineVersion,
+            StateMachineAlias,
+            ExecutionEvent,
+            Operation,
+            ConnectionProfile,
+            Draft,
+          ],
           migrations: ['dist/database/migrations/*.js'],
           migrationsTableName: 'migrations',
           synchronize: false, // Always false - use migrations instead
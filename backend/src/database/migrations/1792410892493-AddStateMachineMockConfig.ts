@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddStateMachineMockConfig1792410892493 implements MigrationInterface {
+  name = 'AddStateMachineMockConfig1792410892493';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "state_machines" ADD "mock_config" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "state_machines" DROP COLUMN "mock_config"`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddConnectionProfiles1792497310415 implements MigrationInterface {
+  name = 'AddConnectionProfiles1792497310415';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "connection_profiles" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying(100) NOT NULL, "region" character varying(50) NOT NULL, "endpoint" character varying(500), "credentials_source" character varying(20) NOT NULL DEFAULT 'default', "shared_config_profile" character varying(100), "access_key_id" character varying(128), "secret_access_key" text, "assume_role_arn" character varying(500), "external_id" character varying(255), "is_default" boolean NOT NULL DEFAULT false, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_320954edb0f4ff2ee5334004d95" UNIQUE ("name"), CONSTRAINT "PK_43b50db7cdb4ac8bf0834d8dcd7" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machines" ADD "connection_profile_id" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machines" ADD CONSTRAINT "FK_82c6bde6fde991db5092235223b" FOREIGN KEY ("connection_profile_id") REFERENCES "connection_profiles"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "state_machines" DROP CONSTRAINT "FK_82c6bde6fde991db5092235223b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machines" DROP COLUMN "connection_profile_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "connection_profiles"`);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddStateMachineVersions1792583614207 implements MigrationInterface {
+  name = 'AddStateMachineVersions1792583614207';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "state_machine_versions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "version" integer NOT NULL, "definition" jsonb NOT NULL, "role_arn" character varying(500), "author" character varying(255), "message" text, "aws_revision_id" character varying(255), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "state_machine_id" uuid NOT NULL, CONSTRAINT "UQ_1f36332cad46ea939820b0011e5" UNIQUE ("state_machine_id", "version"), CONSTRAINT "PK_a534d80524d1b64043676e999fa" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" ADD CONSTRAINT "FK_05cb71f4f157106ed601a518c4d" FOREIGN KEY ("state_machine_id") REFERENCES "state_machines"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    // Existing state machines start their history at their current definition
+    await queryRunner.query(
+      `INSERT INTO "state_machine_versions" ("version", "definition", "role_arn", "message", "created_at", "state_machine_id") SELECT 1, "definition", "role_arn", 'Definition before version history', COALESCE("aws_creation_date", "created_at"), "id" FROM "state_machines"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" DROP CONSTRAINT "FK_05cb71f4f157106ed601a518c4d"`,
+    );
+    await queryRunner.query(`DROP TABLE "state_machine_versions"`);
+  }
+}
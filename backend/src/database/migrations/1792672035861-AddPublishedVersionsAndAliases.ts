@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPublishedVersionsAndAliases1792672035861 implements MigrationInterface {
+  name = 'AddPublishedVersionsAndAliases1792672035861';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" ADD "aws_version_arn" text`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" ADD "aws_version_number" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" ADD "published_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "executions" ADD "qualifier" character varying(80)`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "state_machine_aliases" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying(80) NOT NULL, "description" text, "aws_arn" text NOT NULL, "routing_configuration" jsonb NOT NULL, "aws_creation_date" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "state_machine_id" uuid NOT NULL, CONSTRAINT "UQ_f7d7f44adc84118c33f7f0c0c11" UNIQUE ("state_machine_id", "name"), CONSTRAINT "PK_f1f2bd9b04cd1576aef78d56a65" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_aliases" ADD CONSTRAINT "FK_237878a718d5687556af0d45af5" FOREIGN KEY ("state_machine_id") REFERENCES "state_machines"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_aliases" DROP CONSTRAINT "FK_237878a718d5687556af0d45af5"`,
+    );
+    await queryRunner.query(`DROP TABLE "state_machine_aliases"`);
+    await queryRunner.query(`ALTER TABLE "executions" DROP COLUMN "qualifier"`);
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" DROP COLUMN "published_at"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" DROP COLUMN "aws_version_number"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "state_machine_versions" DROP COLUMN "aws_version_arn"`,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddExecutionRedrive1792759204318 implements MigrationInterface {
+  name = 'AddExecutionRedrive1792759204318';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "executions" ADD "redrive_count" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "executions" ADD "redrive_status" character varying(50)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "executions" ADD "redrive_date" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "executions" DROP COLUMN "redrive_date"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "executions" DROP COLUMN "redrive_status"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "executions" DROP COLUMN "redrive_count"`,
+    );
+  }
+}
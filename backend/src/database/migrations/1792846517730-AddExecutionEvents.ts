@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddExecutionEvents1792846517730 implements MigrationInterface {
+  name = 'AddExecutionEvents1792846517730';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "execution_events" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "event_id" integer NOT NULL, "previous_event_id" integer, "type" character varying(80) NOT NULL, "timestamp" TIMESTAMP NOT NULL, "details" jsonb, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "execution_id" uuid NOT NULL, CONSTRAINT "UQ_0ab25c6bb2e3adc22d7b3194063" UNIQUE ("execution_id", "event_id"), CONSTRAINT "PK_7696142eac15159f499be26321d" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "execution_events" ADD CONSTRAINT "FK_b85132fdee8ed2e14f1b2b8dd38" FOREIGN KEY ("execution_id") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "execution_events" DROP CONSTRAINT "FK_b85132fdee8ed2e14f1b2b8dd38"`,
+    );
+    await queryRunner.query(`DROP TABLE "execution_events"`);
+  }
+}
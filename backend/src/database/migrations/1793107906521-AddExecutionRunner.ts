@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddExecutionRunner1793107906521 implements MigrationInterface {
+  name = 'AddExecutionRunner1793107906521';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "executions" ADD "runner_id" character varying(255)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "executions" DROP COLUMN "runner_id"`);
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Post,
+  Put,
+  Delete,
+  Get,
+  Body,
+  Param,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { DraftService } from './draft.service';
+import { CreateDraftDto } from './dto/create-draft.dto';
+import { UpdateDraftDto } from './dto/update-draft.dto';
+
+@ApiTags('drafts')
+@Controller('drafts')
+export class DraftController {
+  constructor(private readonly draftService: DraftService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List drafts' })
+  @ApiResponse({
+    status: 200,
+    description: 'Drafts, most recently saved first, without their graphs',
+  })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  listDrafts() {
+    return this.draftService.listDrafts();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a draft with its graph' })
+  @ApiParam({ name: 'id', description: 'ID of the draft' })
+  @ApiResponse({ status: 200, description: 'Draft' })
+  @ApiResponse({ status: 404, description: 'Draft not found' })
+  getDraft(@Param('id') id: string) {
+    return this.draftService.getDraft(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Save a workflow as a new draft' })
+  @ApiBody({ type: CreateDraftDto })
+  @ApiResponse({ status: 201, description: 'Draft saved' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing name or invalid graph',
+  })
+  createDraft(@Body() body: CreateDraftDto) {
+    return this.draftService.createDraft(body);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Save changes to a draft' })
+  @ApiParam({ name: 'id', description: 'ID of the draft' })
+  @ApiBody({ type: UpdateDraftDto })
+  @ApiResponse({ status: 200, description: 'Draft saved' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing name or invalid graph',
+  })
+  @ApiResponse({ status: 404, description: 'Draft not found' })
+  updateDraft(@Param('id') id: string, @Body() body: UpdateDraftDto) {
+    return this.draftService.updateDraft(id, body);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a draft' })
+  @ApiParam({ name: 'id', description: 'ID of the draft' })
+  @ApiResponse({ status: 200, description: 'Draft deleted' })
+  @ApiResponse({ status: 404, description: 'Draft not found' })
+  deleteDraft(@Param('id') id: string) {
+    return this.draftService.deleteDraft(id);
+  }
+}
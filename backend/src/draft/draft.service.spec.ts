@@ -0,0 +1,93 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DraftService } from './draft.service';
+import { Draft } from './entities/draft.entity';
+import { CreateDraftDto } from './dto/create-draft.dto';
+import { InMemoryRepository } from '../common/testing/in-memory-repository';
+
+const graph = {
+  nodes: [{ id: 'node-1', type: 'pass', position: { x: 250, y: 100 } }],
+  edges: [],
+};
+
+// A request body as the builder (or anyone else) may send it
+const body = (json: string) => JSON.parse(json) as CreateDraftDto;
+
+describe('DraftService', () => {
+  let service: DraftService;
+  let drafts: InMemoryRepository;
+
+  beforeEach(async () => {
+    drafts = new InMemoryRepository();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        DraftService,
+        { provide: getRepositoryToken(Draft), useValue: drafts },
+      ],
+    }).compile();
+
+    service = module.get(DraftService);
+  });
+
+  it('creates a draft and updates it in place', async () => {
+    const { draft } = await service.createDraft({
+      name: ' OrderProcessing ',
+      graph,
+    });
+    expect(draft).toMatchObject({
+      name: 'OrderProcessing',
+      graph,
+      stateMachineArn: null,
+    });
+
+    const updated = await service.updateDraft(draft.id, {
+      stateMachineArn:
+        'arn:aws:states:us-east-1:123456789012:stateMachine:OrderProcessing',
+    });
+
+    expect(updated.draft).toMatchObject({ id: draft.id, graph });
+    expect(drafts.rows).toHaveLength(1);
+    expect(drafts.rows[0].stateMachineArn).toBe(
+      'arn:aws:states:us-east-1:123456789012:stateMachine:OrderProcessing',
+    );
+  });
+
+  it.each([
+    [
+      'whose graph has no edges',
+      '{ "name": "Order", "graph": { "nodes": [] } }',
+    ],
+    [
+      'whose nodes are no array',
+      '{ "name": "Order", "graph": { "nodes": {}, "edges": [] } }',
+    ],
+    ['without a graph', '{ "name": "Order" }'],
+  ])('rejects a draft %s', async (_, json) => {
+    await expect(service.createDraft(body(json))).rejects.toMatchObject({
+      response: {
+        error: 'Invalid draft',
+        details: 'graph must have nodes and edges arrays',
+      },
+    });
+    expect(drafts.rows).toEqual([]);
+  });
+
+  it('requires a name', async () => {
+    await expect(
+      service.createDraft({ name: '  ', graph }),
+    ).rejects.toMatchObject({
+      response: { error: 'Invalid draft', details: 'name is required' },
+    });
+  });
+
+  it.each([
+    ['get', (id: string) => service.getDraft(id)],
+    ['update', (id: string) => service.updateDraft(id, { name: 'Order' })],
+    ['delete', (id: string) => service.deleteDraft(id)],
+  ])('answers 404 to %s an unknown draft', async (_, call) => {
+    await expect(
+      call('7f2d8c1e-0000-4000-8000-000000000000'),
+    ).rejects.toMatchObject({ status: 404, message: 'Draft not found' });
+  });
+});
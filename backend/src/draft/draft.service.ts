@@ -0,0 +1,145 @@
+import {
+  Injectable,
+  BadRequestException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Draft } from './entities/draft.entity';
+import { CreateDraftDto } from './dto/create-draft.dto';
+import { UpdateDraftDto } from './dto/update-draft.dto';
+
+/**
+ * Workflows saved from the builder without deploying them. The graph is stored as the
+ * builder sends it; only its shape (nodes and edges arrays) is checked.
+ */
+@Injectable()
+export class DraftService {
+  constructor(
+    @InjectRepository(Draft)
+    private readonly draftRepository: Repository<Draft>,
+  ) {}
+
+  // Most recently saved first, without their graphs
+  async listDrafts() {
+    try {
+      const drafts = await this.draftRepository.find({
+        order: { updatedAt: 'DESC' },
+      });
+
+      return {
+        success: true,
+        drafts: drafts.map((draft) => {
+          const { graph, ...summary } = this.toResponse(draft);
+          return { ...summary, states: graph.nodes.length };
+        }),
+      };
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to list drafts',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async getDraft(id: string) {
+    return {
+      success: true,
+      draft: this.toResponse(await this.findById(id)),
+    };
+  }
+
+  async createDraft(dto: CreateDraftDto) {
+    const draft = this.draftRepository.create({ stateMachineArn: null });
+    this.applyChanges(draft, dto);
+
+    return {
+      success: true,
+      draft: this.toResponse(await this.save(draft)),
+      message: 'Draft saved successfully!',
+    };
+  }
+
+  async updateDraft(id: string, dto: UpdateDraftDto) {
+    const draft = await this.findById(id);
+    this.applyChanges(draft, dto);
+
+    return {
+      success: true,
+      draft: this.toResponse(await this.save(draft)),
+      message: 'Draft saved successfully!',
+    };
+  }
+
+  async deleteDraft(id: string) {
+    const draft = await this.findById(id);
+
+    try {
+      await this.draftRepository.remove(draft);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to delete draft',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return { success: true, message: 'Draft deleted successfully!' };
+  }
+
+  private async findById(id: string): Promise<Draft> {
+    const draft = await this.draftRepository.findOne({ where: { id } });
+    if (!draft) {
+      throw new NotFoundException('Draft not found');
+    }
+    return draft;
+  }
+
+  private applyChanges(draft: Draft, dto: UpdateDraftDto) {
+    if (dto.name !== undefined) draft.name = dto.name?.trim();
+    if (dto.graph !== undefined) draft.graph = dto.graph;
+    if (dto.stateMachineArn !== undefined) {
+      draft.stateMachineArn = dto.stateMachineArn || null;
+    }
+
+    const problems: string[] = [];
+    if (!draft.name) problems.push('name is required');
+    if (
+      typeof draft.graph !== 'object' ||
+      draft.graph === null ||
+      !Array.isArray(draft.graph.nodes) ||
+      !Array.isArray(draft.graph.edges)
+    ) {
+      problems.push('graph must have nodes and edges arrays');
+    }
+
+    if (problems.length) {
+      throw new BadRequestException({
+        error: 'Invalid draft',
+        details: problems.join('; '),
+      });
+    }
+  }
+
+  private async save(draft: Draft): Promise<Draft> {
+    try {
+      return await this.draftRepository.save(draft);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to save draft',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private toResponse(draft: Draft) {
+    return {
+      id: draft.id,
+      name: draft.name,
+      graph: draft.graph,
+      stateMachineArn: draft.stateMachineArn,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { DraftGraph } from '../entities/draft.entity';
+
+export class CreateDraftDto {
+  @ApiProperty({
+    description: 'Name of the workflow',
+    example: 'OrderProcessing',
+  })
+  name: string;
+
+  @ApiProperty({
+    description:
+      'React Flow graph of the builder: nodes (with positions) and edges, plus any canvas metadata',
+    example: {
+      nodes: [
+        {
+          id: 'node-1',
+          type: 'pass',
+          position: { x: 250, y: 100 },
+          data: { label: 'Start' },
+        },
+      ],
+      edges: [],
+    },
+  })
+  graph: DraftGraph;
+
+  @ApiProperty({
+    description: 'ARN of the state machine the draft was deployed as',
+    example:
+      'arn:aws:states:us-east-1:123456789012:stateMachine:OrderProcessing',
+    required: false,
+    nullable: true,
+  })
+  stateMachineArn?: string | null;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+// The builder canvas as React Flow keeps it: nodes with their positions, and edges
+export interface DraftGraph extends Record<string, unknown> {
+  nodes: unknown[];
+  edges: unknown[];
+}
+
+// A workflow saved from the builder without deploying it to AWS
+@Entity('drafts')
+export class Draft {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'jsonb' })
+  graph: DraftGraph;
+
+  // Set once the draft has been deployed, so reopening it keeps deploying to the same state machine
+  @Column({ type: 'text', nullable: true, name: 'state_machine_arn' })
+  stateMachineArn: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
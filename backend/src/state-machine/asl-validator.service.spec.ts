@@ -0,0 +1,95 @@
+import { AslValidatorService } from './asl-validator.service';
+
+describe('AslValidatorService', () => {
+  const validator = new AslValidatorService();
+
+  it('accepts a valid definition', () => {
+    const result = validator.validate({
+      StartAt: 'Hello',
+      States: {
+        Hello: { Type: 'Pass', Result: 'Hello', Next: 'Done' },
+        Done: { Type: 'Succeed' },
+      },
+    });
+
+    expect(result).toEqual({ result: 'OK', diagnostics: [], truncated: false });
+  });
+
+  it('reports missing targets and unreachable states with JSON pointers', () => {
+    const result = validator.validate({
+      StartAt: 'Hello',
+      States: {
+        Hello: { Type: 'Pass', Next: 'Missing' },
+        'Orphan/State': { Type: 'Succeed' },
+      },
+    });
+
+    expect(result.result).toBe('FAIL');
+    expect(result.diagnostics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          severity: 'ERROR',
+          code: 'MISSING_TRANSITION_TARGET',
+          location: '/States/Hello/Next',
+        }),
+        expect.objectContaining({
+          code: 'UNREACHABLE_STATE',
+          location: '/States/Orphan~1State',
+        }),
+      ]),
+    );
+  });
+
+  it('checks fields per state type and query language', () => {
+    const result = validator.validate({
+      QueryLanguage: 'JSONata',
+      StartAt: 'Wait',
+      States: {
+        Wait: { Type: 'Wait', Seconds: 5, Resource: 'arn:x', Next: 'Task' },
+        Task: {
+          Type: 'Task',
+          Resource: 'arn:aws:states:::lambda:invoke',
+          Parameters: { 'Payload.$': '$' },
+          End: true,
+        },
+      },
+    });
+
+    expect(result.diagnostics.map((d) => d.location)).toEqual([
+      '/States/Wait/Resource',
+      '/States/Task/Parameters',
+    ]);
+  });
+
+  it('validates nested Parallel branches and duplicate names', () => {
+    const result = validator.validate({
+      StartAt: 'Fork',
+      States: {
+        Fork: {
+          Type: 'Parallel',
+          Branches: [
+            { StartAt: 'Fork', States: { Fork: { Type: 'Pass', End: true } } },
+          ],
+          End: true,
+        },
+      },
+    });
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'DUPLICATE_STATE_NAME',
+        location: '/States/Fork/Branches/0/States/Fork',
+      }),
+    ]);
+  });
+
+  it('truncates diagnostics to maxResults', () => {
+    const result = validator.validate('{ not json', 0);
+
+    expect(result).toEqual({
+      result: 'FAIL',
+      diagnostics: [],
+      truncated: true,
+    });
+  });
+});
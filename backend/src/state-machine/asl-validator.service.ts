@@ -0,0 +1,850 @@
+import { Injectable } from '@nestjs/common';
+
+export type DiagnosticSeverity = 'ERROR' | 'WARNING';
+
+/**
+ * One finding, in the shape AWS ValidateStateMachineDefinition returns.
+ * `location` is a JSON pointer into the definition, e.g. `/States/Hello/Next`.
+ */
+export interface ValidationDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  location?: string;
+}
+
+export interface ValidationResult {
+  result: 'OK' | 'FAIL';
+  diagnostics: ValidationDiagnostic[];
+  truncated: boolean;
+}
+
+type JsonObject = Record<string, unknown>;
+type QueryLanguage = 'JSONPath' | 'JSONata';
+type Reporter = (
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string,
+  location?: string,
+) => void;
+
+// Limits enforced by Step Functions
+const MAX_DEFINITION_BYTES = 1024 * 1024;
+const MAX_STATE_NAME_LENGTH = 80;
+const DEFAULT_MAX_RESULTS = 100;
+
+const TOP_LEVEL_FIELDS = [
+  'Comment',
+  'StartAt',
+  'States',
+  'Version',
+  'TimeoutSeconds',
+  'QueryLanguage',
+];
+const COMMON_FIELDS = ['Type', 'Comment', 'QueryLanguage'];
+
+const ALLOWED_FIELDS: Record<string, string[]> = {
+  Pass: [
+    'Next',
+    'End',
+    'InputPath',
+    'OutputPath',
+    'ResultPath',
+    'Parameters',
+    'Result',
+    'Assign',
+    'Output',
+  ],
+  Task: [
+    'Next',
+    'End',
+    'Resource',
+    'InputPath',
+    'OutputPath',
+    'ResultPath',
+    'Parameters',
+    'ResultSelector',
+    'Retry',
+    'Catch',
+    'TimeoutSeconds',
+    'TimeoutSecondsPath',
+    'HeartbeatSeconds',
+    'HeartbeatSecondsPath',
+    'Credentials',
+    'Arguments',
+    'Output',
+    'Assign',
+  ],
+  Choice: ['Choices', 'Default', 'InputPath', 'OutputPath', 'Assign', 'Output'],
+  Wait: [
+    'Next',
+    'End',
+    'Seconds',
+    'Timestamp',
+    'SecondsPath',
+    'TimestampPath',
+    'InputPath',
+    'OutputPath',
+    'Assign',
+    'Output',
+  ],
+  Succeed: ['InputPath', 'OutputPath', 'Output'],
+  Fail: ['Error', 'Cause', 'ErrorPath', 'CausePath'],
+  Parallel: [
+    'Branches',
+    'Next',
+    'End',
+    'InputPath',
+    'OutputPath',
+    'ResultPath',
+    'Parameters',
+    'ResultSelector',
+    'Retry',
+    'Catch',
+    'Arguments',
+    'Output',
+    'Assign',
+  ],
+  Map: [
+    'Next',
+    'End',
+    'ItemProcessor',
+    'Iterator',
+    'ItemsPath',
+    'Items',
+    'ItemReader',
+    'ItemSelector',
+    'ItemBatcher',
+    'ResultWriter',
+    'MaxConcurrency',
+    'MaxConcurrencyPath',
+    'ToleratedFailurePercentage',
+    'ToleratedFailurePercentagePath',
+    'ToleratedFailureCount',
+    'ToleratedFailureCountPath',
+    'Label',
+    'InputPath',
+    'OutputPath',
+    'ResultPath',
+    'Parameters',
+    'ResultSelector',
+    'Retry',
+    'Catch',
+    'Output',
+    'Assign',
+  ],
+};
+
+const JSONPATH_ONLY_FIELDS = [
+  'InputPath',
+  'OutputPath',
+  'ResultPath',
+  'Parameters',
+  'ResultSelector',
+  'ItemsPath',
+  'SecondsPath',
+  'TimestampPath',
+  'ErrorPath',
+  'CausePath',
+  'TimeoutSecondsPath',
+  'HeartbeatSecondsPath',
+  'MaxConcurrencyPath',
+  'ToleratedFailurePercentagePath',
+  'ToleratedFailureCountPath',
+];
+const JSONATA_ONLY_FIELDS = ['Arguments', 'Output', 'Items'];
+
+const TERMINAL_TYPES = ['Succeed', 'Fail'];
+const WAIT_FIELDS = ['Seconds', 'Timestamp', 'SecondsPath', 'TimestampPath'];
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isJsonata(value: unknown): boolean {
+  return (
+    typeof value === 'string' &&
+    value.trim().startsWith('{%') &&
+    value.trim().endsWith('%}')
+  );
+}
+
+// JSON pointer segment escaping (RFC 6901)
+function pointer(...segments: Array<string | number>): string {
+  return segments
+    .map((s) => `/${String(s).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
+}
+
+/**
+ * Returns an error message for a malformed JSONPath, or null. Reference paths
+ * (ResultPath) may only address a single node.
+ */
+function checkPath(path: string, reference = false): string | null {
+  if (!path.startsWith('$')) return 'Paths must start with "$".';
+  if (path.endsWith('.')) return 'Path must not end with ".".';
+
+  let depth = 0;
+  let quote: string | null = null;
+  for (const char of path) {
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === "'" || char === '"') quote = char;
+    else if (char === '[') depth++;
+    else if (char === ']') depth--;
+    if (depth < 0) return 'Unbalanced "]" in path.';
+  }
+  if (quote) return 'Unterminated quote in path.';
+  if (depth !== 0) return 'Unbalanced "[" in path.';
+
+  if (reference && (/\*|\.\.|\?\(|:|,/.test(path) || path.startsWith('$$'))) {
+    return 'Reference paths cannot use wildcards, filters, slices, deep scans or the context object.';
+  }
+  return null;
+}
+
+/**
+ * Offline structural and semantic validation of Amazon States Language
+ * definitions, so invalid workflows are rejected before reaching AWS.
+ */
+@Injectable()
+export class AslValidatorService {
+  validate(
+    definition: unknown,
+    maxResults: number = DEFAULT_MAX_RESULTS,
+  ): ValidationResult {
+    const diagnostics = this.collect(definition);
+    const hasErrors = diagnostics.some((d) => d.severity === 'ERROR');
+
+    // Errors first so truncation never hides why a definition failed
+    diagnostics.sort((a, b) =>
+      a.severity === b.severity ? 0 : a.severity === 'ERROR' ? -1 : 1,
+    );
+
+    return {
+      result: hasErrors ? 'FAIL' : 'OK',
+      diagnostics: diagnostics.slice(0, maxResults),
+      truncated: diagnostics.length > maxResults,
+    };
+  }
+
+  private collect(input: unknown): ValidationDiagnostic[] {
+    const diagnostics: ValidationDiagnostic[] = [];
+    const report: Reporter = (severity, code, message, location) =>
+      diagnostics.push({ severity, code, message, location });
+
+    let definition = input;
+    if (typeof input === 'string') {
+      try {
+        definition = JSON.parse(input);
+      } catch (error) {
+        report(
+          'ERROR',
+          'INVALID_JSON_DESCRIPTION',
+          error instanceof Error ? error.message : 'Definition is not JSON',
+        );
+        return diagnostics;
+      }
+    }
+
+    if (!isObject(definition)) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'Definition must be a JSON object.',
+      );
+      return diagnostics;
+    }
+
+    Object.keys(definition).forEach((field) => {
+      if (!TOP_LEVEL_FIELDS.includes(field)) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          `Field "${field}" is not supported at the top level.`,
+          pointer(field),
+        );
+      }
+    });
+
+    const queryLanguage = definition.QueryLanguage;
+    if (
+      queryLanguage !== undefined &&
+      queryLanguage !== 'JSONPath' &&
+      queryLanguage !== 'JSONata'
+    ) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'QueryLanguage must be "JSONPath" or "JSONata".',
+        pointer('QueryLanguage'),
+      );
+    }
+    if (
+      definition.TimeoutSeconds !== undefined &&
+      !(
+        Number.isInteger(definition.TimeoutSeconds) &&
+        (definition.TimeoutSeconds as number) > 0
+      )
+    ) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'TimeoutSeconds must be a positive integer.',
+        pointer('TimeoutSeconds'),
+      );
+    }
+
+    this.checkScope(
+      definition,
+      '',
+      queryLanguage === 'JSONata' ? 'JSONata' : 'JSONPath',
+      new Set(),
+      report,
+    );
+
+    const size = Buffer.byteLength(JSON.stringify(definition), 'utf8');
+    if (size > MAX_DEFINITION_BYTES) {
+      report(
+        'ERROR',
+        'DEFINITION_TOO_LARGE',
+        `Definition is ${size} bytes; the maximum is ${MAX_DEFINITION_BYTES}.`,
+      );
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Validates StartAt/States of the top level, a Parallel branch or a Map item
+   * processor, then recurses into nested scopes.
+   */
+  private checkScope(
+    scope: JsonObject,
+    location: string,
+    language: QueryLanguage,
+    seenNames: Set<string>,
+    report: Reporter,
+  ) {
+    const states = scope.States;
+    if (!isObject(states) || Object.keys(states).length === 0) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'States must be an object with at least one state.',
+        `${location}/States`,
+      );
+      return;
+    }
+    const names = new Set(Object.keys(states));
+
+    if (typeof scope.StartAt !== 'string') {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'StartAt must be a string.',
+        `${location}/StartAt`,
+      );
+    } else if (!names.has(scope.StartAt)) {
+      report(
+        'ERROR',
+        'MISSING_TRANSITION_TARGET',
+        `StartAt "${scope.StartAt}" does not match any state.`,
+        `${location}/StartAt`,
+      );
+    }
+
+    // Reachability: every state must be reachable from StartAt
+    const transitions = new Map<string, string[]>();
+
+    Object.entries(states).forEach(([name, state]) => {
+      const stateLocation = `${location}/States${pointer(name)}`;
+
+      if (seenNames.has(name)) {
+        report(
+          'ERROR',
+          'DUPLICATE_STATE_NAME',
+          `State name "${name}" is used more than once in the state machine.`,
+          stateLocation,
+        );
+      }
+      seenNames.add(name);
+
+      if (name.length > MAX_STATE_NAME_LENGTH) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          `State names are limited to ${MAX_STATE_NAME_LENGTH} characters.`,
+          stateLocation,
+        );
+      }
+
+      if (!isObject(state)) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          'A state must be a JSON object.',
+          stateLocation,
+        );
+        return;
+      }
+
+      transitions.set(
+        name,
+        this.checkState(state, stateLocation, names, language, report),
+      );
+
+      const stateLanguage: QueryLanguage =
+        state.QueryLanguage === 'JSONata' ? 'JSONata' : language;
+      if (state.Type === 'Parallel' && Array.isArray(state.Branches)) {
+        state.Branches.forEach((branch: unknown, index) => {
+          if (isObject(branch)) {
+            this.checkScope(
+              branch,
+              `${stateLocation}/Branches/${index}`,
+              stateLanguage,
+              seenNames,
+              report,
+            );
+          }
+        });
+      }
+      if (state.Type === 'Map') {
+        const field = state.ItemProcessor ? 'ItemProcessor' : 'Iterator';
+        const processor = state[field];
+        if (isObject(processor)) {
+          this.checkScope(
+            processor,
+            `${stateLocation}/${field}`,
+            stateLanguage,
+            seenNames,
+            report,
+          );
+        } else {
+          report(
+            'ERROR',
+            'SCHEMA_VALIDATION_FAILED',
+            'Map states need an ItemProcessor.',
+            `${stateLocation}/ItemProcessor`,
+          );
+        }
+      }
+    });
+
+    if (typeof scope.StartAt === 'string' && names.has(scope.StartAt)) {
+      const reachable = new Set([scope.StartAt]);
+      const queue = [scope.StartAt];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        (transitions.get(current) || []).forEach((target) => {
+          if (names.has(target) && !reachable.has(target)) {
+            reachable.add(target);
+            queue.push(target);
+          }
+        });
+      }
+      names.forEach((name) => {
+        if (!reachable.has(name)) {
+          report(
+            'ERROR',
+            'UNREACHABLE_STATE',
+            `State "${name}" is not reachable from StartAt.`,
+            `${location}/States${pointer(name)}`,
+          );
+        }
+      });
+    }
+
+    const hasTerminal = Object.values(states).some(
+      (state) =>
+        isObject(state) &&
+        (state.End === true || TERMINAL_TYPES.includes(state.Type as string)),
+    );
+    if (!hasTerminal) {
+      report(
+        'ERROR',
+        'NO_TERMINAL_STATE',
+        'No state ends the workflow: add End: true, a Succeed or a Fail state.',
+        `${location}/States`,
+      );
+    }
+  }
+
+  /**
+   * Validates one state and returns the names it can transition to.
+   */
+  private checkState(
+    state: JsonObject,
+    location: string,
+    scopeNames: Set<string>,
+    language: QueryLanguage,
+    report: Reporter,
+  ): string[] {
+    const type = state.Type;
+    const allowed = typeof type === 'string' ? ALLOWED_FIELDS[type] : undefined;
+    if (!allowed) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        `Unknown state type "${String(type)}".`,
+        `${location}/Type`,
+      );
+      return [];
+    }
+
+    const stateLanguage: QueryLanguage =
+      state.QueryLanguage === 'JSONata' ? 'JSONata' : language;
+    Object.keys(state).forEach((field) => {
+      if (!COMMON_FIELDS.includes(field) && !allowed.includes(field)) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          `Field "${field}" is not supported in a ${String(type)} state.`,
+          `${location}${pointer(field)}`,
+        );
+      } else if (
+        stateLanguage === 'JSONata' &&
+        JSONPATH_ONLY_FIELDS.includes(field)
+      ) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          `Field "${field}" cannot be used when QueryLanguage is JSONata.`,
+          `${location}${pointer(field)}`,
+        );
+      } else if (
+        stateLanguage === 'JSONPath' &&
+        JSONATA_ONLY_FIELDS.includes(field)
+      ) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          `Field "${field}" requires QueryLanguage JSONata.`,
+          `${location}${pointer(field)}`,
+        );
+      }
+    });
+
+    const targets: string[] = [];
+    const checkTarget = (target: unknown, at: string) => {
+      if (typeof target !== 'string') return;
+      targets.push(target);
+      if (!scopeNames.has(target)) {
+        report(
+          'ERROR',
+          'MISSING_TRANSITION_TARGET',
+          `Missing 'Next' target: ${target}`,
+          at,
+        );
+      }
+    };
+
+    if (type !== 'Choice' && !TERMINAL_TYPES.includes(type as string)) {
+      if (state.Next !== undefined && state.End !== undefined) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          'A state cannot have both Next and End.',
+          location,
+        );
+      } else if (state.Next === undefined && state.End !== true) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          'State must have either Next or End: true.',
+          location,
+        );
+      }
+      checkTarget(state.Next, `${location}/Next`);
+    }
+
+    switch (type) {
+      case 'Task':
+        this.checkTask(state, location, report);
+        break;
+      case 'Choice':
+        if (!Array.isArray(state.Choices) || state.Choices.length === 0) {
+          report(
+            'ERROR',
+            'SCHEMA_VALIDATION_FAILED',
+            'Choice states need a non-empty Choices array.',
+            `${location}/Choices`,
+          );
+        } else {
+          state.Choices.forEach((rule: unknown, index) => {
+            const at = `${location}/Choices/${index}`;
+            if (!isObject(rule) || typeof rule.Next !== 'string') {
+              report(
+                'ERROR',
+                'SCHEMA_VALIDATION_FAILED',
+                'Each Choice rule needs a Next state.',
+                at,
+              );
+              return;
+            }
+            checkTarget(rule.Next, `${at}/Next`);
+          });
+        }
+        checkTarget(state.Default, `${location}/Default`);
+        break;
+      case 'Wait':
+        this.checkWait(state, location, report);
+        break;
+      case 'Fail':
+        [
+          ['Error', 'ErrorPath'],
+          ['Cause', 'CausePath'],
+        ].forEach(([literal, path]) => {
+          if (state[literal] !== undefined && state[path] !== undefined) {
+            report(
+              'ERROR',
+              'SCHEMA_VALIDATION_FAILED',
+              `Use either ${literal} or ${path}, not both.`,
+              `${location}/${path}`,
+            );
+          }
+        });
+        break;
+      case 'Parallel':
+        if (!Array.isArray(state.Branches) || state.Branches.length === 0) {
+          report(
+            'ERROR',
+            'SCHEMA_VALIDATION_FAILED',
+            'Parallel states need a non-empty Branches array.',
+            `${location}/Branches`,
+          );
+        }
+        break;
+    }
+
+    this.checkErrorHandling(state, location, checkTarget, report);
+    if (stateLanguage === 'JSONPath') {
+      this.checkPaths(state, location, report);
+    } else {
+      this.checkJsonata(state, location, report);
+    }
+
+    return targets;
+  }
+
+  private checkTask(state: JsonObject, location: string, report: Reporter) {
+    if (typeof state.Resource !== 'string' || !state.Resource) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'Task states need a Resource ARN.',
+        `${location}/Resource`,
+      );
+    } else if (!state.Resource.startsWith('arn:')) {
+      report(
+        'ERROR',
+        'INVALID_RESOURCE',
+        `Resource "${state.Resource}" is not an ARN.`,
+        `${location}/Resource`,
+      );
+    }
+
+    ['TimeoutSeconds', 'HeartbeatSeconds'].forEach((field) => {
+      const value = state[field];
+      if (
+        value !== undefined &&
+        !isJsonata(value) &&
+        !(Number.isInteger(value) && (value as number) > 0)
+      ) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          `${field} must be a positive integer.`,
+          `${location}/${field}`,
+        );
+      }
+    });
+    if (
+      typeof state.TimeoutSeconds === 'number' &&
+      typeof state.HeartbeatSeconds === 'number' &&
+      state.HeartbeatSeconds >= state.TimeoutSeconds
+    ) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'HeartbeatSeconds must be smaller than TimeoutSeconds.',
+        `${location}/HeartbeatSeconds`,
+      );
+    }
+  }
+
+  private checkWait(state: JsonObject, location: string, report: Reporter) {
+    const present = WAIT_FIELDS.filter((field) => state[field] !== undefined);
+    if (present.length !== 1) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'A Wait state needs exactly one of Seconds, Timestamp, SecondsPath or TimestampPath.',
+        location,
+      );
+      return;
+    }
+
+    const field = present[0];
+    const value = state[field];
+    if (isJsonata(value)) return;
+    if (
+      field === 'Seconds' &&
+      !(Number.isInteger(value) && (value as number) >= 0)
+    ) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'Seconds must be a non-negative integer.',
+        `${location}/Seconds`,
+      );
+    }
+    if (
+      field === 'Timestamp' &&
+      (typeof value !== 'string' || !TIMESTAMP_PATTERN.test(value))
+    ) {
+      report(
+        'ERROR',
+        'SCHEMA_VALIDATION_FAILED',
+        'Timestamp must be an ISO 8601 date-time such as 2026-01-01T00:00:00Z.',
+        `${location}/Timestamp`,
+      );
+    }
+  }
+
+  private checkErrorHandling(
+    state: JsonObject,
+    location: string,
+    checkTarget: (target: unknown, at: string) => void,
+    report: Reporter,
+  ) {
+    (['Retry', 'Catch'] as const).forEach((field) => {
+      const entries = state[field];
+      if (entries === undefined) return;
+      if (!Array.isArray(entries)) {
+        report(
+          'ERROR',
+          'SCHEMA_VALIDATION_FAILED',
+          `${field} must be an array.`,
+          `${location}/${field}`,
+        );
+        return;
+      }
+
+      entries.forEach((entry: unknown, index) => {
+        const at = `${location}/${field}/${index}`;
+        if (
+          !isObject(entry) ||
+          !Array.isArray(entry.ErrorEquals) ||
+          entry.ErrorEquals.length === 0
+        ) {
+          report(
+            'ERROR',
+            'SCHEMA_VALIDATION_FAILED',
+            `Each ${field === 'Retry' ? 'retrier' : 'catcher'} needs a non-empty ErrorEquals.`,
+            `${at}/ErrorEquals`,
+          );
+          return;
+        }
+        // States.ALL must appear alone and in the last retrier/catcher
+        if (
+          entry.ErrorEquals.includes('States.ALL') &&
+          (entry.ErrorEquals.length > 1 || index !== entries.length - 1)
+        ) {
+          report(
+            'ERROR',
+            'SCHEMA_VALIDATION_FAILED',
+            'States.ALL must appear alone in the last entry.',
+            `${at}/ErrorEquals`,
+          );
+        }
+        if (field === 'Catch') {
+          if (typeof entry.Next !== 'string') {
+            report(
+              'ERROR',
+              'SCHEMA_VALIDATION_FAILED',
+              'Each catcher needs a Next state.',
+              `${at}/Next`,
+            );
+          }
+          checkTarget(entry.Next, `${at}/Next`);
+        }
+      });
+    });
+  }
+
+  private checkPaths(state: JsonObject, location: string, report: Reporter) {
+    ['InputPath', 'OutputPath', 'ResultPath'].forEach((field) => {
+      const value = state[field];
+      if (value === undefined || value === null) return;
+      const error =
+        typeof value === 'string'
+          ? checkPath(value, field === 'ResultPath')
+          : `${field} must be a string or null.`;
+      if (error) {
+        report(
+          'ERROR',
+          'INVALID_JSON_PATH',
+          `${field}: ${error}`,
+          `${location}/${field}`,
+        );
+      }
+    });
+
+    // Keys ending in ".$" must hold a path or an intrinsic function
+    const visit = (value: unknown, at: string) => {
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${at}/${index}`));
+        return;
+      }
+      if (!isObject(value)) return;
+      Object.entries(value).forEach(([key, child]) => {
+        const childAt = `${at}${pointer(key)}`;
+        if (!key.endsWith('.$')) {
+          visit(child, childAt);
+          return;
+        }
+        const error =
+          typeof child !== 'string'
+            ? 'Fields ending in ".$" must hold a path or intrinsic function string.'
+            : child.startsWith('States.')
+              ? null
+              : checkPath(child);
+        if (error) {
+          report('ERROR', 'INVALID_JSON_PATH', `${key}: ${error}`, childAt);
+        }
+      });
+    };
+    ['Parameters', 'ResultSelector', 'ItemSelector', 'Assign'].forEach(
+      (field) => visit(state[field], `${location}/${field}`),
+    );
+  }
+
+  private checkJsonata(state: JsonObject, location: string, report: Reporter) {
+    const visit = (value: unknown, at: string) => {
+      if (typeof value === 'string') {
+        if (value.trim().startsWith('{%') && !value.trim().endsWith('%}')) {
+          report(
+            'ERROR',
+            'INVALID_JSONATA',
+            'JSONata expressions must be wrapped in {% %}.',
+            at,
+          );
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${at}/${index}`));
+      } else if (isObject(value)) {
+        Object.entries(value).forEach(([key, child]) =>
+          visit(child, `${at}${pointer(key)}`),
+        );
+      }
+    };
+    ['Arguments', 'Output', 'Assign', 'ItemSelector', 'Items'].forEach(
+      (field) => visit(state[field], `${location}/${field}`),
+    );
+  }
+}
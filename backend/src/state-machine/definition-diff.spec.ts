@@ -0,0 +1,68 @@
+import { diffDefinitions } from './definition-diff';
+
+describe('diffDefinitions', () => {
+  it('reports added, removed and changed states, including nested ones', () => {
+    const from = {
+      Comment: 'v1',
+      StartAt: 'Fan out',
+      States: {
+        'Fan out': {
+          Type: 'Parallel',
+          Branches: [
+            {
+              StartAt: 'Charge',
+              States: { Charge: { Type: 'Pass', Result: 1, End: true } },
+            },
+          ],
+          Next: 'Notify',
+        },
+        Notify: { Type: 'Pass', End: true },
+      },
+    };
+    const to = {
+      Comment: 'v2',
+      StartAt: 'Fan out',
+      States: {
+        'Fan out': {
+          Type: 'Parallel',
+          Branches: [
+            {
+              StartAt: 'Charge',
+              States: { Charge: { Type: 'Pass', Result: 2, End: true } },
+            },
+          ],
+          Next: 'Audit',
+        },
+        Audit: { Type: 'Succeed' },
+      },
+    };
+
+    expect(diffDefinitions(from, to)).toEqual({
+      added: ['Audit'],
+      removed: ['Notify'],
+      changed: [
+        { state: 'Fan out', fields: ['Next'] },
+        { state: 'Charge', fields: ['Result'] },
+      ],
+      definitionFields: ['Comment'],
+    });
+  });
+
+  it('ignores key order', () => {
+    const definition = {
+      StartAt: 'A',
+      States: { A: { Type: 'Pass', Result: { x: 1, y: 2 }, End: true } },
+    };
+    const reordered = {
+      States: { A: { End: true, Result: { y: 2, x: 1 }, Type: 'Pass' } },
+      StartAt: 'A',
+    };
+
+    expect(diffDefinitions(definition, reordered)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+      definitionFields: [],
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { isDeepStrictEqual } from 'util';
+
+export interface ChangedState {
+  state: string;
+  // Top-level fields of the state that differ, e.g. ["Next", "Parameters"]
+  fields: string[];
+}
+
+/**
+ * State-level difference between two ASL definitions. States are matched by name,
+ * which is unique across a whole state machine, including Parallel branches and Map processors.
+ */
+export interface DefinitionDiff {
+  added: string[];
+  removed: string[];
+  changed: ChangedState[];
+  // Definition-level fields that differ, e.g. StartAt, Comment, TimeoutSeconds
+  definitionFields: string[];
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withoutStates(scope: unknown): unknown {
+  if (!isObject(scope)) return scope;
+  const rest = { ...scope };
+  delete rest.States;
+  return rest;
+}
+
+/**
+ * Flattens every state of the definition by name. Nested scopes are compared
+ * state by state, so a Parallel or Map state only keeps its branch/processor settings.
+ */
+function collectStates(scope: unknown, states: Map<string, Json> = new Map()) {
+  if (!isObject(scope) || !isObject(scope.States)) {
+    return states;
+  }
+
+  for (const [name, state] of Object.entries(scope.States)) {
+    if (!isObject(state)) continue;
+
+    const comparable: Json = { ...state };
+    states.set(name, comparable);
+    if (Array.isArray(state.Branches)) {
+      comparable.Branches = state.Branches.map(withoutStates);
+      state.Branches.forEach((branch) => collectStates(branch, states));
+    }
+    for (const key of ['ItemProcessor', 'Iterator']) {
+      if (isObject(state[key])) {
+        comparable[key] = withoutStates(state[key]);
+        collectStates(state[key], states);
+      }
+    }
+  }
+
+  return states;
+}
+
+function changedFields(from: Json, to: Json): string[] {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  return [...keys]
+    .filter((key) => !isDeepStrictEqual(from[key], to[key]))
+    .sort();
+}
+
+export function diffDefinitions(from: unknown, to: unknown): DefinitionDiff {
+  const fromStates = collectStates(from);
+  const toStates = collectStates(to);
+
+  const added = [...toStates.keys()].filter((name) => !fromStates.has(name));
+  const removed = [...fromStates.keys()].filter((name) => !toStates.has(name));
+  const changed: ChangedState[] = [];
+  for (const [name, state] of toStates) {
+    const previous = fromStates.get(name);
+    if (!previous) continue;
+    const fields = changedFields(previous, state);
+    if (fields.length) {
+      changed.push({ state: name, fields });
+    }
+  }
+
+  return {
+    added,
+    removed,
+    changed,
+    definitionFields: changedFields(
+      (withoutStates(from) as Json) || {},
+      (withoutStates(to) as Json) || {},
+    ),
+  };
+}
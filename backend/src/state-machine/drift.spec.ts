@@ -0,0 +1,69 @@
+import { compareStateMachine, definitionHash } from './drift';
+import { StateMachine } from './entities/state-machine.entity';
+
+describe('compareStateMachine', () => {
+  const definition = {
+    StartAt: 'Done',
+    States: { Done: { Type: 'Pass', End: true } },
+  };
+  const stateMachine = Object.assign(new StateMachine(), {
+    definition,
+    roleArn: 'arn:aws:iam::123456789012:role/StepFunctions',
+    type: 'STANDARD',
+    status: 'ACTIVE',
+    loggingConfiguration: null,
+    tracingConfiguration: null,
+  });
+  const described = {
+    $metadata: {},
+    stateMachineArn: 'arn:aws:states:us-east-1:123456789012:stateMachine:Demo',
+    name: 'Demo',
+    // Key order and formatting of the AWS copy do not count as drift
+    definition:
+      '{\n  "States": {"Done": {"End": true, "Type": "Pass"}},\n  "StartAt": "Done"\n}',
+    roleArn: 'arn:aws:iam::123456789012:role/StepFunctions',
+    type: 'STANDARD' as const,
+    status: 'ACTIVE' as const,
+    creationDate: new Date(),
+    loggingConfiguration: {
+      level: 'OFF' as const,
+      includeExecutionData: false,
+      destinations: [],
+    },
+    tracingConfiguration: { enabled: false },
+  };
+
+  it('reports no drift when AWS matches the database', () => {
+    expect(compareStateMachine(stateMachine, described)).toEqual([]);
+  });
+
+  it('reports the fields changed outside the app', () => {
+    const changed = {
+      ...described,
+      definition: JSON.stringify({
+        StartAt: 'Done',
+        States: { Done: { Type: 'Succeed' } },
+      }),
+      roleArn: 'arn:aws:iam::123456789012:role/Other',
+      tracingConfiguration: { enabled: true },
+    };
+
+    expect(compareStateMachine(stateMachine, changed)).toEqual([
+      {
+        field: 'definition',
+        database: definitionHash(definition),
+        aws: definitionHash(JSON.parse(changed.definition)),
+      },
+      {
+        field: 'roleArn',
+        database: 'arn:aws:iam::123456789012:role/StepFunctions',
+        aws: 'arn:aws:iam::123456789012:role/Other',
+      },
+      {
+        field: 'tracingConfiguration',
+        database: { enabled: false },
+        aws: { enabled: true },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import {
+  DescribeStateMachineCommandOutput,
+  ExecutionListItem,
+} from '@aws-sdk/client-sfn';
+import { StateMachine } from './entities/state-machine.entity';
+import { Execution } from './entities/execution.entity';
+
+/**
+ * One field that differs between a database row and what AWS reports.
+ * Definitions are compared by hash, so `database` and `aws` hold the two hashes.
+ */
+export interface DriftDifference {
+  field: string;
+  database: unknown;
+  aws: unknown;
+}
+
+export type DriftStatus = 'IN_SYNC' | 'DRIFTED' | 'DELETED_IN_AWS' | 'ERROR';
+
+export interface ExecutionDrift {
+  executionArn: string;
+  name: string | null;
+  // Tracked execution that AWS no longer lists
+  missingInAws: boolean;
+  differences: DriftDifference[];
+}
+
+export interface StateMachineDrift {
+  id: string;
+  name: string;
+  stateMachineArn: string;
+  drift: DriftStatus;
+  differences: DriftDifference[];
+  // Only the executions that differ
+  executions: ExecutionDrift[];
+  // Executions AWS lists that the database does not track
+  untrackedExecutions: number;
+  error: string | null;
+}
+
+// What AWS reports when logging or tracing was never configured
+const DEFAULT_LOGGING_CONFIGURATION = {
+  level: 'OFF',
+  includeExecutionData: false,
+  destinations: [],
+};
+const DEFAULT_TRACING_CONFIGURATION = { enabled: false };
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// JSON with object keys sorted, so formatting and key order do not change the hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function definitionHash(definition: unknown): string {
+  return createHash('sha256').update(canonicalJson(definition)).digest('hex');
+}
+
+// Fills in the defaults AWS reports, so an unset configuration matches the AWS one
+function withDefaults(configuration: unknown, defaults: Json): Json {
+  return { ...defaults, ...(isObject(configuration) ? configuration : {}) };
+}
+
+/**
+ * Fields of a tracked state machine that differ from its DescribeStateMachine output.
+ * Tags are left out: DescribeStateMachine does not return them.
+ */
+export function compareStateMachine(
+  stateMachine: StateMachine,
+  described: DescribeStateMachineCommandOutput,
+): DriftDifference[] {
+  let awsDefinition: unknown;
+  try {
+    awsDefinition = JSON.parse(described.definition || '{}');
+  } catch {
+    awsDefinition = described.definition;
+  }
+
+  const differences: DriftDifference[] = [];
+  const compare = (field: string, database: unknown, aws: unknown) => {
+    if (!isDeepStrictEqual(database, aws)) {
+      differences.push({ field, database, aws });
+    }
+  };
+
+  const databaseHash = definitionHash(stateMachine.definition);
+  const awsHash = definitionHash(awsDefinition);
+  if (databaseHash !== awsHash) {
+    differences.push({
+      field: 'definition',
+      database: databaseHash,
+      aws: awsHash,
+    });
+  }
+  compare('roleArn', stateMachine.roleArn ?? null, described.roleArn ?? null);
+  compare('type', stateMachine.type, described.type ?? null);
+  compare('status', stateMachine.status, described.status ?? null);
+  compare(
+    'loggingConfiguration',
+    withDefaults(
+      stateMachine.loggingConfiguration,
+      DEFAULT_LOGGING_CONFIGURATION,
+    ),
+    withDefaults(described.loggingConfiguration, DEFAULT_LOGGING_CONFIGURATION),
+  );
+  compare(
+    'tracingConfiguration',
+    withDefaults(
+      stateMachine.tracingConfiguration,
+      DEFAULT_TRACING_CONFIGURATION,
+    ),
+    withDefaults(described.tracingConfiguration, DEFAULT_TRACING_CONFIGURATION),
+  );
+  return differences;
+}
+
+// Fields of a tracked execution that differ from its ListExecutions entry
+export function compareExecution(
+  execution: Execution,
+  listed: ExecutionListItem,
+): DriftDifference[] {
+  const differences: DriftDifference[] = [];
+  if (execution.status !== listed.status) {
+    differences.push({
+      field: 'status',
+      database: execution.status,
+      aws: listed.status ?? null,
+    });
+  }
+  const databaseStop = execution.awsStopDate?.getTime() ?? null;
+  const awsStop = listed.stopDate?.getTime() ?? null;
+  if (databaseStop !== awsStop) {
+    differences.push({
+      field: 'stopDate',
+      database: execution.awsStopDate,
+      aws: listed.stopDate ?? null,
+    });
+  }
+  if (execution.redriveCount !== (listed.redriveCount ?? 0)) {
+    differences.push({
+      field: 'redriveCount',
+      database: execution.redriveCount,
+      aws: listed.redriveCount ?? 0,
+    });
+  }
+  return differences;
+}
@@ -1,4 +1,8 @@
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  EXECUTION_BACKENDS,
+  type ExecutionBackendName,
+} from '../execution/execution-backend';
 
 export class CreateStateMachineDto {
   @ApiProperty({
@@ -29,5 +33,34 @@ export class CreateStateMachineDto {
     required: false,
   })
   roleArn?: string;
-}
 
+  @ApiProperty({
+    description:
+      'Where to create the state machine: "aws" (Step Functions) or "local" (database only, run with the local backend). Defaults to "aws", whatever EXECUTION_BACKEND is.',
+    enum: EXECUTION_BACKENDS,
+    required: false,
+  })
+  backend?: ExecutionBackendName;
+
+  @ApiProperty({
+    description:
+      'Connection profile to deploy with; the state machine keeps using it afterwards. Defaults to the default profile.',
+    example: 'staging',
+    required: false,
+  })
+  connectionProfile?: string;
+
+  @ApiProperty({
+    description: 'Who made this change, stored with the recorded version',
+    example: 'jane@example.com',
+    required: false,
+  })
+  author?: string;
+
+  @ApiProperty({
+    description: 'Description of this change, stored with the recorded version',
+    example: 'Retry the payment task on throttling',
+    required: false,
+  })
+  message?: string;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImportStateMachinesDto {
+  @ApiProperty({
+    description:
+      'ARNs of the state machines to import, as listed by GET /state-machines/import',
+    example: [
+      'arn:aws:states:us-east-1:123456789012:stateMachine:OrderProcessing',
+    ],
+    type: [String],
+  })
+  stateMachineArns: string[];
+
+  @ApiProperty({
+    description:
+      'Connection profile of the account the state machines live in. Defaults to the default profile.',
+    example: 'staging',
+    required: false,
+  })
+  connectionProfile?: string;
+
+  @ApiProperty({
+    description:
+      'Who imported the state machines, stored with their first version',
+    example: 'jane@example.com',
+    required: false,
+  })
+  author?: string;
+}
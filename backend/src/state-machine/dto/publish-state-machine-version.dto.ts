@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PublishStateMachineVersionDto {
+  @ApiProperty({
+    description: 'Description of the published version',
+    example: 'Adds retries to the payment task',
+    required: false,
+  })
+  description?: string;
+}
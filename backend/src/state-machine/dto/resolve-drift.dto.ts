@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResolveDriftDto {
+  @ApiProperty({
+    description: 'Who resolved the drift, stored with the recorded version',
+    example: 'jane@example.com',
+    required: false,
+  })
+  author?: string;
+
+  @ApiProperty({
+    description:
+      'Description stored with the recorded version. Defaults to "Pulled from AWS" or "Pushed to resolve drift".',
+    example: 'Keep the hotfix made in the console',
+    required: false,
+  })
+  message?: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RollbackStateMachineDto {
+  @ApiProperty({
+    description: 'Who triggered the rollback, stored with the new version',
+    example: 'jane@example.com',
+    required: false,
+  })
+  author?: string;
+
+  @ApiProperty({
+    description:
+      'Description stored with the new version. Defaults to "Rollback to version <n>".',
+    example: 'Revert the broken retry policy',
+    required: false,
+  })
+  message?: string;
+}
@@ -1,9 +1,15 @@
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  EXECUTION_BACKENDS,
+  type ExecutionBackendName,
+} from '../execution/execution-backend';
 
 export class StartExecutionDto {
   @ApiProperty({
-    description: 'ARN of the state machine to execute',
-    example: 'arn:aws:states:us-east-1:123456789012:stateMachine:MyStateMachine',
+    description:
+      'ARN of the state machine to execute, or a version/alias ARN (state machine ARN followed by ":<version>" or ":<alias>")',
+    example:
+      'arn:aws:states:us-east-1:123456789012:stateMachine:MyStateMachine',
   })
   stateMachineArn: string;
 
@@ -20,5 +26,28 @@ export class StartExecutionDto {
     required: false,
   })
   name?: string;
-}
 
+  @ApiProperty({
+    description:
+      'Where to run the execution: "aws" (Step Functions) or "local" (in-process interpreter). Defaults to EXECUTION_BACKEND.',
+    enum: EXECUTION_BACKENDS,
+    required: false,
+  })
+  backend?: ExecutionBackendName;
+
+  @ApiProperty({
+    description:
+      "Test case of the state machine's mock config that answers its Task states. Implies the local backend.",
+    example: 'RetryPath',
+    required: false,
+  })
+  mockTestCase?: string;
+
+  @ApiProperty({
+    description:
+      "Connection profile to start the execution with. Defaults to the state machine's profile (aws backend only).",
+    example: 'staging',
+    required: false,
+  })
+  connectionProfile?: string;
+}
@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AliasRouteDto {
+  @ApiProperty({
+    description: 'Published version number, or its version ARN',
+    example: 5,
+  })
+  version: number | string;
+
+  @ApiProperty({
+    description: 'Percentage of executions routed to this version (0-100)',
+    example: 90,
+  })
+  weight: number;
+}
+
+export class CreateStateMachineAliasDto {
+  @ApiProperty({
+    description: 'Alias name; letters, digits, "-" and "_", not only digits',
+    example: 'prod',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Description of the alias',
+    example: 'Production traffic',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'One or two published versions with weights adding up to 100',
+    type: [AliasRouteDto],
+    example: [
+      { version: 5, weight: 90 },
+      { version: 6, weight: 10 },
+    ],
+  })
+  routingConfiguration: AliasRouteDto[];
+}
+
+export class UpdateStateMachineAliasDto {
+  @ApiProperty({
+    description: 'New description of the alias',
+    example: 'Production traffic',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'New routing: one or two published versions with weights adding up to 100',
+    type: [AliasRouteDto],
+    example: [{ version: 6, weight: 100 }],
+    required: false,
+  })
+  routingConfiguration?: AliasRouteDto[];
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StopExecutionDto {
+  @ApiProperty({
+    description:
+      'Error code recorded on the stopped execution (up to 256 characters)',
+    example: 'Operator.Cancelled',
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({
+    description:
+      'Human-readable cause recorded on the stopped execution (up to 32768 characters)',
+    example: 'Stopped from the dashboard',
+    required: false,
+  })
+  cause?: string;
+
+  @ApiProperty({
+    description:
+      "Connection profile to stop AWS executions with. Defaults to the state machine's profile.",
+    example: 'staging',
+    required: false,
+  })
+  connectionProfile?: string;
+}
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateMockConfigDto {
+  @ApiProperty({
+    description: 'ARN of the state machine the mocks belong to',
+    example:
+      'arn:aws:states:us-east-1:123456789012:stateMachine:MyStateMachine',
+  })
+  stateMachineArn: string;
+
+  @ApiProperty({
+    description:
+      'Step Functions Local style mock config (TestCases and MockedResponses), or null to remove it',
+    example: {
+      TestCases: {
+        RetryPath: { ProcessOrder: 'FlakyLambda' },
+      },
+      MockedResponses: {
+        FlakyLambda: {
+          '0-1': {
+            Throw: {
+              Error: 'Lambda.ServiceException',
+              Cause: 'Temporary failure',
+            },
+          },
+          '2': { Return: { StatusCode: 200, Payload: { ok: true } } },
+        },
+      },
+    },
+    nullable: true,
+  })
+  mockConfig: unknown;
+}
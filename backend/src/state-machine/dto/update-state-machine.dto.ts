@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateStateMachineDto {
+  @ApiProperty({
+    description: 'New state machine definition in Amazon States Language',
+    example: {
+      Comment: 'A simple example',
+      StartAt: 'HelloWorld',
+      States: {
+        HelloWorld: {
+          Type: 'Pass',
+          Result: 'Hello World!',
+          End: true,
+        },
+      },
+    },
+    required: false,
+  })
+  definition?: unknown;
+
+  @ApiProperty({
+    description: 'New IAM Role ARN for the state machine execution',
+    example: 'arn:aws:iam::123456789012:role/StepFunctionsRole',
+    required: false,
+  })
+  roleArn?: string;
+
+  @ApiProperty({
+    description: 'CloudWatch Logs configuration, as in UpdateStateMachine',
+    example: {
+      level: 'ERROR',
+      includeExecutionData: false,
+      destinations: [
+        {
+          cloudWatchLogsLogGroup: {
+            logGroupArn:
+              'arn:aws:logs:us-east-1:123456789012:log-group:/aws/vendedlogs/states/MyStateMachine:*',
+          },
+        },
+      ],
+    },
+    required: false,
+  })
+  loggingConfiguration?: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'X-Ray tracing configuration, as in UpdateStateMachine',
+    example: { enabled: true },
+    required: false,
+  })
+  tracingConfiguration?: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Who made this change, stored with the recorded version',
+    example: 'jane@example.com',
+    required: false,
+  })
+  author?: string;
+
+  @ApiProperty({
+    description: 'Description of this change, stored with the recorded version',
+    example: 'Retry the payment task on throttling',
+    required: false,
+  })
+  message?: string;
+}
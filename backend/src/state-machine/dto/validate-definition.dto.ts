@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ValidateDefinitionDto {
+  @ApiProperty({
+    description: 'State machine definition (ASL JSON object or string)',
+    example: {
+      StartAt: 'HelloWorld',
+      States: {
+        HelloWorld: {
+          Type: 'Pass',
+          Result: 'Hello World!',
+          Next: 'Missing',
+        },
+      },
+    },
+  })
+  definition: unknown;
+
+  @ApiProperty({
+    description: 'Maximum number of diagnostics to return',
+    example: 100,
+    required: false,
+  })
+  maxResults?: number;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Execution } from './execution.entity';
+
+// One row per history event of an execution, as returned by GetExecutionHistory
+@Entity('execution_events')
+@Unique(['executionId', 'eventId'])
+export class ExecutionEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Id of the event within the execution's history, counting up from 1
+  @Column({ type: 'int', name: 'event_id' })
+  eventId: number;
+
+  @Column({ type: 'int', nullable: true, name: 'previous_event_id' })
+  previousEventId: number | null;
+
+  // HistoryEventType, e.g. TaskStateEntered or ExecutionFailed
+  @Column({ type: 'varchar', length: 80 })
+  type: string;
+
+  @Column({ type: 'timestamp' })
+  timestamp: Date;
+
+  // The event's *EventDetails member (input, output, error, cause, resource, ...)
+  @Column({ type: 'jsonb', nullable: true })
+  details: Record<string, unknown> | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => Execution, (execution) => execution.events, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'execution_id' })
+  execution: Execution;
+
+  @Column({ type: 'uuid', name: 'execution_id' })
+  executionId: string;
+}
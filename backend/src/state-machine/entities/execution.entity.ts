@@ -5,9 +5,11 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   ManyToOne,
+  OneToMany,
   JoinColumn,
 } from 'typeorm';
 import { StateMachine } from './state-machine.entity';
+import { ExecutionEvent } from './execution-event.entity';
 
 @Entity('executions')
 export class Execution {
@@ -20,6 +22,10 @@ export class Execution {
   @Column({ type: 'varchar', length: 500, name: 'aws_state_machine_arn' })
   awsStateMachineArn: string;
 
+  // Alias name or version number when started through a qualified state machine ARN
+  @Column({ type: 'varchar', length: 80, nullable: true })
+  qualifier: string | null;
+
   @Column({ type: 'varchar', length: 255, nullable: true })
   name: string | null;
 
@@ -44,9 +50,29 @@ export class Execution {
   @Column({ type: 'timestamp', name: 'aws_stop_date', nullable: true })
   awsStopDate: Date | null;
 
+  // Times the execution was redriven from its point of failure
+  @Column({ type: 'integer', name: 'redrive_count', default: 0 })
+  redriveCount: number;
+
+  // REDRIVABLE, NOT_REDRIVABLE or REDRIVABLE_BY_MAP_RUN, as reported by AWS
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+    name: 'redrive_status',
+  })
+  redriveStatus: string | null;
+
+  @Column({ type: 'timestamp', name: 'redrive_date', nullable: true })
+  redriveDate: Date | null;
+
   @Column({ type: 'varchar', length: 500, nullable: true, name: 'trace_header' })
   traceHeader: string | null;
 
+  // Server instance running a local execution (INSTANCE_ID); null for AWS executions
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'runner_id' })
+  runnerId: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -62,5 +88,7 @@ export class Execution {
 
   @Column({ type: 'uuid', nullable: true, name: 'state_machine_id' })
   stateMachineId: string | null;
-}
 
+  @OneToMany(() => ExecutionEvent, (event) => event.execution)
+  events: ExecutionEvent[];
+}
@@ -0,0 +1,114 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { ExecutionBackendName } from '../execution/execution-backend';
+
+export interface CreateStateMachinePayload {
+  name: string;
+  definition: Record<string, unknown>;
+  roleArn: string;
+  connectionProfileId: string | null;
+  author?: string;
+  message?: string;
+}
+
+export interface CreatedStateMachine {
+  stateMachineArn: string;
+  // A string once read back from the operations table
+  creationDate?: Date | string;
+}
+
+export interface DeleteStateMachinePayload {
+  stateMachineArn: string;
+  connectionProfile: string | null;
+  connectionProfileId: string | null;
+}
+
+export interface StartExecutionPayload {
+  stateMachineArn: string;
+  stateMachineId: string;
+  qualifier: string | null;
+  name: string;
+  input: Record<string, unknown> | null;
+  backend: ExecutionBackendName;
+  connectionProfileId: string | null;
+  // Instance running a local execution; missing in operations recorded before it was
+  runnerId?: string | null;
+}
+
+export interface StartedExecutionResult {
+  executionArn: string;
+  // A string once read back from the operations table
+  startDate: Date | string;
+}
+
+// Payload and result stored for each type of operation
+export interface OperationTypes {
+  CREATE_STATE_MACHINE: {
+    payload: CreateStateMachinePayload;
+    result: CreatedStateMachine;
+  };
+  DELETE_STATE_MACHINE: {
+    payload: DeleteStateMachinePayload;
+    result: Record<string, never>;
+  };
+  START_EXECUTION: {
+    payload: StartExecutionPayload;
+    result: StartedExecutionResult;
+  };
+}
+
+export type OperationType = keyof OperationTypes;
+
+/**
+ * - PENDING: recorded, the AWS call has not returned (or its outcome was not recorded)
+ * - APPLIED: the AWS call succeeded, the database write has not completed
+ * - COMPLETED: both done
+ * - FAILED: the AWS call failed or never happened, nothing is left to track
+ */
+export type OperationStatus = 'PENDING' | 'APPLIED' | 'COMPLETED' | 'FAILED';
+
+// An AWS call and the database write that follows it, recorded before the call (outbox)
+@Entity('operations')
+export class Operation<T extends OperationType = OperationType> {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  type: T;
+
+  @Column({ type: 'varchar', length: 20, default: 'PENDING' })
+  status: OperationStatus;
+
+  // What the database write needs, e.g. the name and definition of a created state machine
+  @Column({ type: 'jsonb' })
+  payload: OperationTypes[T]['payload'];
+
+  // What AWS returned, e.g. the ARN and start date of a started execution
+  @Column({ type: 'jsonb', nullable: true })
+  result: OperationTypes[T]['result'] | null;
+
+  // Recovery attempts that failed so far
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true, name: 'last_error' })
+  lastError: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
+
+export function isOperationOf<T extends OperationType>(
+  operation: Operation,
+  type: T,
+): operation is Operation<T> {
+  return operation.type === type;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { StateMachine } from './state-machine.entity';
+
+export interface AliasRoute {
+  stateMachineVersionArn: string;
+  weight: number;
+}
+
+// Step Functions alias routing executions to one or two published versions
+@Entity('state_machine_aliases')
+@Unique(['stateMachineId', 'name'])
+export class StateMachineAlias {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 80 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'text', name: 'aws_arn' })
+  awsArn: string;
+
+  @Column({ type: 'jsonb', name: 'routing_configuration' })
+  routingConfiguration: AliasRoute[];
+
+  @Column({ type: 'timestamp', nullable: true, name: 'aws_creation_date' })
+  awsCreationDate: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @ManyToOne(() => StateMachine, (stateMachine) => stateMachine.aliases, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'state_machine_id' })
+  stateMachine: StateMachine;
+
+  @Column({ type: 'uuid', name: 'state_machine_id' })
+  stateMachineId: string;
+}
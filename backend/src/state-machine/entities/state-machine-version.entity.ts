@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { StateMachine } from './state-machine.entity';
+
+// One row per definition deployed to AWS; versions count up from 1 per state machine
+@Entity('state_machine_versions')
+@Unique(['stateMachineId', 'version'])
+export class StateMachineVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'jsonb' })
+  definition: Record<string, unknown>;
+
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'role_arn' })
+  roleArn: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  author: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  message: string | null;
+
+  // revisionId returned by UpdateStateMachine (null for the initial create)
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    name: 'aws_revision_id',
+  })
+  awsRevisionId: string | null;
+
+  // Set once this definition is published as an immutable Step Functions version
+  @Column({ type: 'text', nullable: true, name: 'aws_version_arn' })
+  awsVersionArn: string | null;
+
+  @Column({ type: 'int', nullable: true, name: 'aws_version_number' })
+  awsVersionNumber: number | null;
+
+  @Column({ type: 'timestamp', nullable: true, name: 'published_at' })
+  publishedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => StateMachine, (stateMachine) => stateMachine.versions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'state_machine_id' })
+  stateMachine: StateMachine;
+
+  @Column({ type: 'uuid', name: 'state_machine_id' })
+  stateMachineId: string;
+}
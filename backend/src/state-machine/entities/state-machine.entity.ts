@@ -5,8 +5,13 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   OneToMany,
+  ManyToOne,
+  JoinColumn,
 } from 'typeorm';
 import { Execution } from './execution.entity';
+import { StateMachineVersion } from './state-machine-version.entity';
+import { StateMachineAlias } from './state-machine-alias.entity';
+import { ConnectionProfile } from '../../connection-profile/entities/connection-profile.entity';
 
 @Entity('state_machines')
 export class StateMachine {
@@ -43,6 +48,20 @@ export class StateMachine {
   @Column({ type: 'jsonb', nullable: true })
   tags: Record<string, string> | null;
 
+  // Step Functions Local style mocked Task responses for local executions
+  @Column({ type: 'jsonb', nullable: true, name: 'mock_config' })
+  mockConfig: Record<string, unknown> | null;
+
+  @ManyToOne(() => ConnectionProfile, (profile) => profile.stateMachines, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'connection_profile_id' })
+  connectionProfile: ConnectionProfile | null;
+
+  @Column({ type: 'uuid', nullable: true, name: 'connection_profile_id' })
+  connectionProfileId: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -51,5 +70,10 @@ export class StateMachine {
 
   @OneToMany(() => Execution, (execution) => execution.stateMachine)
   executions: Execution[];
-}
 
+  @OneToMany(() => StateMachineVersion, (version) => version.stateMachine)
+  versions: StateMachineVersion[];
+
+  @OneToMany(() => StateMachineAlias, (alias) => alias.stateMachine)
+  aliases: StateMachineAlias[];
+}
@@ -0,0 +1,125 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+import { Execution } from './entities/execution.entity';
+import { ExecutionHistoryEvent } from './execution/execution-history';
+
+// Keeps idle connections open through proxies that close silent ones
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export interface ExecutionStatusMessage {
+  executionArn: string;
+  stateMachineArn: string;
+  name: string | null;
+  qualifier: string | null;
+  status: string;
+  startDate: Date | null;
+  stopDate: Date | null;
+  error: string | null;
+  cause: string | null;
+  redriveCount: number;
+}
+
+export interface ExecutionEventMessage {
+  executionArn: string;
+  stateMachineArn: string;
+  event: ExecutionHistoryEvent;
+}
+
+type StreamMessage =
+  | { type: 'execution-status'; data: ExecutionStatusMessage }
+  | { type: 'execution-event'; data: ExecutionEventMessage };
+
+export interface ExecutionStreamFilter {
+  executionArn?: string;
+  stateMachineArn?: string;
+}
+
+function toStatusMessage(execution: Execution): StreamMessage {
+  return {
+    type: 'execution-status',
+    data: {
+      executionArn: execution.awsExecutionArn,
+      stateMachineArn: execution.awsStateMachineArn,
+      name: execution.name,
+      qualifier: execution.qualifier,
+      status: execution.status,
+      startDate: execution.awsStartDate,
+      stopDate: execution.awsStopDate,
+      error: execution.error,
+      cause: execution.cause,
+      redriveCount: execution.redriveCount,
+    },
+  };
+}
+
+/**
+ * Pushes execution status changes and history events to Server-Sent Events clients,
+ * for one execution or every execution of a state machine.
+ * StateMachineService and the execution backends publish whatever they record;
+ * ExecutionSyncService follows the AWS executions that have a subscriber.
+ */
+@Injectable()
+export class ExecutionStreamService {
+  private readonly messages = new Subject<StreamMessage>();
+  // Open streams by execution ARN or state machine ARN
+  private readonly subscribers = new Map<string, number>();
+
+  publishStatus(execution: Execution) {
+    this.messages.next(toStatusMessage(execution));
+  }
+
+  publishEvents(
+    executionArn: string,
+    stateMachineArn: string,
+    events: ExecutionHistoryEvent[],
+  ) {
+    events.forEach((event) =>
+      this.messages.next({
+        type: 'execution-event',
+        data: { executionArn, stateMachineArn, event },
+      }),
+    );
+  }
+
+  // A stream of one execution starts with its current status
+  stream(
+    { executionArn, stateMachineArn }: ExecutionStreamFilter,
+    current?: Execution,
+  ): Observable<MessageEvent> {
+    const key = executionArn || stateMachineArn || '';
+    return new Observable<MessageEvent>((subscriber) => {
+      this.subscribers.set(key, (this.subscribers.get(key) ?? 0) + 1);
+      if (current) {
+        subscriber.next(toStatusMessage(current));
+      }
+
+      const subscription = merge(
+        this.messages.pipe(
+          filter(({ data }) =>
+            executionArn
+              ? data.executionArn === executionArn
+              : data.stateMachineArn === stateMachineArn,
+          ),
+        ),
+        interval(HEARTBEAT_INTERVAL_MS).pipe(
+          map((): MessageEvent => ({ type: 'heartbeat', data: '' })),
+        ),
+      ).subscribe(subscriber);
+
+      return () => {
+        subscription.unsubscribe();
+        const count = (this.subscribers.get(key) ?? 1) - 1;
+        if (count > 0) {
+          this.subscribers.set(key, count);
+        } else {
+          this.subscribers.delete(key);
+        }
+      };
+    });
+  }
+
+  // ARNs of the executions and state machines that clients stream
+  streamedArns(): string[] {
+    return [...this.subscribers.keys()];
+  }
+}
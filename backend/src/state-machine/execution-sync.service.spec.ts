@@ -0,0 +1,221 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ExecutionSyncService } from './execution-sync.service';
+import { ExecutionStreamService } from './execution-stream.service';
+import { StateMachineService } from './state-machine.service';
+import { LocalExecutionBackend } from './execution/local-execution.backend';
+import { StateMachine } from './entities/state-machine.entity';
+import { Execution } from './entities/execution.entity';
+import { InMemoryRepository } from '../common/testing/in-memory-repository';
+
+const stateMachineArn =
+  'arn:aws:states:us-east-1:123456789012:stateMachine:Pay';
+const executionArn = (name: string) =>
+  `arn:aws:states:us-east-1:123456789012:execution:Pay:${name}`;
+const localExecutionArn = (name: string) =>
+  `arn:aws:states:local:123456789012:execution:Pay:${name}`;
+
+const throttled = Object.assign(new Error('Rate exceeded'), {
+  name: 'ThrottlingException',
+});
+
+// Passes run every 6 seconds: ticks come every 2 seconds and a pass is due 5 seconds after the last one
+const INTERVAL_MS = 5000;
+
+describe('ExecutionSyncService', () => {
+  let service: ExecutionSyncService;
+  let stateMachines: InMemoryRepository;
+  let executions: InMemoryRepository;
+  let syncExecutionStatus: jest.Mock;
+  let discoverExecutions: jest.Mock;
+  let followExecution: jest.Mock;
+  let streamed: string[];
+  let publishStatus: jest.Mock;
+  let runningHere: Set<string>;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    stateMachines = new InMemoryRepository();
+    executions = new InMemoryRepository();
+    syncExecutionStatus = jest.fn().mockResolvedValue(undefined);
+    discoverExecutions = jest.fn().mockResolvedValue([]);
+    followExecution = jest.fn().mockResolvedValue(undefined);
+    streamed = [];
+    publishStatus = jest.fn();
+    runningHere = new Set();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ExecutionSyncService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            EXECUTION_SYNC_INTERVAL_MS: String(INTERVAL_MS),
+            EXECUTION_SYNC_BATCH_SIZE: '10',
+          }),
+        },
+        { provide: getRepositoryToken(StateMachine), useValue: stateMachines },
+        { provide: getRepositoryToken(Execution), useValue: executions },
+        {
+          provide: StateMachineService,
+          useValue: {
+            syncExecutionStatus,
+            discoverExecutions,
+            followExecution,
+          },
+        },
+        {
+          provide: LocalExecutionBackend,
+          useValue: {
+            instanceId: 'this-instance',
+            isRunning: (arn: string) => runningHere.has(arn),
+          },
+        },
+        {
+          provide: ExecutionStreamService,
+          useValue: { streamedArns: () => streamed, publishStatus },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ExecutionSyncService);
+    service.onApplicationBootstrap();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const synced = () =>
+    syncExecutionStatus.mock.calls.map(([arn]: [string]) => arn);
+
+  it('refreshes unfinished AWS executions only', async () => {
+    await executions.save([
+      { awsExecutionArn: executionArn('running'), status: 'RUNNING' },
+      { awsExecutionArn: executionArn('done'), status: 'SUCCEEDED' },
+      {
+        awsExecutionArn: localExecutionArn('local'),
+        status: 'RUNNING',
+        runnerId: 'this-instance',
+      },
+    ]);
+    runningHere.add(localExecutionArn('local'));
+
+    await jest.advanceTimersByTimeAsync(6000);
+
+    expect(synced()).toEqual([executionArn('running')]);
+  });
+
+  it('records the executions discovered for each deployed state machine', async () => {
+    await stateMachines.save({ awsArn: stateMachineArn, status: 'ACTIVE' });
+    discoverExecutions.mockResolvedValue([executionArn('from-console')]);
+
+    await jest.advanceTimersByTimeAsync(6000);
+
+    expect(discoverExecutions).toHaveBeenCalledWith(
+      expect.objectContaining({ awsArn: stateMachineArn }),
+      10,
+    );
+    expect(synced()).toEqual([executionArn('from-console')]);
+  });
+
+  it('ends the pass when AWS throttles', async () => {
+    await executions.save([
+      { awsExecutionArn: executionArn('first'), status: 'RUNNING' },
+      { awsExecutionArn: executionArn('second'), status: 'RUNNING' },
+    ]);
+    syncExecutionStatus.mockRejectedValueOnce(throttled);
+
+    await jest.advanceTimersByTimeAsync(6000);
+    expect(synced()).toEqual([executionArn('first')]);
+
+    await jest.advanceTimersByTimeAsync(6000);
+    expect(synced()).toEqual([
+      executionArn('first'),
+      executionArn('first'),
+      executionArn('second'),
+    ]);
+  });
+
+  it('doubles the delay while AWS keeps throttling', async () => {
+    await executions.save({
+      awsExecutionArn: executionArn('watched'),
+      status: 'RUNNING',
+    });
+    streamed = [executionArn('watched')];
+    followExecution.mockRejectedValue(throttled);
+
+    // Followed at 2s, then 4s and 8s later
+    await jest.advanceTimersByTimeAsync(13999);
+    expect(followExecution).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(followExecution).toHaveBeenCalledTimes(3);
+    expect(syncExecutionStatus).not.toHaveBeenCalled();
+  });
+
+  it('backs off an execution that keeps failing', async () => {
+    await executions.save([
+      { awsExecutionArn: executionArn('broken'), status: 'RUNNING' },
+      { awsExecutionArn: executionArn('fine'), status: 'RUNNING' },
+    ]);
+    syncExecutionStatus.mockImplementation((arn: string) =>
+      arn === executionArn('broken')
+        ? Promise.reject(new Error('Access denied'))
+        : Promise.resolve(),
+    );
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // The failure at 6s is retried 10s later, so the pass at 12s skips it
+    await jest.advanceTimersByTimeAsync(12000);
+
+    expect(synced()).toEqual([
+      executionArn('broken'),
+      executionArn('fine'),
+      executionArn('fine'),
+    ]);
+  });
+
+  it('aborts and publishes local executions this instance no longer runs', async () => {
+    await executions.save([
+      {
+        awsExecutionArn: localExecutionArn('orphan'),
+        status: 'RUNNING',
+        runnerId: 'this-instance',
+      },
+      {
+        awsExecutionArn: localExecutionArn('still-running'),
+        status: 'RUNNING',
+        runnerId: 'this-instance',
+      },
+      {
+        awsExecutionArn: localExecutionArn('elsewhere'),
+        status: 'RUNNING',
+        runnerId: 'other-instance',
+      },
+    ]);
+    runningHere.add(localExecutionArn('still-running'));
+
+    await jest.advanceTimersByTimeAsync(6000);
+
+    expect(
+      executions.rows.map(({ awsExecutionArn, status }) => [
+        awsExecutionArn,
+        status,
+      ]),
+    ).toEqual([
+      [localExecutionArn('orphan'), 'ABORTED'],
+      [localExecutionArn('still-running'), 'RUNNING'],
+      [localExecutionArn('elsewhere'), 'RUNNING'],
+    ]);
+    expect(publishStatus).toHaveBeenCalledTimes(1);
+    expect(publishStatus).toHaveBeenCalledWith(
+      expect.objectContaining({
+        awsExecutionArn: localExecutionArn('orphan'),
+        status: 'ABORTED',
+      }),
+    );
+  });
+});
@@ -0,0 +1,315 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Like, Not, Repository } from 'typeorm';
+import { StateMachine } from './entities/state-machine.entity';
+import { Execution } from './entities/execution.entity';
+import { StateMachineService } from './state-machine.service';
+import { LocalExecutionBackend } from './execution/local-execution.backend';
+import { ExecutionStreamService } from './execution-stream.service';
+
+// Statuses of executions that have not finished yet
+const UNFINISHED_STATUSES = ['RUNNING', 'PENDING_REDRIVE'];
+
+// Matches the ARNs of local executions, whose region is `local`
+const LOCAL_EXECUTION_ARN_PATTERN = 'arn:%:states:local:%';
+
+const DEFAULT_SYNC_INTERVAL_MS = 30000;
+const DEFAULT_SYNC_BATCH_SIZE = 25;
+
+// How often executions streamed to a client are followed
+const FOLLOW_INTERVAL_MS = 2000;
+
+// Longest delay between passes, and before retrying an execution that keeps failing
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+function isThrottlingError(error: unknown): boolean {
+  const { name, $metadata } = (error ?? {}) as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+  return (
+    name === 'ThrottlingException' ||
+    name === 'TooManyRequestsException' ||
+    $metadata?.httpStatusCode === 429
+  );
+}
+
+/**
+ * Keeps the executions table in step with the execution backends.
+ * Every EXECUTION_SYNC_INTERVAL_MS (0 turns it off) a pass:
+ * - refreshes up to EXECUTION_SYNC_BATCH_SIZE unfinished AWS executions, least recently updated first
+ * - records executions started outside the app, from ListExecutions of up to
+ *   EXECUTION_SYNC_BATCH_SIZE deployed state machines, least recently checked first
+ * - marks local executions this instance started but no longer runs (e.g. after a restart) as ABORTED
+ *
+ * Unfinished AWS executions that a client streams (see ExecutionStreamService) are followed
+ * every FOLLOW_INTERVAL_MS in between, state transitions included.
+ * Requests go out one at a time. A throttled request ends the pass and doubles the delay
+ * before the next one; an execution or state machine that keeps failing is retried with its own backoff.
+ */
+@Injectable()
+export class ExecutionSyncService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly interval: number;
+  private readonly batchSize: number;
+  private delay = FOLLOW_INTERVAL_MS;
+  private nextPassAt = 0;
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+
+  // Backoff of failing requests, by execution ARN or state machine ARN
+  private readonly failures = new Map<
+    string,
+    { attempts: number; retryAt: number }
+  >();
+  // When each state machine was last checked for new executions, by id
+  private readonly lastDiscovered = new Map<string, number>();
+
+  constructor(
+    configService: ConfigService,
+    @InjectRepository(StateMachine)
+    private readonly stateMachineRepository: Repository<StateMachine>,
+    @InjectRepository(Execution)
+    private readonly executionRepository: Repository<Execution>,
+    private readonly stateMachineService: StateMachineService,
+    private readonly localExecutionBackend: LocalExecutionBackend,
+    private readonly executionStreamService: ExecutionStreamService,
+  ) {
+    const interval = Number(
+      configService.get<string>('EXECUTION_SYNC_INTERVAL_MS') ??
+        DEFAULT_SYNC_INTERVAL_MS,
+    );
+    const batchSize = Number(
+      configService.get<string>('EXECUTION_SYNC_BATCH_SIZE') ??
+        DEFAULT_SYNC_BATCH_SIZE,
+    );
+    this.interval =
+      Number.isFinite(interval) && interval >= 0
+        ? interval
+        : DEFAULT_SYNC_INTERVAL_MS;
+    this.batchSize =
+      Number.isInteger(batchSize) && batchSize > 0
+        ? batchSize
+        : DEFAULT_SYNC_BATCH_SIZE;
+    this.nextPassAt = Date.now() + this.interval;
+  }
+
+  onApplicationBootstrap() {
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  private schedule() {
+    this.timer = setTimeout(() => void this.tick(), this.delay);
+    // A pending pass does not keep the process alive
+    this.timer.unref();
+  }
+
+  private async tick() {
+    let throttled: boolean;
+    try {
+      throttled = !(await this.followStreamedExecutions());
+      if (!throttled && this.interval > 0 && Date.now() >= this.nextPassAt) {
+        throttled = !(await this.runPass());
+        this.nextPassAt = Date.now() + this.interval;
+      }
+    } catch (error) {
+      // The database is unreachable; back off like a throttled pass
+      console.error(
+        'Warning: Execution sync pass failed:',
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+      throttled = true;
+    }
+
+    this.delay = throttled
+      ? Math.min(this.delay * 2, MAX_BACKOFF_MS)
+      : FOLLOW_INTERVAL_MS;
+    this.nextPassAt = Math.max(this.nextPassAt, Date.now() + this.delay);
+    if (!this.stopped) {
+      this.schedule();
+    }
+  }
+
+  // Resolves with false when AWS throttled a request
+  private async followStreamedExecutions(): Promise<boolean> {
+    const streams = this.executionStreamService.streamedArns();
+    if (!streams.length) {
+      return true;
+    }
+
+    const unfinished = {
+      status: In(UNFINISHED_STATUSES),
+      awsExecutionArn: Not(Like(LOCAL_EXECUTION_ARN_PATTERN)),
+    };
+    const streamed = (
+      await this.executionRepository.find({
+        where: [
+          { ...unfinished, awsExecutionArn: In(streams) },
+          { ...unfinished, awsStateMachineArn: In(streams) },
+        ],
+      })
+    )
+      .filter((execution) => !this.isBackingOff(execution.awsExecutionArn))
+      .slice(0, this.batchSize);
+    for (const execution of streamed) {
+      const executionArn = execution.awsExecutionArn;
+      const followed = await this.attempt(executionArn, () =>
+        this.stateMachineService.followExecution(executionArn),
+      );
+      if (!followed) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // Resolves with false when AWS throttled the pass
+  private async runPass(): Promise<boolean> {
+    await this.releaseOrphanedLocalExecutions();
+
+    const unfinished = await this.executionRepository.find({
+      where: {
+        status: In(UNFINISHED_STATUSES),
+        awsExecutionArn: Not(Like(LOCAL_EXECUTION_ARN_PATTERN)),
+      },
+      order: { updatedAt: 'ASC' },
+    });
+    const batch = unfinished
+      .filter((execution) => !this.isBackingOff(execution.awsExecutionArn))
+      .slice(0, this.batchSize);
+    for (const execution of batch) {
+      const executionArn = execution.awsExecutionArn;
+      const synced = await this.attempt(executionArn, () =>
+        this.stateMachineService.syncExecutionStatus(executionArn),
+      );
+      if (!synced) {
+        return false;
+      }
+    }
+
+    const stateMachines = (
+      await this.stateMachineRepository.find({
+        where: { awsArn: Not(IsNull()), status: Not('DELETED') },
+      })
+    )
+      .filter((stateMachine) => !this.isBackingOff(stateMachine.awsArn!))
+      .sort(
+        (a, b) =>
+          (this.lastDiscovered.get(a.id) ?? 0) -
+          (this.lastDiscovered.get(b.id) ?? 0),
+      )
+      .slice(0, this.batchSize);
+    for (const stateMachine of stateMachines) {
+      this.lastDiscovered.set(stateMachine.id, Date.now());
+      let discovered: string[] = [];
+      const listed = await this.attempt(stateMachine.awsArn!, async () => {
+        discovered = await this.stateMachineService.discoverExecutions(
+          stateMachine,
+          this.batchSize,
+        );
+      });
+      if (!listed) {
+        return false;
+      }
+
+      // Input and output only come with DescribeExecution
+      for (const executionArn of discovered) {
+        const synced = await this.attempt(executionArn, () =>
+          this.stateMachineService.syncExecutionStatus(executionArn),
+        );
+        if (!synced) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  // Local executions only run in this process, so one it no longer runs was cut short
+  // Executions of other instances are theirs to release; rows without a runner predate it
+  private async releaseOrphanedLocalExecutions() {
+    const running = await this.executionRepository.find({
+      where: [this.localExecutionBackend.instanceId, IsNull()].map(
+        (runnerId) => ({
+          status: In(UNFINISHED_STATUSES),
+          awsExecutionArn: Like(LOCAL_EXECUTION_ARN_PATTERN),
+          runnerId,
+        }),
+      ),
+    });
+
+    for (const execution of running) {
+      if (this.localExecutionBackend.isRunning(execution.awsExecutionArn)) {
+        continue;
+      }
+      // Conditional, so an outcome recorded in the meantime is not overwritten
+      const { affected } = await this.executionRepository.update(
+        { id: execution.id, status: In(UNFINISHED_STATUSES) },
+        {
+          status: 'ABORTED',
+          awsStopDate: new Date(),
+          error: 'States.Runtime',
+          cause: 'The server stopped before the local execution finished',
+        },
+      );
+      if (affected) {
+        const released = await this.executionRepository.findOne({
+          where: { id: execution.id },
+        });
+        if (released) {
+          this.executionStreamService.publishStatus(released);
+        }
+      }
+    }
+  }
+
+  private isBackingOff(key: string): boolean {
+    const failure = this.failures.get(key);
+    return failure !== undefined && failure.retryAt > Date.now();
+  }
+
+  // Resolves with false when the request was throttled and the pass should stop
+  private async attempt(
+    key: string,
+    request: () => Promise<unknown>,
+  ): Promise<boolean> {
+    try {
+      await request();
+      this.failures.delete(key);
+      return true;
+    } catch (error) {
+      if (isThrottlingError(error)) {
+        return false;
+      }
+
+      const attempts = (this.failures.get(key)?.attempts ?? 0) + 1;
+      this.failures.set(key, {
+        attempts,
+        retryAt:
+          Date.now() +
+          Math.min(
+            Math.max(this.interval, 1000) * 2 ** attempts,
+            MAX_BACKOFF_MS,
+          ),
+      });
+      console.error(
+        `Warning: Failed to sync ${key} (attempt ${attempts}):`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+      return true;
+    }
+  }
+}
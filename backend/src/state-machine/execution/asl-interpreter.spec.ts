@@ -0,0 +1,245 @@
+import { AslInterpreter, InterpreterOptions } from './asl-interpreter';
+import { StatesError } from './states-error';
+import { ExecutionHistoryEvent } from './execution-history';
+
+const options: InterpreterOptions = {
+  executionArn: 'arn:aws:states:local:123456789012:execution:Test:run-1',
+  executionName: 'run-1',
+  stateMachineArn: 'arn:aws:states:us-east-1:123456789012:stateMachine:Test',
+  stateMachineName: 'Test',
+  timeScale: 0,
+};
+
+function run(
+  definition: Record<string, unknown>,
+  input: unknown,
+  overrides: Partial<InterpreterOptions> = {},
+) {
+  return new AslInterpreter(definition, { ...options, ...overrides }).run(
+    input,
+  );
+}
+
+describe('AslInterpreter', () => {
+  it('applies JSONPath data flow, intrinsics and Choice rules', async () => {
+    const outcome = await run(
+      {
+        StartAt: 'Greet',
+        States: {
+          Greet: {
+            Type: 'Pass',
+            Parameters: {
+              'message.$': "States.Format('Hello {}', $.name)",
+              'total.$': 'States.MathAdd($.a, $.b)',
+            },
+            ResultPath: '$.greeting',
+            Next: 'Route',
+          },
+          Route: {
+            Type: 'Choice',
+            Choices: [
+              {
+                Variable: '$.greeting.total',
+                NumericGreaterThan: 10,
+                Next: 'Big',
+              },
+            ],
+            Default: 'Small',
+          },
+          Big: { Type: 'Pass', Result: 'big', ResultPath: '$.size', End: true },
+          Small: {
+            Type: 'Pass',
+            Result: 'small',
+            ResultPath: '$.size',
+            OutputPath: '$.size',
+            End: true,
+          },
+        },
+      },
+      { name: 'Ada', a: 2, b: 3 },
+    );
+
+    expect(outcome).toMatchObject({ status: 'SUCCEEDED', output: 'small' });
+  });
+
+  it('runs Map iterations and Parallel branches', async () => {
+    const outcome = await run(
+      {
+        StartAt: 'Fan out',
+        States: {
+          'Fan out': {
+            Type: 'Parallel',
+            Branches: [
+              {
+                StartAt: 'Double',
+                States: {
+                  Double: {
+                    Type: 'Map',
+                    ItemsPath: '$.items',
+                    MaxConcurrency: 2,
+                    ItemSelector: {
+                      'value.$': '$$.Map.Item.Value',
+                      'index.$': '$$.Map.Item.Index',
+                    },
+                    ItemProcessor: {
+                      StartAt: 'Item',
+                      States: { Item: { Type: 'Pass', End: true } },
+                    },
+                    End: true,
+                  },
+                },
+              },
+              {
+                StartAt: 'Count',
+                States: {
+                  Count: {
+                    Type: 'Pass',
+                    Parameters: { 'count.$': 'States.ArrayLength($.items)' },
+                    End: true,
+                  },
+                },
+              },
+            ],
+            End: true,
+          },
+        },
+      },
+      { items: ['a', 'b'] },
+    );
+
+    expect(outcome.output).toEqual([
+      [
+        { value: 'a', index: 0 },
+        { value: 'b', index: 1 },
+      ],
+      { count: 2 },
+    ]);
+  });
+
+  it('retries failed tasks and routes exhausted errors to Catch', async () => {
+    const attempts: number[] = [];
+    const outcome = await run(
+      {
+        StartAt: 'Call',
+        States: {
+          Call: {
+            Type: 'Task',
+            Resource: 'arn:aws:states:::lambda:invoke',
+            Retry: [{ ErrorEquals: ['Flaky'], MaxAttempts: 2 }],
+            Catch: [
+              {
+                ErrorEquals: ['States.ALL'],
+                ResultPath: '$.error',
+                Next: 'Recover',
+              },
+            ],
+            End: true,
+          },
+          Recover: { Type: 'Succeed' },
+        },
+      },
+      { id: 1 },
+      {
+        taskHandler: ({ retryCount }) => {
+          attempts.push(retryCount);
+          return Promise.reject(new StatesError('Flaky', 'still down'));
+        },
+      },
+    );
+
+    expect(attempts).toEqual([0, 1, 2]);
+    expect(outcome).toMatchObject({
+      status: 'SUCCEEDED',
+      output: { id: 1, error: { Error: 'Flaky', Cause: 'still down' } },
+    });
+  });
+
+  it('evaluates JSONata states with variables and reports Fail states', async () => {
+    const outcome = await run(
+      {
+        QueryLanguage: 'JSONata',
+        StartAt: 'Store',
+        States: {
+          Store: {
+            Type: 'Pass',
+            Assign: { limit: '{% $states.input.limit %}' },
+            Output: {
+              orders:
+                '{% $states.input.orders[amount > $states.input.limit] %}',
+            },
+            Next: 'Check',
+          },
+          Check: {
+            Type: 'Choice',
+            Choices: [
+              {
+                Condition: '{% $count($states.input.orders) > 0 %}',
+                Next: 'Reject',
+              },
+            ],
+            Default: 'Done',
+          },
+          Reject: {
+            Type: 'Fail',
+            Error: 'LimitExceeded',
+            Cause: '{% "Orders above " & $string($limit) %}',
+          },
+          Done: { Type: 'Succeed' },
+        },
+      },
+      { limit: 100, orders: [{ amount: 50 }, { amount: 150 }] },
+    );
+
+    expect(outcome).toMatchObject({
+      status: 'FAILED',
+      error: 'LimitExceeded',
+      cause: 'Orders above 100',
+    });
+  });
+
+  it('emits a Step Functions style history with retried task attempts', async () => {
+    const events: ExecutionHistoryEvent[] = [];
+    let calls = 0;
+    await run(
+      {
+        StartAt: 'Call',
+        States: {
+          Call: {
+            Type: 'Task',
+            Resource: 'arn:aws:states:::lambda:invoke',
+            Retry: [{ ErrorEquals: ['Flaky'] }],
+            Next: 'Done',
+          },
+          Done: { Type: 'Succeed' },
+        },
+      },
+      {},
+      {
+        taskHandler: () =>
+          ++calls === 1
+            ? Promise.reject(new StatesError('Flaky', 'first try'))
+            : Promise.resolve({ ok: true }),
+        onEvent: (event) => events.push(event),
+      },
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      'ExecutionStarted',
+      'TaskStateEntered',
+      'TaskScheduled',
+      'TaskFailed',
+      'TaskScheduled',
+      'TaskSucceeded',
+      'TaskStateExited',
+      'SucceedStateEntered',
+      'SucceedStateExited',
+      'ExecutionSucceeded',
+    ]);
+    // Task events chain back to the state they belong to
+    expect(events[3]).toMatchObject({
+      previousEventId: 2,
+      details: { error: 'Flaky', cause: 'first try' },
+    });
+    expect(events[7].previousEventId).toBe(events[6].id);
+  });
+});
@@ -0,0 +1,1124 @@
+import jsonata from 'jsonata';
+import { evaluateChoiceRule, ChoiceRule } from './choice-rules';
+import { evaluateIntrinsic, isIntrinsicFunction } from './intrinsics';
+import { PathScope, readPath, writePath } from './json-path';
+import { StatesError, matchesError, toStatesError } from './states-error';
+import { ExecutionHistoryEvent } from './execution-history';
+
+type QueryLanguage = 'JSONPath' | 'JSONata';
+
+type AslState = Record<string, unknown>;
+
+interface AslScope {
+  StartAt: string;
+  States: Record<string, AslState>;
+}
+
+interface Retrier {
+  ErrorEquals: string[];
+  IntervalSeconds?: number;
+  MaxAttempts?: number;
+  BackoffRate?: number;
+  MaxDelaySeconds?: number;
+  JitterStrategy?: 'FULL' | 'NONE';
+}
+
+interface Catcher {
+  ErrorEquals: string[];
+  Next: string;
+  ResultPath?: string | null;
+  Output?: unknown;
+  Assign?: Record<string, unknown>;
+}
+
+// Where a state runs: the variables it can see, the context object and the cancellation signal
+interface Frame {
+  variables: Record<string, unknown>;
+  context: Record<string, unknown>;
+  signal: AbortSignal;
+  // History event the state's own events follow (its StateEntered event, or the enclosing one)
+  eventId: number;
+}
+
+interface StateResult {
+  output: unknown;
+  next?: string;
+}
+
+export interface TaskRequest {
+  stateName: string;
+  resource: string;
+  payload: unknown;
+  retryCount: number;
+  context: Record<string, unknown>;
+}
+
+/**
+ * Runs the work behind a Task state. Resolves with the task result or
+ * rejects with a StatesError whose Error/Cause feed Retry and Catch.
+ */
+export type TaskHandler = (request: TaskRequest) => Promise<unknown>;
+
+export interface InterpreterOptions {
+  executionArn: string;
+  executionName: string;
+  stateMachineArn: string;
+  stateMachineName: string;
+  roleArn?: string | null;
+  taskHandler?: TaskHandler;
+  // Multiplier applied to Wait states and retry intervals; 0 skips them
+  timeScale?: number;
+  // Receives the execution history as it happens, with Step Functions event types
+  onEvent?: (event: ExecutionHistoryEvent) => void;
+}
+
+export interface ExecutionOutcome {
+  status: 'SUCCEEDED' | 'FAILED' | 'ABORTED';
+  output?: unknown;
+  error?: string;
+  cause?: string;
+  stopDate: Date;
+}
+
+// Same ceiling as the Step Functions execution history
+const MAX_STATE_TRANSITIONS = 25000;
+
+const JSONATA_EXPRESSION = /^\s*\{%[\s\S]*%\}\s*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toText(value: unknown): string {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function nextOf(state: AslState): string | undefined {
+  return state.End === true ? undefined : (state.Next as string | undefined);
+}
+
+const rejectTask: TaskHandler = ({ stateName, resource }) =>
+  Promise.reject(
+    new StatesError(
+      'States.TaskFailed',
+      `The local execution backend cannot invoke '${resource}' (state '${stateName}')`,
+    ),
+  );
+
+function cancelled(): StatesError {
+  return new StatesError('States.Runtime', 'Execution was cancelled');
+}
+
+/**
+ * In-process Amazon States Language interpreter used by the local execution backend.
+ *
+ * Supports Pass, Task (through a pluggable TaskHandler), Choice, Wait, Succeed, Fail,
+ * Parallel and inline Map states, Retry/Catch, variables, intrinsic functions and both
+ * the JSONPath and JSONata query languages.
+ */
+export class AslInterpreter {
+  private transitions = 0;
+  private eventCount = 0;
+  private readonly queryLanguage: QueryLanguage;
+  private readonly timeScale: number;
+
+  constructor(
+    private readonly definition: Record<string, unknown>,
+    private readonly options: InterpreterOptions,
+  ) {
+    this.queryLanguage =
+      definition.QueryLanguage === 'JSONata' ? 'JSONata' : 'JSONPath';
+    this.timeScale = options.timeScale ?? 1;
+  }
+
+  async run(
+    input: unknown,
+    signal: AbortSignal = new AbortController().signal,
+  ): Promise<ExecutionOutcome> {
+    const context = {
+      Execution: {
+        Id: this.options.executionArn,
+        Input: input,
+        Name: this.options.executionName,
+        RoleArn: this.options.roleArn ?? null,
+        StartTime: new Date().toISOString(),
+        RedriveCount: 0,
+      },
+      StateMachine: {
+        Id: this.options.stateMachineArn,
+        Name: this.options.stateMachineName,
+      },
+    };
+
+    const startedId = this.emit('ExecutionStarted', undefined, {
+      input: toText(input),
+      roleArn: this.options.roleArn ?? undefined,
+    });
+
+    try {
+      const output = await this.runScope(
+        this.definition as unknown as AslScope,
+        input,
+        {
+          variables: {},
+          context,
+          signal,
+          eventId: startedId,
+        },
+      );
+      this.emit('ExecutionSucceeded', this.eventCount, {
+        output: toText(output),
+      });
+      return { status: 'SUCCEEDED', output, stopDate: new Date() };
+    } catch (error) {
+      if (signal.aborted) {
+        this.emit('ExecutionAborted', this.eventCount);
+        return { status: 'ABORTED', stopDate: new Date() };
+      }
+      const { error: name, cause } = toStatesError(error);
+      this.emit('ExecutionFailed', this.eventCount, { error: name, cause });
+      return { status: 'FAILED', error: name, cause, stopDate: new Date() };
+    }
+  }
+
+  private async runScope(
+    scope: AslScope,
+    input: unknown,
+    frame: Frame,
+  ): Promise<unknown> {
+    let name: string | undefined = scope.StartAt;
+    let data = input;
+    let previousEventId = frame.eventId;
+
+    while (name !== undefined) {
+      if (frame.signal.aborted) {
+        throw cancelled();
+      }
+      if (++this.transitions > MAX_STATE_TRANSITIONS) {
+        throw new StatesError(
+          'States.Runtime',
+          `Execution exceeded ${MAX_STATE_TRANSITIONS} state transitions`,
+        );
+      }
+
+      const state = scope.States?.[name];
+      if (!state) {
+        throw new StatesError(
+          'States.Runtime',
+          `State '${name}' does not exist`,
+        );
+      }
+
+      const result = await this.runWithRetries(name, state, data, {
+        ...frame,
+        eventId: previousEventId,
+      });
+      data = result.output;
+      name = result.next;
+      previousEventId = result.exitedEventId;
+    }
+
+    return data;
+  }
+
+  // Runs a state with its Retry and Catch, between its StateEntered and StateExited events
+  private async runWithRetries(
+    name: string,
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<StateResult & { exitedEventId: number }> {
+    const retriers = (state.Retry as Retrier[] | undefined) || [];
+    const catchers = (state.Catch as Catcher[] | undefined) || [];
+    const attempts = new Map<Retrier, number>();
+    let retryCount = 0;
+
+    const type = String(state.Type);
+    const enteredEventId = this.emit(`${type}StateEntered`, frame.eventId, {
+      name,
+      input: toText(input),
+    });
+    const exit = (result: StateResult) => ({
+      ...result,
+      exitedEventId: this.emit(`${type}StateExited`, enteredEventId, {
+        name,
+        output: toText(result.output),
+      }),
+    });
+
+    for (;;) {
+      const stateFrame: Frame = {
+        ...frame,
+        eventId: enteredEventId,
+        context: {
+          ...frame.context,
+          State: {
+            EnteredTime: new Date().toISOString(),
+            Name: name,
+            RetryCount: retryCount,
+          },
+        },
+      };
+
+      try {
+        return exit(await this.runState(name, state, input, stateFrame));
+      } catch (error) {
+        const statesError = toStatesError(error);
+        if (frame.signal.aborted) {
+          throw statesError;
+        }
+
+        // Only the first retrier matching the error applies, as in Step Functions
+        const retrier = retriers.find((r) =>
+          matchesError(r.ErrorEquals, statesError.error),
+        );
+        const attempt = retrier ? attempts.get(retrier) || 0 : 0;
+        if (retrier && attempt < (retrier.MaxAttempts ?? 3)) {
+          attempts.set(retrier, attempt + 1);
+          retryCount++;
+          await this.sleep(this.retryDelay(retrier, attempt), frame.signal);
+          continue;
+        }
+
+        const catcher = catchers.find((c) =>
+          matchesError(c.ErrorEquals, statesError.error),
+        );
+        if (!catcher) {
+          throw statesError;
+        }
+        return exit(
+          await this.applyCatcher(
+            state,
+            catcher,
+            statesError,
+            input,
+            stateFrame,
+          ),
+        );
+      }
+    }
+  }
+
+  private retryDelay(retrier: Retrier, attempt: number): number {
+    const interval =
+      (retrier.IntervalSeconds ?? 1) *
+      Math.pow(retrier.BackoffRate ?? 2, attempt);
+    const delay =
+      retrier.MaxDelaySeconds !== undefined
+        ? Math.min(interval, retrier.MaxDelaySeconds)
+        : interval;
+    return retrier.JitterStrategy === 'FULL' ? Math.random() * delay : delay;
+  }
+
+  private async applyCatcher(
+    state: AslState,
+    catcher: Catcher,
+    error: StatesError,
+    input: unknown,
+    frame: Frame,
+  ): Promise<StateResult> {
+    const errorOutput = { Error: error.error, Cause: error.cause };
+
+    if (this.languageOf(state) === 'JSONata') {
+      const states = { input, context: frame.context, errorOutput };
+      const output =
+        catcher.Output !== undefined
+          ? await this.resolveJsonata(catcher.Output, states, frame)
+          : errorOutput;
+      await this.assignJsonata(catcher.Assign, states, frame);
+      return { output, next: catcher.Next };
+    }
+
+    this.assignJsonPath(catcher.Assign, errorOutput, frame);
+    return {
+      output: this.applyResultPath(catcher.ResultPath, input, errorOutput),
+      next: catcher.Next,
+    };
+  }
+
+  private async runState(
+    name: string,
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<StateResult> {
+    switch (state.Type) {
+      case 'Pass':
+        return {
+          output: await this.runPass(state, input, frame),
+          next: nextOf(state),
+        };
+      case 'Task':
+        return {
+          output: await this.runTask(name, state, input, frame),
+          next: nextOf(state),
+        };
+      case 'Choice':
+        return this.runChoice(name, state, input, frame);
+      case 'Wait':
+        await this.sleep(
+          await this.waitSeconds(state, input, frame),
+          frame.signal,
+        );
+        return {
+          output: await this.passThrough(state, input, frame),
+          next: nextOf(state),
+        };
+      case 'Succeed':
+        return { output: await this.passThrough(state, input, frame) };
+      case 'Fail':
+        throw await this.failError(state, input, frame);
+      case 'Parallel':
+        return {
+          output: await this.runParallel(state, input, frame),
+          next: nextOf(state),
+        };
+      case 'Map':
+        return {
+          output: await this.runMap(name, state, input, frame),
+          next: nextOf(state),
+        };
+      default:
+        throw new StatesError(
+          'States.Runtime',
+          `State '${name}' has unsupported type '${String(state.Type)}'`,
+        );
+    }
+  }
+
+  private async runPass(
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<unknown> {
+    if (this.languageOf(state) === 'JSONata') {
+      return this.passThrough(state, input, frame);
+    }
+
+    const effective = this.applyInputPath(state, input, frame);
+    const result =
+      'Result' in state
+        ? state.Result
+        : state.Parameters !== undefined
+          ? this.resolveTemplate(state.Parameters, effective, frame)
+          : effective;
+    return this.finishJsonPath(state, input, result, frame);
+  }
+
+  private async runTask(
+    name: string,
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<unknown> {
+    const handler = this.options.taskHandler || rejectTask;
+    const retryCount = (frame.context.State as { RetryCount: number })
+      .RetryCount;
+    const resource = String(state.Resource);
+    const invoke = async (
+      payload: unknown,
+      timeoutSeconds: number | undefined,
+    ) => {
+      this.emit('TaskScheduled', frame.eventId, {
+        resource,
+        parameters: toText(payload),
+        timeoutInSeconds: timeoutSeconds,
+      });
+      try {
+        const result = await this.withTimeout(
+          handler({
+            stateName: name,
+            resource,
+            payload,
+            retryCount,
+            context: frame.context,
+          }),
+          timeoutSeconds,
+          name,
+        );
+        this.emit('TaskSucceeded', frame.eventId, {
+          resource,
+          output: toText(result),
+        });
+        return result;
+      } catch (error) {
+        const { error: errorName, cause } = toStatesError(error);
+        this.emit(
+          errorName === 'States.Timeout' ? 'TaskTimedOut' : 'TaskFailed',
+          frame.eventId,
+          { resource, error: errorName, cause },
+        );
+        throw error;
+      }
+    };
+
+    if (this.languageOf(state) === 'JSONata') {
+      const states = { input, context: frame.context };
+      const payload =
+        state.Arguments !== undefined
+          ? await this.resolveJsonata(state.Arguments, states, frame)
+          : input;
+      const timeout = await this.resolveJsonata(
+        state.TimeoutSeconds,
+        states,
+        frame,
+      );
+      const result = await invoke(payload, timeout as number | undefined);
+      return this.finishJsonata(state, { ...states, result }, result, frame);
+    }
+
+    const effective = this.applyInputPath(state, input, frame);
+    const payload =
+      state.Parameters !== undefined
+        ? this.resolveTemplate(state.Parameters, effective, frame)
+        : effective;
+    const timeout =
+      typeof state.TimeoutSecondsPath === 'string'
+        ? readPath(state.TimeoutSecondsPath, effective, this.scopeOf(frame))
+        : state.TimeoutSeconds;
+    const result = await invoke(payload, timeout as number | undefined);
+    return this.finishJsonPath(state, input, result, frame);
+  }
+
+  private async runChoice(
+    name: string,
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<StateResult> {
+    const choices = (state.Choices as ChoiceRule[] | undefined) || [];
+
+    if (this.languageOf(state) === 'JSONata') {
+      const states = { input, context: frame.context };
+      for (const choice of choices) {
+        const matched = await this.evaluateJsonata(
+          String(choice.Condition),
+          states,
+          frame,
+        );
+        if (typeof matched !== 'boolean') {
+          throw new StatesError(
+            'States.QueryEvaluationError',
+            `Choice condition in '${name}' did not return a boolean`,
+          );
+        }
+        if (matched) {
+          const output = await this.resolveJsonata(
+            choice.Output ?? state.Output ?? '{% $states.input %}',
+            states,
+            frame,
+          );
+          await this.assignJsonata(
+            (choice.Assign ?? state.Assign) as Record<string, unknown>,
+            states,
+            frame,
+          );
+          return { output, next: choice.Next as string };
+        }
+      }
+      if (typeof state.Default !== 'string') {
+        throw new StatesError(
+          'States.NoChoiceMatched',
+          `No Choice rule in '${name}' matched the input`,
+        );
+      }
+      return {
+        output: await this.passThrough(state, input, frame),
+        next: state.Default,
+      };
+    }
+
+    const effective = this.applyInputPath(state, input, frame);
+    const choice = choices.find((rule) =>
+      evaluateChoiceRule(rule, effective, this.scopeOf(frame)),
+    );
+    if (!choice && typeof state.Default !== 'string') {
+      throw new StatesError(
+        'States.NoChoiceMatched',
+        `No Choice rule in '${name}' matched the input`,
+      );
+    }
+
+    this.assignJsonPath(
+      (choice?.Assign ?? state.Assign) as Record<string, unknown>,
+      effective,
+      frame,
+    );
+    return {
+      output: this.applyOutputPath(state, effective, frame),
+      next: choice ? (choice.Next as string) : (state.Default as string),
+    };
+  }
+
+  private async waitSeconds(
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<number> {
+    let seconds: unknown;
+    let timestamp: unknown;
+
+    if (this.languageOf(state) === 'JSONata') {
+      const states = { input, context: frame.context };
+      seconds = await this.resolveJsonata(state.Seconds, states, frame);
+      timestamp = await this.resolveJsonata(state.Timestamp, states, frame);
+    } else {
+      const effective = this.applyInputPath(state, input, frame);
+      const scope = this.scopeOf(frame);
+      seconds =
+        typeof state.SecondsPath === 'string'
+          ? readPath(state.SecondsPath, effective, scope)
+          : state.Seconds;
+      timestamp =
+        typeof state.TimestampPath === 'string'
+          ? readPath(state.TimestampPath, effective, scope)
+          : state.Timestamp;
+    }
+
+    if (seconds !== undefined) {
+      if (typeof seconds !== 'number' || seconds < 0) {
+        throw new StatesError(
+          'States.Runtime',
+          `Wait seconds must be a non-negative number, got ${JSON.stringify(seconds)}`,
+        );
+      }
+      return seconds;
+    }
+
+    const until = typeof timestamp === 'string' ? Date.parse(timestamp) : NaN;
+    if (Number.isNaN(until)) {
+      throw new StatesError(
+        'States.Runtime',
+        `Wait timestamp must be an ISO-8601 string, got ${JSON.stringify(timestamp)}`,
+      );
+    }
+    return Math.max(0, (until - Date.now()) / 1000);
+  }
+
+  private async failError(
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<StatesError> {
+    let error: unknown;
+    let cause: unknown;
+
+    if (this.languageOf(state) === 'JSONata') {
+      const states = { input, context: frame.context };
+      error = await this.resolveJsonata(state.Error, states, frame);
+      cause = await this.resolveJsonata(state.Cause, states, frame);
+    } else {
+      error =
+        typeof state.ErrorPath === 'string'
+          ? this.resolveDynamic(state.ErrorPath, input, frame)
+          : state.Error;
+      cause =
+        typeof state.CausePath === 'string'
+          ? this.resolveDynamic(state.CausePath, input, frame)
+          : state.Cause;
+    }
+
+    return new StatesError(toText(error), toText(cause));
+  }
+
+  private async runParallel(
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<unknown> {
+    const branches = (state.Branches as AslScope[] | undefined) || [];
+    const usesJsonata = this.languageOf(state) === 'JSONata';
+    const states = { input, context: frame.context };
+
+    let branchInput: unknown;
+    if (usesJsonata) {
+      branchInput =
+        state.Arguments !== undefined
+          ? await this.resolveJsonata(state.Arguments, states, frame)
+          : input;
+    } else {
+      const effective = this.applyInputPath(state, input, frame);
+      branchInput =
+        state.Parameters !== undefined
+          ? this.resolveTemplate(state.Parameters, effective, frame)
+          : effective;
+    }
+
+    const results = await this.runConcurrently(
+      branches.map(
+        (branch) => (signal: AbortSignal) =>
+          this.runScope(branch, branchInput, this.childFrame(frame, signal)),
+      ),
+      0,
+      frame.signal,
+    );
+
+    return usesJsonata
+      ? this.finishJsonata(
+          state,
+          { ...states, result: results },
+          results,
+          frame,
+        )
+      : this.finishJsonPath(state, input, results, frame);
+  }
+
+  private async runMap(
+    name: string,
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<unknown> {
+    if (state.ItemReader !== undefined || state.ResultWriter !== undefined) {
+      throw new StatesError(
+        'States.Runtime',
+        `Map state '${name}' reads or writes S3, which the local execution backend does not support`,
+      );
+    }
+
+    const processor = (state.ItemProcessor || state.Iterator) as
+      | AslScope
+      | undefined;
+    if (!processor) {
+      throw new StatesError(
+        'States.Runtime',
+        `Map state '${name}' has no ItemProcessor`,
+      );
+    }
+
+    const usesJsonata = this.languageOf(state) === 'JSONata';
+    const states = { input, context: frame.context };
+    const effective = usesJsonata
+      ? input
+      : this.applyInputPath(state, input, frame);
+
+    let items: unknown;
+    let maxConcurrency: unknown;
+    if (usesJsonata) {
+      items =
+        state.Items !== undefined
+          ? await this.resolveJsonata(state.Items, states, frame)
+          : input;
+      maxConcurrency = await this.resolveJsonata(
+        state.MaxConcurrency,
+        states,
+        frame,
+      );
+    } else {
+      const scope = this.scopeOf(frame);
+      items =
+        typeof state.ItemsPath === 'string'
+          ? readPath(state.ItemsPath, effective, scope)
+          : effective;
+      maxConcurrency =
+        typeof state.MaxConcurrencyPath === 'string'
+          ? readPath(state.MaxConcurrencyPath, effective, scope)
+          : state.MaxConcurrency;
+    }
+
+    if (!Array.isArray(items)) {
+      throw new StatesError(
+        'States.Runtime',
+        `Map state '${name}' expected an array of items, got ${JSON.stringify(items)}`,
+      );
+    }
+
+    const selector = usesJsonata
+      ? state.ItemSelector
+      : (state.ItemSelector ?? state.Parameters);
+    const results = await this.runConcurrently(
+      (items as unknown[]).map((item, index) => async (signal: AbortSignal) => {
+        const itemFrame: Frame = {
+          ...frame,
+          context: {
+            ...frame.context,
+            Map: { Item: { Index: index, Value: item } },
+          },
+        };
+        let itemInput: unknown = item;
+        if (selector !== undefined) {
+          itemInput = usesJsonata
+            ? await this.resolveJsonata(
+                selector,
+                { input, context: itemFrame.context },
+                itemFrame,
+              )
+            : this.resolveTemplate(selector, effective, itemFrame);
+        }
+        return this.runScope(
+          processor,
+          itemInput,
+          this.childFrame(frame, signal),
+        );
+      }),
+      typeof maxConcurrency === 'number' ? maxConcurrency : 0,
+      frame.signal,
+    );
+
+    return usesJsonata
+      ? this.finishJsonata(
+          state,
+          { ...states, result: results },
+          results,
+          frame,
+        )
+      : this.finishJsonPath(state, input, results, frame);
+  }
+
+  /**
+   * Runs jobs with at most `limit` in flight (0 = unlimited). The first failure
+   * cancels the remaining jobs and rejects with that failure.
+   */
+  private async runConcurrently<T>(
+    jobs: Array<(signal: AbortSignal) => Promise<T>>,
+    limit: number,
+    parent: AbortSignal,
+  ): Promise<T[]> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    parent.addEventListener('abort', onAbort, { once: true });
+
+    const results: T[] = new Array<T>(jobs.length);
+    let nextJob = 0;
+    const worker = async () => {
+      while (nextJob < jobs.length) {
+        const index = nextJob++;
+        results[index] = await jobs[index](controller.signal);
+      }
+    };
+
+    try {
+      const workerCount = Math.min(
+        limit > 0 ? limit : jobs.length,
+        jobs.length,
+      );
+      await Promise.all(
+        Array.from({ length: workerCount }, () =>
+          worker().catch((error: unknown) => {
+            controller.abort();
+            throw error;
+          }),
+        ),
+      );
+      return results;
+    } finally {
+      parent.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Branches and Map iterations see a copy of the enclosing variables; their assignments stay local
+  private childFrame(frame: Frame, signal: AbortSignal): Frame {
+    const { Execution, StateMachine } = frame.context;
+    return {
+      variables: { ...frame.variables },
+      context: { Execution, StateMachine },
+      signal,
+      eventId: frame.eventId,
+    };
+  }
+
+  private emit(
+    type: string,
+    previousEventId: number | undefined,
+    details?: Record<string, unknown>,
+  ): number {
+    const id = ++this.eventCount;
+    this.options.onEvent?.({
+      id,
+      previousEventId,
+      type,
+      timestamp: new Date(),
+      details,
+    });
+    return id;
+  }
+
+  // Output of states that do not produce a result (Choice, Wait, Succeed, JSONata Pass)
+  private async passThrough(
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): Promise<unknown> {
+    if (this.languageOf(state) === 'JSONata') {
+      return this.finishJsonata(
+        state,
+        { input, context: frame.context },
+        input,
+        frame,
+      );
+    }
+
+    const effective = this.applyInputPath(state, input, frame);
+    this.assignJsonPath(
+      state.Assign as Record<string, unknown>,
+      effective,
+      frame,
+    );
+    return this.applyOutputPath(state, effective, frame);
+  }
+
+  private finishJsonPath(
+    state: AslState,
+    input: unknown,
+    result: unknown,
+    frame: Frame,
+  ): unknown {
+    const selected =
+      state.ResultSelector !== undefined
+        ? this.resolveTemplate(state.ResultSelector, result, frame)
+        : result;
+    const output = this.applyOutputPath(
+      state,
+      this.applyResultPath(state.ResultPath, input, selected),
+      frame,
+    );
+    this.assignJsonPath(
+      state.Assign as Record<string, unknown>,
+      selected,
+      frame,
+    );
+    return output;
+  }
+
+  private async finishJsonata(
+    state: AslState,
+    states: Record<string, unknown>,
+    defaultOutput: unknown,
+    frame: Frame,
+  ): Promise<unknown> {
+    const output =
+      state.Output !== undefined
+        ? await this.resolveJsonata(state.Output, states, frame)
+        : defaultOutput;
+    await this.assignJsonata(
+      state.Assign as Record<string, unknown>,
+      states,
+      frame,
+    );
+    return output;
+  }
+
+  private applyInputPath(
+    state: AslState,
+    input: unknown,
+    frame: Frame,
+  ): unknown {
+    if (state.InputPath === null) return {};
+    if (typeof state.InputPath !== 'string') return input;
+    return readPath(state.InputPath, input, this.scopeOf(frame));
+  }
+
+  private applyOutputPath(
+    state: AslState,
+    data: unknown,
+    frame: Frame,
+  ): unknown {
+    if (state.OutputPath === null) return {};
+    if (typeof state.OutputPath !== 'string') return data;
+    return readPath(state.OutputPath, data, this.scopeOf(frame));
+  }
+
+  private applyResultPath(
+    resultPath: unknown,
+    input: unknown,
+    result: unknown,
+  ): unknown {
+    if (resultPath === null) return input;
+    if (typeof resultPath !== 'string') return result;
+    return writePath(resultPath, input, result);
+  }
+
+  // Variables are evaluated against the values before this state, then assigned together
+  private assignJsonPath(
+    assign: Record<string, unknown> | undefined,
+    data: unknown,
+    frame: Frame,
+  ) {
+    if (assign) {
+      Object.assign(frame.variables, this.resolveTemplate(assign, data, frame));
+    }
+  }
+
+  private async assignJsonata(
+    assign: Record<string, unknown> | undefined,
+    states: Record<string, unknown>,
+    frame: Frame,
+  ) {
+    if (assign) {
+      Object.assign(
+        frame.variables,
+        await this.resolveJsonata(assign, states, frame),
+      );
+    }
+  }
+
+  /**
+   * Resolves a JSONPath payload template: keys ending in `.$` take the value
+   * of a path or intrinsic function, everything else is copied as-is.
+   */
+  private resolveTemplate(
+    template: unknown,
+    data: unknown,
+    frame: Frame,
+  ): unknown {
+    if (Array.isArray(template)) {
+      return template.map((item) => this.resolveTemplate(item, data, frame));
+    }
+    if (!isObject(template)) {
+      return template;
+    }
+
+    const resolved: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(template)) {
+      if (!key.endsWith('.$')) {
+        resolved[key] = this.resolveTemplate(value, data, frame);
+      } else if (typeof value === 'string') {
+        resolved[key.slice(0, -2)] = this.resolveDynamic(value, data, frame);
+      } else {
+        throw new StatesError(
+          'States.Runtime',
+          `The value of '${key}' must be a path or intrinsic function`,
+        );
+      }
+    }
+    return resolved;
+  }
+
+  private resolveDynamic(
+    expression: string,
+    data: unknown,
+    frame: Frame,
+  ): unknown {
+    const scope = this.scopeOf(frame);
+    return isIntrinsicFunction(expression)
+      ? evaluateIntrinsic(expression, data, scope)
+      : readPath(expression, data, scope);
+  }
+
+  /**
+   * Resolves a JSONata value: `{% ... %}` strings are evaluated, objects and arrays
+   * are resolved recursively and fields evaluating to undefined are dropped.
+   */
+  private async resolveJsonata(
+    value: unknown,
+    states: Record<string, unknown>,
+    frame: Frame,
+  ): Promise<unknown> {
+    if (typeof value === 'string') {
+      return JSONATA_EXPRESSION.test(value)
+        ? this.evaluateJsonata(value, states, frame)
+        : value;
+    }
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const item of value) {
+        items.push(await this.resolveJsonata(item, states, frame));
+      }
+      return items;
+    }
+    if (!isObject(value)) {
+      return value;
+    }
+
+    const resolved: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const result = await this.resolveJsonata(item, states, frame);
+      if (result !== undefined) {
+        resolved[key] = result;
+      }
+    }
+    return resolved;
+  }
+
+  private async evaluateJsonata(
+    expression: string,
+    states: Record<string, unknown>,
+    frame: Frame,
+  ): Promise<unknown> {
+    const body = expression.trim().slice(2, -2);
+    let result: unknown;
+    try {
+      result = await jsonata(body).evaluate(undefined, {
+        ...frame.variables,
+        states,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error || isObject(error)
+          ? String(error.message)
+          : String(error);
+      throw new StatesError(
+        'States.QueryEvaluationError',
+        `Unable to evaluate '${body.trim()}': ${message}`,
+      );
+    }
+    // JSONata sequences and non-JSON values are normalised to plain JSON
+    return result === undefined
+      ? undefined
+      : (JSON.parse(JSON.stringify(result)) as unknown);
+  }
+
+  private languageOf(state: AslState): QueryLanguage {
+    return state.QueryLanguage === 'JSONata' ||
+      state.QueryLanguage === 'JSONPath'
+      ? state.QueryLanguage
+      : this.queryLanguage;
+  }
+
+  private scopeOf(frame: Frame): PathScope {
+    return { context: frame.context, variables: frame.variables };
+  }
+
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutSeconds: number | undefined,
+    name: string,
+  ): Promise<T> {
+    if (typeof timeoutSeconds !== 'number' || timeoutSeconds <= 0) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new StatesError(
+              'States.Timeout',
+              `State '${name}' did not complete within ${timeoutSeconds} seconds`,
+            ),
+          ),
+        timeoutSeconds * 1000,
+      );
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private sleep(seconds: number, signal: AbortSignal): Promise<void> {
+    const ms = seconds * 1000 * this.timeScale;
+    if (signal.aborted) {
+      return Promise.reject(cancelled());
+    }
+    if (ms <= 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelled());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
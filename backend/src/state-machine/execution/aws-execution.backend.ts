@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import {
+  GetExecutionHistoryCommand,
+  StartExecutionCommand,
+  StopExecutionCommand,
+} from '@aws-sdk/client-sfn';
+import { StateMachine } from '../entities/state-machine.entity';
+import { SfnClientFactory } from '../../connection-profile/sfn-client.factory';
+import {
+  ExecutionBackend,
+  ExecutionHistoryOptions,
+  StartExecutionOptions,
+  StartedExecution,
+  StopExecutionOptions,
+} from './execution-backend';
+import {
+  ExecutionHistoryEvent,
+  MAX_HISTORY_PAGE_SIZE,
+  fromAwsHistoryEvent,
+} from './execution-history';
+
+/**
+ * Starts executions in AWS Step Functions. Their status is synced from AWS afterwards.
+ */
+@Injectable()
+export class AwsExecutionBackend implements ExecutionBackend {
+  readonly name = 'aws';
+
+  constructor(private readonly sfnClientFactory: SfnClientFactory) {}
+
+  async startExecution(
+    stateMachine: StateMachine,
+    input: unknown,
+    name?: string,
+    options: StartExecutionOptions = {},
+  ): Promise<StartedExecution> {
+    const stateMachineArn =
+      stateMachine.awsArn && options.qualifier
+        ? `${stateMachine.awsArn}:${options.qualifier}`
+        : stateMachine.awsArn;
+
+    const command = new StartExecutionCommand({
+      stateMachineArn: stateMachineArn || undefined,
+      input: input ? JSON.stringify(input) : '{}',
+      name,
+    });
+
+    const response = await this.sfnClientFactory
+      .getClient(options.connectionProfile)
+      .send(command);
+
+    return {
+      executionArn: response.executionArn || '',
+      startDate: response.startDate || new Date(),
+    };
+  }
+
+  async stopExecution(
+    executionArn: string,
+    options: StopExecutionOptions = {},
+  ): Promise<Date> {
+    const command = new StopExecutionCommand({
+      executionArn,
+      error: options.error,
+      cause: options.cause,
+    });
+
+    const response = await this.sfnClientFactory
+      .getClient(options.connectionProfile)
+      .send(command);
+
+    return response.stopDate || new Date();
+  }
+
+  async getExecutionHistory(
+    executionArn: string,
+    options: ExecutionHistoryOptions = {},
+  ): Promise<ExecutionHistoryEvent[]> {
+    const client = this.sfnClientFactory.getClient(options.connectionProfile);
+    const afterEventId = options.afterEventId ?? 0;
+    const events: ExecutionHistoryEvent[] = [];
+    let nextToken: string | undefined;
+
+    // Newest first, so reading stops at the first page reaching afterEventId
+    do {
+      const response = await client.send(
+        new GetExecutionHistoryCommand({
+          executionArn,
+          maxResults: MAX_HISTORY_PAGE_SIZE,
+          reverseOrder: true,
+          nextToken,
+        }),
+      );
+      const page = (response.events || []).map(fromAwsHistoryEvent);
+      events.push(...page.filter((event) => event.id > afterEventId));
+      nextToken = page.some((event) => event.id <= afterEventId)
+        ? undefined
+        : response.nextToken;
+    } while (nextToken);
+
+    return events.reverse();
+  }
+}
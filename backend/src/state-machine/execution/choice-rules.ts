@@ -0,0 +1,134 @@
+import { PathScope, queryPath, readPath } from './json-path';
+import { StatesError } from './states-error';
+
+export type ChoiceRule = Record<string, unknown>;
+
+type Comparison = (actual: unknown, expected: unknown) => boolean;
+
+function isTimestamp(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}T/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+function typed<T>(
+  guard: (value: unknown) => value is T,
+  compare: (a: T, b: T) => boolean,
+): Comparison {
+  return (actual, expected) =>
+    guard(actual) && guard(expected) && compare(actual, expected);
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === 'boolean';
+
+const time = (value: string) => Date.parse(value);
+
+// `*` matches any run of characters; `\*` is a literal asterisk
+function matchesPattern(value: string, pattern: string): boolean {
+  const source = pattern
+    .split(/(\\\*|\*)/)
+    .map((part) =>
+      part === '*'
+        ? '.*'
+        : part === '\\*'
+          ? '\\*'
+          : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('');
+  return new RegExp(`^${source}$`, 's').test(value);
+}
+
+const COMPARISONS: Record<string, Comparison> = {
+  StringEquals: typed(isString, (a, b) => a === b),
+  StringLessThan: typed(isString, (a, b) => a < b),
+  StringGreaterThan: typed(isString, (a, b) => a > b),
+  StringLessThanEquals: typed(isString, (a, b) => a <= b),
+  StringGreaterThanEquals: typed(isString, (a, b) => a >= b),
+  StringMatches: typed(isString, matchesPattern),
+  NumericEquals: typed(isNumber, (a, b) => a === b),
+  NumericLessThan: typed(isNumber, (a, b) => a < b),
+  NumericGreaterThan: typed(isNumber, (a, b) => a > b),
+  NumericLessThanEquals: typed(isNumber, (a, b) => a <= b),
+  NumericGreaterThanEquals: typed(isNumber, (a, b) => a >= b),
+  BooleanEquals: typed(isBoolean, (a, b) => a === b),
+  TimestampEquals: typed(isTimestamp, (a, b) => time(a) === time(b)),
+  TimestampLessThan: typed(isTimestamp, (a, b) => time(a) < time(b)),
+  TimestampGreaterThan: typed(isTimestamp, (a, b) => time(a) > time(b)),
+  TimestampLessThanEquals: typed(isTimestamp, (a, b) => time(a) <= time(b)),
+  TimestampGreaterThanEquals: typed(isTimestamp, (a, b) => time(a) >= time(b)),
+};
+
+const TYPE_TESTS: Record<string, (value: unknown) => boolean> = {
+  IsNull: (value) => value === null,
+  IsNumeric: isNumber,
+  IsString: isString,
+  IsBoolean: isBoolean,
+  IsTimestamp: isTimestamp,
+};
+
+/**
+ * Evaluates a JSONPath Choice rule (a data-test expression or an And/Or/Not combination).
+ */
+export function evaluateChoiceRule(
+  rule: ChoiceRule,
+  input: unknown,
+  scope: PathScope,
+): boolean {
+  if (Array.isArray(rule.And)) {
+    return (rule.And as ChoiceRule[]).every((r) =>
+      evaluateChoiceRule(r, input, scope),
+    );
+  }
+  if (Array.isArray(rule.Or)) {
+    return (rule.Or as ChoiceRule[]).some((r) =>
+      evaluateChoiceRule(r, input, scope),
+    );
+  }
+  if (rule.Not && typeof rule.Not === 'object') {
+    return !evaluateChoiceRule(rule.Not as ChoiceRule, input, scope);
+  }
+
+  if (typeof rule.Variable !== 'string') {
+    throw new StatesError(
+      'States.Runtime',
+      'Choice rule is missing a Variable',
+    );
+  }
+  const variable = rule.Variable;
+
+  if ('IsPresent' in rule) {
+    return queryPath(variable, input, scope).found === rule.IsPresent;
+  }
+
+  const testName = Object.keys(TYPE_TESTS).find((name) => name in rule);
+  if (testName) {
+    const { found, value } = queryPath(variable, input, scope);
+    return (found && TYPE_TESTS[testName](value)) === rule[testName];
+  }
+
+  const operator = Object.keys(rule).find(
+    (key) =>
+      key in COMPARISONS ||
+      (key.endsWith('Path') && key.slice(0, -4) in COMPARISONS),
+  );
+  if (!operator) {
+    throw new StatesError(
+      'States.Runtime',
+      `Choice rule on '${variable}' has no comparison operator`,
+    );
+  }
+
+  const actual = readPath(variable, input, scope);
+  const expected = operator.endsWith('Path')
+    ? readPath(rule[operator] as string, input, scope)
+    : rule[operator];
+  const compare =
+    COMPARISONS[operator.endsWith('Path') ? operator.slice(0, -4) : operator];
+
+  return compare(actual, expected);
+}
@@ -0,0 +1,146 @@
+import { StateMachine } from '../entities/state-machine.entity';
+import { ConnectionProfile } from '../../connection-profile/entities/connection-profile.entity';
+import { ExecutionOutcome } from './asl-interpreter';
+import { ExecutionHistoryEvent } from './execution-history';
+
+export const EXECUTION_BACKENDS = ['aws', 'local'] as const;
+
+export type ExecutionBackendName = (typeof EXECUTION_BACKENDS)[number];
+
+export interface StartedExecution {
+  executionArn: string;
+  startDate: Date;
+  // Set by backends that run the execution in-process; resolves once it finishes
+  completion?: Promise<CompletedExecution>;
+}
+
+export interface CompletedExecution extends ExecutionOutcome {
+  history: ExecutionHistoryEvent[];
+}
+
+export interface StartExecutionOptions {
+  // Test case of the state machine's mock config answering its Task states (local only)
+  mockTestCase?: string;
+  // Alias name or version number appended to the state machine ARN (aws only)
+  qualifier?: string;
+  // Connection profile whose Step Functions client starts the execution (aws only)
+  connectionProfile?: ConnectionProfile | null;
+}
+
+export interface ExecutionHistoryOptions {
+  // Connection profile whose Step Functions client reads the history (aws only)
+  connectionProfile?: ConnectionProfile | null;
+  // Only return the events after this one, e.g. the last event already stored
+  afterEventId?: number;
+}
+
+export interface StopExecutionOptions {
+  // Error code and human-readable cause recorded on the aborted execution
+  error?: string;
+  cause?: string;
+  // Connection profile whose Step Functions client stops the execution (aws only)
+  connectionProfile?: ConnectionProfile | null;
+}
+
+/**
+ * Runs executions of a deployed state machine.
+ * StateMachineService records every started execution in the executions table,
+ * whichever backend runs it.
+ */
+export interface ExecutionBackend {
+  readonly name: ExecutionBackendName;
+  startExecution(
+    stateMachine: StateMachine,
+    input: unknown,
+    name?: string,
+    options?: StartExecutionOptions,
+  ): Promise<StartedExecution>;
+  // Resolves with the stop date of the aborted execution
+  stopExecution(
+    executionArn: string,
+    options?: StopExecutionOptions,
+  ): Promise<Date>;
+  // The history so far (after afterEventId), or null when the backend does not have it (finished local runs)
+  getExecutionHistory(
+    executionArn: string,
+    options?: ExecutionHistoryOptions,
+  ): Promise<ExecutionHistoryEvent[] | null>;
+}
+
+/**
+ * Local executions use the region segment `local`, so they are never looked up in AWS:
+ * arn:aws:states:local:123456789012:execution:MyStateMachine:my-execution
+ */
+export function toLocalExecutionArn(
+  stateMachineArn: string,
+  executionName: string,
+): string {
+  const [
+    ,
+    partition = 'aws',
+    ,
+    ,
+    account = '000000000000',
+    ,
+    stateMachineName,
+  ] = stateMachineArn.split(':');
+  return `arn:${partition}:states:local:${account}:execution:${stateMachineName}:${executionName}`;
+}
+
+/**
+ * State machines created with the local backend are never deployed to AWS:
+ * arn:aws:states:local:000000000000:stateMachine:MyStateMachine
+ */
+export function toLocalStateMachineArn(name: string): string {
+  return `arn:aws:states:local:000000000000:stateMachine:${name}`;
+}
+
+/**
+ * AWS ARN of a named execution of a state machine:
+ * arn:aws:states:us-east-1:123456789012:stateMachine:MyStateMachine
+ * → arn:aws:states:us-east-1:123456789012:execution:MyStateMachine:my-execution
+ */
+export function toExecutionArn(
+  stateMachineArn: string,
+  executionName: string,
+): string {
+  const parts = stateMachineArn.split(':');
+  return [...parts.slice(0, 5), 'execution', parts[6], executionName].join(':');
+}
+
+/**
+ * State machine of an execution ARN:
+ * arn:aws:states:us-east-1:123456789012:execution:MyStateMachine:my-execution
+ * → arn:aws:states:us-east-1:123456789012:stateMachine:MyStateMachine
+ */
+export function toStateMachineArn(executionArn: string): string {
+  const parts = executionArn.split(':');
+  return [...parts.slice(0, 5), 'stateMachine', parts[6]].join(':');
+}
+
+/**
+ * Splits a version or alias ARN into the state machine ARN and its qualifier:
+ * arn:aws:states:us-east-1:123456789012:stateMachine:MyStateMachine:prod
+ * → { stateMachineArn: '…:stateMachine:MyStateMachine', qualifier: 'prod' }
+ */
+export function splitQualifiedArn(arn: string): {
+  stateMachineArn: string;
+  qualifier?: string;
+} {
+  const parts = arn.split(':');
+  if (parts.length !== 8 || parts[5] !== 'stateMachine') {
+    return { stateMachineArn: arn };
+  }
+  return {
+    stateMachineArn: parts.slice(0, 7).join(':'),
+    qualifier: parts[7],
+  };
+}
+
+export function isLocalExecutionArn(executionArn: string): boolean {
+  return executionArn.split(':')[3] === 'local';
+}
+
+export function isLocalStateMachineArn(stateMachineArn: string): boolean {
+  return stateMachineArn.split(':')[3] === 'local';
+}
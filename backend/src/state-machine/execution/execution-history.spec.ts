@@ -0,0 +1,59 @@
+import {
+  ExecutionHistoryEvent,
+  isCompleteHistory,
+  pageExecutionHistory,
+} from './execution-history';
+
+const types = [
+  'ExecutionStarted',
+  'TaskStateEntered',
+  'TaskScheduled',
+  'TaskFailed',
+  'TaskScheduled',
+  'TaskSucceeded',
+  'TaskStateExited',
+  'ExecutionSucceeded',
+];
+const events: ExecutionHistoryEvent[] = types.map((type, index) => ({
+  id: index + 1,
+  type,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, index)),
+}));
+
+describe('pageExecutionHistory', () => {
+  it('pages forwards and backwards with the last event id as token', () => {
+    const first = pageExecutionHistory(events, { maxResults: 3 });
+    expect(first.events.map((event) => event.id)).toEqual([1, 2, 3]);
+    expect(first.nextToken).toBe('3');
+
+    const rest = pageExecutionHistory(events, {
+      maxResults: 10,
+      nextToken: first.nextToken!,
+    });
+    expect(rest.events.map((event) => event.id)).toEqual([4, 5, 6, 7, 8]);
+    expect(rest.nextToken).toBeNull();
+
+    const latest = pageExecutionHistory(events, {
+      maxResults: 2,
+      reverseOrder: true,
+    });
+    expect(latest.events.map((event) => event.id)).toEqual([8, 7]);
+  });
+
+  it('filters by event type and detects complete histories', () => {
+    const scheduled = pageExecutionHistory(events, {
+      types: ['TaskScheduled'],
+    });
+    expect(scheduled.events.map((event) => event.id)).toEqual([3, 5]);
+
+    expect(isCompleteHistory(events)).toBe(true);
+    expect(isCompleteHistory(events.slice(0, 7))).toBe(false);
+    // A redriven execution carries on after its terminal event
+    expect(
+      isCompleteHistory([
+        ...events,
+        { id: 9, type: 'ExecutionRedriven', timestamp: new Date() },
+      ]),
+    ).toBe(false);
+  });
+});
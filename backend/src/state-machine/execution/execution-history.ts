@@ -0,0 +1,104 @@
+import type { HistoryEvent } from '@aws-sdk/client-sfn';
+
+/**
+ * One event of an execution's history, in the shape of a Step Functions
+ * HistoryEvent with its single `*EventDetails` member moved to `details`.
+ * Local executions emit the same event types (TaskStateEntered, TaskFailed, ...).
+ */
+export interface ExecutionHistoryEvent {
+  id: number;
+  previousEventId?: number;
+  type: string;
+  timestamp: Date;
+  details?: Record<string, unknown>;
+}
+
+export interface ExecutionHistoryPageOptions {
+  maxResults?: number;
+  // Id of the last event of the previous page
+  nextToken?: string;
+  reverseOrder?: boolean;
+  // Only events of these types, e.g. ["TaskFailed", "TaskStateExited"]
+  types?: string[];
+}
+
+export interface ExecutionHistoryPage {
+  events: ExecutionHistoryEvent[];
+  nextToken: string | null;
+}
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 100;
+export const MAX_HISTORY_PAGE_SIZE = 1000;
+
+// No more events follow one of these, unless the execution is redriven
+const TERMINAL_EVENT_TYPES = [
+  'ExecutionSucceeded',
+  'ExecutionFailed',
+  'ExecutionAborted',
+  'ExecutionTimedOut',
+];
+
+export function fromAwsHistoryEvent(
+  event: HistoryEvent,
+): ExecutionHistoryEvent {
+  const detailsKey = Object.keys(event).find(
+    (key) =>
+      key.endsWith('EventDetails') &&
+      event[key as keyof HistoryEvent] !== undefined,
+  );
+
+  return {
+    id: event.id ?? 0,
+    previousEventId: event.previousEventId || undefined,
+    type: event.type ?? 'Unknown',
+    timestamp: event.timestamp ?? new Date(),
+    details: detailsKey
+      ? (event[detailsKey as keyof HistoryEvent] as Record<string, unknown>)
+      : undefined,
+  };
+}
+
+// Id of the newest event, 0 for an empty history
+export function lastEventId(events: ExecutionHistoryEvent[]): number {
+  return events.reduce((last, event) => Math.max(last, event.id), 0);
+}
+
+export function isCompleteHistory(events: ExecutionHistoryEvent[]): boolean {
+  const last = events.reduce<ExecutionHistoryEvent | undefined>(
+    (latest, event) => (!latest || event.id > latest.id ? event : latest),
+    undefined,
+  );
+  return Boolean(last && TERMINAL_EVENT_TYPES.includes(last.type));
+}
+
+/**
+ * Pages through a whole history the way GetExecutionHistory does, with the
+ * event id as continuation token so pages stay stable while events are appended.
+ */
+export function pageExecutionHistory(
+  events: ExecutionHistoryEvent[],
+  options: ExecutionHistoryPageOptions = {},
+): ExecutionHistoryPage {
+  const { reverseOrder = false, types, nextToken } = options;
+  const maxResults = Math.min(
+    options.maxResults || DEFAULT_HISTORY_PAGE_SIZE,
+    MAX_HISTORY_PAGE_SIZE,
+  );
+  const after = nextToken ? Number(nextToken) : undefined;
+
+  const matching = [...events]
+    .sort((a, b) => (reverseOrder ? b.id - a.id : a.id - b.id))
+    .filter((event) => !types?.length || types.includes(event.type))
+    .filter(
+      (event) =>
+        after === undefined ||
+        (reverseOrder ? event.id < after : event.id > after),
+    );
+
+  const page = matching.slice(0, maxResults);
+  return {
+    events: page,
+    nextToken:
+      matching.length > maxResults ? String(page[page.length - 1].id) : null,
+  };
+}
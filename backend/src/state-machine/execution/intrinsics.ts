@@ -0,0 +1,405 @@
+import { createHash, randomUUID } from 'crypto';
+import { PathScope, readPath } from './json-path';
+import { StatesError } from './states-error';
+
+type IntrinsicArgument =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; path: string }
+  | { kind: 'call'; name: string; args: IntrinsicArgument[] };
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  MD5: 'md5',
+  'SHA-1': 'sha1',
+  'SHA-256': 'sha256',
+  'SHA-384': 'sha384',
+  'SHA-512': 'sha512',
+};
+
+function intrinsicFailure(message: string): StatesError {
+  return new StatesError('States.IntrinsicFailure', message);
+}
+
+export function isIntrinsicFunction(value: string): boolean {
+  return /^States\.[A-Za-z0-9]+\(/.test(value.trim());
+}
+
+/**
+ * Recursive-descent parser for intrinsic function calls such as
+ * `States.Format('Hello {}', $.name)`.
+ */
+class IntrinsicParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): IntrinsicArgument {
+    const call = this.parseCall();
+    this.skipWhitespace();
+    if (this.position !== this.source.length) {
+      throw intrinsicFailure(
+        `Unexpected input after intrinsic function in '${this.source}'`,
+      );
+    }
+    return call;
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.source[this.position] || '')) {
+      this.position++;
+    }
+  }
+
+  private parseCall(): IntrinsicArgument {
+    this.skipWhitespace();
+    const match = /^States\.[A-Za-z0-9]+/.exec(
+      this.source.slice(this.position),
+    );
+    if (!match || this.source[this.position + match[0].length] !== '(') {
+      throw intrinsicFailure(
+        `Invalid intrinsic function call in '${this.source}'`,
+      );
+    }
+    this.position += match[0].length + 1;
+
+    const args: IntrinsicArgument[] = [];
+    this.skipWhitespace();
+    if (this.source[this.position] === ')') {
+      this.position++;
+      return { kind: 'call', name: match[0], args };
+    }
+
+    for (;;) {
+      args.push(this.parseArgument());
+      this.skipWhitespace();
+      const next = this.source[this.position++];
+      if (next === ')') {
+        return { kind: 'call', name: match[0], args };
+      }
+      if (next !== ',') {
+        throw intrinsicFailure(`Expected ',' or ')' in '${this.source}'`);
+      }
+    }
+  }
+
+  private parseArgument(): IntrinsicArgument {
+    this.skipWhitespace();
+    const char = this.source[this.position];
+
+    if (char === "'") {
+      return { kind: 'literal', value: this.parseString() };
+    }
+    if (char === '$') {
+      return { kind: 'path', path: this.parsePathArgument() };
+    }
+    if (this.source.startsWith('States.', this.position)) {
+      return this.parseCall();
+    }
+
+    const token = /^[^,)\s]+/.exec(this.source.slice(this.position))?.[0] || '';
+    this.position += token.length;
+    if (token === 'null') return { kind: 'literal', value: null };
+    if (token === 'true' || token === 'false')
+      return { kind: 'literal', value: token === 'true' };
+    if (token !== '' && !Number.isNaN(Number(token)))
+      return { kind: 'literal', value: Number(token) };
+
+    throw intrinsicFailure(`Invalid argument '${token}' in '${this.source}'`);
+  }
+
+  // Keeps the escape sequences of \' \{ \} and \\ so States.Format can tell literal braces apart
+  private parseString(): string {
+    let value = '';
+    this.position++;
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++];
+      if (char === '\\') {
+        const escaped = this.source[this.position++];
+        value += escaped === "'" ? "'" : `\\${escaped}`;
+      } else if (char === "'") {
+        return value;
+      } else {
+        value += char;
+      }
+    }
+    throw intrinsicFailure(`Unterminated string in '${this.source}'`);
+  }
+
+  private parsePathArgument(): string {
+    const start = this.position;
+    let depth = 0;
+    let quote: string | null = null;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']') {
+        depth--;
+      } else if (
+        depth === 0 &&
+        (char === ',' || char === ')' || /\s/.test(char))
+      ) {
+        break;
+      }
+      this.position++;
+    }
+    return this.source.slice(start, this.position);
+  }
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\([\\{}])/g, '$1');
+}
+
+function expectArray(name: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw intrinsicFailure(
+      `${name} expects an array but received ${JSON.stringify(value)}`,
+    );
+  }
+  return value;
+}
+
+function expectNumber(name: string, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw intrinsicFailure(
+      `${name} expects a number but received ${JSON.stringify(value)}`,
+    );
+  }
+  return value;
+}
+
+function expectString(name: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw intrinsicFailure(
+      `${name} expects a string but received ${JSON.stringify(value)}`,
+    );
+  }
+  return value;
+}
+
+function expectArgs(name: string, args: unknown[], min: number, max = min) {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`;
+    throw intrinsicFailure(
+      `${name} expects ${expected} arguments but received ${args.length}`,
+    );
+  }
+}
+
+function format(template: string, args: unknown[]): string {
+  let index = 0;
+  const result = template.replace(/\\[\\{}]|\{\}/g, (token) => {
+    if (token !== '{}') {
+      return token;
+    }
+    if (index >= args.length) {
+      throw intrinsicFailure(
+        'States.Format has more placeholders than arguments',
+      );
+    }
+    const value = args[index++];
+    if (typeof value === 'object' && value !== null) {
+      throw intrinsicFailure(
+        'States.Format arguments must be strings, numbers, booleans or null',
+      );
+    }
+    return String(value);
+  });
+
+  if (index !== args.length) {
+    throw intrinsicFailure(
+      'States.Format has more arguments than placeholders',
+    );
+  }
+  return unescape(result);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function call(name: string, args: unknown[]): unknown {
+  switch (name) {
+    case 'States.Format':
+      expectArgs(name, args, 1, Infinity);
+      return format(expectString(name, args[0]), args.slice(1));
+    case 'States.StringToJson':
+      expectArgs(name, args, 1);
+      try {
+        return JSON.parse(expectString(name, args[0]));
+      } catch {
+        throw intrinsicFailure(
+          `States.StringToJson received invalid JSON: ${String(args[0])}`,
+        );
+      }
+    case 'States.JsonToString':
+      expectArgs(name, args, 1);
+      return JSON.stringify(args[0]);
+    case 'States.Array':
+      return args;
+    case 'States.ArrayPartition': {
+      expectArgs(name, args, 2);
+      const array = expectArray(name, args[0]);
+      const size = expectNumber(name, args[1]);
+      if (!Number.isInteger(size) || size <= 0) {
+        throw intrinsicFailure(
+          'States.ArrayPartition chunk size must be a positive integer',
+        );
+      }
+      const chunks: unknown[][] = [];
+      for (let i = 0; i < array.length; i += size) {
+        chunks.push(array.slice(i, i + size));
+      }
+      return chunks;
+    }
+    case 'States.ArrayContains':
+      expectArgs(name, args, 2);
+      return expectArray(name, args[0]).some((item) => isEqual(item, args[1]));
+    case 'States.ArrayRange': {
+      expectArgs(name, args, 3);
+      const [start, end, step] = args.map((arg) => expectNumber(name, arg));
+      if (step === 0) {
+        throw intrinsicFailure('States.ArrayRange step must not be 0');
+      }
+      const range: number[] = [];
+      for (
+        let value = start;
+        step > 0 ? value <= end : value >= end;
+        value += step
+      ) {
+        range.push(value);
+        if (range.length > 1000) {
+          throw intrinsicFailure('States.ArrayRange is limited to 1000 items');
+        }
+      }
+      return range;
+    }
+    case 'States.ArrayGetItem': {
+      expectArgs(name, args, 2);
+      const array = expectArray(name, args[0]);
+      const index = expectNumber(name, args[1]);
+      if (!Number.isInteger(index) || index < 0 || index >= array.length) {
+        throw intrinsicFailure(
+          `States.ArrayGetItem index ${index} is out of range`,
+        );
+      }
+      return array[index];
+    }
+    case 'States.ArrayLength':
+      expectArgs(name, args, 1);
+      return expectArray(name, args[0]).length;
+    case 'States.ArrayUnique':
+      expectArgs(name, args, 1);
+      return expectArray(name, args[0]).filter(
+        (item, index, array) =>
+          array.findIndex((other) => isEqual(other, item)) === index,
+      );
+    case 'States.Base64Encode':
+      expectArgs(name, args, 1);
+      return Buffer.from(expectString(name, args[0]), 'utf8').toString(
+        'base64',
+      );
+    case 'States.Base64Decode':
+      expectArgs(name, args, 1);
+      return Buffer.from(expectString(name, args[0]), 'base64').toString(
+        'utf8',
+      );
+    case 'States.Hash': {
+      expectArgs(name, args, 2);
+      const algorithm = HASH_ALGORITHMS[expectString(name, args[1])];
+      if (!algorithm) {
+        throw intrinsicFailure(
+          `States.Hash does not support the algorithm ${String(args[1])}`,
+        );
+      }
+      const data =
+        typeof args[0] === 'string' ? args[0] : JSON.stringify(args[0]);
+      return createHash(algorithm).update(data).digest('hex');
+    }
+    case 'States.JsonMerge': {
+      expectArgs(name, args, 3);
+      if (args[2] !== false) {
+        throw intrinsicFailure(
+          'States.JsonMerge only supports shallow merges (third argument false)',
+        );
+      }
+      const [left, right] = args;
+      if (
+        typeof left !== 'object' ||
+        typeof right !== 'object' ||
+        !left ||
+        !right
+      ) {
+        throw intrinsicFailure('States.JsonMerge expects two JSON objects');
+      }
+      return { ...left, ...right };
+    }
+    case 'States.MathRandom': {
+      expectArgs(name, args, 2, 3);
+      const start = expectNumber(name, args[0]);
+      const end = expectNumber(name, args[1]);
+      return Math.floor(Math.random() * (end - start)) + start;
+    }
+    case 'States.MathAdd':
+      expectArgs(name, args, 2);
+      return expectNumber(name, args[0]) + expectNumber(name, args[1]);
+    case 'States.StringSplit': {
+      expectArgs(name, args, 2);
+      const delimiters = expectString(name, args[1]).split('');
+      return expectString(name, args[0])
+        .split(
+          new RegExp(
+            `[${delimiters.map((d) => d.replace(/[\]\\^-]/g, '\\$&')).join('')}]`,
+          ),
+        )
+        .filter((part) => part !== '');
+    }
+    case 'States.UUID':
+      expectArgs(name, args, 0);
+      return randomUUID();
+    default:
+      throw intrinsicFailure(`Unknown intrinsic function ${name}`);
+  }
+}
+
+function evaluate(
+  argument: IntrinsicArgument,
+  data: unknown,
+  scope: PathScope,
+): unknown {
+  switch (argument.kind) {
+    case 'literal':
+      return argument.value;
+    case 'path':
+      return readPath(argument.path, data, scope);
+    case 'call': {
+      const args = argument.args.map((arg) => evaluate(arg, data, scope));
+      // Only States.Format interprets escaped braces; every other function sees the plain string
+      const resolved =
+        argument.name === 'States.Format'
+          ? args
+          : args.map((arg, index) =>
+              argument.args[index].kind === 'literal' && typeof arg === 'string'
+                ? unescape(arg)
+                : arg,
+            );
+      return call(argument.name, resolved);
+    }
+  }
+}
+
+/**
+ * Evaluates an intrinsic function expression against the effective input.
+ */
+export function evaluateIntrinsic(
+  expression: string,
+  data: unknown,
+  scope: PathScope,
+): unknown {
+  return evaluate(new IntrinsicParser(expression.trim()).parse(), data, scope);
+}
@@ -0,0 +1,315 @@
+import { StatesError } from './states-error';
+
+type Segment =
+  | { kind: 'field'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number }
+  | { kind: 'wildcard' }
+  | { kind: 'deep'; name: string };
+
+type PathRoot =
+  | { kind: 'input' }
+  | { kind: 'context' }
+  | { kind: 'variable'; name: string };
+
+interface ParsedPath {
+  root: PathRoot;
+  segments: Segment[];
+  // Definite paths select a single value; the others (wildcards, slices, deep scans) select a list
+  definite: boolean;
+}
+
+/**
+ * What a path can be evaluated against besides `$`:
+ * the context object (`$$`) and workflow variables (`$name`).
+ */
+export interface PathScope {
+  context: unknown;
+  variables: Record<string, unknown>;
+}
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+
+function readName(path: string, start: number): { name: string; end: number } {
+  let end = start;
+  while (end < path.length && path[end] !== '.' && path[end] !== '[') {
+    end++;
+  }
+  return { name: path.slice(start, end), end };
+}
+
+function invalidPath(path: string, reason: string): StatesError {
+  return new StatesError(
+    'States.Runtime',
+    `Invalid JSONPath '${path}': ${reason}`,
+  );
+}
+
+function parseBracket(
+  path: string,
+  start: number,
+): { segment: Segment; end: number } {
+  const close = path.indexOf(']', start);
+  const quote = path[start + 1];
+
+  if (quote === "'" || quote === '"') {
+    const endQuote = path.indexOf(quote, start + 2);
+    if (endQuote === -1 || path[endQuote + 1] !== ']') {
+      throw invalidPath(path, 'unterminated quoted member name');
+    }
+    return {
+      segment: { kind: 'field', name: path.slice(start + 2, endQuote) },
+      end: endQuote + 2,
+    };
+  }
+
+  if (close === -1) {
+    throw invalidPath(path, "missing ']'");
+  }
+
+  const body = path.slice(start + 1, close).trim();
+  if (body === '*') {
+    return { segment: { kind: 'wildcard' }, end: close + 1 };
+  }
+  if (body.startsWith('?')) {
+    throw invalidPath(
+      path,
+      'filter expressions are not supported by the local execution backend',
+    );
+  }
+  if (/^-?\d+$/.test(body)) {
+    return { segment: { kind: 'index', index: Number(body) }, end: close + 1 };
+  }
+
+  const slice = /^(-?\d*):(-?\d*)$/.exec(body);
+  if (slice) {
+    return {
+      segment: {
+        kind: 'slice',
+        start: slice[1] === '' ? undefined : Number(slice[1]),
+        end: slice[2] === '' ? undefined : Number(slice[2]),
+      },
+      end: close + 1,
+    };
+  }
+
+  throw invalidPath(path, `unsupported subscript '[${body}]'`);
+}
+
+function parsePath(path: string): ParsedPath {
+  if (!path.startsWith('$')) {
+    throw invalidPath(path, "paths must start with '$'");
+  }
+
+  let root: PathRoot = { kind: 'input' };
+  let position = 1;
+
+  if (path.startsWith('$$')) {
+    root = { kind: 'context' };
+    position = 2;
+  } else if (IDENTIFIER_START.test(path[1] || '')) {
+    const { name, end } = readName(path, 1);
+    root = { kind: 'variable', name };
+    position = end;
+  }
+
+  const segments: Segment[] = [];
+  while (position < path.length) {
+    if (path.startsWith('..', position)) {
+      const { name, end } = readName(path, position + 2);
+      if (!name) {
+        throw invalidPath(path, "'..' must be followed by a member name");
+      }
+      segments.push({ kind: 'deep', name });
+      position = end;
+    } else if (path[position] === '.') {
+      const { name, end } = readName(path, position + 1);
+      if (!name) {
+        throw invalidPath(path, "'.' must be followed by a member name");
+      }
+      segments.push(
+        name === '*' ? { kind: 'wildcard' } : { kind: 'field', name },
+      );
+      position = end;
+    } else if (path[position] === '[') {
+      const { segment, end } = parseBracket(path, position);
+      segments.push(segment);
+      position = end;
+    } else {
+      throw invalidPath(path, `unexpected character '${path[position]}'`);
+    }
+  }
+
+  return {
+    root,
+    segments,
+    definite: segments.every((s) => s.kind === 'field' || s.kind === 'index'),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  return [];
+}
+
+function deepScan(value: unknown, name: string, matches: unknown[]): void {
+  if (isObject(value) && name in value) {
+    matches.push(value[name]);
+  }
+  children(value).forEach((child) => deepScan(child, name, matches));
+}
+
+function applySegment(values: unknown[], segment: Segment): unknown[] {
+  switch (segment.kind) {
+    case 'field':
+      return values
+        .filter((v) => isObject(v) && segment.name in v)
+        .map((v) => (v as Record<string, unknown>)[segment.name]);
+    case 'index':
+      return values
+        .filter((v): v is unknown[] => Array.isArray(v))
+        .map(
+          (v) =>
+            v[segment.index < 0 ? v.length + segment.index : segment.index],
+        )
+        .filter((v) => v !== undefined);
+    case 'slice':
+      return values
+        .filter((v): v is unknown[] => Array.isArray(v))
+        .flatMap((v) => v.slice(segment.start, segment.end));
+    case 'wildcard':
+      return values.flatMap(children);
+    case 'deep':
+      return values.flatMap((v) => {
+        const matches: unknown[] = [];
+        deepScan(v, segment.name, matches);
+        return matches;
+      });
+  }
+}
+
+function rootValue(
+  parsed: ParsedPath,
+  path: string,
+  data: unknown,
+  scope: PathScope,
+): unknown {
+  switch (parsed.root.kind) {
+    case 'input':
+      return data;
+    case 'context':
+      return scope.context;
+    case 'variable':
+      if (!(parsed.root.name in scope.variables)) {
+        throw new StatesError(
+          'States.Runtime',
+          `The variable referenced by '${path}' has not been assigned`,
+        );
+      }
+      return scope.variables[parsed.root.name];
+  }
+}
+
+/**
+ * Evaluates a path without failing on missing values.
+ * Definite paths yield at most one match; other paths yield a list.
+ */
+export function queryPath(
+  path: string,
+  data: unknown,
+  scope: PathScope,
+): { found: boolean; value: unknown } {
+  const parsed = parsePath(path);
+  const matches = parsed.segments.reduce(applySegment, [
+    rootValue(parsed, path, data, scope),
+  ]);
+
+  if (parsed.definite) {
+    return matches.length
+      ? { found: true, value: matches[0] }
+      : { found: false, value: undefined };
+  }
+  return { found: true, value: matches };
+}
+
+/**
+ * Reads the value selected by a path, failing with States.Runtime when it does not exist.
+ */
+export function readPath(
+  path: string,
+  data: unknown,
+  scope: PathScope,
+): unknown {
+  const { found, value } = queryPath(path, data, scope);
+  if (!found) {
+    throw new StatesError(
+      'States.Runtime',
+      `The JSONPath '${path}' could not be found in the input '${JSON.stringify(data)}'`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Writes a value at a reference path (ResultPath), returning a new document.
+ * Missing intermediate objects are created, as Step Functions does.
+ */
+export function writePath(
+  path: string,
+  target: unknown,
+  value: unknown,
+): unknown {
+  const parsed = parsePath(path);
+  if (parsed.root.kind !== 'input' || !parsed.definite) {
+    throw invalidPath(
+      path,
+      'reference paths may only use member names and array indexes on $',
+    );
+  }
+  if (!parsed.segments.length) {
+    return value;
+  }
+
+  const write = (current: unknown, index: number): unknown => {
+    const segment = parsed.segments[index] as Extract<
+      Segment,
+      { kind: 'field' | 'index' }
+    >;
+    const last = index === parsed.segments.length - 1;
+
+    if (segment.kind === 'index') {
+      if (
+        !Array.isArray(current) ||
+        segment.index < 0 ||
+        segment.index >= current.length
+      ) {
+        throw new StatesError(
+          'States.Runtime',
+          `Unable to apply ResultPath '${path}': array index out of range`,
+        );
+      }
+      const copy = [...(current as unknown[])];
+      copy[segment.index] = last
+        ? value
+        : write(copy[segment.index], index + 1);
+      return copy;
+    }
+
+    if (current !== undefined && !isObject(current)) {
+      throw new StatesError(
+        'States.Runtime',
+        `Unable to apply ResultPath '${path}' to a non-object value '${JSON.stringify(current)}'`,
+      );
+    }
+    const copy: Record<string, unknown> = { ...current };
+    copy[segment.name] = last ? value : write(copy[segment.name], index + 1);
+    return copy;
+  };
+
+  return write(target, 0);
+}
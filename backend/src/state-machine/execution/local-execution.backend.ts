@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { StateMachine } from '../entities/state-machine.entity';
+import { AslInterpreter, ExecutionOutcome } from './asl-interpreter';
+import {
+  CompletedExecution,
+  ExecutionBackend,
+  ExecutionHistoryOptions,
+  StartExecutionOptions,
+  StartedExecution,
+  StopExecutionOptions,
+  toLocalExecutionArn,
+} from './execution-backend';
+import { ExecutionHistoryEvent } from './execution-history';
+import { MockConfig, createMockTaskHandler } from './mock-config';
+import { ExecutionStreamService } from '../execution-stream.service';
+
+interface LocalRun {
+  controller: AbortController;
+  history: ExecutionHistoryEvent[];
+  // Error and cause given when the execution was stopped
+  stop?: StopExecutionOptions;
+}
+
+/**
+ * Runs executions in-process with the ASL interpreter, without calling AWS.
+ * Task states are answered by a test case of the state machine's mock config.
+ *
+ * LOCAL_EXECUTION_TIME_SCALE scales Wait states and retry intervals
+ * (e.g. 0.01 to run a one-minute wait in 600ms, 0 to skip waiting entirely).
+ * INSTANCE_ID (default: the host name) is recorded on the executions this process runs,
+ * so that with several instances each one only gives up on its own runs.
+ */
+@Injectable()
+export class LocalExecutionBackend implements ExecutionBackend {
+  readonly name = 'local';
+
+  readonly instanceId: string;
+
+  // Executions running in this process, or finished with their outcome not yet recorded
+  private readonly running = new Map<string, LocalRun>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly executionStreamService: ExecutionStreamService,
+  ) {
+    this.instanceId =
+      this.configService.get<string>('INSTANCE_ID') || hostname();
+  }
+
+  startExecution(
+    stateMachine: StateMachine,
+    input: unknown,
+    name?: string,
+    options: StartExecutionOptions = {},
+  ): Promise<StartedExecution> {
+    const executionName = name || randomUUID();
+    const stateMachineArn = stateMachine.awsArn || '';
+    const executionArn = toLocalExecutionArn(stateMachineArn, executionName);
+
+    const run: LocalRun = { controller: new AbortController(), history: [] };
+    this.running.set(executionArn, run);
+
+    const interpreter = new AslInterpreter(stateMachine.definition, {
+      executionArn,
+      executionName,
+      stateMachineArn,
+      stateMachineName: stateMachine.name,
+      roleArn: stateMachine.roleArn,
+      taskHandler:
+        options.mockTestCase && stateMachine.mockConfig
+          ? createMockTaskHandler(
+              stateMachine.mockConfig as unknown as MockConfig,
+              options.mockTestCase,
+            )
+          : undefined,
+      timeScale: this.timeScale(),
+      onEvent: (event) => {
+        run.history.push(event);
+        this.executionStreamService.publishEvents(
+          executionArn,
+          stateMachineArn,
+          [event],
+        );
+      },
+    });
+
+    // Deferred so the caller can record the RUNNING execution before it completes
+    const completion = new Promise<ExecutionOutcome>((resolve) => {
+      setImmediate(() =>
+        resolve(interpreter.run(input ?? {}, run.controller.signal)),
+      );
+    }).then((outcome): CompletedExecution => {
+      if (outcome.status !== 'ABORTED' || !run.stop) {
+        return { ...outcome, history: run.history };
+      }
+      const { error, cause } = run.stop;
+      const aborted = run.history[run.history.length - 1];
+      if (aborted?.type === 'ExecutionAborted') {
+        aborted.details = { error, cause };
+      }
+      return { ...outcome, error, cause, history: run.history };
+    });
+
+    return Promise.resolve({ executionArn, startDate: new Date(), completion });
+  }
+
+  /**
+   * Aborts the interpreter at its next state. An execution that is no longer running
+   * in this process (e.g. interrupted by a restart) has nothing left to abort.
+   */
+  stopExecution(
+    executionArn: string,
+    options: StopExecutionOptions = {},
+  ): Promise<Date> {
+    const run = this.running.get(executionArn);
+    if (run) {
+      run.stop = options;
+      run.controller.abort();
+    }
+    return Promise.resolve(new Date());
+  }
+
+  // Finished runs hand their history over with the completed execution
+  getExecutionHistory(
+    executionArn: string,
+    options: ExecutionHistoryOptions = {},
+  ): Promise<ExecutionHistoryEvent[] | null> {
+    const run = this.running.get(executionArn);
+    const afterEventId = options.afterEventId ?? 0;
+    return Promise.resolve(
+      run ? run.history.filter((event) => event.id > afterEventId) : null,
+    );
+  }
+
+  isRunning(executionArn: string): boolean {
+    return this.running.has(executionArn);
+  }
+
+  // Called once the outcome of a finished run is recorded; until then it counts as running
+  release(executionArn: string) {
+    this.running.delete(executionArn);
+  }
+
+  private timeScale(): number {
+    const value = Number(
+      this.configService.get<string>('LOCAL_EXECUTION_TIME_SCALE') ?? 1,
+    );
+    return Number.isFinite(value) && value >= 0 ? value : 1;
+  }
+}
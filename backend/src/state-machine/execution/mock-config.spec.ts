@@ -0,0 +1,145 @@
+import { AslInterpreter } from './asl-interpreter';
+import {
+  MockConfig,
+  createMockTaskHandler,
+  normalizeMockConfig,
+  validateMockConfig,
+} from './mock-config';
+
+const definition = {
+  StartAt: 'Charge',
+  States: {
+    Charge: {
+      Type: 'Task',
+      Resource: 'arn:aws:states:::lambda:invoke',
+      Retry: [{ ErrorEquals: ['Gateway.Timeout'], MaxAttempts: 2 }],
+      Catch: [
+        {
+          ErrorEquals: ['States.ALL'],
+          ResultPath: '$.error',
+          Next: 'Refund',
+        },
+      ],
+      End: true,
+    },
+    Refund: {
+      Type: 'Task',
+      Resource: 'arn:aws:states:::lambda:invoke',
+      ResultPath: '$.refund',
+      End: true,
+    },
+  },
+};
+
+const mockConfig: MockConfig = {
+  TestCases: {
+    RecoversAfterTimeout: { Charge: 'TimeoutThenCharged' },
+    DeclinedAfterTimeouts: {
+      Charge: 'TimeoutsThenDeclined',
+      Refund: 'Refunded',
+    },
+  },
+  MockedResponses: {
+    TimeoutThenCharged: {
+      '0': { Throw: { Error: 'Gateway.Timeout', Cause: 'no answer' } },
+      '1': { Return: { charged: true } },
+    },
+    TimeoutsThenDeclined: {
+      '0-1': { Throw: { Error: 'Gateway.Timeout', Cause: 'no answer' } },
+      '2': {
+        Throw: { Error: 'Payment.Declined', Cause: 'insufficient funds' },
+      },
+    },
+    Refunded: { '0': { Return: { refunded: true } } },
+  },
+};
+
+function run(testCase: string, input: unknown) {
+  return new AslInterpreter(definition, {
+    executionArn: 'arn:aws:states:local:123456789012:execution:Pay:run-1',
+    executionName: 'run-1',
+    stateMachineArn: 'arn:aws:states:local:123456789012:stateMachine:Pay',
+    stateMachineName: 'Pay',
+    timeScale: 0,
+    taskHandler: createMockTaskHandler(mockConfig, testCase),
+  }).run(input);
+}
+
+describe('createMockTaskHandler', () => {
+  const refundRequest = {
+    stateName: 'Refund',
+    resource: 'arn:aws:states:::lambda:invoke',
+    payload: {},
+    retryCount: 0,
+    context: {},
+  };
+
+  it('retries through sequenced responses until one succeeds', async () => {
+    const outcome = await run('RecoversAfterTimeout', { orderId: 7 });
+
+    expect(outcome).toMatchObject({
+      status: 'SUCCEEDED',
+      output: { charged: true },
+    });
+  });
+
+  it('routes the error past the retried ranges to Catch', async () => {
+    const outcome = await run('DeclinedAfterTimeouts', { orderId: 7 });
+
+    expect(outcome).toMatchObject({
+      status: 'SUCCEEDED',
+      output: {
+        orderId: 7,
+        error: { Error: 'Payment.Declined', Cause: 'insufficient funds' },
+        refund: { refunded: true },
+      },
+    });
+  });
+
+  it('repeats the last response past the configured invocations', async () => {
+    const handler = createMockTaskHandler(mockConfig, 'DeclinedAfterTimeouts');
+
+    await expect(handler(refundRequest)).resolves.toEqual({ refunded: true });
+    await expect(handler(refundRequest)).resolves.toEqual({ refunded: true });
+  });
+
+  it('fails states the test case does not mock', async () => {
+    const handler = createMockTaskHandler(mockConfig, 'RecoversAfterTimeout');
+
+    await expect(handler(refundRequest)).rejects.toMatchObject({
+      error: 'States.TaskFailed',
+    });
+  });
+});
+
+describe('validateMockConfig', () => {
+  it('accepts a Step Functions Local file once normalized', () => {
+    const file = {
+      StateMachines: { Pay: { TestCases: mockConfig.TestCases } },
+      MockedResponses: mockConfig.MockedResponses,
+    };
+
+    expect(
+      validateMockConfig(normalizeMockConfig(file, 'Pay'), definition),
+    ).toEqual([]);
+  });
+
+  it('reports bad ranges, responses and states', () => {
+    const problems = validateMockConfig(
+      {
+        TestCases: { Broken: { Ship: 'Shipped', Charge: 'Missing' } },
+        MockedResponses: {
+          Shipped: { first: { Return: 1, Throw: { Error: 'X' } } },
+        },
+      },
+      definition,
+    );
+
+    expect(problems).toEqual([
+      'MockedResponses.Shipped: "first" is not an invocation index or range such as "0" or "1-2"',
+      'MockedResponses.Shipped.first must have exactly one of Return or Throw',
+      'TestCases.Broken: "Ship" is not a Task state of this state machine',
+      'TestCases.Broken.Charge refers to an unknown mocked response',
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { TaskHandler } from './asl-interpreter';
+import { StatesError } from './states-error';
+
+export interface MockedResponse {
+  Return?: unknown;
+  Throw?: { Error: string; Cause?: string };
+}
+
+/**
+ * Mocked Task responses for one state machine, in the shape of a
+ * Step Functions Local mock config file:
+ * - TestCases: test case name → Task state name → mocked response name
+ * - MockedResponses: response name → invocation range ("0", "1-2") → Return or Throw
+ */
+export interface MockConfig {
+  TestCases: Record<string, Record<string, string>>;
+  MockedResponses: Record<string, Record<string, MockedResponse>>;
+}
+
+const INVOCATION_RANGE = /^(\d+)(?:-(\d+))?$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseRange(key: string): [number, number] | null {
+  const match = INVOCATION_RANGE.exec(key);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2] === undefined ? start : Number(match[2]);
+  return start <= end ? [start, end] : null;
+}
+
+function collectTaskStates(
+  scope: unknown,
+  names: Set<string> = new Set(),
+): Set<string> {
+  if (!isObject(scope) || !isObject(scope.States)) {
+    return names;
+  }
+  for (const [name, state] of Object.entries(scope.States)) {
+    if (!isObject(state)) continue;
+    if (state.Type === 'Task') names.add(name);
+    if (Array.isArray(state.Branches)) {
+      state.Branches.forEach((branch) => collectTaskStates(branch, names));
+    }
+    collectTaskStates(state.ItemProcessor ?? state.Iterator, names);
+  }
+  return names;
+}
+
+/**
+ * Accepts either this state machine's section or a whole Step Functions Local
+ * file (`{ StateMachines: { <name>: { TestCases } }, MockedResponses }`).
+ */
+export function normalizeMockConfig(
+  config: unknown,
+  stateMachineName: string,
+): unknown {
+  if (!isObject(config) || !isObject(config.StateMachines)) {
+    return config;
+  }
+  const section = config.StateMachines[stateMachineName];
+  return {
+    TestCases: isObject(section) ? section.TestCases : undefined,
+    MockedResponses: config.MockedResponses,
+  };
+}
+
+/**
+ * Returns the problems found in a mock config; an empty list means it is usable.
+ * Mocked states must be Task states of the given definition.
+ */
+export function validateMockConfig(
+  config: unknown,
+  definition: Record<string, unknown>,
+): string[] {
+  if (!isObject(config)) {
+    return ['Mock config must be a JSON object'];
+  }
+
+  const problems: string[] = [];
+  const { TestCases, MockedResponses } = config;
+
+  if (!isObject(MockedResponses)) {
+    problems.push('MockedResponses must be an object');
+  } else {
+    for (const [name, responses] of Object.entries(MockedResponses)) {
+      if (!isObject(responses) || !Object.keys(responses).length) {
+        problems.push(
+          `MockedResponses.${name} must map invocation ranges to responses`,
+        );
+        continue;
+      }
+      for (const [range, response] of Object.entries(responses)) {
+        if (!parseRange(range)) {
+          problems.push(
+            `MockedResponses.${name}: "${range}" is not an invocation index or range such as "0" or "1-2"`,
+          );
+        }
+        const hasReturn = isObject(response) && 'Return' in response;
+        const hasThrow = isObject(response) && 'Throw' in response;
+        if (hasReturn === hasThrow) {
+          problems.push(
+            `MockedResponses.${name}.${range} must have exactly one of Return or Throw`,
+          );
+        } else if (
+          hasThrow &&
+          !(
+            isObject(response.Throw) && typeof response.Throw.Error === 'string'
+          )
+        ) {
+          problems.push(
+            `MockedResponses.${name}.${range}.Throw must have an Error string`,
+          );
+        }
+      }
+    }
+  }
+
+  if (!isObject(TestCases)) {
+    problems.push('TestCases must be an object');
+    return problems;
+  }
+
+  const taskStates = collectTaskStates(definition);
+  for (const [testCase, states] of Object.entries(TestCases)) {
+    if (!isObject(states)) {
+      problems.push(
+        `TestCases.${testCase} must map state names to mocked responses`,
+      );
+      continue;
+    }
+    for (const [stateName, responseName] of Object.entries(states)) {
+      if (!taskStates.has(stateName)) {
+        problems.push(
+          `TestCases.${testCase}: "${stateName}" is not a Task state of this state machine`,
+        );
+      }
+      if (
+        typeof responseName !== 'string' ||
+        !isObject(MockedResponses) ||
+        !(responseName in MockedResponses)
+      ) {
+        problems.push(
+          `TestCases.${testCase}.${stateName} refers to an unknown mocked response`,
+        );
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Task handler answering from a test case of the mock config. Invocations are
+ * counted per state from 0, so retries walk through the configured ranges;
+ * past the last range the last response keeps being returned.
+ */
+export function createMockTaskHandler(
+  config: MockConfig,
+  testCase: string,
+): TaskHandler {
+  const mockedStates = config.TestCases[testCase] || {};
+  const invocations = new Map<string, number>();
+
+  return ({ stateName }) => {
+    const responseName = mockedStates[stateName];
+    if (!responseName) {
+      return Promise.reject(
+        new StatesError(
+          'States.TaskFailed',
+          `State '${stateName}' has no mocked response in test case '${testCase}'`,
+        ),
+      );
+    }
+
+    const invocation = invocations.get(stateName) || 0;
+    invocations.set(stateName, invocation + 1);
+
+    const ranges = Object.entries(config.MockedResponses[responseName] || {})
+      .map(([key, response]) => ({ range: parseRange(key), response }))
+      .filter(
+        (
+          entry,
+        ): entry is { range: [number, number]; response: MockedResponse } =>
+          Boolean(entry.range),
+      )
+      .sort((a, b) => a.range[0] - b.range[0]);
+
+    const match =
+      ranges.find(
+        ({ range }) => invocation >= range[0] && invocation <= range[1],
+      ) || ranges[ranges.length - 1];
+
+    if (match?.response.Throw) {
+      const { Error: error, Cause: cause } = match.response.Throw;
+      return Promise.reject(new StatesError(error, cause ?? ''));
+    }
+    return Promise.resolve(structuredClone(match?.response.Return ?? null));
+  };
+}
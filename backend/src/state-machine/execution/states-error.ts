@@ -0,0 +1,46 @@
+/**
+ * An ASL runtime error, carrying the Error/Cause pair that Retry and Catch match on.
+ */
+export class StatesError extends Error {
+  constructor(
+    readonly error: string,
+    readonly cause: string,
+  ) {
+    super(`${error}: ${cause}`);
+    this.name = 'StatesError';
+  }
+}
+
+// Errors that terminate the execution and cannot be retried or caught, even by States.ALL
+const TERMINAL_ERRORS = new Set(['States.Runtime', 'States.DataLimitExceeded']);
+
+/**
+ * Whether an error name matches a Retrier/Catcher ErrorEquals list,
+ * including the States.ALL and States.TaskFailed wildcards.
+ */
+export function matchesError(
+  errorEquals: string[] | undefined,
+  error: string,
+): boolean {
+  if (!errorEquals || TERMINAL_ERRORS.has(error)) {
+    return false;
+  }
+
+  return errorEquals.some(
+    (name) =>
+      name === error ||
+      name === 'States.ALL' ||
+      (name === 'States.TaskFailed' && error !== 'States.Timeout'),
+  );
+}
+
+export function toStatesError(error: unknown): StatesError {
+  if (error instanceof StatesError) {
+    return error;
+  }
+
+  return new StatesError(
+    'States.Runtime',
+    error instanceof Error ? error.message : String(error),
+  );
+}
@@ -0,0 +1,111 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import {
+  Operation,
+  OperationStatus,
+  OperationType,
+  OperationTypes,
+} from './entities/operation.entity';
+
+// Operations whose database write may still be missing
+const INCOMPLETE_STATUSES: OperationStatus[] = ['PENDING', 'APPLIED'];
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Outbox of the AWS calls whose database write must not be lost: creating and deleting
+ * state machines and starting executions. An operation is recorded before the call,
+ * marked APPLIED with what AWS returned, and COMPLETED once the database write is done.
+ * OperationRecoveryService finishes the operations left PENDING or APPLIED.
+ *
+ * Only recording is required to succeed; later transitions are best effort, since
+ * recovery replays the database write of an operation whatever state it was left in.
+ */
+@Injectable()
+export class OperationLogService {
+  constructor(
+    @InjectRepository(Operation)
+    private readonly operationRepository: Repository<Operation>,
+  ) {}
+
+  // Throws when the operation cannot be recorded, so the AWS call is not made untracked
+  async record<T extends OperationType>(
+    type: T,
+    payload: OperationTypes[T]['payload'],
+  ): Promise<Operation<T>> {
+    const operation = new Operation<T>();
+    Object.assign(operation, {
+      type,
+      status: 'PENDING',
+      payload,
+      result: null,
+    });
+    try {
+      return await this.operationRepository.save(operation);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to record the operation in the database',
+        details: errorMessage(error),
+      });
+    }
+  }
+
+  applied<T extends OperationType>(
+    operation: Operation<T>,
+    result: OperationTypes[T]['result'],
+  ) {
+    return this.transition(operation, { status: 'APPLIED', result });
+  }
+
+  completed(operation: Operation) {
+    return this.transition(operation, { status: 'COMPLETED' });
+  }
+
+  failed(operation: Operation, error: unknown) {
+    return this.transition(operation, {
+      status: 'FAILED',
+      lastError: errorMessage(error),
+    });
+  }
+
+  // Operations left incomplete and not touched since the given date, oldest first
+  findIncomplete(notUpdatedSince: Date): Promise<Operation[]> {
+    return this.operationRepository.find({
+      where: {
+        status: In(INCOMPLETE_STATUSES),
+        updatedAt: LessThan(notUpdatedSince),
+      },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  recordFailedAttempt(operation: Operation, error: unknown) {
+    return this.transition(operation, {
+      attempts: operation.attempts + 1,
+      lastError: errorMessage(error),
+    });
+  }
+
+  // Deletes completed and failed operations last updated before the given date
+  async prune(before: Date) {
+    await this.operationRepository.delete({
+      status: In(['COMPLETED', 'FAILED']),
+      updatedAt: LessThan(before),
+    });
+  }
+
+  private async transition(operation: Operation, changes: Partial<Operation>) {
+    Object.assign(operation, changes);
+    try {
+      await this.operationRepository.save(operation);
+    } catch (error) {
+      console.error(
+        `Warning: Failed to update operation ${operation.id} (${operation.type}) to ${operation.status}:`,
+        errorMessage(error),
+      );
+    }
+  }
+}
@@ -0,0 +1,493 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  CreateStateMachineCommand,
+  DescribeExecutionCommand,
+  DescribeStateMachineCommand,
+  ExecutionDoesNotExist,
+  ListStateMachinesCommand,
+  StateMachineDoesNotExist,
+} from '@aws-sdk/client-sfn';
+import { OperationRecoveryService } from './operation-recovery.service';
+import { StateMachineService } from './state-machine.service';
+import { AslValidatorService } from './asl-validator.service';
+import { ExecutionStreamService } from './execution-stream.service';
+import { OperationLogService } from './operation-log.service';
+import { AwsExecutionBackend } from './execution/aws-execution.backend';
+import { LocalExecutionBackend } from './execution/local-execution.backend';
+import { ConnectionProfileService } from '../connection-profile/connection-profile.service';
+import { SfnClientFactory } from '../connection-profile/sfn-client.factory';
+import { StateMachine } from './entities/state-machine.entity';
+import { Execution } from './entities/execution.entity';
+import { ExecutionEvent } from './entities/execution-event.entity';
+import { Operation, OperationStatus } from './entities/operation.entity';
+import { StateMachineVersion } from './entities/state-machine-version.entity';
+import { StateMachineAlias } from './entities/state-machine-alias.entity';
+import { InMemoryRepository } from '../common/testing/in-memory-repository';
+
+const stateMachineArn =
+  'arn:aws:states:us-east-1:123456789012:stateMachine:Pay';
+const executionArn =
+  'arn:aws:states:us-east-1:123456789012:execution:Pay:run-1';
+const localExecutionArn =
+  'arn:aws:states:local:000000000000:execution:Pay:run-1';
+
+const definition = {
+  StartAt: 'Done',
+  States: { Done: { Type: 'Succeed' } },
+};
+
+const createPayload = {
+  name: 'Pay',
+  definition,
+  roleArn: 'arn:aws:iam::123456789012:role/StepFunctions',
+  connectionProfileId: null,
+};
+
+const createRequest = {
+  name: 'Pay',
+  definition,
+  roleArn: createPayload.roleArn,
+};
+
+const deletePayload = {
+  stateMachineArn,
+  connectionProfile: null,
+  connectionProfileId: null,
+};
+
+const startPayload = {
+  stateMachineArn,
+  stateMachineId: 'state-machine-id',
+  qualifier: null,
+  name: 'run-1',
+  input: { amount: 10 },
+  backend: 'aws',
+  connectionProfileId: null,
+};
+
+const secondsAgo = (seconds: number) => new Date(Date.now() - seconds * 1000);
+
+describe('OperationRecoveryService', () => {
+  let recovery: OperationRecoveryService;
+  let service: StateMachineService;
+  let operations: InMemoryRepository;
+  let stateMachines: InMemoryRepository;
+  let executions: InMemoryRepository;
+  // What the fake Step Functions API holds
+  let aws: {
+    stateMachines: {
+      name: string;
+      stateMachineArn: string;
+      creationDate: Date;
+      status?: string;
+    }[];
+    executions: { executionArn: string; startDate: Date }[];
+  };
+  let send: jest.Mock;
+
+  function respond(command: object) {
+    if (command instanceof CreateStateMachineCommand) {
+      const created = {
+        name: command.input.name as string,
+        stateMachineArn,
+        creationDate: new Date(),
+      };
+      aws.stateMachines.push(created);
+      return Promise.resolve(created);
+    }
+    if (command instanceof ListStateMachinesCommand) {
+      return Promise.resolve({ stateMachines: aws.stateMachines });
+    }
+    if (command instanceof DescribeStateMachineCommand) {
+      const found = aws.stateMachines.find(
+        (item) => item.stateMachineArn === command.input.stateMachineArn,
+      );
+      return found
+        ? Promise.resolve({ status: 'ACTIVE', ...found })
+        : Promise.reject(
+            new StateMachineDoesNotExist({
+              message: 'State Machine Does Not Exist',
+              $metadata: {},
+            }),
+          );
+    }
+    if (command instanceof DescribeExecutionCommand) {
+      const found = aws.executions.find(
+        (item) => item.executionArn === command.input.executionArn,
+      );
+      return found
+        ? Promise.resolve(found)
+        : Promise.reject(
+            new ExecutionDoesNotExist({
+              message: 'Execution Does Not Exist',
+              $metadata: {},
+            }),
+          );
+    }
+    return Promise.reject(
+      new Error(`Unexpected command ${command.constructor.name}`),
+    );
+  }
+
+  beforeEach(async () => {
+    operations = new InMemoryRepository();
+    stateMachines = new InMemoryRepository();
+    executions = new InMemoryRepository();
+    aws = { stateMachines: [], executions: [] };
+    send = jest.fn(respond);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        OperationRecoveryService,
+        StateMachineService,
+        AslValidatorService,
+        ExecutionStreamService,
+        OperationLogService,
+        LocalExecutionBackend,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ INSTANCE_ID: 'this-instance' }),
+        },
+        { provide: getRepositoryToken(Operation), useValue: operations },
+        { provide: getRepositoryToken(StateMachine), useValue: stateMachines },
+        { provide: getRepositoryToken(Execution), useValue: executions },
+        {
+          provide: getRepositoryToken(ExecutionEvent),
+          useValue: new InMemoryRepository(),
+        },
+        {
+          provide: getRepositoryToken(StateMachineVersion),
+          useValue: new InMemoryRepository(),
+        },
+        {
+          provide: getRepositoryToken(StateMachineAlias),
+          useValue: new InMemoryRepository(),
+        },
+        {
+          provide: ConnectionProfileService,
+          useValue: { resolveConnectionProfile: () => Promise.resolve(null) },
+        },
+        {
+          provide: SfnClientFactory,
+          useValue: { getClient: () => ({ send }) },
+        },
+        { provide: AwsExecutionBackend, useValue: { name: 'aws' } },
+      ],
+    }).compile();
+
+    recovery = module.get(OperationRecoveryService);
+    service = module.get(StateMachineService);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    recovery.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  // An operation left behind two minutes ago, past the in-flight grace period
+  async function leftBehind(
+    type: string,
+    status: OperationStatus,
+    payload: object,
+    result: object | null = null,
+    updatedAt = secondsAgo(120),
+  ) {
+    const operation = await operations.save({
+      type,
+      status,
+      payload,
+      result,
+      attempts: 0,
+      lastError: null,
+    });
+    return Object.assign(operation, { createdAt: updatedAt, updatedAt });
+  }
+
+  // Runs the startup pass; the fakes only resolve promises, so it is over once the microtasks are
+  async function recover() {
+    recovery.onApplicationBootstrap();
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  describe('operation log', () => {
+    it('completes an operation once AWS and the database are both done', async () => {
+      await service.createStateMachine(createRequest);
+
+      expect(operations.rows).toEqual([
+        expect.objectContaining({
+          type: 'CREATE_STATE_MACHINE',
+          status: 'COMPLETED',
+          result: expect.objectContaining({ stateMachineArn }),
+        }),
+      ]);
+    });
+
+    it('fails an operation AWS rejected', async () => {
+      send.mockRejectedValueOnce(new Error('Access denied'));
+
+      await expect(
+        service.createStateMachine(createRequest),
+      ).rejects.toMatchObject({
+        response: {
+          error: 'Failed to create state machine in AWS Step Functions',
+        },
+      });
+      expect(operations.rows[0]).toMatchObject({
+        status: 'FAILED',
+        lastError: 'Access denied',
+      });
+    });
+
+    it('leaves an operation APPLIED when the database write fails', async () => {
+      jest
+        .spyOn(stateMachines, 'save')
+        .mockRejectedValueOnce(new Error('Connection lost'));
+
+      await service.createStateMachine(createRequest);
+
+      expect(operations.rows[0]).toMatchObject({
+        status: 'APPLIED',
+        result: expect.objectContaining({ stateMachineArn }),
+      });
+      expect(stateMachines.rows).toEqual([]);
+    });
+  });
+
+  it('leaves operations updated in the last minute to whoever is running them', async () => {
+    const operation = await leftBehind(
+      'CREATE_STATE_MACHINE',
+      'PENDING',
+      createPayload,
+      null,
+      secondsAgo(30),
+    );
+
+    await recover();
+
+    expect(operation.status).toBe('PENDING');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('counts a failed attempt and keeps the operation for the next pass', async () => {
+    const operation = await leftBehind(
+      'CREATE_STATE_MACHINE',
+      'PENDING',
+      createPayload,
+    );
+    send.mockRejectedValue(new Error('connect ETIMEDOUT'));
+
+    await recover();
+
+    expect(operation).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      lastError: 'connect ETIMEDOUT',
+    });
+  });
+
+  describe('CREATE_STATE_MACHINE', () => {
+    it('saves a state machine found in AWS by name', async () => {
+      const operation = await leftBehind(
+        'CREATE_STATE_MACHINE',
+        'PENDING',
+        createPayload,
+      );
+      // Up to a minute earlier than recorded, in case the clocks differ
+      aws.stateMachines.push({
+        name: 'Pay',
+        stateMachineArn,
+        creationDate: secondsAgo(150),
+      });
+
+      await recover();
+
+      expect(operation.status).toBe('COMPLETED');
+      expect(stateMachines.rows).toEqual([
+        expect.objectContaining({ name: 'Pay', awsArn: stateMachineArn }),
+      ]);
+    });
+
+    it('fails when the state machine of that name is older than the operation', async () => {
+      const operation = await leftBehind(
+        'CREATE_STATE_MACHINE',
+        'PENDING',
+        createPayload,
+      );
+      aws.stateMachines.push({
+        name: 'Pay',
+        stateMachineArn,
+        creationDate: secondsAgo(200),
+      });
+
+      await recover();
+
+      expect(operation.status).toBe('FAILED');
+      expect(stateMachines.rows).toEqual([]);
+    });
+
+    it('fails when the state machine is missing in AWS', async () => {
+      const operation = await leftBehind(
+        'CREATE_STATE_MACHINE',
+        'PENDING',
+        createPayload,
+      );
+
+      await recover();
+
+      expect(operation).toMatchObject({
+        status: 'FAILED',
+        lastError: 'The state machine was not created in AWS',
+      });
+      expect(stateMachines.rows).toEqual([]);
+    });
+
+    it('saves what AWS returned to an APPLIED operation without asking again', async () => {
+      const operation = await leftBehind(
+        'CREATE_STATE_MACHINE',
+        'APPLIED',
+        createPayload,
+        { stateMachineArn, creationDate: secondsAgo(120).toISOString() },
+      );
+
+      await recover();
+
+      expect(operation.status).toBe('COMPLETED');
+      expect(stateMachines.rows).toHaveLength(1);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE_STATE_MACHINE', () => {
+    beforeEach(async () => {
+      await stateMachines.save({ name: 'Pay', awsArn: stateMachineArn });
+    });
+
+    it('removes the row of a state machine missing in AWS', async () => {
+      const operation = await leftBehind(
+        'DELETE_STATE_MACHINE',
+        'PENDING',
+        deletePayload,
+      );
+
+      await recover();
+
+      expect(operation.status).toBe('COMPLETED');
+      expect(stateMachines.rows).toEqual([]);
+    });
+
+    it('keeps the row of a state machine still found in AWS', async () => {
+      const operation = await leftBehind(
+        'DELETE_STATE_MACHINE',
+        'PENDING',
+        deletePayload,
+      );
+      aws.stateMachines.push({
+        name: 'Pay',
+        stateMachineArn,
+        creationDate: secondsAgo(3600),
+      });
+
+      await recover();
+
+      expect(operation).toMatchObject({
+        status: 'FAILED',
+        lastError: 'The state machine was not deleted in AWS',
+      });
+      expect(stateMachines.rows).toHaveLength(1);
+    });
+
+    it('removes the row of an APPLIED delete without asking AWS', async () => {
+      const operation = await leftBehind(
+        'DELETE_STATE_MACHINE',
+        'APPLIED',
+        deletePayload,
+        {},
+      );
+
+      await recover();
+
+      expect(operation.status).toBe('COMPLETED');
+      expect(stateMachines.rows).toEqual([]);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('START_EXECUTION', () => {
+    it('saves an execution found in AWS as RUNNING', async () => {
+      const operation = await leftBehind(
+        'START_EXECUTION',
+        'PENDING',
+        startPayload,
+      );
+      aws.executions.push({ executionArn, startDate: secondsAgo(110) });
+
+      await recover();
+
+      expect(operation.status).toBe('COMPLETED');
+      expect(executions.rows).toEqual([
+        expect.objectContaining({
+          awsExecutionArn: executionArn,
+          status: 'RUNNING',
+          input: { amount: 10 },
+        }),
+      ]);
+    });
+
+    it('fails when the execution is missing in AWS', async () => {
+      const operation = await leftBehind(
+        'START_EXECUTION',
+        'PENDING',
+        startPayload,
+      );
+
+      await recover();
+
+      expect(operation).toMatchObject({
+        status: 'FAILED',
+        lastError: 'The execution was not started',
+      });
+      expect(executions.rows).toEqual([]);
+    });
+
+    it('fails a PENDING local start without asking AWS', async () => {
+      const operation = await leftBehind('START_EXECUTION', 'PENDING', {
+        ...startPayload,
+        backend: 'local',
+        runnerId: 'this-instance',
+      });
+
+      await recover();
+
+      expect(operation.status).toBe('FAILED');
+      expect(executions.rows).toEqual([]);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('saves an APPLIED local start as RUNNING on its instance', async () => {
+      const operation = await leftBehind(
+        'START_EXECUTION',
+        'APPLIED',
+        { ...startPayload, backend: 'local', runnerId: 'this-instance' },
+        {
+          executionArn: localExecutionArn,
+          startDate: secondsAgo(120).toISOString(),
+        },
+      );
+
+      await recover();
+
+      expect(operation.status).toBe('COMPLETED');
+      expect(executions.rows).toEqual([
+        expect.objectContaining({
+          awsExecutionArn: localExecutionArn,
+          status: 'RUNNING',
+          runnerId: 'this-instance',
+          awsStartDate: expect.any(Date),
+        }),
+      ]);
+    });
+  });
+});
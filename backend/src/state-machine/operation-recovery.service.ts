@@ -0,0 +1,81 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { StateMachineService } from './state-machine.service';
+import { OperationLogService } from './operation-log.service';
+
+const RECOVERY_INTERVAL_MS = 5 * 60 * 1000;
+
+// Operations updated more recently may still be in flight, here or in another instance
+const IN_FLIGHT_GRACE_MS = 60 * 1000;
+
+// How long completed and failed operations are kept
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Finishes the operations of OperationLogService that were left incomplete, on startup
+ * and every RECOVERY_INTERVAL_MS after that: a state machine created or an execution
+ * started in AWS is saved to the database, a deleted state machine is removed from it,
+ * and an operation that never took effect in AWS is marked FAILED.
+ * An operation that cannot be recovered yet (e.g. AWS is unreachable) is retried on the next pass.
+ */
+@Injectable()
+export class OperationRecoveryService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(
+    private readonly operationLogService: OperationLogService,
+    private readonly stateMachineService: StateMachineService,
+  ) {}
+
+  onApplicationBootstrap() {
+    void this.run();
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  private async run() {
+    try {
+      await this.recover();
+    } catch (error) {
+      // The database is unreachable; try again on the next pass
+      console.error(
+        'Warning: Operation recovery pass failed:',
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+
+    if (!this.stopped) {
+      this.timer = setTimeout(() => void this.run(), RECOVERY_INTERVAL_MS);
+      // A pending pass does not keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  private async recover() {
+    await this.operationLogService.prune(new Date(Date.now() - RETENTION_MS));
+
+    const incomplete = await this.operationLogService.findIncomplete(
+      new Date(Date.now() - IN_FLIGHT_GRACE_MS),
+    );
+    for (const operation of incomplete) {
+      try {
+        await this.stateMachineService.recoverOperation(operation);
+      } catch (error) {
+        await this.operationLogService.recordFailedAttempt(operation, error);
+        console.error(
+          `Warning: Failed to recover operation ${operation.id} (${operation.type}, attempt ${operation.attempts}):`,
+          error instanceof Error ? error.message : 'Unknown error',
+        );
+      }
+    }
+  }
+}
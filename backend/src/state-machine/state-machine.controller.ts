@@ -3,9 +3,13 @@ import {
   Post,
   Delete,
   Get,
+  Put,
   Body,
   Query,
   Param,
+  HttpCode,
+  Sse,
+  BadRequestException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -18,11 +22,31 @@ import {
 import { StateMachineService } from './state-machine.service';
 import { CreateStateMachineDto } from './dto/create-state-machine.dto';
 import { StartExecutionDto } from './dto/start-execution.dto';
+import { StopExecutionDto } from './dto/stop-execution.dto';
+import { ValidateDefinitionDto } from './dto/validate-definition.dto';
+import { UpdateMockConfigDto } from './dto/update-mock-config.dto';
+import { UpdateStateMachineDto } from './dto/update-state-machine.dto';
+import { RollbackStateMachineDto } from './dto/rollback-state-machine.dto';
+import { PublishStateMachineVersionDto } from './dto/publish-state-machine-version.dto';
+import { ImportStateMachinesDto } from './dto/import-state-machines.dto';
+import { ResolveDriftDto } from './dto/resolve-drift.dto';
+import {
+  CreateStateMachineAliasDto,
+  UpdateStateMachineAliasDto,
+} from './dto/state-machine-alias.dto';
+import { AslValidatorService } from './asl-validator.service';
+import {
+  DEFAULT_HISTORY_PAGE_SIZE,
+  MAX_HISTORY_PAGE_SIZE,
+} from './execution/execution-history';
 
 @ApiTags('state-machines', 'executions')
 @Controller()
 export class StateMachineController {
-  constructor(private readonly stateMachineService: StateMachineService) {}
+  constructor(
+    private readonly stateMachineService: StateMachineService,
+    private readonly aslValidatorService: AslValidatorService,
+  ) {}
 
   @Get('state-machines')
   @ApiOperation({ summary: 'List all state machines' })
@@ -51,6 +75,419 @@ export class StateMachineController {
     return this.stateMachineService.createStateMachine(body);
   }
 
+  @Post('state-machines/validate')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Validate a state machine definition without deploying it',
+  })
+  @ApiBody({ type: ValidateDefinitionDto })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Validation result with diagnostics (severity, code, message, JSON pointer location)',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing definition',
+  })
+  validateDefinition(@Body() body: ValidateDefinitionDto) {
+    if (body?.definition === undefined) {
+      throw new BadRequestException('Missing required field: definition');
+    }
+    return this.aslValidatorService.validate(body.definition, body.maxResults);
+  }
+
+  @Get('state-machines/mock-config')
+  @ApiOperation({
+    summary: 'Get the mocked Task responses used by local executions',
+  })
+  @ApiQuery({
+    name: 'stateMachineArn',
+    description: 'ARN of the state machine',
+    required: true,
+  })
+  @ApiResponse({ status: 200, description: 'Mock config (null if not set)' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing stateMachineArn',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  getMockConfig(@Query('stateMachineArn') stateMachineArn?: string) {
+    return this.stateMachineService.getMockConfig(stateMachineArn || undefined);
+  }
+
+  @Put('state-machines/mock-config')
+  @ApiOperation({
+    summary: 'Set or remove the mocked Task responses used by local executions',
+  })
+  @ApiBody({ type: UpdateMockConfigDto })
+  @ApiResponse({ status: 200, description: 'Mock config saved' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing fields or invalid mock config',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  updateMockConfig(@Body() body: UpdateMockConfigDto) {
+    return this.stateMachineService.updateMockConfig(body);
+  }
+
+  @Get('state-machines/import')
+  @ApiOperation({
+    summary: 'List the state machines of an AWS account, tracked or not',
+  })
+  @ApiQuery({
+    name: 'connectionProfile',
+    description:
+      'Connection profile of the account (default profile if omitted)',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'State machines from ListStateMachines; tracked is false for those not in the database',
+  })
+  @ApiResponse({ status: 400, description: 'Unknown connection profile' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  listAwsStateMachines(@Query('connectionProfile') connectionProfile?: string) {
+    return this.stateMachineService.listAwsStateMachines(
+      connectionProfile || undefined,
+    );
+  }
+
+  @Post('state-machines/import')
+  @ApiOperation({
+    summary: 'Import state machines created outside the app',
+  })
+  @ApiBody({ type: ImportStateMachinesDto })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Imported state machines; already tracked ones are listed in skipped and failures in failed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing stateMachineArns or unknown profile',
+  })
+  importStateMachines(@Body() body: ImportStateMachinesDto) {
+    return this.stateMachineService.importStateMachines(body);
+  }
+
+  @Get('state-machines/drift')
+  @ApiOperation({
+    summary: 'Compare every deployed state machine and its executions with AWS',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Drift of each state machine (IN_SYNC, DRIFTED, DELETED_IN_AWS or ERROR) with the differing fields and executions',
+  })
+  getDriftReport() {
+    return this.stateMachineService.getDriftReport();
+  }
+
+  // Declared after state-machines/mock-config, /import and /drift so those routes are not taken as an id
+  @Get('state-machines/:id')
+  @ApiOperation({ summary: 'Get a state machine with its definition' })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiResponse({ status: 200, description: 'State machine' })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  getStateMachine(@Param('id') id: string) {
+    return this.stateMachineService.getStateMachine(id);
+  }
+
+  // Declared after state-machines/mock-config so that route is not taken as an id
+  @Put('state-machines/:id')
+  @ApiOperation({
+    summary:
+      'Update the definition, role, logging or tracing of a deployed state machine',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiBody({ type: UpdateStateMachineDto })
+  @ApiResponse({
+    status: 200,
+    description: 'State machine updated successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - nothing to update or invalid definition',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  updateStateMachine(
+    @Param('id') id: string,
+    @Body() body: UpdateStateMachineDto,
+  ) {
+    return this.stateMachineService.updateStateMachine(id, body);
+  }
+
+  @Get('state-machines/:id/drift')
+  @ApiOperation({
+    summary: 'Compare a deployed state machine and its executions with AWS',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Drift report of the state machine',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  getStateMachineDrift(@Param('id') id: string) {
+    return this.stateMachineService.getDriftReport(id);
+  }
+
+  @Post('state-machines/:id/drift/pull')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Resolve drift by copying the AWS state machine into the database',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiBody({ type: ResolveDriftDto, required: false })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Database updated from AWS; a changed definition or role is recorded as a new version',
+  })
+  @ApiResponse({ status: 400, description: 'State machine is not deployed' })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  pullFromAws(@Param('id') id: string, @Body() body?: ResolveDriftDto) {
+    return this.stateMachineService.pullFromAws(id, body || {});
+  }
+
+  @Post('state-machines/:id/drift/push')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Resolve drift by deploying the database copy to AWS',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiBody({ type: ResolveDriftDto, required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'State machine updated in AWS and recorded as a new version',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'State machine no longer exists in AWS',
+  })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  pushToAws(@Param('id') id: string, @Body() body?: ResolveDriftDto) {
+    return this.stateMachineService.pushToAws(id, body || {});
+  }
+
+  @Get('state-machines/:id/versions')
+  @ApiOperation({ summary: 'List the deployed versions of a state machine' })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Versions, newest first, without definitions',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  listVersions(@Param('id') id: string) {
+    return this.stateMachineService.listVersions(id);
+  }
+
+  // Declared before state-machines/:id/versions/:version so "diff" is not taken as a version
+  @Get('state-machines/:id/versions/diff')
+  @ApiOperation({ summary: 'Diff two versions of a state machine by state' })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiQuery({ name: 'from', description: 'Older version number' })
+  @ApiQuery({
+    name: 'to',
+    description: 'Newer version number (defaults to the latest version)',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Both versions with their definitions, and the added, removed and changed states',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid versions' })
+  @ApiResponse({
+    status: 404,
+    description: 'State machine or version not found',
+  })
+  diffVersions(
+    @Param('id') id: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.stateMachineService.diffVersions(
+      id,
+      parseVersion(from, 'from'),
+      to ? parseVersion(to, 'to') : undefined,
+    );
+  }
+
+  @Get('state-machines/:id/versions/:version')
+  @ApiOperation({ summary: 'Get one version of a state machine' })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiParam({ name: 'version', description: 'Version number' })
+  @ApiResponse({ status: 200, description: 'Version with its definition' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid version' })
+  @ApiResponse({
+    status: 404,
+    description: 'State machine or version not found',
+  })
+  getVersion(@Param('id') id: string, @Param('version') version: string) {
+    return this.stateMachineService.getVersion(
+      id,
+      parseVersion(version, 'version'),
+    );
+  }
+
+  @Post('state-machines/:id/versions/:version/rollback')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Redeploy a previous version (recorded as a new version)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiParam({ name: 'version', description: 'Version number to roll back to' })
+  @ApiBody({ type: RollbackStateMachineDto, required: false })
+  @ApiResponse({ status: 200, description: 'State machine rolled back' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid version' })
+  @ApiResponse({
+    status: 404,
+    description: 'State machine or version not found',
+  })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  rollbackToVersion(
+    @Param('id') id: string,
+    @Param('version') version: string,
+    @Body() body?: RollbackStateMachineDto,
+  ) {
+    return this.stateMachineService.rollbackToVersion(
+      id,
+      parseVersion(version, 'version'),
+      body || {},
+    );
+  }
+
+  @Post('state-machines/:id/publish')
+  @ApiOperation({
+    summary:
+      'Publish the current revision as an immutable Step Functions version',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiBody({ type: PublishStateMachineVersionDto, required: false })
+  @ApiResponse({
+    status: 201,
+    description: 'Version published; returns its version ARN and number',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  publishVersion(
+    @Param('id') id: string,
+    @Body() body?: PublishStateMachineVersionDto,
+  ) {
+    return this.stateMachineService.publishVersion(id, body || {});
+  }
+
+  @Get('state-machines/:id/aliases')
+  @ApiOperation({ summary: 'List the aliases of a state machine' })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiResponse({ status: 200, description: 'Aliases with their routing' })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  listAliases(@Param('id') id: string) {
+    return this.stateMachineService.listAliases(id);
+  }
+
+  @Post('state-machines/:id/aliases')
+  @ApiOperation({
+    summary: 'Create an alias routing to one or two published versions',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiBody({ type: CreateStateMachineAliasDto })
+  @ApiResponse({ status: 201, description: 'Alias created successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid name or routing configuration',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 409, description: 'Alias already exists' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  createAlias(
+    @Param('id') id: string,
+    @Body() body: CreateStateMachineAliasDto,
+  ) {
+    return this.stateMachineService.createAlias(id, body);
+  }
+
+  @Put('state-machines/:id/aliases/:name')
+  @ApiOperation({ summary: 'Update the description or routing of an alias' })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiParam({ name: 'name', description: 'Alias name' })
+  @ApiBody({ type: UpdateStateMachineAliasDto })
+  @ApiResponse({ status: 200, description: 'Alias updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - nothing to update or invalid routing',
+  })
+  @ApiResponse({ status: 404, description: 'Alias not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  updateAlias(
+    @Param('id') id: string,
+    @Param('name') name: string,
+    @Body() body: UpdateStateMachineAliasDto,
+  ) {
+    return this.stateMachineService.updateAlias(id, name, body);
+  }
+
+  @Delete('state-machines/:id/aliases/:name')
+  @ApiOperation({ summary: 'Delete an alias' })
+  @ApiParam({
+    name: 'id',
+    description: 'Database id or ARN of the state machine',
+  })
+  @ApiParam({ name: 'name', description: 'Alias name' })
+  @ApiResponse({ status: 200, description: 'Alias deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Alias not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  deleteAlias(@Param('id') id: string, @Param('name') name: string) {
+    return this.stateMachineService.deleteAlias(id, name);
+  }
+
   @Delete('state-machines')
   @ApiOperation({ summary: 'Delete a state machine' })
   @ApiQuery({
@@ -58,18 +495,28 @@ export class StateMachineController {
     description: 'ARN of the state machine to delete',
     required: true,
   })
+  @ApiQuery({
+    name: 'connectionProfile',
+    description:
+      "Connection profile to delete with. Defaults to the state machine's profile.",
+    required: false,
+  })
   @ApiResponse({
     status: 200,
     description: 'State machine deleted successfully',
   })
   @ApiResponse({
     status: 400,
-    description: 'Bad request - missing stateMachineArn',
+    description: 'Bad request - missing stateMachineArn or unknown profile',
   })
   @ApiResponse({ status: 500, description: 'Internal server error' })
-  deleteStateMachine(@Query('stateMachineArn') stateMachineArn?: string) {
+  deleteStateMachine(
+    @Query('stateMachineArn') stateMachineArn?: string,
+    @Query('connectionProfile') connectionProfile?: string,
+  ) {
     return this.stateMachineService.deleteStateMachine(
       stateMachineArn || undefined,
+      connectionProfile || undefined,
     );
   }
 
@@ -122,6 +569,184 @@ export class StateMachineController {
     );
   }
 
+  @Sse('executions/stream')
+  @ApiOperation({
+    summary: "Stream status changes and events of a state machine's executions",
+    description:
+      'Server-Sent Events: execution-status messages when an execution starts or changes status, execution-event messages for each new history event (state transitions), and a heartbeat every 15 seconds',
+  })
+  @ApiQuery({
+    name: 'stateMachineArn',
+    description: 'ARN of the state machine',
+    required: true,
+  })
+  @ApiResponse({ status: 200, description: 'Event stream opened' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing stateMachineArn',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  streamExecutions(@Query('stateMachineArn') stateMachineArn?: string) {
+    return this.stateMachineService.streamExecutions(
+      stateMachineArn || undefined,
+    );
+  }
+
+  @Delete('executions')
+  @ApiOperation({
+    summary: 'Stop all running executions of a state machine',
+  })
+  @ApiQuery({
+    name: 'stateMachineArn',
+    description: 'ARN of the state machine',
+    required: true,
+  })
+  @ApiBody({ type: StopExecutionDto, required: false })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Running executions stopped; executions that could not be stopped are listed in failed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing stateMachineArn or invalid error/cause',
+  })
+  @ApiResponse({ status: 404, description: 'State machine not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  stopExecutions(
+    @Query('stateMachineArn') stateMachineArn?: string,
+    @Body() body?: StopExecutionDto,
+  ) {
+    return this.stateMachineService.stopExecutions(
+      stateMachineArn || undefined,
+      body || {},
+    );
+  }
+
+  @Delete('executions/:executionArn')
+  @ApiOperation({ summary: 'Stop a running execution' })
+  @ApiParam({ name: 'executionArn', description: 'ARN of the execution' })
+  @ApiBody({ type: StopExecutionDto, required: false })
+  @ApiResponse({ status: 200, description: 'Execution stopped successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid error/cause or unknown profile',
+  })
+  @ApiResponse({ status: 404, description: 'Execution not found' })
+  @ApiResponse({ status: 409, description: 'Execution is not running' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  stopExecution(
+    @Param('executionArn') executionArn: string,
+    @Body() body?: StopExecutionDto,
+  ) {
+    return this.stateMachineService.stopExecution(executionArn, body || {});
+  }
+
+  @Get('executions/:executionArn/history')
+  @ApiOperation({
+    summary: 'Get the event history of an execution',
+  })
+  @ApiParam({ name: 'executionArn', description: 'ARN of the execution' })
+  @ApiQuery({
+    name: 'maxResults',
+    description: `Events per page (default ${DEFAULT_HISTORY_PAGE_SIZE}, at most ${MAX_HISTORY_PAGE_SIZE})`,
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'nextToken',
+    description: 'nextToken of the previous page',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'reverseOrder',
+    description: 'List the most recent events first',
+    required: false,
+    type: Boolean,
+  })
+  @ApiQuery({
+    name: 'types',
+    description:
+      'Comma-separated event types to keep, e.g. TaskFailed,TaskStateExited',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Execution history retrieved successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid pagination parameters',
+  })
+  @ApiResponse({ status: 404, description: 'Execution not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  getExecutionHistory(
+    @Param('executionArn') executionArn: string,
+    @Query('maxResults') maxResults?: string,
+    @Query('nextToken') nextToken?: string,
+    @Query('reverseOrder') reverseOrder?: string,
+    @Query('types') types?: string,
+  ) {
+    const pageSize = maxResults ? Number(maxResults) : undefined;
+    if (
+      pageSize !== undefined &&
+      (!Number.isInteger(pageSize) ||
+        pageSize < 1 ||
+        pageSize > MAX_HISTORY_PAGE_SIZE)
+    ) {
+      throw new BadRequestException(
+        `Invalid maxResults: expected a number from 1 to ${MAX_HISTORY_PAGE_SIZE}`,
+      );
+    }
+    if (nextToken && !/^\d+$/.test(nextToken)) {
+      throw new BadRequestException('Invalid nextToken');
+    }
+
+    return this.stateMachineService.getExecutionHistory(executionArn, {
+      maxResults: pageSize,
+      nextToken: nextToken || undefined,
+      reverseOrder: reverseOrder === 'true',
+      types: types
+        ?.split(',')
+        .map((type) => type.trim())
+        .filter(Boolean),
+    });
+  }
+
+  @Sse('executions/:executionArn/stream')
+  @ApiOperation({
+    summary: 'Stream status changes and events of an execution',
+    description:
+      'Server-Sent Events: the current execution-status first, then execution-status and execution-event messages like the state machine stream',
+  })
+  @ApiParam({ name: 'executionArn', description: 'ARN of the execution' })
+  @ApiResponse({ status: 200, description: 'Event stream opened' })
+  @ApiResponse({ status: 404, description: 'Execution not found' })
+  streamExecution(@Param('executionArn') executionArn: string) {
+    return this.stateMachineService.streamExecution(executionArn);
+  }
+
+  @Post('executions/:executionArn/redrive')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Redrive a failed execution from its point of failure',
+  })
+  @ApiParam({ name: 'executionArn', description: 'ARN of the execution' })
+  @ApiResponse({ status: 200, description: 'Execution redriven successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - local executions cannot be redriven',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Execution is not FAILED, TIMED_OUT or ABORTED, or AWS refused it',
+  })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  redriveExecution(@Param('executionArn') executionArn: string) {
+    return this.stateMachineService.redriveExecution(executionArn);
+  }
+
   @Get('executions/:executionArn')
   @ApiOperation({ summary: 'Get execution details' })
   @ApiParam({ name: 'executionArn', description: 'ARN of the execution' })
@@ -140,3 +765,13 @@ export class StateMachineController {
     );
   }
 }
+
+function parseVersion(value: string | undefined, name: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new BadRequestException(
+      `Invalid ${name}: expected a version number starting at 1`,
+    );
+  }
+  return version;
+}
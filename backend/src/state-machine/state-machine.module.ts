@@ -2,14 +2,44 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { StateMachineController } from './state-machine.controller';
 import { StateMachineService } from './state-machine.service';
+import { ExecutionSyncService } from './execution-sync.service';
+import { ExecutionStreamService } from './execution-stream.service';
+import { OperationLogService } from './operation-log.service';
+import { OperationRecoveryService } from './operation-recovery.service';
+import { AslValidatorService } from './asl-validator.service';
+import { LocalExecutionBackend } from './execution/local-execution.backend';
 import { StateMachine } from './entities/state-machine.entity';
 import { Execution } from './entities/execution.entity';
+import { StateMachineVersion } from './entities/state-machine-version.entity';
+import { StateMachineAlias } from './entities/state-machine-alias.entity';
+import { ExecutionEvent } from './entities/execution-event.entity';
+import { Operation } from './entities/operation.entity';
+import { ConnectionProfileModule } from '../connection-profile/connection-profile.module';
+import { AwsExecutionBackend } from './execution/aws-execution.backend';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([StateMachine, Execution])],
+  imports: [
+    TypeOrmModule.forFeature([
+      StateMachine,
+      Execution,
+      StateMachineVersion,
+      StateMachineAlias,
+      ExecutionEvent,
+      Operation,
+    ]),
+    ConnectionProfileModule,
+  ],
   controllers: [StateMachineController],
-  providers: [StateMachineService],
+  providers: [
+    StateMachineService,
+    ExecutionSyncService,
+    ExecutionStreamService,
+    OperationLogService,
+    OperationRecoveryService,
+    AslValidatorService,
+    AwsExecutionBackend,
+    LocalExecutionBackend,
+  ],
   exports: [StateMachineService],
 })
 export class StateMachineModule {}
-
@@ -0,0 +1,193 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { StateMachineService } from './state-machine.service';
+import { AslValidatorService } from './asl-validator.service';
+import { ExecutionStreamService } from './execution-stream.service';
+import { OperationLogService } from './operation-log.service';
+import { AwsExecutionBackend } from './execution/aws-execution.backend';
+import { LocalExecutionBackend } from './execution/local-execution.backend';
+import { ConnectionProfileService } from '../connection-profile/connection-profile.service';
+import { SfnClientFactory } from '../connection-profile/sfn-client.factory';
+import { StateMachine } from './entities/state-machine.entity';
+import { Execution } from './entities/execution.entity';
+import { ExecutionEvent } from './entities/execution-event.entity';
+import { Operation } from './entities/operation.entity';
+import { StateMachineVersion } from './entities/state-machine-version.entity';
+import { StateMachineAlias } from './entities/state-machine-alias.entity';
+import { InMemoryRepository } from '../common/testing/in-memory-repository';
+
+const definition = {
+  StartAt: 'Greet',
+  States: {
+    Greet: {
+      Type: 'Pass',
+      Parameters: { 'greeting.$': "States.Format('Hello {}', $.name)" },
+      Next: 'Done',
+    },
+    Done: { Type: 'Succeed' },
+  },
+};
+
+// Five seconds at LOCAL_EXECUTION_TIME_SCALE 0.01
+const waitingDefinition = {
+  StartAt: 'Sleep',
+  States: { Sleep: { Type: 'Wait', Seconds: 5, End: true } },
+};
+
+async function waitUntil(condition: () => boolean) {
+  for (let tick = 0; tick < 200 && !condition(); tick++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('StateMachineService with the local backend', () => {
+  let service: StateMachineService;
+  let localBackend: LocalExecutionBackend;
+  let executions: InMemoryRepository;
+  let events: InMemoryRepository;
+
+  beforeEach(async () => {
+    executions = new InMemoryRepository();
+    events = new InMemoryRepository();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        StateMachineService,
+        AslValidatorService,
+        ExecutionStreamService,
+        OperationLogService,
+        LocalExecutionBackend,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            EXECUTION_BACKEND: 'local',
+            LOCAL_EXECUTION_TIME_SCALE: '0.01',
+            INSTANCE_ID: 'this-instance',
+          }),
+        },
+        {
+          provide: getRepositoryToken(StateMachine),
+          useValue: new InMemoryRepository(),
+        },
+        { provide: getRepositoryToken(Execution), useValue: executions },
+        { provide: getRepositoryToken(ExecutionEvent), useValue: events },
+        {
+          provide: getRepositoryToken(StateMachineVersion),
+          useValue: new InMemoryRepository(),
+        },
+        {
+          provide: getRepositoryToken(StateMachineAlias),
+          useValue: new InMemoryRepository(),
+        },
+        {
+          provide: getRepositoryToken(Operation),
+          useValue: new InMemoryRepository(),
+        },
+        {
+          provide: ConnectionProfileService,
+          useValue: { resolveConnectionProfile: () => Promise.resolve(null) },
+        },
+        // Nothing may reach AWS
+        { provide: SfnClientFactory, useValue: {} },
+        { provide: AwsExecutionBackend, useValue: { name: 'aws' } },
+      ],
+    }).compile();
+
+    service = module.get(StateMachineService);
+    localBackend = module.get(LocalExecutionBackend);
+  });
+
+  it('creates a state machine and runs it without AWS', async () => {
+    const created = await service.createStateMachine({
+      name: 'Greeter',
+      definition,
+      backend: 'local',
+    });
+    expect(created.stateMachineArn).toBe(
+      'arn:aws:states:local:000000000000:stateMachine:Greeter',
+    );
+
+    const started = await service.startExecution({
+      stateMachineArn: created.stateMachineArn as string,
+      name: 'run-1',
+      input: { name: 'Ada' },
+    });
+    expect(started).toMatchObject({
+      backend: 'local',
+      executionArn: 'arn:aws:states:local:000000000000:execution:Greeter:run-1',
+    });
+
+    // The outcome is recorded once the in-process run finishes
+    await waitUntil(() => executions.rows[0]?.status !== 'RUNNING');
+    expect(executions.rows[0]).toMatchObject({
+      status: 'SUCCEEDED',
+      output: { greeting: 'Hello Ada' },
+    });
+    expect(events.rows.map((event) => event.type)).toContain(
+      'ExecutionSucceeded',
+    );
+  });
+
+  it('rejects AWS executions of local state machines', async () => {
+    const created = await service.createStateMachine({
+      name: 'Greeter',
+      definition,
+      backend: 'local',
+    });
+
+    await expect(
+      service.startExecution({
+        stateMachineArn: created.stateMachineArn as string,
+        backend: 'aws',
+      }),
+    ).rejects.toMatchObject({
+      response: { error: 'Local state machines run locally only' },
+    });
+  });
+
+  it('deploys to AWS unless the local backend is requested', async () => {
+    // Without a role ARN the AWS path stops before calling AWS
+    await expect(
+      service.createStateMachine({ name: 'Greeter', definition }),
+    ).rejects.toMatchObject({
+      message: expect.stringContaining('Missing IAM Role ARN'),
+    });
+  });
+
+  it('refuses to stop a local execution run by another instance', async () => {
+    const executionArn =
+      'arn:aws:states:local:000000000000:execution:Greeter:elsewhere';
+    await executions.save({
+      awsExecutionArn: executionArn,
+      status: 'RUNNING',
+      runnerId: 'other-instance',
+    });
+
+    await expect(service.stopExecution(executionArn)).rejects.toMatchObject({
+      status: 409,
+      response: { error: 'Execution runs on another instance' },
+    });
+    expect(executions.rows[0].status).toBe('RUNNING');
+  });
+
+  it('keeps a status recorded while the run was finishing', async () => {
+    const { stateMachineArn } = await service.createStateMachine({
+      name: 'Sleeper',
+      definition: waitingDefinition,
+      backend: 'local',
+    });
+    const { executionArn } = await service.startExecution({
+      stateMachineArn: stateMachineArn as string,
+    });
+
+    // E.g. another request stopped it in the meantime
+    executions.rows[0].status = 'ABORTED';
+    await waitUntil(() => !localBackend.isRunning(executionArn));
+
+    expect(executions.rows[0].status).toBe('ABORTED');
+    expect(events.rows.map((event) => event.type)).toContain(
+      'ExecutionSucceeded',
+    );
+  });
+});
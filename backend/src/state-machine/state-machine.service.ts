@@ -1,31 +1,151 @@
-import { Injectable, BadRequestException, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  MessageEvent,
+  BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { Observable } from 'rxjs';
+import { isDeepStrictEqual } from 'util';
+import { randomUUID } from 'crypto';
 import {
   SFNClient,
   CreateStateMachineCommand,
+  CreateStateMachineCommandOutput,
+  UpdateStateMachineCommand,
+  UpdateStateMachineCommandOutput,
   DeleteStateMachineCommand,
+  PublishStateMachineVersionCommand,
+  PublishStateMachineVersionCommandOutput,
+  CreateStateMachineAliasCommand,
+  CreateStateMachineAliasCommandOutput,
+  UpdateStateMachineAliasCommand,
+  DeleteStateMachineAliasCommand,
+  LoggingConfiguration,
+  TracingConfiguration,
   DescribeExecutionCommand,
+  ExecutionDoesNotExist,
+  DescribeStateMachineCommand,
+  DescribeStateMachineCommandOutput,
   ListExecutionsCommand,
-  StartExecutionCommand,
+  ListStateMachinesCommand,
+  ListTagsForResourceCommand,
+  StateMachineListItem,
+  StateMachineDoesNotExist,
+  Tag,
+  RedriveExecutionCommand,
+  ExecutionNotRedrivable,
 } from '@aws-sdk/client-sfn';
 import { StateMachine } from './entities/state-machine.entity';
 import { Execution } from './entities/execution.entity';
+import { ExecutionEvent } from './entities/execution-event.entity';
+import {
+  CreateStateMachinePayload,
+  CreatedStateMachine,
+  DeleteStateMachinePayload,
+  Operation,
+  StartExecutionPayload,
+  StartedExecutionResult,
+  isOperationOf,
+} from './entities/operation.entity';
+import { StateMachineVersion } from './entities/state-machine-version.entity';
+import {
+  AliasRoute,
+  StateMachineAlias,
+} from './entities/state-machine-alias.entity';
 import { CreateStateMachineDto } from './dto/create-state-machine.dto';
+import { UpdateStateMachineDto } from './dto/update-state-machine.dto';
+import { RollbackStateMachineDto } from './dto/rollback-state-machine.dto';
+import { PublishStateMachineVersionDto } from './dto/publish-state-machine-version.dto';
+import {
+  AliasRouteDto,
+  CreateStateMachineAliasDto,
+  UpdateStateMachineAliasDto,
+} from './dto/state-machine-alias.dto';
 import { StartExecutionDto } from './dto/start-execution.dto';
+import { StopExecutionDto } from './dto/stop-execution.dto';
+import { UpdateMockConfigDto } from './dto/update-mock-config.dto';
+import { ImportStateMachinesDto } from './dto/import-state-machines.dto';
+import { ResolveDriftDto } from './dto/resolve-drift.dto';
+import { AslValidatorService } from './asl-validator.service';
+import { diffDefinitions } from './definition-diff';
+import {
+  StateMachineDrift,
+  compareExecution,
+  compareStateMachine,
+  definitionHash,
+} from './drift';
+import { ConnectionProfileService } from '../connection-profile/connection-profile.service';
+import { ConnectionProfile } from '../connection-profile/entities/connection-profile.entity';
+import { SfnClientFactory } from '../connection-profile/sfn-client.factory';
+import { AwsExecutionBackend } from './execution/aws-execution.backend';
+import { LocalExecutionBackend } from './execution/local-execution.backend';
+import { ExecutionStreamService } from './execution-stream.service';
+import { OperationLogService } from './operation-log.service';
+import {
+  MockConfig,
+  normalizeMockConfig,
+  validateMockConfig,
+} from './execution/mock-config';
+import {
+  ExecutionHistoryEvent,
+  ExecutionHistoryPageOptions,
+  isCompleteHistory,
+  lastEventId,
+  pageExecutionHistory,
+} from './execution/execution-history';
+import {
+  CompletedExecution,
+  EXECUTION_BACKENDS,
+  ExecutionBackend,
+  ExecutionBackendName,
+  StartedExecution,
+  isLocalExecutionArn,
+  isLocalStateMachineArn,
+  splitQualifiedArn,
+  toExecutionArn,
+  toLocalExecutionArn,
+  toLocalStateMachineArn,
+  toStateMachineArn,
+} from './execution/execution-backend';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Step Functions alias names; digits only would read as a version number
+const ALIAS_NAME_PATTERN = /^(?=.*[A-Za-z_-])[A-Za-z0-9_-]{1,80}$/;
+
+// Names of local state machines end up in their ARN, so they cannot contain ":"
+const LOCAL_NAME_PATTERN = /^[^\s:]{1,80}$/;
+
+// Executions that stopped short of completion and can be redriven
+const REDRIVABLE_STATUSES = ['FAILED', 'TIMED_OUT', 'ABORTED'];
+
+// Executions compared with AWS per state machine: the newest page of ListExecutions
+const DRIFT_EXECUTIONS_PAGE_SIZE = 1000;
+
+// Limits StopExecution puts on the error and cause of an aborted execution
+const MAX_STOP_ERROR_LENGTH = 256;
+const MAX_STOP_CAUSE_LENGTH = 32768;
+
+// A state machine found in AWS up to this long before its create was recorded is taken as created by it
+const CLOCK_SKEW_TOLERANCE_MS = 60 * 1000;
 
 /**
  * StateMachineService
- * 
+ *
  * Architecture: This service is built on top of AWS Step Functions SDK (@aws-sdk/client-sfn).
  * AWS Step Functions is the source of truth for all state machine and execution operations.
- * 
+ *
  * Database Usage:
  * - PostgreSQL database is used for tracking, querying, and maintaining relationships
  * - Database stores metadata, definitions, and execution history
  * - Database operations are secondary to AWS SDK operations
- * 
+ *
  * Error Handling:
  * - If AWS SDK operation succeeds but database operation fails, the AWS operation is considered successful
  * - Warnings are logged for database failures to help identify sync issues
@@ -33,7 +153,10 @@ import { StartExecutionDto } from './dto/start-execution.dto';
  */
 @Injectable()
 export class StateMachineService {
-  private readonly sfnClient: SFNClient;
+  private readonly executionBackends: Record<
+    ExecutionBackendName,
+    ExecutionBackend
+  >;
 
   constructor(
     private readonly configService: ConfigService,
@@ -41,47 +164,84 @@ export class StateMachineService {
     private readonly stateMachineRepository: Repository<StateMachine>,
     @InjectRepository(Execution)
     private readonly executionRepository: Repository<Execution>,
+    @InjectRepository(StateMachineVersion)
+    private readonly versionRepository: Repository<StateMachineVersion>,
+    @InjectRepository(StateMachineAlias)
+    private readonly aliasRepository: Repository<StateMachineAlias>,
+    @InjectRepository(ExecutionEvent)
+    private readonly executionEventRepository: Repository<ExecutionEvent>,
+    private readonly aslValidatorService: AslValidatorService,
+    private readonly connectionProfileService: ConnectionProfileService,
+    private readonly sfnClientFactory: SfnClientFactory,
+    private readonly executionStreamService: ExecutionStreamService,
+    private readonly operationLogService: OperationLogService,
+    awsExecutionBackend: AwsExecutionBackend,
+    private readonly localExecutionBackend: LocalExecutionBackend,
   ) {
-    const region = this.configService.get<string>('AWS_REGION') || 'us-east-1';
-    const accessKeyId = this.configService.get<string>('AWS_ACCESS_KEY_ID');
-    const secretAccessKey = this.configService.get<string>('AWS_SECRET_ACCESS_KEY');
-
-    this.sfnClient = new SFNClient({
-      region,
-      credentials:
-        accessKeyId && secretAccessKey
-          ? {
-              accessKeyId,
-              secretAccessKey,
-            }
-          : undefined,
-    });
+    this.executionBackends = {
+      aws: awsExecutionBackend,
+      local: localExecutionBackend,
+    };
   }
 
   /**
    * Create a state machine in AWS Step Functions and save to database.
    * Architecture: AWS SDK is the source of truth for state machine operations.
    * Database is used for tracking and querying.
-   * 
-   * Flow: AWS SDK Create → Save to DB
-   * If AWS succeeds but DB fails, the state machine exists in AWS but not tracked in DB.
+   *
+   * Flow: Record operation → AWS SDK Create → Save to DB
+   * If AWS succeeds but DB fails, OperationRecoveryService saves the state machine later.
+   * With backend "local" the state machine is only saved to the database.
    */
   async createStateMachine(dto: CreateStateMachineDto) {
-    const { name, definition, roleArn } = dto;
+    const { name, definition, roleArn, connectionProfile, author, message } =
+      dto;
     if (!name || !definition) {
-      throw new BadRequestException('Missing required fields: name and definition');
+      throw new BadRequestException(
+        'Missing required fields: name and definition',
+      );
+    }
+
+    this.assertValidDefinition(definition);
+
+    // EXECUTION_BACKEND only picks where executions run; creating locally is always explicit
+    if (
+      dto.backend &&
+      this.resolveExecutionBackend(dto.backend).name === 'local'
+    ) {
+      return this.createLocalStateMachine(dto);
     }
 
-    const executionRoleArn = roleArn || this.configService.get<string>('AWS_STEP_FUNCTIONS_ROLE_ARN');
+    const executionRoleArn =
+      roleArn || this.configService.get<string>('AWS_STEP_FUNCTIONS_ROLE_ARN');
     if (!executionRoleArn) {
       throw new BadRequestException(
         'Missing IAM Role ARN. Provide AWS_STEP_FUNCTIONS_ROLE_ARN or pass roleArn in request body.',
       );
     }
 
-    let awsResponse;
+    const profile =
+      await this.connectionProfileService.resolveConnectionProfile(
+        connectionProfile,
+      );
+
+    // Step 1: Record the operation, so the state machine is tracked even if Step 3 fails
+    const payload: CreateStateMachinePayload = {
+      name,
+      definition: definition as Record<string, unknown>,
+      roleArn: executionRoleArn,
+      connectionProfileId: profile?.id ?? null,
+      author,
+      message,
+    };
+    const operation = await this.operationLogService.record(
+      'CREATE_STATE_MACHINE',
+      payload,
+    );
+
+    let awsResponse: CreateStateMachineCommandOutput;
     try {
-      // Step 1: Create in AWS Step Functions (source of truth)
+      // Step 2: Create in AWS Step Functions (source of truth)
       const command = new CreateStateMachineCommand({
         name,
         definition: JSON.stringify(definition),
@@ -89,30 +249,29 @@ export class StateMachineService {
         type: 'STANDARD',
       });
 
-      awsResponse = await this.sfnClient.send(command);
+      awsResponse = await this.sfnClientFactory
+        .getClient(profile)
+        .send(command);
     } catch (error) {
+      await this.operationLogService.failed(operation, error);
       throw new InternalServerErrorException({
         error: 'Failed to create state machine in AWS Step Functions',
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
 
-    // Step 2: Save to database for tracking
-    try {
-      const stateMachine = this.stateMachineRepository.create({
-        name,
-        awsArn: awsResponse.stateMachineArn || null,
-        definition: definition as Record<string, unknown>,
-        roleArn: executionRoleArn,
-        type: 'STANDARD',
-        status: 'ACTIVE',
-        awsCreationDate: awsResponse.creationDate || null,
-      });
+    const created: CreatedStateMachine = {
+      stateMachineArn: awsResponse.stateMachineArn as string,
+      creationDate: awsResponse.creationDate,
+    };
+    await this.operationLogService.applied(operation, created);
 
-      await this.stateMachineRepository.save(stateMachine);
+    // Step 3: Save to database for tracking
+    try {
+      await this.trackCreatedStateMachine(payload, created);
+      await this.operationLogService.completed(operation);
     } catch (error) {
-      // AWS creation succeeded but DB save failed
-      // Log warning but don't fail the request since AWS operation succeeded
+      // AWS creation succeeded but DB save failed; the operation is left for recovery
       console.error(
         `Warning: State machine created in AWS (${awsResponse.stateMachineArn}) but failed to save to database:`,
         error instanceof Error ? error.message : 'Unknown error',
@@ -124,280 +283,2274 @@ export class StateMachineService {
       success: true,
       stateMachineArn: awsResponse.stateMachineArn,
       creationDate: awsResponse.creationDate,
+      connectionProfile: profile?.name ?? null,
       message: 'State machine created successfully!',
     };
   }
 
   /**
-   * List all state machines from database.
-   * Note: This queries the database which tracks state machines created via AWS SDK.
-   * The database is the source for listing/querying operations.
+   * Update a deployed state machine in AWS Step Functions and in the database.
+   * The state machine is looked up by its database id or its ARN.
+   * A new definition or role is recorded as the next version.
+   *
+   * Flow: Verify in DB → AWS SDK Update → Update DB and record version
+   * If AWS succeeds but DB fails, AWS runs the new definition while the DB keeps the old one.
    */
-  async listStateMachines(): Promise<{
-    success: boolean;
-    stateMachines: Array<{
-      stateMachineArn: string | null;
-      name: string;
-      status: string;
-      creationDate: Date | null;
-      type: string;
-      definition: Record<string, unknown>;
-    }>;
-  }> {
-    try {
-      const stateMachines = await this.stateMachineRepository.find({
-        order: { createdAt: 'DESC' },
-      });
+  async updateStateMachine(idOrArn: string, dto: UpdateStateMachineDto) {
+    const {
+      definition,
+      roleArn,
+      loggingConfiguration,
+      tracingConfiguration,
+      author,
+      message,
+    } = dto;
+    if (
+      definition === undefined &&
+      !roleArn &&
+      !loggingConfiguration &&
+      !tracingConfiguration
+    ) {
+      throw new BadRequestException(
+        'Nothing to update: provide definition, roleArn, loggingConfiguration or tracingConfiguration',
+      );
+    }
 
-      return {
-        success: true,
-        stateMachines: stateMachines.map((sm) => ({
-          stateMachineArn: sm.awsArn,
-          name: sm.name,
-          status: sm.status,
-          creationDate: sm.awsCreationDate || sm.createdAt,
-          type: sm.type,
-          definition: sm.definition,
-        })),
-      };
-    } catch (error) {
-      throw new InternalServerErrorException({
-        error: 'Failed to list state machines',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      });
+    if (definition !== undefined) {
+      this.assertValidDefinition(definition);
     }
-  }
 
-  /**
-   * Delete a state machine from AWS Step Functions and database.
-   * Architecture: AWS SDK is the source of truth.
-   * 
-   * Flow: AWS SDK Delete → Delete from DB
-   * If AWS succeeds but DB fails, the state machine is deleted from AWS but may remain in DB.
-   */
-  async deleteStateMachine(stateMachineArn?: string) {
-    if (!stateMachineArn) {
-      throw new BadRequestException('Missing required parameter: stateMachineArn');
+    const stateMachine = await this.findStateMachine(idOrArn);
+    if (!stateMachine.awsArn) {
+      throw new NotFoundException('State machine not found');
     }
 
-    try {
-      // Step 1: Delete from AWS Step Functions (source of truth)
-      const command = new DeleteStateMachineCommand({
-        stateMachineArn,
-      });
-      await this.sfnClient.send(command);
-    } catch (error) {
-      throw new InternalServerErrorException({
-        error: 'Failed to delete state machine from AWS Step Functions',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      });
+    // Local state machines only exist in the database
+    let awsResponse: Partial<UpdateStateMachineCommandOutput> = {};
+    if (!isLocalStateMachineArn(stateMachine.awsArn)) {
+      const client = await this.resolveSfnClient(undefined, stateMachine);
+      try {
+        // Step 1: Update in AWS Step Functions (source of truth)
+        const command = new UpdateStateMachineCommand({
+          stateMachineArn: stateMachine.awsArn,
+          definition:
+            definition !== undefined ? JSON.stringify(definition) : undefined,
+          roleArn: roleArn || undefined,
+          loggingConfiguration: loggingConfiguration as
+            | LoggingConfiguration
+            | undefined,
+          tracingConfiguration: tracingConfiguration as
+            | TracingConfiguration
+            | undefined,
+        });
+
+        awsResponse = await client.send(command);
+      } catch (error) {
+        throw new InternalServerErrorException({
+          error: 'Failed to update state machine in AWS Step Functions',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
     }
 
-    // Step 2: Delete from database
+    // Step 2: Update the database row and record the deployed version
+    let version: StateMachineVersion | undefined;
     try {
-      const stateMachine = await this.stateMachineRepository.findOne({
-        where: { awsArn: stateMachineArn },
-      });
+      if (definition !== undefined) {
+        stateMachine.definition = definition as Record<string, unknown>;
+      }
+      stateMachine.roleArn = roleArn || stateMachine.roleArn;
+      stateMachine.loggingConfiguration =
+        loggingConfiguration || stateMachine.loggingConfiguration;
+      stateMachine.tracingConfiguration =
+        tracingConfiguration || stateMachine.tracingConfiguration;
 
-      if (stateMachine) {
-        await this.stateMachineRepository.remove(stateMachine);
+      await this.stateMachineRepository.save(stateMachine);
+      if (definition !== undefined || roleArn) {
+        version = await this.recordVersion(stateMachine, {
+          author,
+          message,
+          awsRevisionId: awsResponse.revisionId,
+        });
       }
     } catch (error) {
-      // AWS deletion succeeded but DB delete failed
       console.error(
-        `Warning: State machine deleted from AWS (${stateMachineArn}) but failed to delete from database:`,
+        `Warning: State machine updated in AWS (${stateMachine.awsArn}) but failed to update the database:`,
         error instanceof Error ? error.message : 'Unknown error',
       );
-      // Still return success since AWS operation succeeded
     }
 
-    return { success: true, message: 'State machine deleted successfully!' };
-  }
-
-  async listExecutions(stateMachineArn?: string, maxResults = 10) {
-    if (!stateMachineArn) {
-      throw new BadRequestException('Missing required parameter: stateMachineArn');
+    // The mock config was validated against the previous definition; renamed or removed
+    // Task states are reported rather than blocking the deploy
+    const mockConfigProblems =
+      definition !== undefined && stateMachine.mockConfig
+        ? validateMockConfig(stateMachine.mockConfig, stateMachine.definition)
+        : [];
+    if (mockConfigProblems.length) {
+      console.warn(
+        `Warning: The mock config of ${stateMachine.awsArn} no longer matches its definition:`,
+        mockConfigProblems.join('; '),
+      );
     }
 
-    try {
-      // Find state machine in database
-      const stateMachine = await this.stateMachineRepository.findOne({
-        where: { awsArn: stateMachineArn },
-      });
+    return {
+      success: true,
+      stateMachineArn: stateMachine.awsArn,
+      updateDate: awsResponse.updateDate,
+      revisionId: awsResponse.revisionId,
+      version: version?.version,
+      mockConfigProblems,
+      message: 'State machine updated successfully!',
+    };
+  }
 
-      if (!stateMachine) {
-        throw new NotFoundException('State machine not found');
-      }
+  /**
+   * Versions of a state machine, newest first, without their definitions.
+   */
+  async listVersions(idOrArn: string) {
+    const stateMachine = await this.findStateMachine(idOrArn);
 
-      // Query executions from database
-      const executions = await this.executionRepository.find({
-        where: { awsStateMachineArn: stateMachineArn },
-        order: { awsStartDate: 'DESC' },
-        take: maxResults,
+    try {
+      const versions = await this.versionRepository.find({
+        where: { stateMachineId: stateMachine.id },
+        order: { version: 'DESC' },
       });
 
       return {
         success: true,
-        executions: executions.map((exec) => ({
-          executionArn: exec.awsExecutionArn,
-          name: exec.name,
-          status: exec.status,
-          startDate: exec.awsStartDate,
-          stopDate: exec.awsStopDate,
+        stateMachineArn: stateMachine.awsArn,
+        versions: versions.map((v) => ({
+          version: v.version,
+          author: v.author,
+          message: v.message,
+          revisionId: v.awsRevisionId,
+          createdAt: v.createdAt,
+          publishedVersion: v.awsVersionNumber,
+          publishedVersionArn: v.awsVersionArn,
+          current: isDeepStrictEqual(v.definition, stateMachine.definition),
         })),
       };
     } catch (error) {
-      if (error instanceof NotFoundException) {
-        throw error;
-      }
       throw new InternalServerErrorException({
-        error: 'Failed to list executions',
+        error: 'Failed to list versions',
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   }
 
-  async describeExecution(executionArn?: string) {
-    if (!executionArn) {
-      throw new BadRequestException('Missing required parameter: executionArn');
+  async getVersion(idOrArn: string, version: number) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    const found = await this.findVersion(stateMachine, version);
+
+    return {
+      success: true,
+      stateMachineArn: stateMachine.awsArn,
+      ...this.toVersionResponse(found),
+    };
+  }
+
+  /**
+   * State-level diff between two versions; `to` defaults to the latest version.
+   */
+  async diffVersions(idOrArn: string, from: number, to?: number) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    const fromVersion = await this.findVersion(stateMachine, from);
+    const toVersion = await this.findVersion(stateMachine, to);
+
+    return {
+      success: true,
+      stateMachineArn: stateMachine.awsArn,
+      from: this.toVersionResponse(fromVersion),
+      to: this.toVersionResponse(toVersion),
+      diff: diffDefinitions(fromVersion.definition, toVersion.definition),
+    };
+  }
+
+  /**
+   * Redeploy the definition and role of a previous version.
+   * The rollback is recorded as a new version, so history is never rewritten.
+   */
+  async rollbackToVersion(
+    idOrArn: string,
+    version: number,
+    dto: RollbackStateMachineDto = {},
+  ) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    const target = await this.findVersion(stateMachine, version);
+
+    const result = await this.updateStateMachine(stateMachine.id, {
+      definition: target.definition,
+      roleArn: target.roleArn || undefined,
+      author: dto.author,
+      message: dto.message || `Rollback to version ${target.version}`,
+    });
+
+    return { ...result, rolledBackTo: target.version };
+  }
+
+  /**
+   * Publish the current revision of a state machine as an immutable Step Functions version.
+   * The latest recorded definition version is marked with the published version number.
+   */
+  async publishVersion(
+    idOrArn: string,
+    dto: PublishStateMachineVersionDto = {},
+  ) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    if (!stateMachine.awsArn) {
+      throw new NotFoundException('State machine not found');
     }
+    this.assertDeployedToAws(stateMachine);
 
-    try {
-      // Query from database first
-      const execution = await this.executionRepository.findOne({
-        where: { awsExecutionArn: executionArn },
-      });
+    const latest = await this.versionRepository.findOne({
+      where: { stateMachineId: stateMachine.id },
+      order: { version: 'DESC' },
+    });
+    const client = await this.resolveSfnClient(undefined, stateMachine);
 
-      if (execution) {
-        return {
-          success: true,
-          executionArn: execution.awsExecutionArn,
-          stateMachineArn: execution.awsStateMachineArn,
-          name: execution.name,
-          status: execution.status,
-          startDate: execution.awsStartDate,
-          stopDate: execution.awsStopDate,
-          input: execution.input,
-          output: execution.output,
-          error: execution.error,
-          cause: execution.cause,
-        };
+    // Updates that record no version (logging, tracing) change the revision too, so
+    // the current one is read from AWS rather than from the latest version
+    let revisionId: string | undefined;
+    try {
+      const described = await client.send(
+        new DescribeStateMachineCommand({
+          stateMachineArn: stateMachine.awsArn,
+        }),
+      );
+      revisionId = described.revisionId;
+      if (
+        latest &&
+        definitionHash(JSON.parse(described.definition || '{}')) !==
+          definitionHash(latest.definition)
+      ) {
+        throw new ConflictException({
+          error: 'State machine changed outside the app',
+          details:
+            'The definition in AWS differs from the latest recorded version. Resolve the drift before publishing.',
+        });
       }
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+      throw new InternalServerErrorException({
+        error: 'Failed to describe state machine in AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
 
-      // If not found in DB, try AWS (for backward compatibility)
-      const command = new DescribeExecutionCommand({
-        executionArn,
+    let awsResponse: PublishStateMachineVersionCommandOutput;
+    try {
+      // Publishing with the described revision fails if AWS has moved on since
+      const command = new PublishStateMachineVersionCommand({
+        stateMachineArn: stateMachine.awsArn,
+        description: dto.description || undefined,
+        revisionId,
       });
 
-      const response = await this.sfnClient.send(command);
+      awsResponse = await client.send(command);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to publish state machine version in AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
 
-      let input: unknown = null;
-      let output: unknown = null;
+    const versionArn = awsResponse.stateMachineVersionArn || '';
+    const publishedVersion = Number(versionArn.split(':').pop()) || null;
 
+    if (latest) {
       try {
-        input = response.input ? JSON.parse(response.input) : null;
-      } catch {
-        input = response.input;
+        latest.awsRevisionId = revisionId || latest.awsRevisionId;
+        latest.awsVersionArn = versionArn;
+        latest.awsVersionNumber = publishedVersion;
+        latest.publishedAt = awsResponse.creationDate || new Date();
+        await this.versionRepository.save(latest);
+      } catch (error) {
+        console.error(
+          `Warning: Version published in AWS (${versionArn}) but failed to save to database:`,
+          error instanceof Error ? error.message : 'Unknown error',
+        );
       }
+    }
 
-      try {
-        output = response.output ? JSON.parse(response.output) : null;
-      } catch {
-        output = response.output;
-      }
+    return {
+      success: true,
+      stateMachineVersionArn: versionArn,
+      publishedVersion,
+      version: latest?.version,
+      creationDate: awsResponse.creationDate,
+      message: `Published version ${publishedVersion}`,
+    };
+  }
+
+  async listAliases(idOrArn: string) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+
+    try {
+      const aliases = await this.aliasRepository.find({
+        where: { stateMachineId: stateMachine.id },
+        order: { name: 'ASC' },
+      });
 
       return {
         success: true,
-        executionArn: response.executionArn,
-        stateMachineArn: response.stateMachineArn,
-        name: response.name,
-        status: response.status,
-        startDate: response.startDate,
-        stopDate: response.stopDate,
-        input,
-        output,
-        error: response.error,
-        cause: response.cause,
+        stateMachineArn: stateMachine.awsArn,
+        aliases: aliases.map((alias) => this.toAliasResponse(alias)),
       };
     } catch (error) {
       throw new InternalServerErrorException({
-        error: 'Failed to get execution details',
+        error: 'Failed to list aliases',
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   }
 
   /**
-   * Start an execution in AWS Step Functions and save to database.
-   * Architecture: AWS SDK is the source of truth for execution operations.
-   * 
-   * Flow: Verify in DB → AWS SDK Start → Save to DB
-   * If AWS succeeds but DB save fails, execution runs in AWS but not tracked in DB.
+   * Create an alias routing executions to one or two published versions,
+   * e.g. prod → 90% version 5, 10% version 6.
+   *
+   * Flow: AWS SDK Create → Save to DB
    */
-  async startExecution(dto: StartExecutionDto) {
-    const { stateMachineArn, input, name } = dto;
-    if (!stateMachineArn) {
-      throw new BadRequestException('Missing required field: stateMachineArn');
+  async createAlias(idOrArn: string, dto: CreateStateMachineAliasDto) {
+    const { name, description } = dto;
+    if (!name || !ALIAS_NAME_PATTERN.test(name)) {
+      throw new BadRequestException({
+        error: 'Invalid alias name',
+        details:
+          'Alias names have 1-80 letters, digits, "-" or "_" and cannot be only digits',
+      });
     }
 
-    // Step 1: Verify state machine exists in database
-    const stateMachine = await this.stateMachineRepository.findOne({
-      where: { awsArn: stateMachineArn },
-    });
-
-    if (!stateMachine) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    if (!stateMachine.awsArn) {
       throw new NotFoundException('State machine not found');
     }
+    this.assertDeployedToAws(stateMachine);
+    const routingConfiguration = this.toRoutingConfiguration(
+      stateMachine.awsArn,
+      dto.routingConfiguration,
+    );
+
+    const existing = await this.aliasRepository.findOne({
+      where: { stateMachineId: stateMachine.id, name },
+    });
+    if (existing) {
+      throw new ConflictException({
+        error: 'Alias already exists',
+        details: `This state machine already has an alias named "${name}"`,
+      });
+    }
 
-    let awsResponse;
+    const client = await this.resolveSfnClient(undefined, stateMachine);
+
+    let awsResponse: CreateStateMachineAliasCommandOutput;
     try {
-      // Step 2: Start execution in AWS Step Functions (source of truth)
-      const command = new StartExecutionCommand({
-        stateMachineArn,
-        input: input ? JSON.stringify(input) : '{}',
+      const command = new CreateStateMachineAliasCommand({
         name,
+        description: description || undefined,
+        routingConfiguration,
       });
 
-      awsResponse = await this.sfnClient.send(command);
+      awsResponse = await client.send(command);
     } catch (error) {
       throw new InternalServerErrorException({
-        error: 'Failed to start execution in AWS Step Functions',
+        error: 'Failed to create alias in AWS Step Functions',
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
 
-    // Step 3: Save execution to database for tracking
+    const alias = this.aliasRepository.create({
+      name,
+      description: description || null,
+      awsArn:
+        awsResponse.stateMachineAliasArn || `${stateMachine.awsArn}:${name}`,
+      routingConfiguration,
+      awsCreationDate: awsResponse.creationDate || null,
+      stateMachineId: stateMachine.id,
+    });
     try {
-      const execution = this.executionRepository.create({
-        awsExecutionArn: awsResponse.executionArn || '',
-        awsStateMachineArn: stateMachineArn,
-        name: name || null,
-        status: 'RUNNING',
-        input: (input as Record<string, unknown>) || null,
-        awsStartDate: awsResponse.startDate || null,
-        stateMachineId: stateMachine.id,
-      });
-
-      await this.executionRepository.save(execution);
+      await this.aliasRepository.save(alias);
     } catch (error) {
-      // AWS start succeeded but DB save failed
       console.error(
-        `Warning: Execution started in AWS (${awsResponse.executionArn}) but failed to save to database:`,
+        `Warning: Alias created in AWS (${alias.awsArn}) but failed to save to database:`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+
+    return {
+      success: true,
+      alias: this.toAliasResponse(alias),
+      message: 'Alias created successfully!',
+    };
+  }
+
+  /**
+   * Change the description or routing of an alias, e.g. to shift traffic to a new version.
+   *
+   * Flow: AWS SDK Update → Update DB
+   */
+  async updateAlias(
+    idOrArn: string,
+    name: string,
+    dto: UpdateStateMachineAliasDto,
+  ) {
+    const { description } = dto;
+    if (description === undefined && !dto.routingConfiguration) {
+      throw new BadRequestException(
+        'Nothing to update: provide description or routingConfiguration',
+      );
+    }
+
+    const stateMachine = await this.findStateMachine(idOrArn);
+    const alias = await this.aliasRepository.findOne({
+      where: { stateMachineId: stateMachine.id, name },
+    });
+    if (!stateMachine.awsArn || !alias) {
+      throw new NotFoundException('Alias not found');
+    }
+    const routingConfiguration = dto.routingConfiguration
+      ? this.toRoutingConfiguration(
+          stateMachine.awsArn,
+          dto.routingConfiguration,
+        )
+      : undefined;
+
+    const client = await this.resolveSfnClient(undefined, stateMachine);
+
+    try {
+      const command = new UpdateStateMachineAliasCommand({
+        stateMachineAliasArn: alias.awsArn,
+        description,
+        routingConfiguration,
+      });
+
+      await client.send(command);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to update alias in AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    try {
+      alias.description =
+        description === undefined ? alias.description : description || null;
+      alias.routingConfiguration =
+        routingConfiguration || alias.routingConfiguration;
+      await this.aliasRepository.save(alias);
+    } catch (error) {
+      console.error(
+        `Warning: Alias updated in AWS (${alias.awsArn}) but failed to update the database:`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+
+    return {
+      success: true,
+      alias: this.toAliasResponse(alias),
+      message: 'Alias updated successfully!',
+    };
+  }
+
+  async deleteAlias(idOrArn: string, name: string) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    const alias = await this.aliasRepository.findOne({
+      where: { stateMachineId: stateMachine.id, name },
+    });
+    if (!alias) {
+      throw new NotFoundException('Alias not found');
+    }
+
+    const client = await this.resolveSfnClient(undefined, stateMachine);
+
+    try {
+      await client.send(
+        new DeleteStateMachineAliasCommand({
+          stateMachineAliasArn: alias.awsArn,
+        }),
+      );
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to delete alias from AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    try {
+      await this.aliasRepository.remove(alias);
+    } catch (error) {
+      console.error(
+        `Warning: Alias deleted from AWS (${alias.awsArn}) but failed to delete from database:`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+
+    return { success: true, message: 'Alias deleted successfully!' };
+  }
+
+  /**
+   * List all state machines from database.
+   * Note: This queries the database which tracks state machines created via AWS SDK.
+   * The database is the source for listing/querying operations.
+   */
+  async listStateMachines(): Promise<{
+    success: boolean;
+    stateMachines: Array<{
+      stateMachineArn: string | null;
+      name: string;
+      status: string;
+      creationDate: Date | null;
+      type: string;
+      definition: Record<string, unknown>;
+      connectionProfile: string | null;
+      publishedVersion: number | null;
+      aliases: Array<ReturnType<StateMachineService['toAliasResponse']>>;
+    }>;
+  }> {
+    try {
+      const stateMachines = await this.stateMachineRepository.find({
+        relations: { connectionProfile: true, aliases: true },
+        order: { createdAt: 'DESC' },
+      });
+
+      // Latest published Step Functions version of each state machine
+      const published = await this.versionRepository
+        .createQueryBuilder('version')
+        .select('version.stateMachineId', 'stateMachineId')
+        .addSelect('MAX(version.awsVersionNumber)', 'publishedVersion')
+        .where('version.awsVersionNumber IS NOT NULL')
+        .groupBy('version.stateMachineId')
+        .getRawMany<{ stateMachineId: string; publishedVersion: number }>();
+      const publishedVersions = new Map(
+        published.map((row) => [row.stateMachineId, row.publishedVersion]),
+      );
+
+      return {
+        success: true,
+        stateMachines: stateMachines.map((sm) => ({
+          stateMachineArn: sm.awsArn,
+          name: sm.name,
+          status: sm.status,
+          creationDate: sm.awsCreationDate || sm.createdAt,
+          type: sm.type,
+          definition: sm.definition,
+          connectionProfile: sm.connectionProfile?.name ?? null,
+          publishedVersion: publishedVersions.get(sm.id) ?? null,
+          aliases: (sm.aliases || []).map((alias) =>
+            this.toAliasResponse(alias),
+          ),
+        })),
+      };
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to list state machines',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * A tracked state machine with its current definition, e.g. to open it on the canvas.
+   */
+  async getStateMachine(idOrArn: string) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    const profile = stateMachine.connectionProfileId
+      ? await this.connectionProfileService.resolveConnectionProfile(
+          undefined,
+          stateMachine.connectionProfileId,
+        )
+      : null;
+
+    return {
+      success: true,
+      id: stateMachine.id,
+      stateMachineArn: stateMachine.awsArn,
+      name: stateMachine.name,
+      status: stateMachine.status,
+      type: stateMachine.type,
+      roleArn: stateMachine.roleArn,
+      creationDate: stateMachine.awsCreationDate || stateMachine.createdAt,
+      definition: stateMachine.definition,
+      tags: stateMachine.tags,
+      connectionProfile: profile?.name ?? null,
+    };
+  }
+
+  /**
+   * State machines of the AWS account behind a connection profile (ListStateMachines),
+   * each marked as tracked when it is already in the database.
+   * Machines created with the console, CDK or Terraform show up as untracked.
+   */
+  async listAwsStateMachines(connectionProfile?: string) {
+    const profile =
+      await this.connectionProfileService.resolveConnectionProfile(
+        connectionProfile,
+      );
+
+    const listed: StateMachineListItem[] = [];
+    try {
+      const client = this.sfnClientFactory.getClient(profile);
+      let nextToken: string | undefined;
+      do {
+        const response = await client.send(
+          new ListStateMachinesCommand({ maxResults: 1000, nextToken }),
+        );
+        listed.push(...(response.stateMachines || []));
+        nextToken = response.nextToken;
+      } while (nextToken);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to list state machines in AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const tracked = new Set(
+      await this.findTrackedArns(listed.map((item) => item.stateMachineArn)),
+    );
+    return {
+      success: true,
+      connectionProfile: profile?.name ?? null,
+      stateMachines: listed.map((item) => ({
+        stateMachineArn: item.stateMachineArn,
+        name: item.name,
+        type: item.type,
+        creationDate: item.creationDate,
+        tracked: tracked.has(item.stateMachineArn as string),
+      })),
+    };
+  }
+
+  /**
+   * Import state machines created outside the app so they appear in the dashboard
+   * and can be opened on the canvas. Each one is described in AWS with its tags,
+   * saved with the connection profile it was read with and recorded as version 1.
+   * Tracked machines are skipped; those that cannot be imported are reported in failed.
+   */
+  async importStateMachines(dto: ImportStateMachinesDto) {
+    const { stateMachineArns, connectionProfile, author } = dto;
+    if (
+      !Array.isArray(stateMachineArns) ||
+      !stateMachineArns.length ||
+      stateMachineArns.some((arn) => typeof arn !== 'string' || !arn)
+    ) {
+      throw new BadRequestException('Missing required field: stateMachineArns');
+    }
+
+    const profile =
+      await this.connectionProfileService.resolveConnectionProfile(
+        connectionProfile,
+      );
+    const client = this.sfnClientFactory.getClient(profile);
+
+    const requested = [...new Set(stateMachineArns)];
+    const skipped = await this.findTrackedArns(requested);
+    const imported: Array<{ stateMachineArn: string; name: string }> = [];
+    const failed: Array<{ stateMachineArn: string; details: string }> = [];
+    for (const stateMachineArn of requested) {
+      if (skipped.includes(stateMachineArn)) continue;
+
+      // Step 1: Read the state machine and its tags from AWS
+      let stateMachine: StateMachine;
+      let revisionId: string | undefined;
+      try {
+        const described = await client.send(
+          new DescribeStateMachineCommand({ stateMachineArn }),
+        );
+        const { tags } = await client.send(
+          new ListTagsForResourceCommand({ resourceArn: stateMachineArn }),
+        );
+        revisionId = described.revisionId;
+        stateMachine = this.stateMachineRepository.create({
+          name: described.name || stateMachineArn.split(':').pop(),
+          awsArn: stateMachineArn,
+          definition: JSON.parse(described.definition || '{}') as Record<
+            string,
+            unknown
+          >,
+          roleArn: described.roleArn || null,
+          type: described.type || 'STANDARD',
+          status: described.status || 'ACTIVE',
+          awsCreationDate: described.creationDate || null,
+          loggingConfiguration:
+            (described.loggingConfiguration as Record<string, unknown>) || null,
+          tracingConfiguration:
+            (described.tracingConfiguration as Record<string, unknown>) || null,
+          tags: tags?.length
+            ? Object.fromEntries(
+                tags.map((tag) => [tag.key || '', tag.value || '']),
+              )
+            : null,
+          connectionProfileId: profile?.id ?? null,
+        });
+      } catch (error) {
+        failed.push({
+          stateMachineArn,
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+        continue;
+      }
+
+      // Step 2: Save to database for tracking
+      try {
+        await this.stateMachineRepository.save(stateMachine);
+        await this.recordVersion(stateMachine, {
+          author,
+          message: 'Imported from AWS',
+          awsRevisionId: revisionId,
+        });
+        imported.push({ stateMachineArn, name: stateMachine.name });
+      } catch (error) {
+        failed.push({
+          stateMachineArn,
+          details: `Failed to save to database: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    return {
+      success: failed.length === 0,
+      imported,
+      skipped,
+      failed,
+      message: failed.length
+        ? `Imported ${imported.length} of ${requested.length - skipped.length} state machines`
+        : `Imported ${imported.length} state machines`,
+    };
+  }
+
+  /**
+   * Compare tracked state machines, and their executions, with AWS.
+   * Each deployed state machine is described with its own connection profile: the
+   * definition (by hash), role, type, status, logging and tracing are compared, and a
+   * machine deleted outside the app is reported as DELETED_IN_AWS. Its executions are
+   * compared with the newest page of ListExecutions; older ones are not checked.
+   * State machines are checked one at a time, and one that cannot be described is reported as ERROR.
+   */
+  async getDriftReport(idOrArn?: string) {
+    const stateMachines = idOrArn
+      ? [await this.findStateMachine(idOrArn)]
+      : await this.stateMachineRepository.find({
+          where: { awsArn: Not(IsNull()) },
+          order: { name: 'ASC' },
+        });
+
+    const report: StateMachineDrift[] = [];
+    for (const stateMachine of stateMachines) {
+      if (stateMachine.awsArn && !isLocalStateMachineArn(stateMachine.awsArn)) {
+        report.push(await this.checkDrift(stateMachine));
+      }
+    }
+
+    return {
+      success: true,
+      checkedAt: new Date(),
+      summary: {
+        stateMachines: report.length,
+        drifted: report.filter((entry) => entry.drift === 'DRIFTED').length,
+        deletedInAws: report.filter((entry) => entry.drift === 'DELETED_IN_AWS')
+          .length,
+        errors: report.filter((entry) => entry.drift === 'ERROR').length,
+        driftedExecutions: report.reduce(
+          (count, entry) => count + entry.executions.length,
+          0,
+        ),
+      },
+      stateMachines: report,
+    };
+  }
+
+  /**
+   * Resolve drift by taking what AWS runs: the definition, role, type, status, logging,
+   * tracing and tags are copied to the database, and a changed definition or role is
+   * recorded as a new version. A state machine deleted in AWS is marked DELETED.
+   * Drifted executions are refreshed from DescribeExecution.
+   */
+  async pullFromAws(idOrArn: string, dto: ResolveDriftDto = {}) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    if (!stateMachine.awsArn) {
+      throw new BadRequestException({
+        error: 'State machine is not deployed',
+        details: 'Only state machines with an AWS ARN can be compared with AWS',
+      });
+    }
+    this.assertDeployedToAws(stateMachine);
+
+    const client = await this.resolveSfnClient(undefined, stateMachine);
+
+    // Step 1: Read the state machine and its tags from AWS (source of truth)
+    let described: DescribeStateMachineCommandOutput | null = null;
+    let tags: Tag[] | undefined;
+    try {
+      described = await client.send(
+        new DescribeStateMachineCommand({
+          stateMachineArn: stateMachine.awsArn,
+        }),
+      );
+      ({ tags } = await client.send(
+        new ListTagsForResourceCommand({ resourceArn: stateMachine.awsArn }),
+      ));
+    } catch (error) {
+      if (!(error instanceof StateMachineDoesNotExist)) {
+        throw new InternalServerErrorException({
+          error: 'Failed to describe state machine in AWS Step Functions',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // Step 2: Copy it into the database
+    let version: StateMachineVersion | undefined;
+    try {
+      if (!described) {
+        stateMachine.status = 'DELETED';
+        await this.stateMachineRepository.save(stateMachine);
+      } else {
+        const definition = JSON.parse(described.definition || '{}') as Record<
+          string,
+          unknown
+        >;
+        const changed =
+          definitionHash(definition) !==
+            definitionHash(stateMachine.definition) ||
+          (described.roleArn || null) !== stateMachine.roleArn;
+
+        stateMachine.definition = definition;
+        stateMachine.roleArn = described.roleArn || null;
+        stateMachine.type = described.type || stateMachine.type;
+        stateMachine.status = described.status || stateMachine.status;
+        stateMachine.loggingConfiguration =
+          (described.loggingConfiguration as Record<string, unknown>) || null;
+        stateMachine.tracingConfiguration =
+          (described.tracingConfiguration as Record<string, unknown>) || null;
+        stateMachine.tags = tags?.length
+          ? Object.fromEntries(
+              tags.map((tag) => [tag.key || '', tag.value || '']),
+            )
+          : null;
+        await this.stateMachineRepository.save(stateMachine);
+        if (changed) {
+          version = await this.recordVersion(stateMachine, {
+            author: dto.author,
+            message: dto.message || 'Pulled from AWS',
+            awsRevisionId: described.revisionId,
+          });
+        }
+      }
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to save the AWS state machine to the database',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // Step 3: Record untracked executions and refresh the drifted ones
+    const synced: string[] = [];
+    const drifted = described
+      ? (await this.checkDrift(stateMachine)).executions
+          .filter((execution) => !execution.missingInAws)
+          .map((execution) => execution.executionArn)
+      : [];
+    const discovered = described
+      ? await this.discoverExecutions(
+          stateMachine,
+          DRIFT_EXECUTIONS_PAGE_SIZE,
+        ).catch((error: unknown) => {
+          console.error(
+            `Warning: Failed to record untracked executions of ${stateMachine.awsArn}:`,
+            error instanceof Error ? error.message : 'Unknown error',
+          );
+          return [];
+        })
+      : [];
+    for (const executionArn of [...drifted, ...discovered]) {
+      try {
+        await this.syncExecutionStatus(executionArn);
+        synced.push(executionArn);
+      } catch (error) {
+        console.error(
+          `Warning: Failed to sync execution ${executionArn} while pulling from AWS:`,
+          error instanceof Error ? error.message : 'Unknown error',
+        );
+      }
+    }
+
+    return {
+      success: true,
+      stateMachineArn: stateMachine.awsArn,
+      status: stateMachine.status,
+      version: version?.version,
+      syncedExecutions: synced,
+      message: described
+        ? 'State machine pulled from AWS'
+        : 'State machine no longer exists in AWS and was marked DELETED',
+    };
+  }
+
+  /**
+   * Resolve drift by deploying the database copy: its definition, role, logging and
+   * tracing are sent to AWS with UpdateStateMachine and recorded as a new version.
+   * The type cannot be changed in AWS; pull to take the AWS type instead.
+   */
+  async pushToAws(idOrArn: string, dto: ResolveDriftDto = {}) {
+    const stateMachine = await this.findStateMachine(idOrArn);
+    this.assertDeployedToAws(stateMachine);
+    if (stateMachine.status === 'DELETED') {
+      throw new ConflictException({
+        error: 'State machine no longer exists in AWS',
+        details: 'Create it again or delete it from the database',
+      });
+    }
+
+    return this.updateStateMachine(stateMachine.id, {
+      definition: stateMachine.definition,
+      roleArn: stateMachine.roleArn || undefined,
+      loggingConfiguration: stateMachine.loggingConfiguration || {
+        level: 'OFF',
+        includeExecutionData: false,
+      },
+      tracingConfiguration: stateMachine.tracingConfiguration || {
+        enabled: false,
+      },
+      author: dto.author,
+      message: dto.message || 'Pushed to resolve drift',
+    });
+  }
+
+  /**
+   * Delete a state machine from AWS Step Functions and database.
+   * Architecture: AWS SDK is the source of truth.
+   *
+   * Flow: Record operation → AWS SDK Delete → Delete from DB
+   * If AWS succeeds but DB fails, OperationRecoveryService deletes the row later.
+   */
+  async deleteStateMachine(
+    stateMachineArn?: string,
+    connectionProfile?: string,
+  ) {
+    if (!stateMachineArn) {
+      throw new BadRequestException(
+        'Missing required parameter: stateMachineArn',
+      );
+    }
+
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+
+    // Local state machines only exist in the database
+    if (isLocalStateMachineArn(stateMachineArn)) {
+      if (!stateMachine) {
+        throw new NotFoundException('State machine not found');
+      }
+      await this.untrackDeletedStateMachine(stateMachineArn);
+      return { success: true, message: 'State machine deleted successfully!' };
+    }
+
+    const client = await this.resolveSfnClient(connectionProfile, stateMachine);
+
+    // Step 1: Record the operation, so the row is deleted even if Step 3 fails
+    const payload: DeleteStateMachinePayload = {
+      stateMachineArn,
+      connectionProfile: connectionProfile || null,
+      connectionProfileId: stateMachine?.connectionProfileId ?? null,
+    };
+    const operation = await this.operationLogService.record(
+      'DELETE_STATE_MACHINE',
+      payload,
+    );
+
+    try {
+      // Step 2: Delete from AWS Step Functions (source of truth)
+      const command = new DeleteStateMachineCommand({
+        stateMachineArn,
+      });
+      await client.send(command);
+    } catch (error) {
+      await this.operationLogService.failed(operation, error);
+      throw new InternalServerErrorException({
+        error: 'Failed to delete state machine from AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    await this.operationLogService.applied(operation, {});
+
+    // Step 3: Delete from database
+    try {
+      await this.untrackDeletedStateMachine(stateMachineArn);
+      await this.operationLogService.completed(operation);
+    } catch (error) {
+      // AWS deletion succeeded but DB delete failed; the operation is left for recovery
+      console.error(
+        `Warning: State machine deleted from AWS (${stateMachineArn}) but failed to delete from database:`,
         error instanceof Error ? error.message : 'Unknown error',
       );
       // Still return success since AWS operation succeeded
     }
 
+    return { success: true, message: 'State machine deleted successfully!' };
+  }
+
+  async getMockConfig(stateMachineArn?: string) {
+    if (!stateMachineArn) {
+      throw new BadRequestException(
+        'Missing required parameter: stateMachineArn',
+      );
+    }
+
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+
+    if (!stateMachine) {
+      throw new NotFoundException('State machine not found');
+    }
+
+    return {
+      success: true,
+      stateMachineArn,
+      mockConfig: stateMachine.mockConfig,
+    };
+  }
+
+  /**
+   * Store the mocked Task responses used by local executions with a mockTestCase.
+   * Accepts a whole Step Functions Local mock file and keeps this state machine's section.
+   */
+  async updateMockConfig(dto: UpdateMockConfigDto) {
+    const { stateMachineArn } = dto;
+    if (!stateMachineArn || dto.mockConfig === undefined) {
+      throw new BadRequestException(
+        'Missing required fields: stateMachineArn and mockConfig',
+      );
+    }
+
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+
+    if (!stateMachine) {
+      throw new NotFoundException('State machine not found');
+    }
+
+    const mockConfig =
+      dto.mockConfig === null
+        ? null
+        : normalizeMockConfig(dto.mockConfig, stateMachine.name);
+    if (mockConfig !== null) {
+      const problems = validateMockConfig(mockConfig, stateMachine.definition);
+      if (problems.length) {
+        throw new BadRequestException({
+          error: 'Invalid mock config',
+          details: problems.join('; '),
+          problems,
+        });
+      }
+    }
+
+    try {
+      stateMachine.mockConfig = mockConfig as Record<string, unknown> | null;
+      await this.stateMachineRepository.save(stateMachine);
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to save mock config',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return {
+      success: true,
+      stateMachineArn,
+      mockConfig: stateMachine.mockConfig,
+      message: mockConfig ? 'Mock config saved' : 'Mock config removed',
+    };
+  }
+
+  async listExecutions(stateMachineArn?: string, maxResults = 10) {
+    if (!stateMachineArn) {
+      throw new BadRequestException(
+        'Missing required parameter: stateMachineArn',
+      );
+    }
+
+    try {
+      // Find state machine in database
+      const stateMachine = await this.stateMachineRepository.findOne({
+        where: { awsArn: stateMachineArn },
+      });
+
+      if (!stateMachine) {
+        throw new NotFoundException('State machine not found');
+      }
+
+      // Query executions from database
+      const executions = await this.executionRepository.find({
+        where: { awsStateMachineArn: stateMachineArn },
+        order: { awsStartDate: 'DESC' },
+        take: maxResults,
+      });
+
+      return {
+        success: true,
+        executions: executions.map((exec) => ({
+          executionArn: exec.awsExecutionArn,
+          name: exec.name,
+          status: exec.status,
+          qualifier: exec.qualifier,
+          startDate: exec.awsStartDate,
+          stopDate: exec.awsStopDate,
+          redriveCount: exec.redriveCount,
+          redriveStatus: exec.redriveStatus,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException({
+        error: 'Failed to list executions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async describeExecution(executionArn?: string) {
+    if (!executionArn) {
+      throw new BadRequestException('Missing required parameter: executionArn');
+    }
+
+    try {
+      // Query from database first
+      const execution = await this.executionRepository.findOne({
+        where: { awsExecutionArn: executionArn },
+      });
+
+      if (execution) {
+        return {
+          success: true,
+          executionArn: execution.awsExecutionArn,
+          stateMachineArn: execution.awsStateMachineArn,
+          qualifier: execution.qualifier,
+          name: execution.name,
+          status: execution.status,
+          startDate: execution.awsStartDate,
+          stopDate: execution.awsStopDate,
+          input: execution.input,
+          output: execution.output,
+          error: execution.error,
+          cause: execution.cause,
+          redriveCount: execution.redriveCount,
+          redriveStatus: execution.redriveStatus,
+          redriveDate: execution.redriveDate,
+        };
+      }
+
+      // Local executions only exist in the database
+      if (isLocalExecutionArn(executionArn)) {
+        throw new NotFoundException('Execution not found');
+      }
+
+      // If not found in DB, try AWS (for backward compatibility)
+      const command = new DescribeExecutionCommand({
+        executionArn,
+      });
+
+      const client = await this.resolveSfnClient(
+        undefined,
+        await this.stateMachineRepository.findOne({
+          where: { awsArn: toStateMachineArn(executionArn) },
+        }),
+      );
+      const response = await client.send(command);
+
+      let input: unknown = null;
+      let output: unknown = null;
+
+      try {
+        input = response.input ? JSON.parse(response.input) : null;
+      } catch {
+        input = response.input;
+      }
+
+      try {
+        output = response.output ? JSON.parse(response.output) : null;
+      } catch {
+        output = response.output;
+      }
+
+      return {
+        success: true,
+        executionArn: response.executionArn,
+        stateMachineArn: response.stateMachineArn,
+        name: response.name,
+        status: response.status,
+        startDate: response.startDate,
+        stopDate: response.stopDate,
+        input,
+        output,
+        error: response.error,
+        cause: response.cause,
+        redriveCount: response.redriveCount,
+        redriveStatus: response.redriveStatus,
+        redriveDate: response.redriveDate,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException({
+        error: 'Failed to get execution details',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Start an execution and save it to the database.
+   * The backend comes from the request or EXECUTION_BACKEND (default "aws"):
+   * - aws: AWS SDK is the source of truth; status is synced from AWS afterwards
+   * - local: runs in-process with the ASL interpreter and records the outcome when it finishes
+   * A mockTestCase answers Task states from the state machine's mock config and implies local.
+   *
+   * Flow: Verify in DB → Record operation → Backend Start → Save to DB
+   * If the backend starts the execution but DB save fails, OperationRecoveryService saves it later.
+   * Unnamed executions get a generated name, so recovery can find them in AWS.
+   */
+  async startExecution(dto: StartExecutionDto) {
+    const { input, name, mockTestCase, connectionProfile } = dto;
+    if (!dto.stateMachineArn) {
+      throw new BadRequestException('Missing required field: stateMachineArn');
+    }
+    // Version and alias ARNs run the state machine they qualify
+    const { stateMachineArn, qualifier } = splitQualifiedArn(
+      dto.stateMachineArn,
+    );
+
+    // Local state machines are not deployed to AWS, so they always run locally
+    const localStateMachine = isLocalStateMachineArn(stateMachineArn);
+    const backend = this.resolveExecutionBackend(
+      dto.backend || (mockTestCase || localStateMachine ? 'local' : undefined),
+    );
+    if (localStateMachine && backend.name !== 'local') {
+      throw new BadRequestException({
+        error: 'Local state machines run locally only',
+        details: `"${stateMachineArn}" cannot be started on the "${backend.name}" backend`,
+      });
+    }
+    if (connectionProfile && backend.name !== 'aws') {
+      throw new BadRequestException({
+        error: 'Connection profiles apply to AWS executions only',
+        details: `connectionProfile cannot be used with the "${backend.name}" backend`,
+      });
+    }
+    if (qualifier && backend.name !== 'aws') {
+      throw new BadRequestException({
+        error: 'Versions and aliases run on AWS only',
+        details: `"${dto.stateMachineArn}" cannot be started on the "${backend.name}" backend`,
+      });
+    }
+    if (mockTestCase && backend.name !== 'local') {
+      throw new BadRequestException({
+        error: 'Mocked executions must run locally',
+        details: `mockTestCase cannot be used with the "${backend.name}" backend`,
+      });
+    }
+
+    // Step 1: Verify state machine exists in database
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+
+    if (!stateMachine) {
+      throw new NotFoundException('State machine not found');
+    }
+
+    if (mockTestCase) {
+      const testCases = (stateMachine.mockConfig as MockConfig | null)
+        ?.TestCases;
+      if (!testCases || !(mockTestCase in testCases)) {
+        throw new BadRequestException({
+          error: 'Unknown mock test case',
+          details: `The mock config of this state machine has no test case "${mockTestCase}"`,
+        });
+      }
+    }
+
+    // AWS rejects duplicate execution names itself; local runs are only unique in the database
+    if (backend.name === 'local' && name) {
+      const existing = await this.executionRepository.findOne({
+        where: { awsExecutionArn: toLocalExecutionArn(stateMachineArn, name) },
+      });
+      if (existing) {
+        throw new ConflictException({
+          error: 'Execution already exists',
+          details: `An execution named "${name}" already exists for this state machine`,
+        });
+      }
+    }
+
+    const profile =
+      backend.name === 'aws'
+        ? await this.connectionProfileService.resolveConnectionProfile(
+            connectionProfile,
+            stateMachine.connectionProfileId,
+          )
+        : null;
+
+    // Step 2: Record the operation, so the execution is tracked even if Step 4 fails
+    const payload: StartExecutionPayload = {
+      stateMachineArn,
+      stateMachineId: stateMachine.id,
+      qualifier: qualifier || null,
+      name: name || randomUUID(),
+      input: (input as Record<string, unknown>) || null,
+      backend: backend.name,
+      connectionProfileId: profile?.id ?? null,
+      runnerId:
+        backend.name === 'local' ? this.localExecutionBackend.instanceId : null,
+    };
+    const operation = await this.operationLogService.record(
+      'START_EXECUTION',
+      payload,
+    );
+
+    let started: StartedExecution;
+    try {
+      // Step 3: Start the execution on the selected backend
+      started = await backend.startExecution(
+        stateMachine,
+        input,
+        payload.name,
+        { mockTestCase, qualifier, connectionProfile: profile },
+      );
+    } catch (error) {
+      await this.operationLogService.failed(operation, error);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new InternalServerErrorException({
+        error:
+          backend.name === 'aws'
+            ? 'Failed to start execution in AWS Step Functions'
+            : 'Failed to start local execution',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const result: StartedExecutionResult = {
+      executionArn: started.executionArn,
+      startDate: started.startDate,
+    };
+    await this.operationLogService.applied(operation, result);
+
+    // Step 4: Save execution to database for tracking
+    try {
+      await this.trackStartedExecution(payload, result);
+      await this.operationLogService.completed(operation);
+    } catch (error) {
+      // Backend start succeeded but DB save failed; the operation is left for recovery
+      console.error(
+        `Warning: Execution started (${started.executionArn}) but failed to save to database:`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+      // Still return success since the execution is running
+    }
+
+    if (started.completion) {
+      void started.completion
+        .then((outcome) =>
+          this.recordExecutionOutcome(started.executionArn, outcome),
+        )
+        .finally(() =>
+          this.localExecutionBackend.release(started.executionArn),
+        );
+    }
+
+    return {
+      success: true,
+      executionArn: started.executionArn,
+      startDate: started.startDate,
+      backend: backend.name,
+      qualifier,
+      message: 'Execution started successfully!',
+    };
+  }
+
+  /**
+   * Stop a running execution, recording the optional error and cause on it.
+   * AWS executions are stopped with StopExecution; local ones abort the interpreter.
+   *
+   * Flow: Verify in DB → Backend Stop → Update DB
+   * If the backend stops the execution but the DB update fails, it stays RUNNING in DB
+   * until the next status sync.
+   */
+  async stopExecution(executionArn: string, dto: StopExecutionDto = {}) {
+    this.assertValidStopReason(dto);
+
+    const execution = await this.executionRepository.findOne({
+      where: { awsExecutionArn: executionArn },
+    });
+    // Local executions only exist in the database; untracked AWS ones are stopped anyway
+    if (!execution && isLocalExecutionArn(executionArn)) {
+      throw new NotFoundException('Execution not found');
+    }
+    if (execution && execution.status !== 'RUNNING') {
+      throw new ConflictException({
+        error: 'Execution is not running',
+        details: `Execution ${executionArn} is already ${execution.status}`,
+      });
+    }
+    const otherRunner = this.describeOtherRunner(execution);
+    if (otherRunner) {
+      throw new ConflictException({
+        error: 'Execution runs on another instance',
+        details: otherRunner,
+      });
+    }
+
+    const stateMachine = await this.findExecutionStateMachine(
+      executionArn,
+      execution,
+    );
+    const backend =
+      this.executionBackends[
+        isLocalExecutionArn(executionArn) ? 'local' : 'aws'
+      ];
+    const connectionProfile = await this.resolveStopConnectionProfile(
+      backend,
+      dto.connectionProfile,
+      stateMachine,
+    );
+
+    let stopDate: Date;
+    try {
+      stopDate = await this.abortExecution(
+        backend,
+        executionArn,
+        execution,
+        dto,
+        connectionProfile,
+      );
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error:
+          backend.name === 'aws'
+            ? 'Failed to stop execution in AWS Step Functions'
+            : 'Failed to stop local execution',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return {
+      success: true,
+      executionArn,
+      status: 'ABORTED',
+      stopDate,
+      message: 'Execution stopped successfully!',
+    };
+  }
+
+  /**
+   * Stop every execution of a state machine that is RUNNING in the database.
+   * Executions are stopped one by one; those that fail are reported and the rest still stop.
+   */
+  async stopExecutions(stateMachineArn?: string, dto: StopExecutionDto = {}) {
+    if (!stateMachineArn) {
+      throw new BadRequestException(
+        'Missing required parameter: stateMachineArn',
+      );
+    }
+    this.assertValidStopReason(dto);
+
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+    if (!stateMachine) {
+      throw new NotFoundException('State machine not found');
+    }
+
+    let executions: Execution[];
+    try {
+      executions = await this.executionRepository.find({
+        where: { stateMachineId: stateMachine.id, status: 'RUNNING' },
+        order: { awsStartDate: 'ASC' },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: 'Failed to list running executions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const profiles = new Map<ExecutionBackend, ConnectionProfile | null>();
+    const stopped: Array<{ executionArn: string; stopDate: Date }> = [];
+    const failed: Array<{ executionArn: string; details: string }> = [];
+    for (const execution of executions) {
+      const executionArn = execution.awsExecutionArn;
+      const otherRunner = this.describeOtherRunner(execution);
+      if (otherRunner) {
+        failed.push({ executionArn, details: otherRunner });
+        continue;
+      }
+      const backend =
+        this.executionBackends[
+          isLocalExecutionArn(executionArn) ? 'local' : 'aws'
+        ];
+      if (!profiles.has(backend)) {
+        profiles.set(
+          backend,
+          await this.resolveStopConnectionProfile(
+            backend,
+            dto.connectionProfile,
+            stateMachine,
+          ),
+        );
+      }
+
+      try {
+        const stopDate = await this.abortExecution(
+          backend,
+          executionArn,
+          execution,
+          dto,
+          profiles.get(backend) ?? null,
+        );
+        stopped.push({ executionArn, stopDate });
+      } catch (error) {
+        failed.push({
+          executionArn,
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return {
+      success: failed.length === 0,
+      stopped,
+      failed,
+      message: failed.length
+        ? `Stopped ${stopped.length} of ${executions.length} running executions`
+        : `Stopped ${stopped.length} running executions`,
+    };
+  }
+
+  /**
+   * Redrive a FAILED, TIMED_OUT or ABORTED execution from its point of failure.
+   * Redrive is a Step Functions feature: local executions cannot be redriven.
+   *
+   * Flow: Verify in DB → AWS Redrive → Update DB
+   * If AWS redrives the execution but the DB update fails, the next status sync catches up.
+   */
+  async redriveExecution(executionArn: string) {
+    if (isLocalExecutionArn(executionArn)) {
+      throw new BadRequestException({
+        error: 'Local executions cannot be redriven',
+        details: 'Redrive is only available for executions run on AWS',
+      });
+    }
+
+    const execution = await this.executionRepository.findOne({
+      where: { awsExecutionArn: executionArn },
+    });
+    if (execution && !REDRIVABLE_STATUSES.includes(execution.status)) {
+      throw new ConflictException({
+        error: 'Execution cannot be redriven',
+        details: `Only ${REDRIVABLE_STATUSES.join(', ')} executions can be redriven; ${executionArn} is ${execution.status}`,
+      });
+    }
+
+    const client = await this.resolveSfnClient(
+      undefined,
+      await this.findExecutionStateMachine(executionArn, execution),
+    );
+
+    let redriveDate: Date;
+    try {
+      const response = await client.send(
+        new RedriveExecutionCommand({ executionArn }),
+      );
+      redriveDate = response.redriveDate || new Date();
+    } catch (error) {
+      // e.g. the execution ran more than 14 days ago or already succeeded
+      if (error instanceof ExecutionNotRedrivable) {
+        throw new ConflictException({
+          error: 'Execution cannot be redriven',
+          details: error.message,
+        });
+      }
+      throw new InternalServerErrorException({
+        error: 'Failed to redrive execution in AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    if (execution) {
+      try {
+        execution.status = 'RUNNING';
+        execution.redriveCount += 1;
+        execution.redriveDate = redriveDate;
+        execution.redriveStatus = null;
+        execution.awsStopDate = null;
+        execution.output = null;
+        execution.error = null;
+        execution.cause = null;
+        await this.executionRepository.save(execution);
+        this.executionStreamService.publishStatus(execution);
+      } catch (error) {
+        // AWS redrive succeeded but DB update failed
+        console.error(
+          `Warning: Execution redriven (${executionArn}) but failed to update the database:`,
+          error instanceof Error ? error.message : 'Unknown error',
+        );
+      }
+    }
+
+    return {
+      success: true,
+      executionArn,
+      status: 'RUNNING',
+      redriveDate,
+      redriveCount: execution?.redriveCount,
+      message: 'Execution redriven successfully!',
+    };
+  }
+
+  /**
+   * Event history of an execution, paginated like GetExecutionHistory.
+   * Histories are kept in execution_events: the backend (AWS, or the interpreter while a
+   * local run is in progress) is only asked again until the stored history is complete.
+   */
+  async getExecutionHistory(
+    executionArn: string,
+    options: ExecutionHistoryPageOptions = {},
+  ) {
+    const execution = await this.executionRepository.findOne({
+      where: { awsExecutionArn: executionArn },
+    });
+    const isLocal = isLocalExecutionArn(executionArn);
+    // Local executions only exist in the database; untracked AWS ones are read from AWS
+    if (!execution && isLocal) {
+      throw new NotFoundException('Execution not found');
+    }
+
+    let events: ExecutionHistoryEvent[] = [];
+    try {
+      if (execution) {
+        const stored = await this.executionEventRepository.find({
+          where: { executionId: execution.id },
+          order: { eventId: 'ASC' },
+        });
+        events = stored.map((event) => this.toHistoryEvent(event));
+      }
+
+      if (
+        !execution ||
+        execution.status === 'RUNNING' ||
+        !isCompleteHistory(events)
+      ) {
+        const backend = this.executionBackends[isLocal ? 'local' : 'aws'];
+        const stateMachine = isLocal
+          ? null
+          : await this.findExecutionStateMachine(executionArn, execution);
+        // Only the events after the stored ones are read
+        const newEvents = await backend.getExecutionHistory(executionArn, {
+          connectionProfile: isLocal
+            ? null
+            : await this.connectionProfileService.resolveConnectionProfile(
+                undefined,
+                stateMachine?.connectionProfileId,
+              ),
+          afterEventId: lastEventId(events),
+        });
+        if (newEvents) {
+          // Local runs store their history once they finish
+          if (execution && !isLocal) {
+            await this.saveExecutionEvents(execution, newEvents, events);
+          }
+          events = [...events, ...newEvents];
+        }
+      }
+    } catch (error) {
+      throw new InternalServerErrorException({
+        error: isLocal
+          ? 'Failed to get execution history'
+          : 'Failed to get execution history from AWS Step Functions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return {
+      success: true,
+      executionArn,
+      ...pageExecutionHistory(events, options),
+    };
+  }
+
+  private assertValidStopReason({ error, cause }: StopExecutionDto) {
+    const problems: string[] = [];
+    if (error !== undefined && typeof error !== 'string') {
+      problems.push('error must be a string');
+    } else if (error && error.length > MAX_STOP_ERROR_LENGTH) {
+      problems.push(
+        `error must be at most ${MAX_STOP_ERROR_LENGTH} characters`,
+      );
+    }
+    if (cause !== undefined && typeof cause !== 'string') {
+      problems.push('cause must be a string');
+    } else if (cause && cause.length > MAX_STOP_CAUSE_LENGTH) {
+      problems.push(
+        `cause must be at most ${MAX_STOP_CAUSE_LENGTH} characters`,
+      );
+    }
+
+    if (problems.length) {
+      throw new BadRequestException({
+        error: 'Invalid stop request',
+        details: problems.join('; '),
+      });
+    }
+  }
+
+  private async resolveStopConnectionProfile(
+    backend: ExecutionBackend,
+    connectionProfile: string | undefined,
+    stateMachine: StateMachine | null,
+  ): Promise<ConnectionProfile | null> {
+    if (backend.name !== 'aws') {
+      return null;
+    }
+    return this.connectionProfileService.resolveConnectionProfile(
+      connectionProfile,
+      stateMachine?.connectionProfileId,
+    );
+  }
+
+  // Local executions can only be aborted by the instance running them; null when that is this one
+  private describeOtherRunner(execution: Execution | null): string | null {
+    if (
+      !execution?.runnerId ||
+      !isLocalExecutionArn(execution.awsExecutionArn) ||
+      execution.runnerId === this.localExecutionBackend.instanceId
+    ) {
+      return null;
+    }
+    return `Execution ${execution.awsExecutionArn} runs on instance "${execution.runnerId}", which has to stop it`;
+  }
+
+  // Stops the execution on its backend, then records it as ABORTED
+  private async abortExecution(
+    backend: ExecutionBackend,
+    executionArn: string,
+    execution: Execution | null,
+    { error, cause }: StopExecutionDto,
+    connectionProfile: ConnectionProfile | null,
+  ): Promise<Date> {
+    const stopDate = await backend.stopExecution(executionArn, {
+      error,
+      cause,
+      connectionProfile,
+    });
+
+    if (execution) {
+      try {
+        execution.status = 'ABORTED';
+        execution.awsStopDate = stopDate;
+        execution.error = error || null;
+        execution.cause = cause || null;
+        await this.executionRepository.save(execution);
+        this.executionStreamService.publishStatus(execution);
+      } catch (dbError) {
+        // Backend stop succeeded but DB update failed
+        console.error(
+          `Warning: Execution stopped (${executionArn}) but failed to update the database:`,
+          dbError instanceof Error ? dbError.message : 'Unknown error',
+        );
+      }
+    }
+
+    return stopDate;
+  }
+
+  private resolveExecutionBackend(requested?: string): ExecutionBackend {
+    const name =
+      requested || this.configService.get<string>('EXECUTION_BACKEND') || 'aws';
+    if (!EXECUTION_BACKENDS.includes(name as ExecutionBackendName)) {
+      throw new BadRequestException({
+        error: 'Invalid execution backend',
+        details: `Expected one of ${EXECUTION_BACKENDS.join(', ')} but got "${name}"`,
+      });
+    }
+    return this.executionBackends[name as ExecutionBackendName];
+  }
+
+  // Database write of a created state machine; does nothing when it is already tracked
+  private async trackCreatedStateMachine(
+    payload: CreateStateMachinePayload,
+    created: CreatedStateMachine,
+  ) {
+    const existing = await this.stateMachineRepository.findOne({
+      where: { awsArn: created.stateMachineArn },
+    });
+    if (existing) {
+      return;
+    }
+
+    const stateMachine = this.stateMachineRepository.create({
+      name: payload.name,
+      awsArn: created.stateMachineArn,
+      definition: payload.definition,
+      roleArn: payload.roleArn,
+      type: 'STANDARD',
+      status: 'ACTIVE',
+      awsCreationDate: created.creationDate
+        ? new Date(created.creationDate)
+        : null,
+      connectionProfileId: payload.connectionProfileId,
+    });
+
+    await this.stateMachineRepository.save(stateMachine);
+    await this.recordVersion(stateMachine, {
+      author: payload.author,
+      message: payload.message || 'Initial deployment',
+    });
+  }
+
+  // A state machine that only exists in the database and runs with the local backend
+  private async createLocalStateMachine(dto: CreateStateMachineDto) {
+    const { name, definition, roleArn, connectionProfile, author, message } =
+      dto;
+    if (!LOCAL_NAME_PATTERN.test(name)) {
+      throw new BadRequestException({
+        error: 'Invalid state machine name',
+        details:
+          'Local state machine names have 1-80 characters without whitespace or ":"',
+      });
+    }
+    if (connectionProfile) {
+      throw new BadRequestException({
+        error: 'Connection profiles apply to AWS state machines only',
+        details: 'connectionProfile cannot be used with the "local" backend',
+      });
+    }
+
+    const stateMachineArn = toLocalStateMachineArn(name);
+    const existing = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+    if (existing) {
+      throw new ConflictException({
+        error: 'State machine already exists',
+        details: `A local state machine named "${name}" already exists`,
+      });
+    }
+
+    const stateMachine = this.stateMachineRepository.create({
+      name,
+      awsArn: stateMachineArn,
+      definition: definition as Record<string, unknown>,
+      roleArn: roleArn || null,
+      type: 'STANDARD',
+      status: 'ACTIVE',
+      connectionProfileId: null,
+    });
+    await this.stateMachineRepository.save(stateMachine);
+    await this.recordVersion(stateMachine, {
+      author,
+      message: message || 'Initial deployment',
+    });
+
     return {
       success: true,
-      executionArn: awsResponse.executionArn,
-      startDate: awsResponse.startDate,
-      message: 'Execution started successfully!',
+      stateMachineArn,
+      creationDate: stateMachine.createdAt,
+      connectionProfile: null,
+      message: 'Local state machine created successfully!',
     };
   }
 
-  // Helper method to sync execution status from AWS (can be called periodically)
-  async syncExecutionStatus(executionArn: string) {
+  private async untrackDeletedStateMachine(stateMachineArn: string) {
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+
+    if (stateMachine) {
+      await this.stateMachineRepository.remove(stateMachine);
+    }
+  }
+
+  // Database write of a started execution; does nothing when it is already tracked
+  private async trackStartedExecution(
+    payload: StartExecutionPayload,
+    started: StartedExecutionResult,
+  ) {
+    const existing = await this.executionRepository.findOne({
+      where: { awsExecutionArn: started.executionArn },
+    });
+    if (existing) {
+      return;
+    }
+
+    const execution = this.executionRepository.create({
+      awsExecutionArn: started.executionArn,
+      awsStateMachineArn: payload.stateMachineArn,
+      qualifier: payload.qualifier,
+      name: payload.name,
+      status: 'RUNNING',
+      input: payload.input,
+      awsStartDate: new Date(started.startDate),
+      stateMachineId: payload.stateMachineId,
+      runnerId: payload.runnerId ?? null,
+    });
+
+    await this.executionRepository.save(execution);
+    this.executionStreamService.publishStatus(execution);
+  }
+
+  // Versions, aliases and drift only exist for state machines deployed to AWS
+  private assertDeployedToAws(stateMachine: StateMachine) {
+    if (stateMachine.awsArn && isLocalStateMachineArn(stateMachine.awsArn)) {
+      throw new BadRequestException({
+        error: 'State machine is local',
+        details: 'Local state machines are not deployed to AWS Step Functions',
+      });
+    }
+  }
+
+  // Looks a state machine up by database id or ARN
+  private async findStateMachine(idOrArn: string): Promise<StateMachine> {
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: UUID_PATTERN.test(idOrArn) ? { id: idOrArn } : { awsArn: idOrArn },
+    });
+
+    if (!stateMachine) {
+      throw new NotFoundException('State machine not found');
+    }
+    return stateMachine;
+  }
+
+  // Compares a deployed state machine and its newest executions with AWS
+  private async checkDrift(
+    stateMachine: StateMachine,
+  ): Promise<StateMachineDrift> {
+    const stateMachineArn = stateMachine.awsArn as string;
+    const entry: StateMachineDrift = {
+      id: stateMachine.id,
+      name: stateMachine.name,
+      stateMachineArn,
+      drift: 'IN_SYNC',
+      differences: [],
+      executions: [],
+      untrackedExecutions: 0,
+      error: null,
+    };
+
+    try {
+      const client = await this.resolveSfnClient(undefined, stateMachine);
+      let described: DescribeStateMachineCommandOutput;
+      try {
+        described = await client.send(
+          new DescribeStateMachineCommand({ stateMachineArn }),
+        );
+      } catch (error) {
+        if (!(error instanceof StateMachineDoesNotExist)) throw error;
+        if (stateMachine.status !== 'DELETED') {
+          entry.drift = 'DELETED_IN_AWS';
+        }
+        return entry;
+      }
+      entry.differences = compareStateMachine(stateMachine, described);
+
+      const { executions = [], nextToken } = await client.send(
+        new ListExecutionsCommand({
+          stateMachineArn,
+          maxResults: DRIFT_EXECUTIONS_PAGE_SIZE,
+        }),
+      );
+      const listed = new Map(
+        executions.map((item) => [item.executionArn as string, item]),
+      );
+      // Older executions than the page covers cannot be told apart from missing ones
+      const oldest = nextToken
+        ? Math.min(...executions.map((item) => item.startDate?.getTime() ?? 0))
+        : 0;
+
+      const tracked = (
+        await this.executionRepository.find({
+          where: { awsStateMachineArn: stateMachineArn },
+          order: { awsStartDate: 'DESC' },
+        })
+      ).filter((execution) => !isLocalExecutionArn(execution.awsExecutionArn));
+      for (const execution of tracked) {
+        const item = listed.get(execution.awsExecutionArn);
+        listed.delete(execution.awsExecutionArn);
+        if (!item && (execution.awsStartDate?.getTime() ?? 0) < oldest) {
+          continue;
+        }
+        const differences = item ? compareExecution(execution, item) : [];
+        if (!item || differences.length) {
+          entry.executions.push({
+            executionArn: execution.awsExecutionArn,
+            name: execution.name,
+            missingInAws: !item,
+            differences,
+          });
+        }
+      }
+      entry.untrackedExecutions = listed.size;
+
+      if (
+        entry.differences.length ||
+        entry.executions.length ||
+        entry.untrackedExecutions
+      ) {
+        entry.drift = 'DRIFTED';
+      }
+    } catch (error) {
+      entry.drift = 'ERROR';
+      entry.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    return entry;
+  }
+
+  // The ARNs of the list that belong to tracked state machines
+  private async findTrackedArns(arns: Array<string | undefined>) {
+    const candidates = arns.filter((arn): arn is string => !!arn);
+    if (!candidates.length) {
+      return [];
+    }
+    const tracked = await this.stateMachineRepository.find({
+      select: { awsArn: true },
+      where: { awsArn: In(candidates) },
+    });
+    return tracked.map((stateMachine) => stateMachine.awsArn as string);
+  }
+
+  // A given version of the state machine, or its latest one
+  private async findVersion(
+    stateMachine: StateMachine,
+    version?: number,
+  ): Promise<StateMachineVersion> {
+    const found = await this.versionRepository.findOne({
+      where: { stateMachineId: stateMachine.id, version },
+      order: { version: 'DESC' },
+    });
+
+    if (!found) {
+      throw new NotFoundException(
+        version === undefined
+          ? 'State machine has no recorded versions'
+          : `Version ${version} not found`,
+      );
+    }
+    return found;
+  }
+
+  // Stores the state machine's current definition and role as its next version
+  private async recordVersion(
+    stateMachine: StateMachine,
+    details: { author?: string; message?: string; awsRevisionId?: string },
+  ): Promise<StateMachineVersion> {
+    const latest = await this.versionRepository.findOne({
+      where: { stateMachineId: stateMachine.id },
+      order: { version: 'DESC' },
+    });
+
+    return this.versionRepository.save(
+      this.versionRepository.create({
+        stateMachineId: stateMachine.id,
+        version: (latest?.version || 0) + 1,
+        definition: stateMachine.definition,
+        roleArn: stateMachine.roleArn,
+        author: details.author || null,
+        message: details.message || null,
+        awsRevisionId: details.awsRevisionId || null,
+      }),
+    );
+  }
+
+  private toVersionResponse(version: StateMachineVersion) {
+    return {
+      version: version.version,
+      author: version.author,
+      message: version.message,
+      revisionId: version.awsRevisionId,
+      createdAt: version.createdAt,
+      publishedVersion: version.awsVersionNumber,
+      publishedVersionArn: version.awsVersionArn,
+      definition: version.definition,
+      roleArn: version.roleArn,
+    };
+  }
+
+  private toAliasResponse(alias: StateMachineAlias) {
+    return {
+      name: alias.name,
+      description: alias.description,
+      stateMachineAliasArn: alias.awsArn,
+      routingConfiguration: alias.routingConfiguration.map((route) => ({
+        ...route,
+        version: Number(route.stateMachineVersionArn.split(':').pop()),
+      })),
+      creationDate: alias.awsCreationDate,
+      updateDate: alias.updatedAt,
+    };
+  }
+
+  /**
+   * Turns version numbers or version ARNs into the routing configuration of an alias:
+   * one or two distinct published versions whose integer weights add up to 100.
+   */
+  private toRoutingConfiguration(
+    stateMachineArn: string,
+    routes: AliasRouteDto[] | undefined,
+  ): AliasRoute[] {
+    const problems: string[] = [];
+    if (!Array.isArray(routes) || routes.length < 1 || routes.length > 2) {
+      problems.push('routingConfiguration must list one or two versions');
+    }
+
+    const routing = (Array.isArray(routes) ? routes : []).map(
+      ({ version, weight }) => {
+        const stateMachineVersionArn =
+          typeof version === 'number' || /^\d+$/.test(String(version))
+            ? `${stateMachineArn}:${version}`
+            : String(version);
+        const qualifier = stateMachineVersionArn.slice(
+          stateMachineArn.length + 1,
+        );
+        if (
+          !stateMachineVersionArn.startsWith(`${stateMachineArn}:`) ||
+          !/^[1-9]\d*$/.test(qualifier)
+        ) {
+          problems.push(
+            `"${String(version)}" is not a published version of this state machine`,
+          );
+        }
+        if (!Number.isInteger(weight) || weight < 0 || weight > 100) {
+          problems.push(`weight ${weight} must be an integer from 0 to 100`);
+        }
+        return { stateMachineVersionArn, weight };
+      },
+    );
+
+    if (
+      new Set(routing.map((r) => r.stateMachineVersionArn)).size !==
+      routing.length
+    ) {
+      problems.push('routingConfiguration lists the same version twice');
+    }
+    if (routing.reduce((sum, r) => sum + (Number(r.weight) || 0), 0) !== 100) {
+      problems.push('weights must add up to 100');
+    }
+
+    if (problems.length) {
+      throw new BadRequestException({
+        error: 'Invalid routing configuration',
+        details: problems.join('; '),
+      });
+    }
+    return routing;
+  }
+
+  // Reject invalid definitions up front instead of surfacing AWS's error as a 500
+  private assertValidDefinition(definition: unknown) {
+    const validation = this.aslValidatorService.validate(definition);
+    if (validation.result === 'FAIL') {
+      throw new BadRequestException({
+        error: 'Invalid state machine definition',
+        details: validation.diagnostics
+          .filter((d) => d.severity === 'ERROR')
+          .map((d) => (d.location ? `${d.location}: ${d.message}` : d.message))
+          .join('; '),
+        diagnostics: validation.diagnostics,
+        truncated: validation.truncated,
+      });
+    }
+  }
+
+  // State machine of a tracked execution, else the one its ARN belongs to
+  private findExecutionStateMachine(
+    executionArn: string,
+    execution: Execution | null,
+  ): Promise<StateMachine | null> {
+    return this.stateMachineRepository.findOne({
+      where: execution?.stateMachineId
+        ? { id: execution.stateMachineId }
+        : { awsArn: toStateMachineArn(executionArn) },
+    });
+  }
+
+  // Stores the events not stored yet; the history is still served if this fails
+  private async saveExecutionEvents(
+    execution: Execution,
+    events: ExecutionHistoryEvent[],
+    stored: ExecutionHistoryEvent[],
+  ) {
+    const lastStoredId = lastEventId(stored);
+    const newEvents = events.filter((event) => event.id > lastStoredId);
+    if (!newEvents.length) {
+      return;
+    }
+
+    try {
+      const rows = this.executionEventRepository.create(
+        newEvents.map((event) => ({
+          executionId: execution.id,
+          eventId: event.id,
+          previousEventId: event.previousEventId ?? null,
+          type: event.type,
+          timestamp: event.timestamp,
+          details: event.details ?? null,
+        })),
+      );
+      await this.executionEventRepository.save(rows);
+    } catch (error) {
+      console.error(
+        `Warning: Failed to save the history of execution ${execution.awsExecutionArn}:`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+
+    // Local runs stream their events as the interpreter emits them
+    if (!isLocalExecutionArn(execution.awsExecutionArn)) {
+      this.executionStreamService.publishEvents(
+        execution.awsExecutionArn,
+        execution.awsStateMachineArn,
+        newEvents,
+      );
+    }
+  }
+
+  private toHistoryEvent(event: ExecutionEvent): ExecutionHistoryEvent {
+    return {
+      id: event.eventId,
+      previousEventId: event.previousEventId ?? undefined,
+      type: event.type,
+      timestamp: event.timestamp,
+      details: event.details ?? undefined,
+    };
+  }
+
+  // Client of the requested profile, else of the state machine's profile, else the default one
+  private async resolveSfnClient(
+    connectionProfile?: string,
+    stateMachine?: Pick<StateMachine, 'connectionProfileId'> | null,
+  ): Promise<SFNClient> {
+    const profile: ConnectionProfile | null =
+      await this.connectionProfileService.resolveConnectionProfile(
+        connectionProfile,
+        stateMachine?.connectionProfileId,
+      );
+    return this.sfnClientFactory.getClient(profile);
+  }
+
+  // Stores the final status and the history of an execution that ran in-process
+  private async recordExecutionOutcome(
+    executionArn: string,
+    outcome: CompletedExecution,
+  ) {
     try {
       const execution = await this.executionRepository.findOne({
         where: { awsExecutionArn: executionArn },
@@ -407,40 +2560,374 @@ export class StateMachineService {
         return;
       }
 
-      // Get latest status from AWS
-      const command = new DescribeExecutionCommand({
-        executionArn,
-      });
+      // Conditional, so a status recorded in the meantime (e.g. by a stop) is not overwritten
+      const finished = {
+        status: outcome.status,
+        awsStopDate: outcome.stopDate,
+        error: outcome.error || null,
+        cause: outcome.cause || null,
+      };
+      const { affected } = await this.executionRepository.update(
+        { id: execution.id, status: 'RUNNING' },
+        finished,
+      );
+      if (affected) {
+        Object.assign(execution, finished);
+        execution.output = (outcome.output as Record<string, unknown>) ?? null;
+        await this.executionRepository.save(execution);
+        this.executionStreamService.publishStatus(execution);
+      }
+      await this.saveExecutionEvents(execution, outcome.history, []);
+    } catch (error) {
+      console.error(
+        `Warning: Execution ${executionArn} finished (${outcome.status}) but failed to update the database:`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+  }
+
+  /**
+   * Refresh a tracked AWS execution from DescribeExecution.
+   * Called periodically by ExecutionSyncService; errors are left to the caller,
+   * which backs off when AWS throttles.
+   */
+  async syncExecutionStatus(executionArn: string) {
+    const execution = await this.executionRepository.findOne({
+      where: { awsExecutionArn: executionArn },
+    });
 
-      const response = await this.sfnClient.send(command);
+    // Local executions record their own outcome
+    if (!execution || isLocalExecutionArn(executionArn)) {
+      return null;
+    }
 
-      // Update execution in database
-      execution.status = response.status || execution.status;
-      execution.awsStopDate = response.stopDate || execution.awsStopDate;
-      
-      if (response.input) {
-        try {
-          execution.input = JSON.parse(response.input) as Record<string, unknown>;
-        } catch {
-          // Keep existing input if parsing fails
-        }
+    // Get latest status from AWS
+    const command = new DescribeExecutionCommand({
+      executionArn,
+    });
+
+    const client = await this.resolveSfnClient(
+      undefined,
+      await this.findExecutionStateMachine(executionArn, execution),
+    );
+    const response = await client.send(command);
+
+    const previous = {
+      status: execution.status,
+      stopDate: execution.awsStopDate?.getTime(),
+      redriveCount: execution.redriveCount,
+    };
+
+    // Update execution in database
+    execution.status = response.status || execution.status;
+    execution.awsStopDate = response.stopDate || execution.awsStopDate;
+
+    if (response.input) {
+      try {
+        execution.input = JSON.parse(response.input) as Record<string, unknown>;
+      } catch {
+        // Keep existing input if parsing fails
       }
+    }
 
-      if (response.output) {
-        try {
-          execution.output = JSON.parse(response.output) as Record<string, unknown>;
-        } catch {
-          // Keep existing output if parsing fails
-        }
+    if (response.output) {
+      try {
+        execution.output = JSON.parse(response.output) as Record<
+          string,
+          unknown
+        >;
+      } catch {
+        // Keep existing output if parsing fails
+      }
+    }
+
+    execution.error = response.error || execution.error;
+    execution.cause = response.cause || execution.cause;
+    execution.redriveCount = response.redriveCount ?? execution.redriveCount;
+    execution.redriveStatus = response.redriveStatus || execution.redriveStatus;
+    execution.redriveDate = response.redriveDate || execution.redriveDate;
+
+    const saved = await this.executionRepository.save(execution);
+    if (
+      !isDeepStrictEqual(previous, {
+        status: saved.status,
+        stopDate: saved.awsStopDate?.getTime(),
+        redriveCount: saved.redriveCount,
+      })
+    ) {
+      this.executionStreamService.publishStatus(saved);
+    }
+    return saved;
+  }
+
+  /**
+   * Fetch the latest history of an unfinished AWS execution, storing and streaming
+   * its new events, then its final status once the history is complete.
+   * Called by ExecutionSyncService for executions a client streams; errors are left to it.
+   */
+  async followExecution(executionArn: string) {
+    const execution = await this.executionRepository.findOne({
+      where: { awsExecutionArn: executionArn },
+    });
+    if (!execution || isLocalExecutionArn(executionArn)) {
+      return;
+    }
+
+    const stored = (
+      await this.executionEventRepository.find({
+        where: { executionId: execution.id },
+        order: { eventId: 'ASC' },
+      })
+    ).map((event) => this.toHistoryEvent(event));
+    const stateMachine = await this.findExecutionStateMachine(
+      executionArn,
+      execution,
+    );
+    const newEvents = await this.executionBackends.aws.getExecutionHistory(
+      executionArn,
+      {
+        connectionProfile:
+          await this.connectionProfileService.resolveConnectionProfile(
+            undefined,
+            stateMachine?.connectionProfileId,
+          ),
+        afterEventId: lastEventId(stored),
+      },
+    );
+    if (!newEvents) {
+      return;
+    }
+
+    await this.saveExecutionEvents(execution, newEvents, stored);
+    if (isCompleteHistory([...stored, ...newEvents])) {
+      await this.syncExecutionStatus(executionArn);
+    }
+  }
+
+  /**
+   * Server-Sent Events of one execution: its current status first, then every
+   * status change and history event until the client disconnects.
+   */
+  async streamExecution(
+    executionArn: string,
+  ): Promise<Observable<MessageEvent>> {
+    const execution = await this.executionRepository.findOne({
+      where: { awsExecutionArn: executionArn },
+    });
+    if (!execution) {
+      throw new NotFoundException('Execution not found');
+    }
+
+    return this.executionStreamService.stream({ executionArn }, execution);
+  }
+
+  // Server-Sent Events of every execution of a state machine
+  async streamExecutions(
+    stateMachineArn?: string,
+  ): Promise<Observable<MessageEvent>> {
+    if (!stateMachineArn) {
+      throw new BadRequestException(
+        'Missing required parameter: stateMachineArn',
+      );
+    }
+
+    const stateMachine = await this.stateMachineRepository.findOne({
+      where: { awsArn: stateMachineArn },
+    });
+    if (!stateMachine) {
+      throw new NotFoundException('State machine not found');
+    }
+
+    return this.executionStreamService.stream({ stateMachineArn });
+  }
+
+  /**
+   * Record executions of a state machine that were started outside the app
+   * (console, CLI, EventBridge rules...), from the newest page of ListExecutions.
+   * Returns the ARNs of the executions it added, whose input and output still
+   * have to be fetched with syncExecutionStatus.
+   */
+  async discoverExecutions(
+    stateMachine: StateMachine,
+    maxResults: number,
+  ): Promise<string[]> {
+    if (!stateMachine.awsArn || isLocalStateMachineArn(stateMachine.awsArn)) {
+      return [];
+    }
+
+    const client = await this.resolveSfnClient(undefined, stateMachine);
+    const response = await client.send(
+      new ListExecutionsCommand({
+        stateMachineArn: stateMachine.awsArn,
+        maxResults,
+      }),
+    );
+    const listed = (response.executions || []).filter(
+      (item) => item.executionArn,
+    );
+    if (!listed.length) {
+      return [];
+    }
+
+    const known = await this.executionRepository.find({
+      select: { awsExecutionArn: true },
+      where: { awsExecutionArn: In(listed.map((item) => item.executionArn)) },
+    });
+    const knownArns = new Set(known.map((exec) => exec.awsExecutionArn));
+    const discovered = listed.filter(
+      (item) => !knownArns.has(item.executionArn as string),
+    );
+    if (!discovered.length) {
+      return [];
+    }
+
+    await this.executionRepository.save(
+      discovered.map((item) =>
+        this.executionRepository.create({
+          awsExecutionArn: item.executionArn,
+          awsStateMachineArn: stateMachine.awsArn as string,
+          qualifier:
+            splitQualifiedArn(
+              item.stateMachineAliasArn || item.stateMachineVersionArn || '',
+            ).qualifier || null,
+          name: item.name || null,
+          status: item.status || 'RUNNING',
+          input: null,
+          awsStartDate: item.startDate || null,
+          awsStopDate: item.stopDate || null,
+          redriveCount: item.redriveCount ?? 0,
+          redriveDate: item.redriveDate || null,
+          stateMachineId: stateMachine.id,
+        }),
+      ),
+    );
+    return discovered.map((item) => item.executionArn as string);
+  }
+
+  /**
+   * Finish an operation left PENDING or APPLIED, e.g. by a crash or a database outage
+   * between the AWS call and the database write. Called by OperationRecoveryService;
+   * errors are left to it. The database write is replayed once AWS shows the call
+   * happened (always, for APPLIED operations); otherwise there is nothing to track and
+   * the operation is marked FAILED. A delete that never reached AWS is not replayed.
+   */
+  async recoverOperation(operation: Operation) {
+    if (isOperationOf(operation, 'CREATE_STATE_MACHINE')) {
+      const created =
+        operation.result ??
+        (await this.findCreatedStateMachine(operation, operation.payload));
+      if (!created) {
+        return this.operationLogService.failed(
+          operation,
+          new Error('The state machine was not created in AWS'),
+        );
+      }
+      await this.trackCreatedStateMachine(operation.payload, created);
+    } else if (isOperationOf(operation, 'DELETE_STATE_MACHINE')) {
+      if (
+        operation.status === 'PENDING' &&
+        (await this.existsInAws(operation.payload))
+      ) {
+        return this.operationLogService.failed(
+          operation,
+          new Error('The state machine was not deleted in AWS'),
+        );
+      }
+      await this.untrackDeletedStateMachine(operation.payload.stateMachineArn);
+    } else if (isOperationOf(operation, 'START_EXECUTION')) {
+      const started =
+        operation.result ??
+        (await this.findStartedExecution(operation.payload));
+      if (!started) {
+        return this.operationLogService.failed(
+          operation,
+          new Error('The execution was not started'),
+        );
+      }
+      await this.trackStartedExecution(operation.payload, started);
+    }
+
+    await this.operationLogService.completed(operation);
+  }
+
+  // The state machine a PENDING create made, found by name; an older one was there before
+  private async findCreatedStateMachine(
+    operation: Operation,
+    payload: CreateStateMachinePayload,
+  ): Promise<CreatedStateMachine | null> {
+    const client = await this.resolveSfnClient(undefined, {
+      connectionProfileId: payload.connectionProfileId,
+    });
+
+    let nextToken: string | undefined;
+    do {
+      const response = await client.send(
+        new ListStateMachinesCommand({ maxResults: 1000, nextToken }),
+      );
+      const found = response.stateMachines?.find(
+        (item) => item.name === payload.name,
+      );
+      if (found) {
+        const createdAfter =
+          operation.createdAt.getTime() - CLOCK_SKEW_TOLERANCE_MS;
+        return (found.creationDate?.getTime() ?? 0) >= createdAfter
+          ? {
+              stateMachineArn: found.stateMachineArn as string,
+              creationDate: found.creationDate,
+            }
+          : null;
       }
+      nextToken = response.nextToken;
+    } while (nextToken);
+    return null;
+  }
+
+  private async existsInAws(payload: DeleteStateMachinePayload) {
+    const client = await this.resolveSfnClient(
+      payload.connectionProfile || undefined,
+      { connectionProfileId: payload.connectionProfileId },
+    );
+    try {
+      const described = await client.send(
+        new DescribeStateMachineCommand({
+          stateMachineArn: payload.stateMachineArn,
+        }),
+      );
+      return described.status !== 'DELETING';
+    } catch (error) {
+      if (error instanceof StateMachineDoesNotExist) {
+        return false;
+      }
+      throw error;
+    }
+  }
 
-      execution.error = response.error || execution.error;
-      execution.cause = response.cause || execution.cause;
+  // A PENDING start, looked up in AWS by its name; local runs did not survive the restart
+  private async findStartedExecution(
+    payload: StartExecutionPayload,
+  ): Promise<StartedExecutionResult | null> {
+    if (payload.backend !== 'aws') {
+      return null;
+    }
 
-      await this.executionRepository.save(execution);
+    const client = await this.resolveSfnClient(undefined, {
+      connectionProfileId: payload.connectionProfileId,
+    });
+    try {
+      const described = await client.send(
+        new DescribeExecutionCommand({
+          executionArn: toExecutionArn(payload.stateMachineArn, payload.name),
+        }),
+      );
+      return {
+        executionArn: described.executionArn as string,
+        startDate: described.startDate || new Date(),
+      };
     } catch (error) {
-      console.error('Failed to sync execution status:', error);
+      if (error instanceof ExecutionDoesNotExist) {
+        return null;
+      }
+      throw error;
     }
   }
 }
-
@@ -0,0 +1,26 @@
+import { NodeResizer } from 'reactflow';
+import { BranchNodeData } from '../utils/aslConverter';
+
+interface BranchNodeProps {
+  data: BranchNodeData;
+  selected?: boolean;
+}
+
+/**
+ * Container for the states of one Parallel branch. Branches have no transitions
+ * of their own, so the node has no handles.
+ */
+export default function BranchNode({ data, selected }: BranchNodeProps) {
+  return (
+    <>
+      <NodeResizer isVisible={!!selected} minWidth={200} minHeight={120} />
+      <div
+        className={`w-full h-full rounded-md border border-dashed bg-gray-900/40 ${
+          selected ? 'border-blue-500' : 'border-gray-500'
+        }`}
+      >
+        <div className="px-3 py-2 text-xs font-semibold text-gray-300">{data.label}</div>
+      </div>
+    </>
+  );
+}
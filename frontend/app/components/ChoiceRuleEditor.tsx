@@ -0,0 +1,242 @@
+import {
+  ChoiceRule,
+  ChoiceRuleKind,
+  CHOICE_OPERATORS,
+  createRule,
+  getRuleKind,
+  getRuleOperator,
+  parseOperand,
+  setRuleOperator,
+} from '../utils/choiceRules';
+
+const inputClassName =
+  'w-full px-2 py-1 bg-gray-900/50 border border-gray-700 rounded text-xs text-white font-mono placeholder-gray-500';
+
+const RULE_KINDS: Array<{ value: ChoiceRuleKind; label: string }> = [
+  { value: 'comparison', label: 'Comparison' },
+  { value: 'And', label: 'And' },
+  { value: 'Or', label: 'Or' },
+  { value: 'Not', label: 'Not' },
+  { value: 'Condition', label: 'JSONata Condition' },
+];
+
+interface RuleEditorProps {
+  rule: ChoiceRule;
+  onChange: (rule: ChoiceRule) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+/**
+ * Edits a single (possibly nested) Choice rule. Top-level fields such as Next
+ * and Comment are left untouched when the kind of the rule changes.
+ */
+function RuleEditor({ rule, onChange, onRemove, depth = 0 }: RuleEditorProps) {
+  const kind = getRuleKind(rule);
+
+  const changeKind = (nextKind: ChoiceRuleKind) => {
+    const replacement = createRule(nextKind);
+    if (depth === 0) {
+      if (rule.Next) replacement.Next = rule.Next;
+      if (rule.Comment) replacement.Comment = rule.Comment;
+    }
+    onChange(replacement);
+  };
+
+  const updateChild = (key: 'And' | 'Or', index: number, child: ChoiceRule) => {
+    const children = [...(rule[key] || [])];
+    children[index] = child;
+    onChange({ ...rule, [key]: children });
+  };
+
+  const removeChild = (key: 'And' | 'Or', index: number) => {
+    onChange({ ...rule, [key]: (rule[key] || []).filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'pl-3 border-l border-gray-700' : ''}`}>
+      <div className="flex gap-2 items-center">
+        <select
+          value={kind}
+          onChange={(e) => changeKind(e.target.value as ChoiceRuleKind)}
+          className={inputClassName}
+        >
+          {RULE_KINDS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+            title="Remove condition"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      {kind === 'comparison' && <ComparisonEditor rule={rule} onChange={onChange} />}
+
+      {kind === 'Condition' && (
+        <input
+          value={rule.Condition || ''}
+          onChange={(e) => onChange({ ...rule, Condition: e.target.value })}
+          className={inputClassName}
+          placeholder="{% $states.input.value > 10 %}"
+        />
+      )}
+
+      {kind === 'Not' && rule.Not && (
+        <RuleEditor
+          rule={rule.Not}
+          onChange={(child) => onChange({ ...rule, Not: child })}
+          depth={depth + 1}
+        />
+      )}
+
+      {(kind === 'And' || kind === 'Or') && (
+        <div className="space-y-2">
+          {(rule[kind] || []).map((child, index) => (
+            <RuleEditor
+              key={index}
+              rule={child}
+              onChange={(updated) => updateChild(kind, index, updated)}
+              onRemove={() => removeChild(kind, index)}
+              depth={depth + 1}
+            />
+          ))}
+          <button
+            onClick={() => onChange({ ...rule, [kind]: [...(rule[kind] || []), createRule()] })}
+            className="text-xs text-indigo-400 hover:text-indigo-300 transition-colors"
+          >
+            + Add condition
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ComparisonEditor({ rule, onChange }: { rule: ChoiceRule; onChange: (rule: ChoiceRule) => void }) {
+  const operator = getRuleOperator(rule) || CHOICE_OPERATORS[0];
+  const value = rule[operator.name];
+
+  return (
+    <div className="space-y-2">
+      <input
+        value={rule.Variable || ''}
+        onChange={(e) => onChange({ ...rule, Variable: e.target.value })}
+        className={inputClassName}
+        placeholder="$.variable"
+      />
+      <select
+        value={operator.name}
+        onChange={(e) => onChange(setRuleOperator(rule, e.target.value))}
+        className={inputClassName}
+      >
+        {CHOICE_OPERATORS.map((op) => (
+          <option key={op.name} value={op.name}>
+            {op.name}
+          </option>
+        ))}
+      </select>
+      {operator.valueKind === 'boolean' ? (
+        <select
+          value={String(value)}
+          onChange={(e) => onChange({ ...rule, [operator.name]: parseOperand('boolean', e.target.value) })}
+          className={inputClassName}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      ) : (
+        <input
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) =>
+            onChange({ ...rule, [operator.name]: parseOperand(operator.valueKind, e.target.value) })
+          }
+          className={inputClassName}
+          placeholder={operator.valueKind === 'path' ? '$.other' : 'value'}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ChoiceRuleEditorProps {
+  rules: ChoiceRule[];
+  /**
+   * Called with the new rule list and, for each previous rule index, its new index
+   * (or null when removed) so branch edges can follow their rule.
+   */
+  onChange: (rules: ChoiceRule[], indexMap: Array<number | null>) => void;
+}
+
+export default function ChoiceRuleEditor({ rules, onChange }: ChoiceRuleEditorProps) {
+  const identity = rules.map((_, index) => index);
+
+  const updateRule = (index: number, rule: ChoiceRule) => {
+    onChange(rules.map((r, i) => (i === index ? rule : r)), identity);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(
+      rules.filter((_, i) => i !== index),
+      identity.map((i) => (i === index ? null : i > index ? i - 1 : i))
+    );
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(
+      reordered,
+      identity.map((i) => (i === index ? target : i === target ? index : i))
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, index) => (
+        <div key={index} className="p-2 border border-gray-700 rounded space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-xs font-semibold text-gray-300">Rule {index + 1}</span>
+            <div className="flex gap-2 text-xs">
+              <button onClick={() => moveRule(index, -1)} className="text-gray-400 hover:text-white" title="Move up">
+                ↑
+              </button>
+              <button onClick={() => moveRule(index, 1)} className="text-gray-400 hover:text-white" title="Move down">
+                ↓
+              </button>
+              <button onClick={() => removeRule(index)} className="text-gray-400 hover:text-red-400" title="Remove rule">
+                ×
+              </button>
+            </div>
+          </div>
+          <RuleEditor rule={rule} onChange={(updated) => updateRule(index, updated)} />
+          <input
+            value={rule.Comment || ''}
+            onChange={(e) => {
+              const updated: ChoiceRule = { ...rule, Comment: e.target.value };
+              if (!e.target.value) delete updated.Comment;
+              updateRule(index, updated);
+            }}
+            className={inputClassName}
+            placeholder="Comment (optional)"
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...rules, createRule()], identity)}
+        className="w-full px-3 py-1.5 bg-purple-600 text-white rounded hover:bg-purple-500 transition-colors text-xs"
+      >
+        + Add Rule
+      </button>
+    </div>
+  );
+}
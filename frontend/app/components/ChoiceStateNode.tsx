@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { Handle, Position, useUpdateNodeInternals } from 'reactflow';
+import { StateNodeData } from '../utils/aslConverter';
+import {
+  describeRule,
+  getChoiceHandleId,
+  DEFAULT_CHOICE_HANDLE_ID,
+} from '../utils/choiceRules';
+import NodeDiagnostics from './NodeDiagnostics';
+
+interface ChoiceStateNodeProps {
+  id: string;
+  data: StateNodeData;
+  selected?: boolean;
+}
+
+export default function ChoiceStateNode({ id, data, selected }: ChoiceStateNodeProps) {
+  const rules = data.fullState?.Choices || [];
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  // Handles are added and removed with the rules, so React Flow must re-measure them
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, rules.length, updateNodeInternals]);
+
+  return (
+    <div
+      className={`relative py-3 shadow-md rounded-lg bg-white border-2 min-w-[220px] ${
+        selected ? 'border-blue-500' : 'border-gray-300'
+      }`}
+    >
+      <NodeDiagnostics diagnostics={data.diagnostics} />
+      <div className="flex items-center gap-2 px-4">
+        <div className="w-3 h-3 rounded-full bg-purple-500"></div>
+        <div className="font-semibold text-gray-800 text-sm">
+          {data.stateName ? `${data.stateName} (Choice)` : data.label || 'Choice State'}
+        </div>
+      </div>
+      <div className="mt-2 space-y-1">
+        {rules.map((rule, index) => (
+          <div key={index} className="relative px-4 pr-6">
+            <div
+              className="text-xs text-gray-600 font-mono truncate max-w-[240px]"
+              title={describeRule(rule)}
+            >
+              {index + 1}. {describeRule(rule)}
+            </div>
+            <Handle
+              type="source"
+              position={Position.Right}
+              id={getChoiceHandleId(index)}
+              className="w-3 h-3 !bg-purple-500"
+            />
+          </div>
+        ))}
+        <div className="relative px-4 pr-6">
+          <div className="text-xs text-gray-500 italic">Default</div>
+          <Handle
+            type="source"
+            position={Position.Right}
+            id={DEFAULT_CHOICE_HANDLE_ID}
+            className="w-3 h-3 !bg-gray-500"
+          />
+        </div>
+      </div>
+      <Handle type="target" position={Position.Top} className="w-3 h-3" />
+    </div>
+  );
+}
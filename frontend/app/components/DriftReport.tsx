@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowDownToLine, ArrowUpFromLine, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DRIFT_STATUS_CLASS,
+  DRIFT_STATUS_LABEL,
+  DriftReport as DriftReportData,
+  StateMachineDrift,
+  fetchDriftReport,
+  formatDriftValue,
+  resolveDrift,
+} from '../utils/drift';
+
+interface DriftReportProps {
+  // Called after a state machine was pulled or pushed, e.g. to reload the workflow list
+  onResolved?: () => void;
+}
+
+/**
+ * Drift between the database and AWS for every deployed state machine, with the
+ * differing fields and executions, and actions to pull the AWS copy or push the database one.
+ */
+export default function DriftReport({ onResolved }: DriftReportProps) {
+  const [report, setReport] = useState<DriftReportData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Id of the state machine being pulled or pushed
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReport(await fetchDriftReport());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load drift report');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const resolve = async (stateMachine: StateMachineDrift, direction: 'pull' | 'push') => {
+    const question = direction === 'pull'
+      ? `Replace the database copy of ${stateMachine.name} with what AWS runs?`
+      : `Deploy the database copy of ${stateMachine.name} to AWS, replacing the changes made there?`;
+    if (!confirm(question)) return;
+
+    setResolving(stateMachine.id);
+    try {
+      const result = await resolveDrift(stateMachine.id, direction);
+      alert(result.message);
+      onResolved?.();
+      await load();
+    } catch (err) {
+      alert(`Failed to ${direction}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  if (isLoading && !report) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+  if (!report) return null;
+
+  const { summary } = report;
+  const attention = report.stateMachines.filter((stateMachine) => stateMachine.drift !== 'IN_SYNC');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-white/60">
+        <span>
+          {summary.stateMachines} checked · {summary.drifted} drifted · {summary.deletedInAws} deleted in AWS
+          {summary.errors > 0 && ` · ${summary.errors} not checked`}
+        </span>
+        <Button onClick={load} disabled={isLoading} variant="ghost" size="sm" className="h-7 text-xs">
+          <RefreshCw className={`w-3 h-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Check again
+        </Button>
+      </div>
+
+      {attention.length === 0 ? (
+        <p className="text-sm text-white/60 text-center py-8">Every state machine matches AWS</p>
+      ) : (
+        <div className="max-h-[28rem] overflow-y-auto space-y-3">
+          {attention.map((stateMachine) => (
+            <div key={stateMachine.id} className="border border-white/10 rounded-md p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-white truncate">{stateMachine.name}</span>
+                    <Badge variant="outline" className={`${DRIFT_STATUS_CLASS[stateMachine.drift]} text-xs`}>
+                      {DRIFT_STATUS_LABEL[stateMachine.drift]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-white/50 font-mono truncate">{stateMachine.stateMachineArn}</p>
+                </div>
+                {stateMachine.drift !== 'ERROR' && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      onClick={() => resolve(stateMachine, 'pull')}
+                      disabled={resolving !== null}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title="Copy the AWS state machine into the database"
+                    >
+                      <ArrowDownToLine className="w-3 h-3 mr-1" />
+                      Pull from AWS
+                    </Button>
+                    {stateMachine.drift === 'DRIFTED' && (
+                      <Button
+                        onClick={() => resolve(stateMachine, 'push')}
+                        disabled={resolving !== null}
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        title="Deploy the database copy to AWS"
+                      >
+                        <ArrowUpFromLine className="w-3 h-3 mr-1" />
+                        Push to AWS
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {stateMachine.error && <p className="text-xs text-red-400 mt-2">{stateMachine.error}</p>}
+
+              {stateMachine.differences.length > 0 && (
+                <table className="w-full mt-2 text-xs table-fixed">
+                  <thead>
+                    <tr className="text-white/50 text-left">
+                      <th className="w-1/4 font-normal">Field</th>
+                      <th className="font-normal">Database</th>
+                      <th className="font-normal">AWS</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stateMachine.differences.map((difference) => (
+                      <tr key={difference.field} className="align-top">
+                        <td className="text-white/80 pr-2">{difference.field}</td>
+                        <td className="text-white/60 font-mono truncate pr-2" title={formatDriftValue(difference.database)}>
+                          {formatDriftValue(difference.database)}
+                        </td>
+                        <td className="text-white/60 font-mono truncate" title={formatDriftValue(difference.aws)}>
+                          {formatDriftValue(difference.aws)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {(stateMachine.executions.length > 0 || stateMachine.untrackedExecutions > 0) && (
+                <div className="mt-2 space-y-1">
+                  {stateMachine.executions.map((execution) => (
+                    <p key={execution.executionArn} className="text-xs text-white/60 truncate" title={execution.executionArn}>
+                      <span className="text-white/80">{execution.name || execution.executionArn.split(':').pop()}</span>
+                      {': '}
+                      {execution.missingInAws
+                        ? 'no longer listed in AWS'
+                        : execution.differences
+                            .map((difference) => `${difference.field} ${formatDriftValue(difference.database)} → ${formatDriftValue(difference.aws)}`)
+                            .join(', ')}
+                    </p>
+                  ))}
+                  {stateMachine.untrackedExecutions > 0 && (
+                    <p className="text-xs text-white/60">
+                      {stateMachine.untrackedExecutions} execution{stateMachine.untrackedExecutions === 1 ? '' : 's'} in AWS not tracked in the database
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import {
+  Catcher,
+  Retrier,
+  PREDEFINED_ERROR_NAMES,
+  createRetrier,
+  parseErrorNames,
+} from '../utils/errorHandling';
+
+const inputClassName =
+  'w-full px-2 py-1 bg-gray-900/50 border border-gray-700 rounded text-xs text-white font-mono placeholder-gray-500';
+
+const RETRY_NUMBER_FIELDS: Array<{ key: keyof Retrier; label: string; step?: string }> = [
+  { key: 'IntervalSeconds', label: 'Interval (s)' },
+  { key: 'MaxAttempts', label: 'Max attempts' },
+  { key: 'BackoffRate', label: 'Backoff rate', step: '0.1' },
+  { key: 'MaxDelaySeconds', label: 'Max delay (s)' },
+];
+
+interface ErrorHandlingEditorProps {
+  retriers: Retrier[];
+  catchers: Catcher[];
+  // Name of the state each catcher currently leads to, by catcher index
+  catchTargets: Array<string | undefined>;
+  onRetryChange: (retriers: Retrier[]) => void;
+  /**
+   * Called with the new catcher list and, for each previous catcher index, its new
+   * index (or null when removed) so catch edges can follow their catcher.
+   */
+  onCatchChange: (catchers: Catcher[], indexMap: Array<number | null>) => void;
+}
+
+function ErrorNamesInput({ value, onChange }: { value: string[]; onChange: (names: string[]) => void }) {
+  return (
+    <input
+      // Remount when the value changes from outside (e.g. another node is selected)
+      key={value.join(',')}
+      defaultValue={value.join(', ')}
+      onBlur={(e) => onChange(parseErrorNames(e.target.value))}
+      className={inputClassName}
+      placeholder="States.ALL, MyCustomError"
+      list="asl-error-names"
+    />
+  );
+}
+
+export default function ErrorHandlingEditor({
+  retriers,
+  catchers,
+  catchTargets,
+  onRetryChange,
+  onCatchChange,
+}: ErrorHandlingEditorProps) {
+  const updateRetrier = (index: number, patch: Partial<Retrier>) => {
+    onRetryChange(
+      retriers.map((retrier, i) => {
+        if (i !== index) return retrier;
+        const updated: Retrier = { ...retrier, ...patch };
+        (Object.keys(patch) as Array<keyof Retrier>).forEach((key) => {
+          if (patch[key] === undefined) delete updated[key];
+        });
+        return updated;
+      })
+    );
+  };
+
+  const updateCatcher = (index: number, patch: Partial<Catcher>) => {
+    onCatchChange(
+      catchers.map((catcher, i) => (i === index ? { ...catcher, ...patch } : catcher)),
+      catchers.map((_, i) => i)
+    );
+  };
+
+  const removeCatcher = (index: number) => {
+    onCatchChange(
+      catchers.filter((_, i) => i !== index),
+      catchers.map((_, i) => (i === index ? null : i > index ? i - 1 : i))
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <datalist id="asl-error-names">
+        {PREDEFINED_ERROR_NAMES.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      <div>
+        <h4 className="text-xs font-semibold text-gray-300 mb-2">Retry</h4>
+        <div className="space-y-2">
+          {retriers.map((retrier, index) => (
+            <div key={index} className="p-2 border border-gray-700 rounded space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-gray-400">Retrier {index + 1}</span>
+                <button
+                  onClick={() => onRetryChange(retriers.filter((_, i) => i !== index))}
+                  className="text-xs text-gray-400 hover:text-red-400"
+                  title="Remove retrier"
+                >
+                  ×
+                </button>
+              </div>
+              <ErrorNamesInput
+                value={retrier.ErrorEquals || []}
+                onChange={(names) => updateRetrier(index, { ErrorEquals: names })}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                {RETRY_NUMBER_FIELDS.map((field) => (
+                  <label key={field.key} className="text-[10px] text-gray-400">
+                    {field.label}
+                    <input
+                      type="number"
+                      min={0}
+                      step={field.step || '1'}
+                      value={(retrier[field.key] as number | undefined) ?? ''}
+                      onChange={(e) =>
+                        updateRetrier(index, {
+                          [field.key]: e.target.value === '' ? undefined : Number(e.target.value),
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  </label>
+                ))}
+                <label className="text-[10px] text-gray-400 col-span-2">
+                  Jitter strategy
+                  <select
+                    value={retrier.JitterStrategy || ''}
+                    onChange={(e) =>
+                      updateRetrier(index, {
+                        JitterStrategy: (e.target.value || undefined) as Retrier['JitterStrategy'],
+                      })
+                    }
+                    className={inputClassName}
+                  >
+                    <option value="">(default)</option>
+                    <option value="FULL">FULL</option>
+                    <option value="NONE">NONE</option>
+                  </select>
+                </label>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => onRetryChange([...retriers, createRetrier()])}
+            className="text-xs text-indigo-400 hover:text-indigo-300 transition-colors"
+          >
+            + Add retrier
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-300 mb-2">Catch</h4>
+        <div className="space-y-2">
+          {catchers.map((catcher, index) => (
+            <div key={index} className="p-2 border border-red-500/30 rounded space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-gray-400">
+                  Catcher {index + 1} →{' '}
+                  <span className="font-mono text-red-400">{catchTargets[index] || 'not connected'}</span>
+                </span>
+                <button
+                  onClick={() => removeCatcher(index)}
+                  className="text-xs text-gray-400 hover:text-red-400"
+                  title="Remove catcher"
+                >
+                  ×
+                </button>
+              </div>
+              <ErrorNamesInput
+                value={catcher.ErrorEquals || []}
+                onChange={(names) => updateCatcher(index, { ErrorEquals: names })}
+              />
+              <label className="text-[10px] text-gray-400 block">
+                Result path
+                <input
+                  value={catcher.ResultPath ?? ''}
+                  onChange={(e) => updateCatcher(index, { ResultPath: e.target.value || undefined })}
+                  className={inputClassName}
+                  placeholder="$.error"
+                />
+              </label>
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">
+            Drag from the red error handle to the state that should handle the failure to add a catcher.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
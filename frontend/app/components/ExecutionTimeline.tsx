@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import {
+  ExecutionHistoryEvent,
+  StateSpan,
+  StateSpanStatus,
+  buildExecutionTimeline,
+  fetchExecutionHistory,
+  formatDuration,
+  formatPayload,
+  mergeHistoryEvents,
+} from '../utils/executionTimeline';
+import { subscribeToExecutions } from '../utils/executions';
+
+const BAR_CLASS: Record<StateSpanStatus, string> = {
+  succeeded: 'bg-green-500/70',
+  caught: 'bg-orange-400/70',
+  failed: 'bg-red-500/70',
+  running: 'bg-blue-500/70 animate-pulse',
+};
+
+interface ExecutionTimelineProps {
+  executionArn: string;
+  status: string;
+}
+
+/**
+ * Gantt-style view of an execution: one bar per state visit with its duration and
+ * retries; a bar expands to show the state's input, output and error.
+ */
+export default function ExecutionTimeline({ executionArn, status }: ExecutionTimelineProps) {
+  // Kept with the execution they belong to, so another execution starts from an empty history
+  const [history, setHistory] = useState<{ executionArn: string; events: ExecutionHistoryEvent[] }>({
+    executionArn,
+    events: [],
+  });
+  const events = history.executionArn === executionArn ? history.events : [];
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const add = (added: ExecutionHistoryEvent[]) =>
+      setHistory((current) => ({
+        executionArn,
+        events: mergeHistoryEvents(current.executionArn === executionArn ? current.events : [], added),
+      }));
+    const load = async () => {
+      try {
+        const loaded = await fetchExecutionHistory(executionArn);
+        if (cancelled) return;
+        add(loaded);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load execution history');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    // A running execution streams its new events; the history is reloaded on every connection
+    let unsubscribe: (() => void) | undefined;
+    if (status === 'RUNNING') {
+      unsubscribe = subscribeToExecutions({ executionArn }, { onOpen: load, onEvent: ({ event }) => add([event]) });
+    } else {
+      load();
+    }
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [executionArn, status]);
+
+  if (isLoading) {
+    return <p className="text-xs text-white/50">Loading timeline...</p>;
+  }
+  if (error) {
+    return <p className="text-xs text-red-400">{error}</p>;
+  }
+
+  const timeline = buildExecutionTimeline(events);
+  if (!timeline.spans.length) {
+    return <p className="text-xs text-white/50">No state transitions recorded yet.</p>;
+  }
+  const total = Math.max(timeline.end - timeline.start, 1);
+
+  const renderDetails = (span: StateSpan) => (
+    <div className="grid grid-cols-2 gap-2 mt-1 mb-2">
+      {span.input !== undefined && (
+        <div>
+          <p className="text-[10px] text-white/50 mb-0.5">Input</p>
+          <pre className="bg-black/30 border border-white/10 p-2 rounded text-[10px] font-mono overflow-auto max-h-40 text-white/80">
+            {formatPayload(span.input)}
+          </pre>
+        </div>
+      )}
+      {span.output !== undefined && (
+        <div>
+          <p className="text-[10px] text-white/50 mb-0.5">Output</p>
+          <pre className="bg-black/30 border border-white/10 p-2 rounded text-[10px] font-mono overflow-auto max-h-40 text-white/80">
+            {formatPayload(span.output)}
+          </pre>
+        </div>
+      )}
+      {span.error && (
+        <div className="col-span-2">
+          <p className="text-[10px] text-red-400 mb-0.5">{span.status === 'failed' ? 'Error' : span.status === 'caught' ? 'Caught error' : 'Last failed attempt'}</p>
+          <pre className="bg-red-500/10 border border-red-500/30 p-2 rounded text-[10px] font-mono overflow-auto max-h-32 text-red-300">
+            {span.error}
+            {span.cause ? `\n${span.cause}` : ''}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex justify-between text-[10px] text-white/40 pl-40 pr-26">
+        <span>0</span>
+        <span>{formatDuration(total)}</span>
+      </div>
+      {timeline.spans.map((span) => {
+        const offset = ((span.start - timeline.start) / total) * 100;
+        const width = Math.max(((span.end - span.start) / total) * 100, 0.5);
+        return (
+          <div key={span.id}>
+            <button
+              type="button"
+              onClick={() => setExpanded(expanded === span.id ? null : span.id)}
+              className="w-full flex items-center gap-2 py-0.5 hover:bg-white/5 rounded text-left"
+              title={`${span.type} state`}
+            >
+              <span className="w-38 shrink-0 truncate text-xs text-white/80 font-mono">{span.name}</span>
+              <span className="relative flex-1 h-3 bg-white/5 rounded">
+                <span
+                  className={`absolute h-3 rounded ${BAR_CLASS[span.status]}`}
+                  style={{ left: `${offset}%`, width: `${Math.min(width, 100 - offset)}%` }}
+                />
+              </span>
+              <span className="w-24 shrink-0 text-right text-[10px] text-white/60">
+                {formatDuration(span.end - span.start)}
+                {span.retries > 0 && (
+                  <span className="text-amber-300"> · {span.retries} {span.retries === 1 ? 'retry' : 'retries'}</span>
+                )}
+              </span>
+            </button>
+            {expanded === span.id && renderDetails(span)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { ASLState } from '../utils/aslConverter';
+import { validateFailState } from '../utils/flowControl';
+
+const inputClassName =
+  'w-full px-2 py-1 bg-gray-900/50 border border-gray-700 rounded text-xs text-white font-mono placeholder-gray-500';
+
+const FAIL_FIELDS: Array<{ field: 'Error' | 'ErrorPath' | 'Cause' | 'CausePath'; placeholder: string }> = [
+  { field: 'Error', placeholder: 'OrderRejected' },
+  { field: 'ErrorPath', placeholder: '$.error' },
+  { field: 'Cause', placeholder: 'The order could not be processed' },
+  { field: 'CausePath', placeholder: "States.Format('Rejected: {}', $.reason)" },
+];
+
+interface FailStateEditorProps {
+  state: ASLState;
+  onChange: (patch: Partial<ASLState>) => void;
+}
+
+export default function FailStateEditor({ state, onChange }: FailStateEditorProps) {
+  const errors = validateFailState(state);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {FAIL_FIELDS.map(({ field, placeholder }) => (
+          <label key={field} className="text-[10px] text-gray-400">
+            {field}
+            <input
+              value={state[field] === undefined ? '' : String(state[field])}
+              onChange={(e) => onChange({ [field]: e.target.value || undefined })}
+              className={inputClassName}
+              placeholder={placeholder}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">Set Error or ErrorPath, and Cause or CausePath — not both.</p>
+      {errors.map((error) => (
+        <p key={error} className="text-[10px] text-red-400">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
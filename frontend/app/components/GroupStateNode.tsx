@@ -0,0 +1,91 @@
+import { useCallback } from 'react';
+import { Handle, NodeResizer, Position, useReactFlow } from 'reactflow';
+import { StateNodeData, getDescendantIds } from '../utils/aslConverter';
+import { ERROR_HANDLE_ID } from '../utils/errorHandling';
+import NodeDiagnostics from './NodeDiagnostics';
+
+interface GroupStateNodeProps {
+  id: string;
+  data: StateNodeData;
+  selected?: boolean;
+}
+
+const COLLAPSED_SIZE = { width: 240, height: 70 };
+
+/**
+ * Parallel and Map states: a resizable container whose child nodes are the
+ * branch containers (Parallel) or the item processor states (Map).
+ */
+export default function GroupStateNode({ id, data, selected }: GroupStateNodeProps) {
+  const { getNodes, setNodes } = useReactFlow();
+  const stateType = data.stateType || 'Parallel';
+  const accent = stateType === 'Map' ? 'bg-pink-500' : 'bg-indigo-500';
+  const border = stateType === 'Map' ? 'border-pink-400/60' : 'border-indigo-400/60';
+
+  const toggleCollapsed = useCallback(() => {
+    const nodes = getNodes();
+    const descendants = getDescendantIds(nodes, id);
+    const collapsed = !data.collapsed;
+
+    setNodes(
+      nodes.map((node) => {
+        if (descendants.has(node.id)) {
+          return { ...node, hidden: collapsed };
+        }
+        if (node.id !== id) {
+          return node;
+        }
+        const currentSize = {
+          width: Number(node.style?.width ?? node.width ?? COLLAPSED_SIZE.width),
+          height: Number(node.style?.height ?? node.height ?? COLLAPSED_SIZE.height),
+        };
+        return {
+          ...node,
+          style: { ...node.style, ...(collapsed ? COLLAPSED_SIZE : data.expandedSize) },
+          data: {
+            ...node.data,
+            collapsed,
+            expandedSize: collapsed ? currentSize : node.data.expandedSize,
+          },
+        };
+      })
+    );
+  }, [getNodes, setNodes, id, data.collapsed, data.expandedSize]);
+
+  return (
+    <>
+      <NodeResizer isVisible={!!selected && !data.collapsed} minWidth={COLLAPSED_SIZE.width} minHeight={140} />
+      <div
+        className={`relative w-full h-full rounded-lg border-2 border-dashed bg-white/5 ${
+          selected ? 'border-blue-500' : border
+        }`}
+      >
+        <NodeDiagnostics diagnostics={data.diagnostics} />
+        <div className="flex items-center justify-between gap-2 px-4 py-3 bg-white rounded-t-md shadow-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <div className={`w-3 h-3 rounded-full shrink-0 ${accent}`}></div>
+            <div className="font-semibold text-gray-800 text-sm truncate">
+              {data.stateName ? `${data.stateName} (${stateType})` : data.label || `${stateType} State`}
+            </div>
+          </div>
+          <button
+            onClick={toggleCollapsed}
+            className="text-xs text-gray-500 hover:text-gray-800 shrink-0"
+            title={data.collapsed ? 'Expand' : 'Collapse'}
+          >
+            {data.collapsed ? '▸' : '▾'}
+          </button>
+        </div>
+      </div>
+      <Handle type="target" position={Position.Top} className="w-3 h-3" />
+      <Handle type="source" position={Position.Bottom} className="w-3 h-3" />
+      <Handle
+        type="source"
+        position={Position.Right}
+        id={ERROR_HANDLE_ID}
+        className="w-3 h-3 !bg-red-500"
+        title="Catch: drag to the state that handles errors"
+      />
+    </>
+  );
+}
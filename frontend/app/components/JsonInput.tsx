@@ -0,0 +1,55 @@
+import { useState } from 'react';
+
+const inputClassName =
+  'w-full px-2 py-1 bg-gray-900/50 border border-gray-700 rounded text-xs text-white font-mono placeholder-gray-500';
+
+interface JsonInputProps {
+  value: unknown;
+  // Called on blur with the parsed value, or undefined when the field was cleared
+  onChange: (value: unknown) => void;
+  // Extra checks on the parsed value; messages are listed under the editor
+  validate?: (value: unknown) => string[];
+  rows?: number;
+  placeholder?: string;
+}
+
+/**
+ * Textarea for a JSON-valued ASL field. Invalid JSON is reported inline and never
+ * written back to the node.
+ */
+export default function JsonInput({ value, onChange, validate, rows = 4, placeholder = '{}' }: JsonInputProps) {
+  const [parseError, setParseError] = useState<string | null>(null);
+  const text = value === undefined ? '' : JSON.stringify(value, null, 2);
+  const errors = parseError ? [parseError] : value !== undefined && validate ? validate(value) : [];
+
+  return (
+    <div>
+      <textarea
+        // Remount when the value changes from outside (e.g. another node is selected)
+        key={text}
+        defaultValue={text}
+        onBlur={(e) => {
+          if (!e.target.value.trim()) {
+            setParseError(null);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(e.target.value));
+            setParseError(null);
+          } catch (err) {
+            setParseError(err instanceof Error ? err.message : 'Invalid JSON');
+          }
+        }}
+        rows={rows}
+        className={`${inputClassName} ${errors.length > 0 ? 'border-red-500' : ''}`}
+        placeholder={placeholder}
+      />
+      {errors.map((error) => (
+        <p key={error} className="text-[10px] text-red-400 mt-1">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
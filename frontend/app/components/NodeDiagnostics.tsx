@@ -0,0 +1,20 @@
+import { Diagnostic } from '../utils/aslValidator';
+
+/**
+ * Error/warning count shown in the corner of a state node; hovering lists the messages.
+ */
+export default function NodeDiagnostics({ diagnostics }: { diagnostics?: Diagnostic[] }) {
+  if (!diagnostics || diagnostics.length === 0) return null;
+
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  return (
+    <div
+      className={`absolute -top-2 -right-2 min-w-5 h-5 px-1 rounded-full text-[10px] font-bold text-white flex items-center justify-center shadow ${
+        errors > 0 ? 'bg-red-500' : 'bg-yellow-500'
+      }`}
+      title={diagnostics.map((d) => `${d.severity}: ${d.message}`).join('\n')}
+    >
+      {errors > 0 ? errors : diagnostics.length}
+    </div>
+  );
+}
@@ -1,18 +1,10 @@
 import { Handle, Position } from 'reactflow';
-
-interface PassStateNodeData {
-  label: string;
-  result?: string;
-  resultPath?: string;
-  stateType?: string;
-  stateName?: string;
-  resource?: string;
-  parameters?: Record<string, unknown>;
-  fullState?: Record<string, unknown>;
-}
+import { StateNodeData } from '../utils/aslConverter';
+import { ERROR_HANDLE_ID, ERROR_HANDLING_STATE_TYPES } from '../utils/errorHandling';
+import NodeDiagnostics from './NodeDiagnostics';
 
 interface PassStateNodeProps {
-  data: PassStateNodeData;
+  data: StateNodeData;
   selected?: boolean;
 }
 
@@ -50,10 +42,11 @@ export default function PassStateNode({ data, selected }: PassStateNodeProps) {
 
   return (
     <div
-      className={`px-4 py-3 shadow-md rounded-lg bg-white border-2 ${
+      className={`relative px-4 py-3 shadow-md rounded-lg bg-white border-2 ${
         selected ? 'border-blue-500' : 'border-gray-300'
       }`}
     >
+      <NodeDiagnostics diagnostics={data.diagnostics} />
       <div className="flex items-center gap-2">
         <div className={`w-3 h-3 rounded-full ${getStateColor()}`}></div>
         <div className="font-semibold text-gray-800 text-sm">{getStateLabel()}</div>
@@ -65,6 +58,15 @@ export default function PassStateNode({ data, selected }: PassStateNodeProps) {
       )}
       <Handle type="target" position={Position.Top} className="w-3 h-3" />
       <Handle type="source" position={Position.Bottom} className="w-3 h-3" />
+      {ERROR_HANDLING_STATE_TYPES.has(stateType) && (
+        <Handle
+          type="source"
+          position={Position.Right}
+          id={ERROR_HANDLE_ID}
+          className="w-3 h-3 !bg-red-500"
+          title="Catch: drag to the state that handles errors"
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,221 @@
+import { ReactNode, useState } from 'react';
+import JsonInput from './JsonInput';
+import { ASLState } from '../utils/aslConverter';
+import { validateJsonataValue, validatePath, validatePayloadTemplate } from '../utils/jsonPath';
+
+const inputClassName =
+  'w-full px-2 py-1 bg-gray-900/50 border border-gray-700 rounded text-xs text-white font-mono placeholder-gray-500';
+
+type QueryLanguage = 'JSONPath' | 'JSONata';
+
+const ALL_TYPES = ['Pass', 'Task', 'Choice', 'Wait', 'Succeed', 'Fail', 'Parallel', 'Map'];
+const RESULT_TYPES = ['Pass', 'Task', 'Parallel', 'Map'];
+
+// Input/output fields each state type accepts, per query language
+const PATH_FIELDS: Array<{ field: string; types: string[]; reference?: boolean; placeholder: string }> = [
+  { field: 'InputPath', types: ALL_TYPES.filter((t) => t !== 'Fail'), placeholder: '$' },
+  { field: 'ResultPath', types: RESULT_TYPES, reference: true, placeholder: '$.result' },
+  { field: 'OutputPath', types: ALL_TYPES.filter((t) => t !== 'Fail'), placeholder: '$' },
+];
+
+// Task payloads are edited in the Task section, so Parameters/Arguments are not repeated here
+const JSONPATH_FIELDS: Array<{ field: string; types: string[] }> = [
+  { field: 'Parameters', types: ['Pass', 'Parallel', 'Map'] },
+  { field: 'ItemSelector', types: ['Map'] },
+  { field: 'Result', types: ['Pass'] },
+  { field: 'ResultSelector', types: ['Task', 'Parallel', 'Map'] },
+];
+
+const JSONATA_FIELDS: Array<{ field: string; types: string[] }> = [
+  { field: 'Arguments', types: ['Parallel'] },
+  { field: 'ItemSelector', types: ['Map'] },
+  { field: 'Output', types: ALL_TYPES.filter((t) => t !== 'Fail') },
+];
+
+const ASSIGN_TYPES = ALL_TYPES.filter((t) => t !== 'Succeed' && t !== 'Fail');
+
+const JSONPATH_ONLY_FIELDS = ['InputPath', 'OutputPath', 'ResultPath', 'Parameters', 'ResultSelector'];
+const JSONATA_ONLY_FIELDS = ['Arguments', 'Output'];
+
+const MAX_STATE_NAME_LENGTH = 80;
+
+interface StateInspectorProps {
+  stateName: string;
+  state: ASLState;
+  // Names of every other state on the canvas; state names must be unique
+  otherStateNames: Set<string>;
+  definitionLanguage?: QueryLanguage;
+  onRename: (name: string) => void;
+  onChange: (patch: Partial<ASLState>) => void;
+  // Type-specific sections (Task, Choice rules, error handling, ...)
+  children?: ReactNode;
+}
+
+function validateStateName(name: string, otherStateNames: Set<string>): string | null {
+  if (!name.trim()) return 'State name is required.';
+  if (name.length > MAX_STATE_NAME_LENGTH) return `State names are limited to ${MAX_STATE_NAME_LENGTH} characters.`;
+  if (otherStateNames.has(name)) return 'Another state already uses this name.';
+  return null;
+}
+
+function PathInput({
+  field,
+  value,
+  reference,
+  placeholder,
+  onChange,
+}: {
+  field: string;
+  value: unknown;
+  reference?: boolean;
+  placeholder: string;
+  onChange: (value: string | null | undefined) => void;
+}) {
+  const text = value === null ? 'null' : value === undefined ? '' : String(value);
+  const error = text && text !== 'null' ? validatePath(text, { reference }) : null;
+
+  return (
+    <label className="text-[10px] text-gray-400 block">
+      {field}
+      <input
+        value={text}
+        onChange={(e) => {
+          const raw = e.target.value;
+          // "null" discards the input or result, as in ASL
+          onChange(raw === '' ? undefined : raw === 'null' ? null : raw);
+        }}
+        className={`${inputClassName} ${error ? 'border-red-500' : ''}`}
+        placeholder={placeholder}
+      />
+      {error && <span className="block text-red-400 mt-1">{error}</span>}
+    </label>
+  );
+}
+
+/**
+ * Right-hand panel editing the name and common ASL fields of the selected state.
+ * Mount it with a key per node so the name draft resets on selection changes.
+ */
+export default function StateInspector({
+  stateName,
+  state,
+  otherStateNames,
+  definitionLanguage,
+  onRename,
+  onChange,
+  children,
+}: StateInspectorProps) {
+  const [draftName, setDraftName] = useState(stateName);
+  const type = state.Type;
+  const language: QueryLanguage = state.QueryLanguage || definitionLanguage || 'JSONPath';
+
+  const nameError = draftName === stateName ? null : validateStateName(draftName, otherStateNames);
+
+  const commitName = () => {
+    if (draftName !== stateName && !nameError) {
+      onRename(draftName);
+    }
+  };
+
+  // Switching language drops the fields the other language does not understand
+  const changeLanguage = (next: QueryLanguage) => {
+    const patch: Partial<ASLState> = {
+      QueryLanguage: next === (definitionLanguage || 'JSONPath') ? undefined : next,
+    };
+    (next === 'JSONata' ? JSONPATH_ONLY_FIELDS : JSONATA_ONLY_FIELDS).forEach((field) => {
+      patch[field] = undefined;
+    });
+    onChange(patch);
+  };
+
+  const jsonFields = (language === 'JSONata' ? JSONATA_FIELDS : JSONPATH_FIELDS).filter((f) =>
+    f.types.includes(type)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <label className="text-[10px] text-gray-400 block">
+          State name
+          <input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => e.key === 'Enter' && commitName()}
+            className={`${inputClassName} ${nameError ? 'border-red-500' : ''}`}
+          />
+          {nameError && <span className="block text-red-400 mt-1">{nameError}</span>}
+        </label>
+        <label className="text-[10px] text-gray-400 block">
+          Comment
+          <input
+            value={state.Comment || ''}
+            onChange={(e) => onChange({ Comment: e.target.value || undefined })}
+            className={inputClassName}
+            placeholder="What this state does"
+          />
+        </label>
+        {type !== 'Task' && (
+          <label className="text-[10px] text-gray-400 block">
+            Query language
+            <select
+              value={language}
+              onChange={(e) => changeLanguage(e.target.value as QueryLanguage)}
+              className={inputClassName}
+            >
+              <option value="JSONPath">JSONPath</option>
+              <option value="JSONata">JSONata</option>
+            </select>
+          </label>
+        )}
+      </div>
+
+      {children}
+
+      {type !== 'Fail' && (
+        <div className="space-y-3">
+          <h4 className="text-xs font-semibold text-gray-300">Input &amp; Output</h4>
+          {language === 'JSONPath' &&
+            PATH_FIELDS.filter((f) => f.types.includes(type)).map((f) => (
+              <PathInput
+                key={f.field}
+                field={f.field}
+                value={state[f.field]}
+                reference={f.reference}
+                placeholder={f.placeholder}
+                onChange={(value) => onChange({ [f.field]: value })}
+              />
+            ))}
+          {jsonFields.map((f) => (
+            <div key={f.field} className="text-[10px] text-gray-400">
+              {f.field}
+              <JsonInput
+                value={state[f.field]}
+                onChange={(value) => onChange({ [f.field]: value })}
+                validate={
+                  language === 'JSONata'
+                    ? validateJsonataValue
+                    : f.field === 'Result'
+                      ? undefined
+                      : validatePayloadTemplate
+                }
+                placeholder={f.field === 'Output' ? '"{% $states.result %}"' : '{}'}
+              />
+            </div>
+          ))}
+          {ASSIGN_TYPES.includes(type) && (
+            <div className="text-[10px] text-gray-400">
+              Assign (variables)
+              <JsonInput
+                value={state.Assign}
+                onChange={(value) => onChange({ Assign: value })}
+                validate={language === 'JSONata' ? validateJsonataValue : validatePayloadTemplate}
+                placeholder='{ "orderId": "..." }'
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
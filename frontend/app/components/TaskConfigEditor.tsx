@@ -0,0 +1,170 @@
+import JsonInput from './JsonInput';
+import { ASLState } from '../utils/aslConverter';
+import { validateJsonataValue, validatePayloadTemplate } from '../utils/jsonPath';
+import {
+  IntegrationPattern,
+  TaskQueryLanguage,
+  TASK_INTEGRATIONS,
+  INTEGRATION_PATTERN_LABELS,
+  buildTaskFields,
+  getIntegration,
+  matchIntegration,
+} from '../utils/taskCatalogue';
+
+const inputClassName =
+  'w-full px-2 py-1 bg-gray-900/50 border border-gray-700 rounded text-xs text-white font-mono placeholder-gray-500';
+
+const CUSTOM_INTEGRATION = 'custom';
+
+interface TaskConfigEditorProps {
+  state: ASLState;
+  // QueryLanguage of the whole definition; a state may override it
+  definitionLanguage?: TaskQueryLanguage;
+  onChange: (patch: Partial<ASLState>) => void;
+}
+
+export default function TaskConfigEditor({ state, definitionLanguage, onChange }: TaskConfigEditorProps) {
+  const match = matchIntegration(state.Resource);
+  const language: TaskQueryLanguage = state.QueryLanguage || definitionLanguage || 'JSONPath';
+  const templateField = language === 'JSONata' ? 'Arguments' : 'Parameters';
+
+  // Regenerates Resource and the payload template, dropping the field of the other query language
+  const applyTemplate = (integrationId: string, pattern: IntegrationPattern, nextLanguage: TaskQueryLanguage) => {
+    const integration = getIntegration(integrationId);
+    if (!integration) return;
+    const fields = buildTaskFields(integration, pattern, nextLanguage);
+    onChange({
+      Parameters: undefined,
+      Arguments: undefined,
+      ...fields,
+      QueryLanguage: nextLanguage === (definitionLanguage || 'JSONPath') ? undefined : nextLanguage,
+    });
+  };
+
+  const changeLanguage = (nextLanguage: TaskQueryLanguage) => {
+    if (match) {
+      applyTemplate(match.integration.id, match.pattern, nextLanguage);
+      return;
+    }
+    onChange({
+      QueryLanguage: nextLanguage === (definitionLanguage || 'JSONPath') ? undefined : nextLanguage,
+    });
+  };
+
+  const timeout = state.TimeoutSeconds;
+  const heartbeat = state.HeartbeatSeconds;
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] text-gray-400 block">
+        Integration
+        <select
+          value={match?.integration.id || CUSTOM_INTEGRATION}
+          onChange={(e) => {
+            const integration = getIntegration(e.target.value);
+            if (integration) applyTemplate(integration.id, integration.patterns[0], language);
+          }}
+          className={inputClassName}
+        >
+          {TASK_INTEGRATIONS.map((integration) => (
+            <option key={integration.id} value={integration.id}>
+              {integration.label}
+            </option>
+          ))}
+          <option value={CUSTOM_INTEGRATION} disabled>
+            Custom resource
+          </option>
+        </select>
+      </label>
+
+      {match && (
+        <label className="text-[10px] text-gray-400 block">
+          Integration pattern
+          <select
+            value={match.pattern}
+            onChange={(e) => applyTemplate(match.integration.id, e.target.value as IntegrationPattern, language)}
+            className={inputClassName}
+          >
+            {match.integration.patterns.map((pattern) => (
+              <option key={pattern} value={pattern}>
+                {INTEGRATION_PATTERN_LABELS[pattern]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className="text-[10px] text-gray-400 block">
+        Resource
+        <input
+          value={state.Resource || ''}
+          onChange={(e) => onChange({ Resource: e.target.value })}
+          className={inputClassName}
+          placeholder="arn:aws:states:::lambda:invoke"
+        />
+      </label>
+
+      <label className="text-[10px] text-gray-400 block">
+        Query language
+        <select
+          value={language}
+          onChange={(e) => changeLanguage(e.target.value as TaskQueryLanguage)}
+          className={inputClassName}
+        >
+          <option value="JSONPath">JSONPath (Parameters)</option>
+          <option value="JSONata">JSONata (Arguments)</option>
+        </select>
+      </label>
+
+      <div className="text-[10px] text-gray-400">
+        {templateField}
+        <JsonInput
+          value={state[templateField]}
+          onChange={(template) => onChange({ [templateField]: template })}
+          validate={language === 'JSONata' ? validateJsonataValue : validatePayloadTemplate}
+          rows={8}
+        />
+        {match && (
+          <p className="mt-1 text-gray-500">
+            Changing the integration, pattern or query language regenerates this template.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] text-gray-400">
+          Timeout (s)
+          <input
+            type="number"
+            min={1}
+            value={timeout ?? ''}
+            onChange={(e) =>
+              onChange({ TimeoutSeconds: e.target.value === '' ? undefined : Number(e.target.value) })
+            }
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-[10px] text-gray-400">
+          Heartbeat (s)
+          <input
+            type="number"
+            min={1}
+            value={heartbeat ?? ''}
+            onChange={(e) =>
+              onChange({ HeartbeatSeconds: e.target.value === '' ? undefined : Number(e.target.value) })
+            }
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      {timeout !== undefined && heartbeat !== undefined && heartbeat >= timeout && (
+        <p className="text-[10px] text-yellow-400">Heartbeat must be smaller than the timeout.</p>
+      )}
+      {match?.pattern === 'waitForTaskToken' && timeout === undefined && (
+        <p className="text-[10px] text-yellow-400">
+          Without a timeout a callback task waits up to a year for its task token.
+        </p>
+      )}
+    </div>
+  );
+}
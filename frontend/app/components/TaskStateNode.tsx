@@ -0,0 +1,67 @@
+import { Handle, Position } from 'reactflow';
+import { StateNodeData } from '../utils/aslConverter';
+import { ERROR_HANDLE_ID } from '../utils/errorHandling';
+import { INTEGRATION_PATTERN_LABELS, matchIntegration } from '../utils/taskCatalogue';
+import NodeDiagnostics from './NodeDiagnostics';
+
+interface TaskStateNodeProps {
+  data: StateNodeData;
+  selected?: boolean;
+}
+
+export default function TaskStateNode({ data, selected }: TaskStateNodeProps) {
+  const state = data.fullState;
+  const resource = state?.Resource || data.resource;
+  const match = matchIntegration(resource);
+
+  return (
+    <div
+      className={`relative px-4 py-3 shadow-md rounded-lg bg-white border-2 min-w-[220px] ${
+        selected ? 'border-blue-500' : 'border-gray-300'
+      }`}
+    >
+      <NodeDiagnostics diagnostics={data.diagnostics} />
+      <div className="flex items-center gap-2">
+        <div className="w-3 h-3 rounded-full bg-blue-500"></div>
+        <div className="font-semibold text-gray-800 text-sm">
+          {data.stateName ? `${data.stateName} (Task)` : data.label || 'Task State'}
+        </div>
+      </div>
+      {match ? (
+        <div className="mt-1 flex items-center gap-2">
+          <span className="text-xs text-gray-700">{match.integration.label}</span>
+          {match.pattern !== 'requestResponse' && (
+            <span
+              className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-[10px] font-mono"
+              title={INTEGRATION_PATTERN_LABELS[match.pattern]}
+            >
+              {match.pattern === 'sync' ? '.sync' : '.waitForTaskToken'}
+            </span>
+          )}
+        </div>
+      ) : (
+        resource && (
+          <div className="mt-1 text-xs text-gray-600 font-mono truncate max-w-[240px]" title={resource}>
+            {resource}
+          </div>
+        )
+      )}
+      {(state?.TimeoutSeconds !== undefined || state?.HeartbeatSeconds !== undefined) && (
+        <div className="mt-1 text-[10px] text-gray-500">
+          {state?.TimeoutSeconds !== undefined && `timeout ${state.TimeoutSeconds}s`}
+          {state?.TimeoutSeconds !== undefined && state?.HeartbeatSeconds !== undefined && ' · '}
+          {state?.HeartbeatSeconds !== undefined && `heartbeat ${state.HeartbeatSeconds}s`}
+        </div>
+      )}
+      <Handle type="target" position={Position.Top} className="w-3 h-3" />
+      <Handle type="source" position={Position.Bottom} className="w-3 h-3" />
+      <Handle
+        type="source"
+        position={Position.Right}
+        id={ERROR_HANDLE_ID}
+        className="w-3 h-3 !bg-red-500"
+        title="Catch: drag to the state that handles errors"
+      />
+    </div>
+  );
+}
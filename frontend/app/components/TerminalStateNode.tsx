@@ -0,0 +1,41 @@
+import { Handle, Position } from 'reactflow';
+import { StateNodeData } from '../utils/aslConverter';
+import NodeDiagnostics from './NodeDiagnostics';
+
+interface TerminalStateNodeProps {
+  data: StateNodeData;
+  selected?: boolean;
+}
+
+/**
+ * Succeed and Fail states end the execution (or branch), so they only have an
+ * incoming handle.
+ */
+export default function TerminalStateNode({ data, selected }: TerminalStateNodeProps) {
+  const isFail = data.stateType === 'Fail';
+  const state = data.fullState;
+  const error = state?.Error ?? state?.ErrorPath;
+  const cause = state?.Cause ?? state?.CausePath;
+
+  return (
+    <div
+      className={`relative px-4 py-3 shadow-md rounded-full bg-white border-2 min-w-[160px] ${
+        selected ? 'border-blue-500' : isFail ? 'border-red-300' : 'border-green-300'
+      }`}
+    >
+      <NodeDiagnostics diagnostics={data.diagnostics} />
+      <div className="flex items-center gap-2 justify-center">
+        <div className={`w-3 h-3 rounded-full ${isFail ? 'bg-red-500' : 'bg-green-500'}`}></div>
+        <div className="font-semibold text-gray-800 text-sm">
+          {data.stateName ? `${data.stateName} (${data.stateType})` : data.label || `${data.stateType} State`}
+        </div>
+      </div>
+      {isFail && (error !== undefined || cause !== undefined) && (
+        <div className="mt-1 text-xs text-red-600 font-mono truncate max-w-[220px] text-center" title={String(cause ?? '')}>
+          {error !== undefined ? String(error) : String(cause)}
+        </div>
+      )}
+      <Handle type="target" position={Position.Top} className="w-3 h-3" />
+    </div>
+  );
+}
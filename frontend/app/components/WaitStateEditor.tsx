@@ -0,0 +1,59 @@
+import { ASLState } from '../utils/aslConverter';
+import {
+  WaitMode,
+  WAIT_MODES,
+  getWaitMode,
+  parseWaitSeconds,
+  switchWaitMode,
+  validateWaitState,
+} from '../utils/flowControl';
+
+const inputClassName =
+  'w-full px-2 py-1 bg-gray-900/50 border border-gray-700 rounded text-xs text-white font-mono placeholder-gray-500';
+
+interface WaitStateEditorProps {
+  state: ASLState;
+  onChange: (patch: Partial<ASLState>) => void;
+}
+
+export default function WaitStateEditor({ state, onChange }: WaitStateEditorProps) {
+  const mode = getWaitMode(state);
+  const current = WAIT_MODES.find((m) => m.field === mode)!;
+  const value = state[mode];
+  const errors = validateWaitState(state);
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] text-gray-400 block">
+        Wait for
+        <select
+          value={mode}
+          onChange={(e) => onChange(switchWaitMode(e.target.value as WaitMode))}
+          className={inputClassName}
+        >
+          {WAIT_MODES.map((m) => (
+            <option key={m.field} value={m.field}>
+              {m.label} — {m.field}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="text-[10px] text-gray-400 block">
+        {mode}
+        <input
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) =>
+            onChange({ [mode]: mode === 'Seconds' ? parseWaitSeconds(e.target.value) : e.target.value })
+          }
+          className={`${inputClassName} ${errors.length > 0 ? 'border-red-500' : ''}`}
+          placeholder={current.placeholder}
+        />
+      </label>
+      {errors.map((error) => (
+        <p key={error} className="text-[10px] text-red-400">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Handle, Position } from 'reactflow';
+import { StateNodeData } from '../utils/aslConverter';
+import { describeWait, validateWaitState } from '../utils/flowControl';
+import NodeDiagnostics from './NodeDiagnostics';
+
+interface WaitStateNodeProps {
+  data: StateNodeData;
+  selected?: boolean;
+}
+
+export default function WaitStateNode({ data, selected }: WaitStateNodeProps) {
+  const state = data.fullState || { Type: 'Wait' };
+  const invalid = validateWaitState(state).length > 0;
+
+  return (
+    <div
+      className={`relative px-4 py-3 shadow-md rounded-lg bg-white border-2 min-w-[180px] ${
+        selected ? 'border-blue-500' : 'border-gray-300'
+      }`}
+    >
+      <NodeDiagnostics diagnostics={data.diagnostics} />
+      <div className="flex items-center gap-2">
+        <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
+        <div className="font-semibold text-gray-800 text-sm">
+          {data.stateName ? `${data.stateName} (Wait)` : data.label || 'Wait State'}
+        </div>
+      </div>
+      <div
+        className={`mt-1 text-xs font-mono truncate max-w-[220px] ${invalid ? 'text-red-600' : 'text-gray-600'}`}
+        title={describeWait(state)}
+      >
+        {describeWait(state)}
+      </div>
+      <Handle type="target" position={Position.Top} className="w-3 h-3" />
+      <Handle type="source" position={Position.Bottom} className="w-3 h-3" />
+    </div>
+  );
+}
@@ -32,8 +32,17 @@ import {
   X,
   CheckCircle2,
   BarChart3,
-  FileText
+  FileText,
+  RotateCcw,
+  CloudDownload,
+  ExternalLink,
+  GitCompareArrows,
+  FilePen
 } from 'lucide-react';
+import { canRedrive } from '../utils/executions';
+import ExecutionTimeline from '../components/ExecutionTimeline';
+import DriftReport from '../components/DriftReport';
+import { DraftSummary, deleteDraft, fetchDrafts } from '../utils/drafts';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:5000';
 
@@ -45,6 +54,29 @@ interface Workflow {
   creationDate?: Date;
   definition?: unknown;
   type?: string;
+  connectionProfile?: string | null;
+  publishedVersion?: number | null;
+  aliases?: WorkflowAlias[];
+}
+
+interface WorkflowAlias {
+  name: string;
+  routingConfiguration: Array<{ version: number; weight: number }>;
+}
+
+// A state machine listed by GET /state-machines/import
+interface AwsStateMachine {
+  stateMachineArn: string;
+  name: string;
+  type?: string;
+  creationDate?: string;
+  tracked: boolean;
+}
+
+interface ConnectionProfile {
+  name: string;
+  region: string;
+  isDefault: boolean;
 }
 
 interface Execution {
@@ -54,6 +86,8 @@ interface Execution {
   startDate: Date;
   stopDate?: Date;
   stateMachineArn?: string;
+  // Alias or version the execution was started through
+  qualifier?: string | null;
 }
 
 interface ExecutionDetails extends Execution {
@@ -61,6 +95,7 @@ interface ExecutionDetails extends Execution {
   output?: unknown;
   error?: string;
   cause?: string;
+  redriveCount?: number;
 }
 
 export default function Dashboard() {
@@ -75,6 +110,8 @@ export default function Dashboard() {
   const [showExecutionModal, setShowExecutionModal] = useState(false);
   const [selectedWorkflowForExecution, setSelectedWorkflowForExecution] = useState<Workflow | null>(null);
   const [executionInput, setExecutionInput] = useState('{}');
+  // Alias name or version number appended to the ARN; "latest" runs the unqualified state machine
+  const [executionTarget, setExecutionTarget] = useState('latest');
   const [isStartingExecution, setIsStartingExecution] = useState(false);
   const [showExecutionDetails, setShowExecutionDetails] = useState(false);
   const [selectedExecution, setSelectedExecution] = useState<ExecutionDetails | null>(null);
@@ -85,6 +122,18 @@ export default function Dashboard() {
   const [showExportModal, setShowExportModal] = useState(false);
   const [workflowToExport, setWorkflowToExport] = useState<Workflow | null>(null);
   const [isStoppingExecution, setIsStoppingExecution] = useState<string | null>(null);
+  const [isRedriving, setIsRedriving] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [connectionProfiles, setConnectionProfiles] = useState<ConnectionProfile[]>([]);
+  // Empty for the default profile
+  const [importProfile, setImportProfile] = useState('');
+  const [awsStateMachines, setAwsStateMachines] = useState<AwsStateMachine[]>([]);
+  const [selectedImports, setSelectedImports] = useState<Set<string>>(new Set());
+  const [isLoadingAwsStateMachines, setIsLoadingAwsStateMachines] = useState(false);
+  const [isImportingStateMachines, setIsImportingStateMachines] = useState(false);
+  const [showDriftReport, setShowDriftReport] = useState(false);
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [isDeletingDraft, setIsDeletingDraft] = useState<string | null>(null);
 
   const loadWorkflows = async () => {
     setIsLoading(true);
@@ -100,6 +149,9 @@ export default function Dashboard() {
           creationDate: string | Date | null;
           type: string;
           definition: Record<string, unknown>;
+          connectionProfile: string | null;
+          publishedVersion: number | null;
+          aliases: WorkflowAlias[];
         }) => ({
           stateMachineArn: sm.stateMachineArn || '',
           name: sm.name,
@@ -107,6 +159,9 @@ export default function Dashboard() {
           creationDate: sm.creationDate ? new Date(sm.creationDate) : undefined,
           type: sm.type,
           definition: sm.definition,
+          connectionProfile: sm.connectionProfile,
+          publishedVersion: sm.publishedVersion,
+          aliases: sm.aliases || [],
         }));
         setWorkflows(workflows);
       } else {
@@ -121,8 +176,18 @@ export default function Dashboard() {
     }
   };
 
+  const loadDrafts = async () => {
+    try {
+      setDrafts(await fetchDrafts());
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      setDrafts([]);
+    }
+  };
+
   useEffect(() => {
     loadWorkflows();
+    loadDrafts();
   }, []);
 
   const filteredWorkflows = workflows.filter((workflow) => {
@@ -132,6 +197,24 @@ export default function Dashboard() {
     return matchesSearch && matchesStatus;
   });
 
+  const filteredDrafts = drafts.filter((draft) =>
+    draft.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const handleDeleteDraft = async (draft: DraftSummary) => {
+    if (!confirm(`Delete the draft ${draft.name}? Deployed state machines are not affected.`)) return;
+
+    setIsDeletingDraft(draft.id);
+    try {
+      await deleteDraft(draft.id);
+      setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+    } catch (error) {
+      alert(`Failed to delete draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsDeletingDraft(null);
+    }
+  };
+
   const toggleWorkflowSelection = (arn: string) => {
     setSelectedWorkflows((prev) => {
       const next = new Set(prev);
@@ -249,6 +332,7 @@ export default function Dashboard() {
   const handleStartExecution = (workflow: Workflow) => {
     setSelectedWorkflowForExecution(workflow);
     setExecutionInput('{}');
+    setExecutionTarget('latest');
     setShowExecutionModal(true);
   };
 
@@ -270,7 +354,10 @@ export default function Dashboard() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          stateMachineArn: selectedWorkflowForExecution.stateMachineArn,
+          stateMachineArn:
+            executionTarget === 'latest'
+              ? selectedWorkflowForExecution.stateMachineArn
+              : `${selectedWorkflowForExecution.stateMachineArn}:${executionTarget}`,
           input,
         }),
       });
@@ -311,6 +398,7 @@ export default function Dashboard() {
           output: result.output,
           error: result.error,
           cause: result.cause,
+          redriveCount: result.redriveCount,
         };
         setSelectedExecution(executionDetails);
         setShowExecutionDetails(true);
@@ -322,6 +410,31 @@ export default function Dashboard() {
     }
   };
 
+  const handleRedriveExecution = async (execution: ExecutionDetails) => {
+    setIsRedriving(true);
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/executions/${encodeURIComponent(execution.executionArn)}/redrive`,
+        { method: 'POST' }
+      );
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        await viewExecutionDetails(execution.executionArn);
+        if (execution.stateMachineArn) {
+          await loadExecutions(execution.stateMachineArn);
+        }
+      } else {
+        alert(result.details || result.error || result.message || 'Failed to redrive execution');
+      }
+    } catch (error) {
+      console.error('Error redriving execution:', error);
+      alert('Failed to redrive execution. Please try again.');
+    } finally {
+      setIsRedriving(false);
+    }
+  };
+
   const handleExport = (workflow: Workflow) => {
     setWorkflowToExport(workflow);
     setShowExportModal(true);
@@ -358,12 +471,93 @@ export default function Dashboard() {
     setWorkflowToExport(null);
   };
 
+  const loadAwsStateMachines = async (profile: string) => {
+    setIsLoadingAwsStateMachines(true);
+    setSelectedImports(new Set());
+    try {
+      const query = profile ? `?connectionProfile=${encodeURIComponent(profile)}` : '';
+      const response = await fetch(`${API_BASE_URL}/state-machines/import${query}`);
+      const result = await response.json();
+      if (response.ok) {
+        setAwsStateMachines(result.stateMachines || []);
+      } else {
+        setAwsStateMachines([]);
+        alert(result.details || result.error || result.message || 'Failed to list state machines');
+      }
+    } catch (error) {
+      console.error('Error listing AWS state machines:', error);
+      setAwsStateMachines([]);
+      alert('Failed to list state machines. Please try again.');
+    } finally {
+      setIsLoadingAwsStateMachines(false);
+    }
+  };
+
+  const handleImportClick = () => {
+    setShowImportModal(true);
+    fetch(`${API_BASE_URL}/connection-profiles`)
+      .then((response) => response.json())
+      .then((result) => setConnectionProfiles(result.connectionProfiles || []))
+      .catch((error) => console.error('Error loading connection profiles:', error));
+    loadAwsStateMachines(importProfile);
+  };
+
+  const toggleImportSelection = (arn: string) => {
+    setSelectedImports((prev) => {
+      const next = new Set(prev);
+      if (next.has(arn)) {
+        next.delete(arn);
+      } else {
+        next.add(arn);
+      }
+      return next;
+    });
+  };
+
+  const confirmImport = async () => {
+    if (selectedImports.size === 0) return;
+
+    setIsImportingStateMachines(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/state-machines/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          stateMachineArns: Array.from(selectedImports),
+          connectionProfile: importProfile || undefined,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.details || result.error || result.message || 'Failed to import state machines');
+        return;
+      }
+
+      const failures = (result.failed || []).map(
+        (failure: { stateMachineArn: string; details: string }) => `\n${failure.stateMachineArn}: ${failure.details}`
+      );
+      alert(`${result.message}${failures.join('')}`);
+      await loadWorkflows();
+      setShowImportModal(false);
+      setSelectedImports(new Set());
+    } catch (error) {
+      console.error('Error importing state machines:', error);
+      alert('Failed to import state machines. Please try again.');
+    } finally {
+      setIsImportingStateMachines(false);
+    }
+  };
+
   const handleStopExecution = async (executionArn: string, workflowArn: string) => {
+    const cause = prompt('Why are you stopping this execution? (optional)', '');
+    if (cause === null) return;
+
     setIsStoppingExecution(executionArn);
     try {
-      // Note: Backend endpoint needs to be implemented: DELETE /executions/:executionArn
       const response = await fetch(`${API_BASE_URL}/executions/${encodeURIComponent(executionArn)}`, {
         method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cause: cause || undefined }),
       });
 
       if (response.ok) {
@@ -371,11 +565,48 @@ export default function Dashboard() {
         await loadExecutions(workflowArn);
       } else {
         const result = await response.json();
-        alert(result.error || 'Failed to stop execution');
+        alert(result.details || result.error || result.message || 'Failed to stop execution');
       }
     } catch (error) {
       console.error('Error stopping execution:', error);
-      alert('Failed to stop execution. Backend endpoint may not be implemented yet.');
+      alert('Failed to stop execution. Please try again.');
+    } finally {
+      setIsStoppingExecution(null);
+    }
+  };
+
+  const handleStopAllExecutions = async (workflowArn: string) => {
+    const cause = prompt('Stop all running executions of this workflow? Give a reason (optional):', '');
+    if (cause === null) return;
+
+    setIsStoppingExecution(workflowArn);
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/executions?stateMachineArn=${encodeURIComponent(workflowArn)}`,
+        {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cause: cause || undefined }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        alert(result.details || result.error || result.message || 'Failed to stop executions');
+      } else if (result.failed?.length) {
+        alert(
+          `${result.message}:\n` +
+            result.failed
+              .map((failure: { executionArn: string; details: string }) =>
+                `${failure.executionArn.split(':').pop()}: ${failure.details}`
+              )
+              .join('\n')
+        );
+      }
+      await loadExecutions(workflowArn);
+    } catch (error) {
+      console.error('Error stopping executions:', error);
+      alert('Failed to stop executions. Please try again.');
     } finally {
       setIsStoppingExecution(null);
     }
@@ -433,11 +664,21 @@ export default function Dashboard() {
               </Link>
               <span className="text-sm text-white/60">Dashboard</span>
             </div>
-            <Button asChild variant="default">
-              <Link href="/">
-                + New Workflow
-              </Link>
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button onClick={() => setShowDriftReport(true)} variant="outline">
+                <GitCompareArrows className="w-4 h-4 mr-2" />
+                Drift Report
+              </Button>
+              <Button onClick={handleImportClick} variant="outline">
+                <CloudDownload className="w-4 h-4 mr-2" />
+                Import from AWS
+              </Button>
+              <Button asChild variant="default">
+                <Link href="/">
+                  + New Workflow
+                </Link>
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -555,6 +796,60 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Drafts, saved from the builder without deploying */}
+        {filteredDrafts.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-sm font-semibold text-white/80 mb-3">Drafts ({filteredDrafts.length})</h2>
+            <div className="space-y-3">
+              {filteredDrafts.map((draft) => (
+                <Card key={draft.id} className="bg-white/5 border-white/10 hover:border-white/20 transition-colors">
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start space-x-4 flex-1 min-w-0">
+                        <FilePen className="mt-0.5 h-5 w-5 text-white/40 shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1.5 flex-wrap">
+                            <h3 className="text-base font-semibold text-white">{draft.name}</h3>
+                            <Badge variant="outline" className="bg-emerald-500/20 text-emerald-300 border-emerald-500/30 text-xs">
+                              DRAFT
+                            </Badge>
+                            <span className="text-xs text-white/50">
+                              {draft.states} state{draft.states === 1 ? '' : 's'}
+                            </span>
+                          </div>
+                          {draft.stateMachineArn && (
+                            <p className="text-xs text-white/50 font-mono truncate" title="Deployed as">
+                              {draft.stateMachineArn}
+                            </p>
+                          )}
+                          <p className="text-xs text-white/40 mt-0.5">Saved {formatDate(draft.updatedAt)}</p>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2 ml-4">
+                        <Button asChild variant="ghost" size="icon" title="Open in Builder">
+                          <Link href={`/?draftId=${encodeURIComponent(draft.id)}`}>
+                            <ExternalLink className="w-5 h-5" />
+                          </Link>
+                        </Button>
+                        <Button
+                          onClick={() => handleDeleteDraft(draft)}
+                          disabled={isDeletingDraft === draft.id}
+                          variant="ghost"
+                          size="icon"
+                          title="Delete Draft"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Workflows List */}
         {isLoading ? (
           <div className="flex items-center justify-center py-20">
@@ -602,6 +897,35 @@ export default function Dashboard() {
                               {workflow.type}
                             </Badge>
                           )}
+                          <Badge
+                            variant="outline"
+                            title="Connection profile"
+                            className="bg-slate-500/20 text-slate-300 border-slate-500/30 text-xs"
+                          >
+                            {workflow.connectionProfile || 'default env'}
+                          </Badge>
+                          {workflow.publishedVersion && (
+                            <Badge
+                              variant="outline"
+                              title="Latest published version"
+                              className="bg-teal-500/20 text-teal-300 border-teal-500/30 text-xs"
+                            >
+                              v{workflow.publishedVersion}
+                            </Badge>
+                          )}
+                          {workflow.aliases?.map((alias) => (
+                            <Badge
+                              key={alias.name}
+                              variant="outline"
+                              title="Alias routing"
+                              className="bg-amber-500/20 text-amber-300 border-amber-500/30 text-xs"
+                            >
+                              {alias.name}:{' '}
+                              {alias.routingConfiguration
+                                .map((route) => `v${route.version} ${route.weight}%`)
+                                .join(' / ')}
+                            </Badge>
+                          ))}
                         </div>
                         <p className="text-xs text-white/50 font-mono truncate">{workflow.stateMachineArn}</p>
                         <p className="text-xs text-white/40 mt-0.5">Created {formatDate(workflow.creationDate)}</p>
@@ -610,6 +934,11 @@ export default function Dashboard() {
 
                     {/* Actions */}
                     <div className="flex items-center gap-2 ml-4">
+                      <Button asChild variant="ghost" size="icon" title="Open in Builder">
+                        <Link href={`/?stateMachineArn=${encodeURIComponent(workflow.stateMachineArn)}`}>
+                          <ExternalLink className="w-5 h-5" />
+                        </Link>
+                      </Button>
                       <Button
                         onClick={() => handleStartExecution(workflow)}
                         variant="ghost"
@@ -651,9 +980,24 @@ export default function Dashboard() {
                       <Separator className="mb-3 bg-white/10" />
                       <div className="flex items-center justify-between mb-3">
                         <h4 className="text-xs font-semibold text-white/80">Recent Executions</h4>
-                        {isLoadingExecutions[workflow.stateMachineArn] && (
-                          <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white/60"></div>
-                        )}
+                        <div className="flex items-center gap-2">
+                          {isLoadingExecutions[workflow.stateMachineArn] && (
+                            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white/60"></div>
+                          )}
+                          {workflowExecutions[workflow.stateMachineArn]?.some((e) => e.status === 'RUNNING') && (
+                            <Button
+                              onClick={() => handleStopAllExecutions(workflow.stateMachineArn)}
+                              disabled={isStoppingExecution === workflow.stateMachineArn}
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 text-xs px-2 text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                              title="Stop all running executions"
+                            >
+                              <X className="w-3 h-3 mr-1" />
+                              {isStoppingExecution === workflow.stateMachineArn ? 'Stopping...' : 'Stop all running'}
+                            </Button>
+                          )}
+                        </div>
                       </div>
                       {workflowExecutions[workflow.stateMachineArn]?.length > 0 ? (
                         <div className="space-y-2">
@@ -668,6 +1012,11 @@ export default function Dashboard() {
                                     <span className="text-xs font-mono truncate text-white/80">
                                       {execution.name || execution.executionArn.split(':').pop()}
                                     </span>
+                                    {execution.qualifier && (
+                                      <span className="text-xs text-amber-300/80" title="Alias or version">
+                                        @{execution.qualifier}
+                                      </span>
+                                    )}
                                     <span className="text-xs text-white/40 ml-auto">
                                       {formatDate(execution.startDate)}
                                     </span>
@@ -787,6 +1136,29 @@ export default function Dashboard() {
               placeholder='{"key": "value"}'
             />
           </div>
+          {(selectedWorkflowForExecution?.publishedVersion || selectedWorkflowForExecution?.aliases?.length) ? (
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-2">Run</label>
+              <Select value={executionTarget} onValueChange={setExecutionTarget}>
+                <SelectTrigger className="w-full bg-white/5 border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black border-white/10">
+                  <SelectItem value="latest" className="text-white">Latest revision</SelectItem>
+                  {selectedWorkflowForExecution.aliases?.map((alias) => (
+                    <SelectItem key={alias.name} value={alias.name} className="text-white">
+                      Alias {alias.name}
+                    </SelectItem>
+                  ))}
+                  {selectedWorkflowForExecution.publishedVersion && (
+                    <SelectItem value={String(selectedWorkflowForExecution.publishedVersion)} className="text-white">
+                      Version {selectedWorkflowForExecution.publishedVersion}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : null}
           <DialogFooter>
             <Button
               variant="outline"
@@ -818,6 +1190,125 @@ export default function Dashboard() {
         </DialogContent>
       </Dialog>
 
+      {/* Drift Report Modal */}
+      <Dialog open={showDriftReport} onOpenChange={setShowDriftReport}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Drift Report</DialogTitle>
+            <DialogDescription>
+              State machines and executions whose database copy no longer matches AWS.
+            </DialogDescription>
+          </DialogHeader>
+          {showDriftReport && <DriftReport onResolved={loadWorkflows} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Import from AWS Modal */}
+      <Dialog open={showImportModal} onOpenChange={(open) => {
+        if (!open && !isImportingStateMachines) {
+          setShowImportModal(false);
+          setSelectedImports(new Set());
+        }
+      }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import from AWS</DialogTitle>
+            <DialogDescription>
+              Track state machines created outside FlowBuilder, e.g. with the console, CDK or Terraform.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Connection profile</label>
+            <Select
+              value={importProfile || 'default'}
+              onValueChange={(value) => {
+                const profile = value === 'default' ? '' : value;
+                setImportProfile(profile);
+                loadAwsStateMachines(profile);
+              }}
+            >
+              <SelectTrigger className="w-full bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-black border-white/10">
+                <SelectItem value="default" className="text-white">Default profile</SelectItem>
+                {connectionProfiles.map((profile) => (
+                  <SelectItem key={profile.name} value={profile.name} className="text-white">
+                    {profile.name} ({profile.region}){profile.isDefault ? ' · default' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="mb-4 max-h-80 overflow-y-auto border border-white/10 rounded-md divide-y divide-white/10">
+            {isLoadingAwsStateMachines ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
+              </div>
+            ) : awsStateMachines.length === 0 ? (
+              <p className="text-sm text-white/60 text-center py-8">No state machines found in this account</p>
+            ) : (
+              awsStateMachines.map((stateMachine) => (
+                <label
+                  key={stateMachine.stateMachineArn}
+                  className={`flex items-center gap-3 px-3 py-2 ${stateMachine.tracked ? 'opacity-50' : 'cursor-pointer hover:bg-white/5'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={stateMachine.tracked || selectedImports.has(stateMachine.stateMachineArn)}
+                    disabled={stateMachine.tracked}
+                    onChange={() => toggleImportSelection(stateMachine.stateMachineArn)}
+                    className="w-4 h-4 rounded border-white/20 bg-white/5 text-white focus:ring-white/20"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-white truncate">{stateMachine.name}</span>
+                      {stateMachine.type && (
+                        <Badge variant="outline" className="text-white/60 border-white/20 text-xs">
+                          {stateMachine.type}
+                        </Badge>
+                      )}
+                      {stateMachine.tracked && (
+                        <Badge variant="secondary" className="text-xs">Tracked</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-white/50 font-mono truncate">{stateMachine.stateMachineArn}</p>
+                  </div>
+                </label>
+              ))
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setShowImportModal(false);
+                setSelectedImports(new Set());
+              }}
+              disabled={isImportingStateMachines}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmImport}
+              disabled={isImportingStateMachines || selectedImports.size === 0}
+            >
+              {isImportingStateMachines ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <CloudDownload className="w-4 h-4 mr-2" />
+                  Import {selectedImports.size > 0 ? selectedImports.size : ''}
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Execution Details Modal */}
       <Dialog open={showExecutionDetails} onOpenChange={(open) => {
         if (!open) {
@@ -853,6 +1344,12 @@ export default function Dashboard() {
                   <p className="mt-1 text-sm">{formatDate(selectedExecution.stopDate)}</p>
                 </div>
               )}
+              {!!selectedExecution?.redriveCount && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Redrives</label>
+                  <p className="mt-1 text-sm">{selectedExecution.redriveCount}</p>
+                </div>
+              )}
             </div>
             {selectedExecution?.input !== undefined && selectedExecution?.input !== null && (
               <div>
@@ -890,7 +1387,25 @@ export default function Dashboard() {
                 </pre>
               </div>
             )}
+            {selectedExecution && (
+              <div>
+                <label className="text-sm font-medium mb-2 block">Timeline</label>
+                <ExecutionTimeline executionArn={selectedExecution.executionArn} status={selectedExecution.status} />
+              </div>
+            )}
           </div>
+          {selectedExecution && canRedrive(selectedExecution) && (
+            <DialogFooter>
+              <Button
+                onClick={() => handleRedriveExecution(selectedExecution)}
+                disabled={isRedriving}
+                title="Restart the execution from the state where it failed"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {isRedriving ? 'Redriving...' : 'Redrive'}
+              </Button>
+            </DialogFooter>
+          )}
         </DialogContent>
       </Dialog>
 
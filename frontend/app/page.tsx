@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useState, useEffect } from 'react';
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
 import Link from 'next/link';
 import ReactFlow, {
   Node,
@@ -16,14 +16,94 @@ import ReactFlow, {
   NodeTypes,
 } from 'reactflow';
 import PassStateNode from './components/PassStateNode';
-import { convertToASL, convertFromASL, ASLDefinition } from './utils/aslConverter';
+import TaskStateNode from './components/TaskStateNode';
+import TaskConfigEditor from './components/TaskConfigEditor';
+import WaitStateNode from './components/WaitStateNode';
+import WaitStateEditor from './components/WaitStateEditor';
+import TerminalStateNode from './components/TerminalStateNode';
+import FailStateEditor from './components/FailStateEditor';
+import ChoiceStateNode from './components/ChoiceStateNode';
+import ChoiceRuleEditor from './components/ChoiceRuleEditor';
+import GroupStateNode from './components/GroupStateNode';
+import BranchNode from './components/BranchNode';
+import ErrorHandlingEditor from './components/ErrorHandlingEditor';
+import StateInspector from './components/StateInspector';
+import ExecutionTimeline from './components/ExecutionTimeline';
+import {
+  buildState,
+  convertToASL,
+  convertFromASL,
+  createCatchEdge,
+  getDescendantIds,
+  getStateName,
+  getTransitionForHandle,
+  remapIndexedEdges,
+  ASLDefinition,
+  ASLState,
+  ASLDefinitionMetadata,
+  BranchNodeData,
+  StateNodeData,
+  TransitionEdgeData,
+  BRANCH_NODE_TYPE,
+  TERMINAL_STATE_TYPES,
+} from './utils/aslConverter';
+import { ChoiceRule, createRule, describeRule, getChoiceHandleId } from './utils/choiceRules';
+import {
+  Catcher,
+  Retrier,
+  ERROR_HANDLING_STATE_TYPES,
+  createCatcher,
+} from './utils/errorHandling';
+import { validateFlow, groupDiagnosticsByNode } from './utils/aslValidator';
+import { TASK_INTEGRATIONS, TaskQueryLanguage, buildTaskFields } from './utils/taskCatalogue';
+import { DefinitionDiff, DIFF_NODE_CLASS, buildDiffDefinition } from './utils/definitionDiff';
+import { canRedrive, subscribeToExecutions } from './utils/executions';
+import {
+  ExecutionHistoryEvent,
+  buildExecutionTimeline,
+  fetchExecutionHistory,
+  formatDuration,
+  formatPayload,
+  isCompleteHistory,
+  mergeHistoryEvents,
+} from './utils/executionTimeline';
+import {
+  EXECUTION_EDGE_COLOR,
+  EXECUTION_NODE_CLASS,
+  PATH_STATUS_LABEL,
+  PathStatus,
+  buildExecutionPath,
+  pathStatusOf,
+  transitionKey,
+} from './utils/executionPath';
+import { fetchDraft, nextNodeId, saveDraft, toDraftGraph, type SaveDraftRequest } from './utils/drafts';
 
 const nodeTypes: NodeTypes = {
   pass: PassStateNode,
+  task: TaskStateNode,
+  wait: WaitStateNode,
+  succeed: TerminalStateNode,
+  fail: TerminalStateNode,
+  choice: ChoiceStateNode,
+  parallel: GroupStateNode,
+  map: GroupStateNode,
+  [BRANCH_NODE_TYPE]: BranchNode,
 };
 
+// Node types that hold other states: new states are added inside the selected one
+const CONTAINER_NODE_TYPES = new Set([BRANCH_NODE_TYPE, 'map']);
+const GROUP_SIZE = { width: 560, height: 320 };
+const BRANCH_SIZE = { width: 300, height: 220 };
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:5000';
 
+// Autosave waits for edits to settle, and backs off after a failed save
+const AUTOSAVE_DELAY_MS = 2000;
+const AUTOSAVE_RETRY_MS = 30000;
+
+// Work not saved as a draft yet is kept in this browser, so reloading the page does not lose it
+const UNSAVED_WORK_KEY = 'flow-builder:unsaved-work';
+
 const initialNodes: Node[] = [];
 
 const initialEdges: Edge[] = [];
@@ -38,13 +118,47 @@ export default function FlowBuilder() {
   const [isDeploying, setIsDeploying] = useState(false);
   const [deployResult, setDeployResult] = useState<{ success: boolean; message: string; arn?: string } | null>(null);
   const [stateMachineArn, setStateMachineArn] = useState<string | null>(null);
+  // Connection profiles configured on the server; empty deploys with the default profile
+  const [connectionProfiles, setConnectionProfiles] = useState<{ name: string; region: string; isDefault: boolean }[]>([]);
+  const [deployProfile, setDeployProfile] = useState('');
+
+  // Deployed versions of the loaded state machine
+  const [showVersions, setShowVersions] = useState(false);
+  const [versions, setVersions] = useState<Array<{
+    version: number;
+    author: string | null;
+    message: string | null;
+    createdAt: string;
+    current: boolean;
+  }>>([]);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState<number | null>(null);
+  // Set while two versions are compared on the canvas; the edited flow is kept to restore afterwards
+  const [diffView, setDiffView] = useState<{
+    from: number;
+    to: number;
+    diff: DefinitionDiff;
+    saved: { nodes: Node[]; edges: Edge[]; metadata: ASLDefinitionMetadata | undefined };
+  } | null>(null);
+  // Execution whose path is drawn over the canvas, with its history events
+  const [executionOverlay, setExecutionOverlay] = useState<{
+    executionArn: string;
+    label: string;
+    events: ExecutionHistoryEvent[];
+  } | null>(null);
   
   // Execution states
   const [showExecutionModal, setShowExecutionModal] = useState(false);
   const [executionInput, setExecutionInput] = useState<string>('{}');
+  // Empty uses the server's EXECUTION_BACKEND
+  const [executionBackend, setExecutionBackend] = useState<'' | 'aws' | 'local'>('');
+  // Test case of the state machine's mock config; mocked runs are always local
+  const [mockTestCase, setMockTestCase] = useState('');
   const [isExecuting, setIsExecuting] = useState(false);
   const [currentExecution, setCurrentExecution] = useState<{
     executionArn: string;
+    name?: string;
     status: string;
     input: unknown;
     output?: unknown;
@@ -52,6 +166,7 @@ export default function FlowBuilder() {
     cause?: string;
     startDate: Date;
     stopDate?: Date;
+    redriveCount?: number;
   } | null>(null);
   const [executionHistory, setExecutionHistory] = useState<Array<{
     executionArn: string;
@@ -60,64 +175,403 @@ export default function FlowBuilder() {
     startDate: Date;
   }>>([]);
   const [showExecutionDetails, setShowExecutionDetails] = useState(false);
+  const [isRedriving, setIsRedriving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [importAslText, setImportAslText] = useState('');
   const [isImporting, setIsImporting] = useState(false);
-  const [importedASL, setImportedASL] = useState<ASLDefinition | null>(null);
+  // Top-level definition fields (Comment, TimeoutSeconds, ...) of the imported workflow
+  const [definitionMeta, setDefinitionMeta] = useState<ASLDefinitionMetadata | undefined>(undefined);
+  // Draft the canvas is saved to; autosave starts once the workflow was saved the first time
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [savedDraftSnapshot, setSavedDraftSnapshot] = useState<string | null>(null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [draftSaveError, setDraftSaveError] = useState<string | null>(null);
 
   const onConnect = useCallback(
     (params: Connection) => {
-      setEdges((eds) => addEdge(params, eds));
-      // Clear imported ASL if user manually connects nodes (they're editing)
-      if (importedASL) {
-        setImportedASL(null);
+      // Transitions only connect states of the same scope (top level, branch or Map)
+      const sourceNode = nodes.find((n) => n.id === params.source);
+      const targetNode = nodes.find((n) => n.id === params.target);
+      if ((sourceNode?.parentNode || null) !== (targetNode?.parentNode || null)) {
+        return;
       }
+      // Succeed and Fail end the execution and cannot transition anywhere
+      if (TERMINAL_STATE_TYPES.has((sourceNode?.data as StateNodeData | undefined)?.stateType || '')) {
+        return;
+      }
+
+      const transition = getTransitionForHandle(params.sourceHandle);
+
+      // Drawing from the error handle adds a catcher that falls back to the target state
+      if (transition.kind === 'catch') {
+        const catchers = [...((sourceNode?.data as StateNodeData | undefined)?.fullState?.Catch || [])];
+        const catcher = createCatcher();
+        catchers.push(catcher);
+        setNodes((nds) =>
+          nds.map((n) =>
+            n.id === params.source
+              ? { ...n, data: { ...n.data, fullState: { ...n.data.fullState, Catch: catchers } } }
+              : n
+          )
+        );
+        setEdges((eds) => [...eds, createCatchEdge(params.source!, params.target!, catchers.length - 1, catcher)]);
+        return;
+      }
+
+      setEdges((eds) => {
+        // A Choice rule or Default handle leads to exactly one state
+        const remaining = transition.kind === 'next'
+          ? eds
+          : eds.filter((e) => !(e.source === params.source && e.sourceHandle === params.sourceHandle));
+
+        let label: string | undefined;
+        if (transition.kind === 'default') {
+          label = 'Default';
+        } else if (transition.kind === 'choice') {
+          const rule = (sourceNode?.data as StateNodeData | undefined)?.fullState?.Choices?.[transition.index!];
+          label = rule ? describeRule(rule) : undefined;
+        }
+
+        return addEdge({ ...params, data: transition, label }, remaining);
+      });
+    },
+    [setEdges, setNodes, nodes]
+  );
+
+  // Patches the ASL fields of a state node; fields set to undefined are removed
+  const updateStateFields = useCallback(
+    (id: string, patch: Partial<ASLState>) => {
+      setNodes((nds) =>
+        nds.map((node) => {
+          if (node.id !== id) return node;
+          // buildState folds canvas-only `result`/`resultPath` data into the ASL fields
+          const fullState: ASLState = { ...buildState(node), ...patch };
+          Object.keys(patch).forEach((key) => {
+            if (patch[key] === undefined) delete fullState[key];
+          });
+          const data: StateNodeData = { ...node.data, fullState };
+          delete data.result;
+          delete data.resultPath;
+          return { ...node, data };
+        })
+      );
     },
-    [setEdges, importedASL]
+    [setNodes]
+  );
+
+  const renameState = useCallback(
+    (id: string, stateName: string) => {
+      setNodes((nds) => nds.map((node) => (node.id === id ? { ...node, data: { ...node.data, stateName } } : node)));
+    },
+    [setNodes]
+  );
+
+  // Adds a node to the canvas, or inside the selected Parallel branch / Map when there is one
+  const addStateNode = useCallback(
+    (type: string, data: StateNodeData | BranchNodeData, style?: { width: number; height: number }) => {
+      const id = `node-${nodeId++}`;
+      const container = nodes.find((n) => n.selected && CONTAINER_NODE_TYPES.has(n.type || ''));
+      const containerWidth = Number(container?.style?.width ?? container?.width ?? GROUP_SIZE.width);
+      const containerHeight = Number(container?.style?.height ?? container?.height ?? GROUP_SIZE.height);
+
+      const newNode: Node = {
+        id,
+        type,
+        data,
+        style,
+        position: container
+          ? {
+              x: 40 + Math.random() * Math.max(containerWidth - 280, 0),
+              y: 70 + Math.random() * Math.max(containerHeight - 170, 0),
+            }
+          : {
+              x: Math.random() * 400 + 100,
+              y: Math.random() * 400 + 100,
+            },
+        ...(container ? { parentNode: container.id, extent: 'parent' as const } : {}),
+      };
+      setNodes((nds) => [...nds, newNode]);
+      return id;
+    },
+    [nodes, setNodes]
   );
 
   const addPassState = useCallback(() => {
-    const newNode: Node = {
-      id: `node-${nodeId}`,
-      type: 'pass',
-      data: { 
-        label: `Pass State ${nodeId}`,
-        stateType: 'Pass',
+    addStateNode('pass', {
+      label: `Pass State ${nodeId}`,
+      stateType: 'Pass',
+    });
+  }, [addStateNode]);
+
+  // New Task states start as a Lambda invoke in the definition's query language
+  const addTaskState = useCallback(() => {
+    const language: TaskQueryLanguage = definitionMeta?.QueryLanguage === 'JSONata' ? 'JSONata' : 'JSONPath';
+    addStateNode('task', {
+      label: `Task State ${nodeId}`,
+      stateType: 'Task',
+      stateName: `Task_${nodeId}`,
+      fullState: {
+        Type: 'Task',
+        ...buildTaskFields(TASK_INTEGRATIONS[0], 'requestResponse', language),
       },
-      position: {
-        x: Math.random() * 400 + 100,
-        y: Math.random() * 400 + 100,
+    });
+  }, [addStateNode, definitionMeta]);
+
+  const addWaitState = useCallback(() => {
+    addStateNode('wait', {
+      label: `Wait State ${nodeId}`,
+      stateType: 'Wait',
+      stateName: `Wait_${nodeId}`,
+      fullState: { Type: 'Wait', Seconds: 10 },
+    });
+  }, [addStateNode]);
+
+  const addSucceedState = useCallback(() => {
+    addStateNode('succeed', {
+      label: `Succeed State ${nodeId}`,
+      stateType: 'Succeed',
+      stateName: `Succeed_${nodeId}`,
+      fullState: { Type: 'Succeed' },
+    });
+  }, [addStateNode]);
+
+  const addFailState = useCallback(() => {
+    addStateNode('fail', {
+      label: `Fail State ${nodeId}`,
+      stateType: 'Fail',
+      stateName: `Fail_${nodeId}`,
+      fullState: { Type: 'Fail', Error: 'WorkflowFailed' },
+    });
+  }, [addStateNode]);
+
+  const addChoiceState = useCallback(() => {
+    addStateNode('choice', {
+      label: `Choice State ${nodeId}`,
+      stateType: 'Choice',
+      stateName: `Choice_${nodeId}`,
+      fullState: {
+        Type: 'Choice',
+        Choices: [createRule()],
       },
-    };
-    setNodes((nds) => [...nds, newNode]);
-    nodeId++;
-    // Clear imported ASL if user adds new nodes (they're editing)
-    if (importedASL) {
-      setImportedASL(null);
-    }
-  }, [setNodes, importedASL]);
+    });
+  }, [addStateNode]);
 
-  const deleteSelectedNodes = useCallback(() => {
-    setNodes((nds) => nds.filter((node) => !node.selected));
-    setEdges((eds) =>
-      eds.filter(
-        (edge) =>
-          !nodes.find((n) => n.selected && (n.id === edge.source || n.id === edge.target))
+  const addBranchNode = useCallback(
+    (parallelId: string, branchIndex: number, x: number) => {
+      const branch: Node<BranchNodeData> = {
+        id: `node-${nodeId++}`,
+        type: BRANCH_NODE_TYPE,
+        data: { label: `Branch ${branchIndex + 1}`, branchIndex },
+        position: { x, y: 70 },
+        parentNode: parallelId,
+        extent: 'parent',
+        style: BRANCH_SIZE,
+      };
+      setNodes((nds) => [...nds, branch]);
+    },
+    [setNodes]
+  );
+
+  const addParallelState = useCallback(() => {
+    const parallelId = addStateNode(
+      'parallel',
+      {
+        label: `Parallel State ${nodeId}`,
+        stateType: 'Parallel',
+        stateName: `Parallel_${nodeId}`,
+        fullState: { Type: 'Parallel', Branches: [] },
+      },
+      GROUP_SIZE
+    );
+    addBranchNode(parallelId, 0, 40);
+  }, [addStateNode, addBranchNode]);
+
+  const addMapState = useCallback(() => {
+    addStateNode(
+      'map',
+      {
+        label: `Map State ${nodeId}`,
+        stateType: 'Map',
+        stateName: `Map_${nodeId}`,
+        fullState: {
+          Type: 'Map',
+          ItemsPath: '$.items',
+          ItemProcessor: { ProcessorConfig: { Mode: 'INLINE' } },
+        },
+      },
+      GROUP_SIZE
+    );
+  }, [addStateNode]);
+
+  const selectedParallelNode = nodes.find((n) => n.selected && n.type === 'parallel');
+
+  // Adds another branch to the selected Parallel state, widening it to make room
+  const addBranchToSelected = useCallback(() => {
+    if (!selectedParallelNode) return;
+    const branches = nodes.filter((n) => n.parentNode === selectedParallelNode.id && n.type === BRANCH_NODE_TYPE);
+    const x = branches.reduce(
+      (max, b) => Math.max(max, b.position.x + Number(b.style?.width ?? BRANCH_SIZE.width) + 40),
+      40
+    );
+    const branchIndex = branches.reduce((max, b) => Math.max(max, (b.data as BranchNodeData).branchIndex + 1), 0);
+    setNodes((nds) =>
+      nds.map((n) =>
+        n.id === selectedParallelNode.id
+          ? {
+              ...n,
+              style: {
+                ...n.style,
+                width: Math.max(Number(n.style?.width ?? GROUP_SIZE.width), x + BRANCH_SIZE.width + 40),
+              },
+            }
+          : n
       )
     );
+    addBranchNode(selectedParallelNode.id, branchIndex, x);
+  }, [nodes, selectedParallelNode, setNodes, addBranchNode]);
+
+  // Replaces the rules of a Choice node and moves its branch edges along with their rules
+  const updateChoiceRules = useCallback(
+    (nodeIdToUpdate: string, rules: ChoiceRule[], indexMap: Array<number | null>) => {
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.id === nodeIdToUpdate
+            ? {
+                ...node,
+                data: {
+                  ...node.data,
+                  fullState: { ...node.data.fullState, Type: 'Choice', Choices: rules },
+                },
+              }
+            : node
+        )
+      );
+      setEdges((eds) =>
+        remapIndexedEdges(eds, nodeIdToUpdate, 'choice', indexMap, (edge, newIndex) => ({
+          ...edge,
+          sourceHandle: getChoiceHandleId(newIndex),
+          label: describeRule(rules[newIndex]),
+          data: { kind: 'choice', index: newIndex } satisfies TransitionEdgeData,
+        }))
+      );
+    },
+    [setNodes, setEdges]
+  );
+
+  // Replaces the catchers of a state and moves its catch edges along with their catchers
+  const updateCatchers = useCallback(
+    (nodeIdToUpdate: string, catchers: Catcher[], indexMap: Array<number | null>) => {
+      updateStateFields(nodeIdToUpdate, { Catch: catchers.length > 0 ? catchers : undefined });
+      setEdges((eds) =>
+        remapIndexedEdges(eds, nodeIdToUpdate, 'catch', indexMap, (edge, newIndex) =>
+          createCatchEdge(edge.source, edge.target, newIndex, catchers[newIndex])
+        )
+      );
+    },
+    [updateStateFields, setEdges]
+  );
+
+  // Deleting a catch edge on the canvas removes its catcher from the source state
+  const onEdgesDelete = useCallback(
+    (deleted: Edge[]) => {
+      const removedBySource = new Map<string, Set<number>>();
+      deleted.forEach((edge) => {
+        const transition = edge.data as TransitionEdgeData | undefined;
+        if (transition?.kind === 'catch' && transition.index !== undefined) {
+          const removed = removedBySource.get(edge.source) || new Set<number>();
+          removed.add(transition.index);
+          removedBySource.set(edge.source, removed);
+        }
+      });
+
+      removedBySource.forEach((removed, sourceId) => {
+        const source = nodes.find((n) => n.id === sourceId);
+        const catchers: Catcher[] = (source?.data as StateNodeData | undefined)?.fullState?.Catch || [];
+        let nextIndex = 0;
+        const indexMap = catchers.map((_, i) => (removed.has(i) ? null : nextIndex++));
+        updateCatchers(sourceId, catchers.filter((_, i) => !removed.has(i)), indexMap);
+      });
+    },
+    [nodes, updateCatchers]
+  );
+
+  const selectedNode = nodes.filter((n) => n.selected).length === 1
+    ? nodes.find((n) => n.selected)
+    : undefined;
+  const selectedStateNode = selectedNode?.type !== BRANCH_NODE_TYPE ? selectedNode : undefined;
+  // Complete ASL fields of the selected state, including those of canvas-created Pass nodes
+  const selectedState = selectedStateNode ? buildState(selectedStateNode) : undefined;
+  const definitionLanguage = definitionMeta?.QueryLanguage === 'JSONata' ? 'JSONata' : undefined;
+
+  const deleteSelectedNodes = useCallback(() => {
+    // Deleting a Parallel, branch or Map also deletes the states nested inside it
+    const removed = new Set<string>();
+    nodes
+      .filter((n) => n.selected)
+      .forEach((n) => {
+        removed.add(n.id);
+        getDescendantIds(nodes, n.id).forEach((id) => removed.add(id));
+      });
+    setNodes((nds) => nds.filter((node) => !removed.has(node.id)));
+    setEdges((eds) => eds.filter((edge) => !removed.has(edge.source) && !removed.has(edge.target)));
   }, [nodes, setNodes, setEdges]);
 
+  const diagnostics = useMemo(() => validateFlow(nodes, edges, definitionMeta), [nodes, edges, definitionMeta]);
+  const diagnosticsByNode = useMemo(() => groupDiagnosticsByNode(diagnostics), [diagnostics]);
+
+  const executionPath = useMemo(
+    () => (executionOverlay ? buildExecutionPath(buildExecutionTimeline(executionOverlay.events)) : null),
+    [executionOverlay]
+  );
+  // State nodes get their diagnostics in their data, for the badge; during an execution,
+  // visited states get a ring coloured by outcome and the rest of the flow is dimmed
+  const canvasNodes = useMemo(() => {
+    return nodes.map((node) => {
+      const nodeDiagnostics = diagnosticsByNode.get(node.id);
+      const canvasNode = nodeDiagnostics ? { ...node, data: { ...node.data, diagnostics: nodeDiagnostics } } : node;
+      if (!executionPath || node.type === BRANCH_NODE_TYPE) return canvasNode;
+      const status = executionPath.statusByState.get(getStateName(node));
+      return { ...canvasNode, className: status ? EXECUTION_NODE_CLASS[status] : 'opacity-40' };
+    });
+  }, [nodes, diagnosticsByNode, executionPath]);
+  const canvasEdges = useMemo(() => {
+    if (!executionPath) return edges;
+    const names = new Map(nodes.map((node) => [node.id, getStateName(node)]));
+    return edges.map((edge) => {
+      const status = executionPath.transitions.get(
+        transitionKey(names.get(edge.source) || '', names.get(edge.target) || '')
+      );
+      return status
+        ? {
+            ...edge,
+            animated: status === 'running',
+            style: { ...edge.style, stroke: EXECUTION_EDGE_COLOR[status], strokeWidth: 3 },
+          }
+        : { ...edge, style: { ...edge.style, opacity: 0.3 } };
+    });
+  }, [nodes, edges, executionPath]);
+  const inspectedVisits =
+    selectedStateNode && executionPath ? executionPath.visitsByState.get(getStateName(selectedStateNode)) || [] : [];
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+
+  const selectNode = useCallback(
+    (id: string) => {
+      setNodes((nds) => nds.map((node) => ({ ...node, selected: node.id === id })));
+    },
+    [setNodes]
+  );
+
   const exportToASL = useCallback(() => {
-    // Use imported ASL if available, otherwise convert from nodes
-    const asl = importedASL || convertToASL(nodes, edges);
+    const asl = convertToASL(nodes, edges, definitionMeta);
     if (asl) {
       setAslJson(JSON.stringify(asl, null, 2));
       setShowAsl(true);
     } else {
       alert('Cannot export: No nodes in the flow');
     }
-  }, [nodes, edges, importedASL]);
+  }, [nodes, edges, definitionMeta]);
 
   const handleImportASL = useCallback(() => {
     setShowImportModal(true);
@@ -153,43 +607,43 @@ export default function FlowBuilder() {
         return;
       }
 
-      // Store the original ASL for deployment
-      setImportedASL(aslJson);
-      
-      // Convert to nodes/edges for visual representation
+      // Convert to nodes/edges; every state field is kept on the nodes for export
       const result = convertFromASL(aslJson);
       
       if (result && result.nodes.length > 0) {
         // Update nodes and edges
         setNodes(result.nodes);
         setEdges(result.edges);
+        setDefinitionMeta(result.metadata);
         
         // Reset node counter to avoid conflicts
         nodeId = result.nodes.length + 1;
         
         setShowImportModal(false);
         setImportAslText('');
-        alert(`Successfully imported ${result.nodes.length} states! The original ASL structure is preserved for deployment.`);
+        alert(`Successfully imported ${result.nodes.length} states! Edits on the canvas are included when you export or deploy.`);
       } else {
         alert('Failed to import: Could not convert ASL to visual representation');
-        setImportedASL(null);
       }
     } catch (error) {
       console.error('Error importing ASL:', error);
       alert('Failed to import: Invalid JSON format');
-      setImportedASL(null);
     } finally {
       setIsImporting(false);
     }
   }, [importAslText, setNodes, setEdges]);
 
-  const deployToAWS = useCallback(async () => {
-    // Use imported ASL if available, otherwise convert from nodes
-    const asl = importedASL || convertToASL(nodes, edges);
+  // Local state machines are only saved by the backend and run with its interpreter, without AWS
+  const deployStateMachine = useCallback(async (backend: 'aws' | 'local') => {
+    const asl = convertToASL(nodes, edges, definitionMeta);
     if (!asl) {
       alert('Cannot deploy: No nodes in the flow');
       return;
     }
+    if (errorCount > 0) {
+      alert(`Cannot deploy: fix the ${errorCount} error(s) listed under Problems first`);
+      return;
+    }
 
     const stateMachineName = prompt('Enter a name for your state machine:', `flow-builder-${Date.now()}`);
     if (!stateMachineName) return;
@@ -206,6 +660,8 @@ export default function FlowBuilder() {
         body: JSON.stringify({
           name: stateMachineName,
           definition: asl,
+          backend,
+          connectionProfile: backend === 'aws' ? deployProfile || undefined : undefined,
         }),
       });
 
@@ -233,7 +689,352 @@ export default function FlowBuilder() {
     } finally {
       setIsDeploying(false);
     }
-  }, [nodes, edges, importedASL]);
+  }, [nodes, edges, definitionMeta, errorCount, deployProfile]);
+
+  // Pushes the canvas to the state machine already deployed from this session
+  const redeployToAWS = useCallback(async () => {
+    if (!stateMachineArn) return;
+    const asl = convertToASL(nodes, edges, definitionMeta);
+    if (!asl) {
+      alert('Cannot redeploy: No nodes in the flow');
+      return;
+    }
+    if (errorCount > 0) {
+      alert(`Cannot redeploy: fix the ${errorCount} error(s) listed under Problems first`);
+      return;
+    }
+
+    const message = prompt('Describe this change (optional):', '');
+    if (message === null) return;
+
+    setIsDeploying(true);
+    setDeployResult(null);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/state-machines/${encodeURIComponent(stateMachineArn)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ definition: asl, message: message || undefined }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setDeployResult({
+          success: true,
+          message: `${result.message || 'State machine updated successfully!'}${result.version ? ` (version ${result.version})` : ''}${
+            result.mockConfigProblems?.length ? `. The mock config needs updating: ${result.mockConfigProblems.join('; ')}` : ''
+          }`,
+          arn: stateMachineArn,
+        });
+      } else {
+        setDeployResult({
+          success: false,
+          message: result.error || result.details || 'Failed to update state machine',
+        });
+      }
+    } catch (error) {
+      setDeployResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Network error occurred',
+      });
+    } finally {
+      setIsDeploying(false);
+    }
+  }, [stateMachineArn, nodes, edges, definitionMeta, errorCount]);
+
+  const loadVersions = useCallback(async () => {
+    if (!stateMachineArn) return;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/state-machines/${encodeURIComponent(stateMachineArn)}/versions`);
+      const result = await response.json();
+
+      if (response.ok) {
+        const loaded = result.versions || [];
+        setVersions(loaded);
+        setCompareTo(loaded[0]?.version ?? null);
+        setCompareFrom(loaded[1]?.version ?? loaded[0]?.version ?? null);
+        setShowVersions(true);
+      } else {
+        alert(`Failed to load versions: ${result.error || result.message || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error loading versions:', error);
+      alert('Failed to load versions');
+    }
+  }, [stateMachineArn]);
+
+  const compareVersions = useCallback(async () => {
+    if (!stateMachineArn || compareFrom === null || compareTo === null) return;
+
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/state-machines/${encodeURIComponent(stateMachineArn)}/versions/diff?from=${compareFrom}&to=${compareTo}`
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Failed to compare versions: ${result.error || result.message || 'Unknown error'}`);
+        return;
+      }
+
+      const diff = result.diff as DefinitionDiff;
+      const { definition, statusByState } = buildDiffDefinition(
+        result.from.definition as ASLDefinition,
+        result.to.definition as ASLDefinition,
+        diff
+      );
+      const converted = convertFromASL(definition);
+      if (!converted) {
+        alert('Failed to compare versions: Could not convert ASL to visual representation');
+        return;
+      }
+
+      const saved = diffView?.saved || { nodes, edges, metadata: definitionMeta };
+      setExecutionOverlay(null);
+      setNodes(
+        converted.nodes.map((node) => {
+          const status = statusByState.get((node.data as StateNodeData).stateName || '');
+          return status ? { ...node, className: DIFF_NODE_CLASS[status] } : node;
+        })
+      );
+      setEdges(converted.edges);
+      setDefinitionMeta(converted.metadata);
+      setDiffView({ from: compareFrom, to: compareTo, diff, saved });
+      setShowVersions(false);
+    } catch (error) {
+      console.error('Error comparing versions:', error);
+      alert('Failed to compare versions');
+    }
+  }, [stateMachineArn, compareFrom, compareTo, diffView, nodes, edges, definitionMeta, setNodes, setEdges]);
+
+  const exitDiffView = useCallback(() => {
+    if (!diffView) return;
+    setNodes(diffView.saved.nodes);
+    setEdges(diffView.saved.edges);
+    setDefinitionMeta(diffView.saved.metadata);
+    setDiffView(null);
+  }, [diffView, setNodes, setEdges]);
+
+  // The overlay is drawn over the flow being edited, so a version comparison is closed first
+  const showExecutionOnCanvas = useCallback(async (executionArn: string, label: string) => {
+    try {
+      const events = await fetchExecutionHistory(executionArn);
+      exitDiffView();
+      setExecutionOverlay({ executionArn, label, events });
+      setShowExecutionDetails(false);
+    } catch (error) {
+      alert(`Failed to load execution history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [exitDiffView]);
+
+  // Follows a running execution along the canvas until its history is complete
+  const overlayArn = executionOverlay?.executionArn;
+  const isOverlayComplete = executionOverlay ? isCompleteHistory(executionOverlay.events) : true;
+  useEffect(() => {
+    if (!overlayArn || isOverlayComplete) return;
+
+    const add = (events: ExecutionHistoryEvent[]) =>
+      setExecutionOverlay((current) =>
+        current?.executionArn === overlayArn
+          ? { ...current, events: mergeHistoryEvents(current.events, events) }
+          : current
+      );
+    return subscribeToExecutions(
+      { executionArn: overlayArn },
+      {
+        onOpen: () =>
+          fetchExecutionHistory(overlayArn)
+            .then(add)
+            .catch((error) => console.error('Error refreshing execution history:', error)),
+        onEvent: ({ event }) => add([event]),
+      }
+    );
+  }, [overlayArn, isOverlayComplete]);
+
+  // Redeploys a previous version and loads it onto the canvas
+  const rollbackToVersion = useCallback(async (version: number) => {
+    if (!stateMachineArn) return;
+    if (!confirm(`Redeploy version ${version}? Unsaved canvas changes will be replaced.`)) return;
+
+    setIsRollingBack(version);
+    try {
+      const base = `${API_BASE_URL}/state-machines/${encodeURIComponent(stateMachineArn)}/versions`;
+      const response = await fetch(`${base}/${version}/rollback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Failed to roll back: ${result.error || result.details || result.message || 'Unknown error'}`);
+        return;
+      }
+
+      const versionResponse = await fetch(`${base}/${version}`);
+      const versionResult = await versionResponse.json();
+      const converted = versionResponse.ok ? convertFromASL(versionResult.definition as ASLDefinition) : null;
+      if (converted) {
+        setNodes(converted.nodes);
+        setEdges(converted.edges);
+        setDefinitionMeta(converted.metadata);
+        nodeId = converted.nodes.length + 1;
+      }
+      setDiffView(null);
+      setShowVersions(false);
+      setDeployResult({
+        success: true,
+        message: `Rolled back to version ${version}${result.version ? ` (deployed as version ${result.version})` : ''}`,
+        arn: stateMachineArn,
+      });
+    } catch (error) {
+      console.error('Error rolling back:', error);
+      alert('Failed to roll back');
+    } finally {
+      setIsRollingBack(null);
+    }
+  }, [stateMachineArn, setNodes, setEdges]);
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/connection-profiles`)
+      .then((response) => response.json())
+      .then((result) => setConnectionProfiles(result.connectionProfiles || []))
+      .catch((error) => console.error('Error loading connection profiles:', error));
+  }, []);
+
+  // The dashboard opens a tracked state machine with /?stateMachineArn=
+  useEffect(() => {
+    const arn = new URLSearchParams(window.location.search).get('stateMachineArn');
+    if (!arn) return;
+
+    fetch(`${API_BASE_URL}/state-machines/${encodeURIComponent(arn)}`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || result.details || result.message || 'Unknown error');
+        }
+        const converted = convertFromASL(result.definition as ASLDefinition);
+        if (!converted) {
+          throw new Error('Could not convert ASL to visual representation');
+        }
+        setNodes(converted.nodes);
+        setEdges(converted.edges);
+        setDefinitionMeta(converted.metadata);
+        nodeId = converted.nodes.length + 1;
+        setStateMachineArn(result.stateMachineArn || arn);
+        setDeployProfile(result.connectionProfile || '');
+      })
+      .catch((error) => {
+        console.error('Error opening state machine:', error);
+        alert(`Failed to open state machine: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+  }, [setNodes, setEdges]);
+
+  // What a save would store; compared with the last saved one to detect unsaved changes
+  const draftSnapshot = useMemo(
+    () => JSON.stringify({ graph: toDraftGraph(nodes, edges, definitionMeta), stateMachineArn }),
+    [nodes, edges, definitionMeta, stateMachineArn]
+  );
+  const hasUnsavedDraftChanges = draftId !== null && draftSnapshot !== savedDraftSnapshot;
+
+  const persistDraft = useCallback(async (id: string | null, name?: string) => {
+    const snapshot = draftSnapshot;
+    setIsSavingDraft(true);
+    try {
+      const draft = await saveDraft(id, { name, ...JSON.parse(snapshot) });
+      setDraftId(draft.id);
+      setDraftName(draft.name);
+      setSavedDraftSnapshot(snapshot);
+      setDraftSaveError(null);
+      if (!id) {
+        // Reloading the page reopens the draft
+        window.history.replaceState(null, '', `/?draftId=${encodeURIComponent(draft.id)}`);
+        localStorage.removeItem(UNSAVED_WORK_KEY);
+      }
+    } catch (error) {
+      setDraftSaveError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSavingDraft(false);
+    }
+  }, [draftSnapshot]);
+
+  const saveAsDraft = useCallback(async () => {
+    if (draftId) {
+      await persistDraft(draftId);
+      return;
+    }
+    const name = prompt('Enter a name for your draft:', stateMachineArn?.split(':').pop() || `flow-builder-${Date.now()}`);
+    if (!name) return;
+    await persistDraft(null, name);
+  }, [draftId, stateMachineArn, persistDraft]);
+
+  // Autosave, paused while a version diff replaces the canvas
+  useEffect(() => {
+    if (!draftId || !hasUnsavedDraftChanges || isSavingDraft || diffView) return;
+    const timer = setTimeout(() => persistDraft(draftId), draftSaveError ? AUTOSAVE_RETRY_MS : AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftId, hasUnsavedDraftChanges, isSavingDraft, diffView, draftSaveError, persistDraft]);
+
+  // Until the first save, the canvas is kept in localStorage instead
+  useEffect(() => {
+    if (draftId || diffView) return;
+    const timer = setTimeout(() => {
+      if (nodes.length) {
+        localStorage.setItem(UNSAVED_WORK_KEY, draftSnapshot);
+      } else {
+        localStorage.removeItem(UNSAVED_WORK_KEY);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftId, diffView, nodes.length, draftSnapshot]);
+
+  // Reopens the unsaved work when the builder is opened without a draft or state machine
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const stored = localStorage.getItem(UNSAVED_WORK_KEY);
+    if (params.has('draftId') || params.has('stateMachineArn') || !stored) return;
+
+    try {
+      const { graph, stateMachineArn: storedArn }: Omit<SaveDraftRequest, 'name'> = JSON.parse(stored);
+      setNodes(graph.nodes);
+      setEdges(graph.edges);
+      setDefinitionMeta(graph.definitionMeta);
+      nodeId = nextNodeId(graph.nodes);
+      setStateMachineArn(storedArn);
+    } catch (error) {
+      console.error('Error restoring unsaved work:', error);
+      localStorage.removeItem(UNSAVED_WORK_KEY);
+    }
+  }, [setNodes, setEdges]);
+
+  // The dashboard opens a draft with /?draftId=
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('draftId');
+    if (!id) return;
+
+    fetchDraft(id)
+      .then((draft) => {
+        const { nodes: draftNodes, edges: draftEdges, definitionMeta: draftMeta } = draft.graph;
+        setNodes(draftNodes);
+        setEdges(draftEdges);
+        setDefinitionMeta(draftMeta);
+        nodeId = nextNodeId(draftNodes);
+        setStateMachineArn(draft.stateMachineArn);
+        setDraftId(draft.id);
+        setDraftName(draft.name);
+        setSavedDraftSnapshot(
+          JSON.stringify({ graph: toDraftGraph(draftNodes, draftEdges, draftMeta), stateMachineArn: draft.stateMachineArn })
+        );
+      })
+      .catch((error) => {
+        console.error('Error opening draft:', error);
+        alert(`Failed to open draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+  }, [setNodes, setEdges]);
 
   const loadExecutionHistory = useCallback(async () => {
     if (!stateMachineArn) return;
@@ -250,38 +1051,31 @@ export default function FlowBuilder() {
     }
   }, [stateMachineArn]);
 
-  const pollExecutionStatus = useCallback(async (executionArn: string) => {
-    const maxAttempts = 60; // Poll for up to 60 seconds
-    let attempts = 0;
+  // The execution followed by the status panel and the details dialog
+  const currentExecutionArn = useRef<string | null>(null);
+  // Only the latest request updates it, as status changes can overtake each other
+  const executionRequest = useRef(0);
 
-    const poll = async () => {
-      try {
-        const response = await fetch(`${API_BASE_URL}/executions/${encodeURIComponent(executionArn)}`);
-        const result = await response.json();
+  useEffect(() => {
+    currentExecutionArn.current = currentExecution?.executionArn ?? null;
+  }, [currentExecution]);
 
-        if (response.ok) {
-          setCurrentExecution(result);
-          
-          // If execution is still running, continue polling
-          if (result.status === 'RUNNING' && attempts < maxAttempts) {
-            attempts++;
-            setTimeout(poll, 1000); // Poll every second
-          } else {
-            // Execution finished or failed, refresh history
-            loadExecutionHistory();
-          }
-        }
-      } catch (error) {
-        console.error('Error polling execution:', error);
-      }
-    };
+  // Resolves with false when the execution could not be found
+  const loadExecution = useCallback(async (executionArn: string) => {
+    currentExecutionArn.current = executionArn;
+    const request = ++executionRequest.current;
+    const response = await fetch(`${API_BASE_URL}/executions/${encodeURIComponent(executionArn)}`);
+    const result = await response.json();
 
-    poll();
-  }, [loadExecutionHistory]);
+    if (response.ok && request === executionRequest.current) {
+      setCurrentExecution(result);
+    }
+    return response.ok;
+  }, []);
 
   const startExecution = useCallback(async () => {
     if (!stateMachineArn) {
-      alert('Please deploy the state machine first');
+      alert('Please deploy the state machine or create it locally first');
       return;
     }
 
@@ -305,14 +1099,16 @@ export default function FlowBuilder() {
         body: JSON.stringify({
           stateMachineArn: stateMachineArn,
           input: input,
+          backend: executionBackend || undefined,
+          mockTestCase: mockTestCase.trim() || undefined,
         }),
       });
 
       const result = await response.json();
 
       if (response.ok) {
-        // Start polling for execution status
-        pollExecutionStatus(result.executionArn);
+        // Status changes come from the state machine's execution stream
+        loadExecution(result.executionArn);
         setShowExecutionModal(false);
       } else {
         alert(`Failed to start execution: ${result.error || result.details}`);
@@ -322,21 +1118,38 @@ export default function FlowBuilder() {
     } finally {
       setIsExecuting(false);
     }
-  }, [stateMachineArn, executionInput, pollExecutionStatus]);
+  }, [stateMachineArn, executionInput, executionBackend, mockTestCase, loadExecution]);
 
   const viewExecutionDetails = useCallback(async (executionArn: string) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/executions/${encodeURIComponent(executionArn)}`);
-      const result = await response.json();
-
-      if (response.ok) {
-        setCurrentExecution(result);
+      if (await loadExecution(executionArn)) {
         setShowExecutionDetails(true);
       }
     } catch (error) {
       alert(`Error: ${error instanceof Error ? error.message : 'Failed to load execution details'}`);
     }
-  }, []);
+  }, [loadExecution]);
+
+  const redriveExecution = useCallback(async (executionArn: string) => {
+    setIsRedriving(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/executions/${encodeURIComponent(executionArn)}/redrive`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        // Follows the redriven execution until it finishes again
+        loadExecution(executionArn);
+      } else {
+        alert(`Error: ${result.details || result.error || result.message || 'Failed to redrive execution'}`);
+      }
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Network error occurred'}`);
+    } finally {
+      setIsRedriving(false);
+    }
+  }, [loadExecution]);
 
   const deleteWorkflow = useCallback(async () => {
     if (!stateMachineArn) return;
@@ -381,23 +1194,50 @@ export default function FlowBuilder() {
     }
   }, [stateMachineArn]);
 
-  // Load execution history when state machine is deployed
+  // Execution history and the current execution follow the state machine's execution stream
   useEffect(() => {
-    if (stateMachineArn) {
-      loadExecutionHistory();
-      // Refresh history every 5 seconds
-      const interval = setInterval(loadExecutionHistory, 5000);
-      return () => clearInterval(interval);
-    }
-  }, [stateMachineArn, loadExecutionHistory]);
+    if (!stateMachineArn) return;
+
+    return subscribeToExecutions(
+      { stateMachineArn },
+      {
+        onOpen: () => {
+          loadExecutionHistory();
+          if (currentExecutionArn.current) {
+            loadExecution(currentExecutionArn.current).catch((error) => console.error('Error loading execution:', error));
+          }
+        },
+        onStatus: (message) => {
+          setExecutionHistory((history) =>
+            [
+              {
+                executionArn: message.executionArn,
+                name: message.name || undefined,
+                status: message.status,
+                startDate: new Date(message.startDate || Date.now()),
+              },
+              ...history.filter((execution) => execution.executionArn !== message.executionArn),
+            ]
+              .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())
+              .slice(0, 10)
+          );
+          // Output, error and cause only come with the execution details
+          if (message.executionArn === currentExecutionArn.current) {
+            loadExecution(message.executionArn).catch((error) => console.error('Error loading execution:', error));
+          }
+        },
+      }
+    );
+  }, [stateMachineArn, loadExecutionHistory, loadExecution]);
 
   return (
     <div className="h-screen w-screen relative bg-gradient-to-br from-gray-900 via-slate-900 to-indigo-950">
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={canvasNodes}
+        edges={canvasEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
+        onEdgesDelete={onEdgesDelete}
         onConnect={onConnect}
         nodeTypes={nodeTypes}
         fitView
@@ -430,6 +1270,61 @@ export default function FlowBuilder() {
             >
               + Add Pass State
             </button>
+            <button
+              onClick={addTaskState}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-500 transition-colors text-sm shadow-lg shadow-blue-500/20"
+            >
+              + Add Task State
+            </button>
+            <button
+              onClick={addChoiceState}
+              className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-500 transition-colors text-sm shadow-lg shadow-purple-500/20"
+            >
+              + Add Choice State
+            </button>
+            <button
+              onClick={addWaitState}
+              className="px-4 py-2 bg-yellow-600 text-white rounded hover:bg-yellow-500 transition-colors text-sm shadow-lg shadow-yellow-500/20"
+            >
+              + Add Wait State
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={addSucceedState}
+                className="flex-1 px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-500 transition-colors text-sm shadow-lg shadow-emerald-500/20"
+              >
+                + Succeed
+              </button>
+              <button
+                onClick={addFailState}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-500 transition-colors text-sm shadow-lg shadow-red-500/20"
+              >
+                + Fail
+              </button>
+            </div>
+            <button
+              onClick={addParallelState}
+              className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-500 transition-colors text-sm shadow-lg shadow-indigo-500/20"
+            >
+              + Add Parallel State
+            </button>
+            <button
+              onClick={addMapState}
+              className="px-4 py-2 bg-pink-600 text-white rounded hover:bg-pink-500 transition-colors text-sm shadow-lg shadow-pink-500/20"
+            >
+              + Add Map State
+            </button>
+            {selectedParallelNode && (
+              <button
+                onClick={addBranchToSelected}
+                className="px-4 py-2 bg-indigo-700 text-white rounded hover:bg-indigo-600 transition-colors text-sm shadow-lg shadow-indigo-500/20"
+              >
+                + Add Branch
+              </button>
+            )}
+            <p className="text-xs text-gray-400">
+              Select a Parallel branch or Map state first to add states inside it.
+            </p>
             <button
               onClick={deleteSelectedNodes}
               className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-500 transition-colors text-sm shadow-lg shadow-red-500/20"
@@ -449,12 +1344,73 @@ export default function FlowBuilder() {
               Export to ASL
             </button>
             <button
-              onClick={deployToAWS}
-              disabled={isDeploying}
+              onClick={saveAsDraft}
+              disabled={isSavingDraft || nodes.length === 0 || diffView !== null}
+              title={draftId ? `Save ${draftName}` : 'Save the workflow without deploying it'}
+              className="px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-500 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-emerald-500/20"
+            >
+              {isSavingDraft ? 'Saving...' : draftId ? 'Save' : 'Save as draft'}
+            </button>
+            {draftId && (
+              <p className="text-xs text-gray-400 truncate" title={draftSaveError || undefined}>
+                Draft <span className="text-gray-300">{draftName}</span> ·{' '}
+                {draftSaveError ? (
+                  <span className="text-red-400">not saved</span>
+                ) : hasUnsavedDraftChanges ? (
+                  'unsaved changes'
+                ) : (
+                  'all changes saved'
+                )}
+              </p>
+            )}
+            {!draftId && nodes.length > 0 && (
+              <p className="text-xs text-gray-400">Not saved as a draft · kept in this browser</p>
+            )}
+            {connectionProfiles.length > 0 && (
+              <select
+                value={deployProfile}
+                onChange={(e) => setDeployProfile(e.target.value)}
+                title="Connection profile to deploy with"
+                className="px-2 py-2 bg-slate-800 text-white border border-slate-600 rounded text-sm mt-2"
+              >
+                <option value="">Default profile</option>
+                {connectionProfiles.map((profile) => (
+                  <option key={profile.name} value={profile.name}>
+                    {profile.name} ({profile.region}){profile.isDefault ? ' · default' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => deployStateMachine('aws')}
+              disabled={isDeploying || errorCount > 0 || diffView !== null}
+              title={errorCount > 0 ? 'Fix the errors listed under Problems to deploy' : undefined}
               className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-500 transition-colors text-sm mt-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-purple-500/20"
             >
               {isDeploying ? 'Deploying...' : 'Deploy to AWS'}
             </button>
+            <button
+              onClick={() => deployStateMachine('local')}
+              disabled={isDeploying || errorCount > 0 || diffView !== null}
+              title={
+                errorCount > 0
+                  ? 'Fix the errors listed under Problems to create it'
+                  : 'Save it to the backend only and run it with the local interpreter, without AWS'
+              }
+              className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm mt-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDeploying ? 'Creating...' : 'Create locally'}
+            </button>
+            {stateMachineArn && (
+              <button
+                onClick={redeployToAWS}
+                disabled={isDeploying || errorCount > 0 || diffView !== null}
+                title={errorCount > 0 ? 'Fix the errors listed under Problems to redeploy' : `Update ${stateMachineArn}`}
+                className="px-4 py-2 bg-violet-700 text-white rounded hover:bg-violet-600 transition-colors text-sm mt-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-violet-500/20"
+              >
+                {isDeploying ? 'Saving...' : 'Save & redeploy'}
+              </button>
+            )}
             {stateMachineArn && (
               <>
                 <button
@@ -469,6 +1425,12 @@ export default function FlowBuilder() {
                 >
                   View History
                 </button>
+                <button
+                  onClick={loadVersions}
+                  className="px-4 py-2 bg-teal-600 text-white rounded hover:bg-teal-500 transition-colors text-sm shadow-lg shadow-teal-500/20"
+                >
+                  Versions
+                </button>
               </>
             )}
           </div>
@@ -489,8 +1451,175 @@ export default function FlowBuilder() {
           )}
         </Panel>
         
+        {/* Problems Panel */}
+        {nodes.length > 0 && diagnostics.length > 0 && (
+          <Panel position="bottom-left" className="bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-700 p-4 m-4 w-96 max-h-[35vh] overflow-auto">
+            <h3 className="text-sm font-bold text-white mb-2">
+              Problems{' '}
+              <span className="text-xs font-normal text-gray-400">
+                {errorCount} error(s), {diagnostics.length - errorCount} warning(s)
+              </span>
+            </h3>
+            <ul className="space-y-1">
+              {diagnostics.map((diagnostic, index) => (
+                <li key={index}>
+                  <button
+                    onClick={() => diagnostic.nodeId && selectNode(diagnostic.nodeId)}
+                    className="w-full text-left text-xs flex gap-2 p-1 rounded hover:bg-gray-900/50 transition-colors"
+                  >
+                    <span className={diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                      {diagnostic.severity === 'error' ? '✖' : '▲'}
+                    </span>
+                    <span className="text-gray-300">
+                      {diagnostic.stateName && <span className="font-mono text-gray-400">{diagnostic.stateName}: </span>}
+                      {diagnostic.message}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </Panel>
+        )}
+
+        {/* State Inspector Panel */}
+        {selectedStateNode && selectedState && !executionPath && (
+          <Panel position="top-right" className="bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-700 p-4 m-4 w-96 max-h-[calc(100vh-2rem)] overflow-auto">
+            <h3 className="text-lg font-bold text-white mb-3">
+              {selectedState.Type} State
+            </h3>
+            <StateInspector
+              key={selectedStateNode.id}
+              stateName={getStateName(selectedStateNode)}
+              state={selectedState}
+              otherStateNames={new Set(
+                nodes
+                  .filter((n) => n.id !== selectedStateNode.id && n.type !== BRANCH_NODE_TYPE)
+                  .map((n) => getStateName(n))
+              )}
+              definitionLanguage={definitionLanguage}
+              onRename={(name) => renameState(selectedStateNode.id, name)}
+              onChange={(patch) => updateStateFields(selectedStateNode.id, patch)}
+            >
+              {selectedState.Type === 'Task' && (
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-300 mb-2">Task</h4>
+                  <TaskConfigEditor
+                    state={selectedState}
+                    definitionLanguage={definitionLanguage}
+                    onChange={(patch) => updateStateFields(selectedStateNode.id, patch)}
+                  />
+                </div>
+              )}
+
+              {selectedState.Type === 'Choice' && (
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-300 mb-2">Choice Rules</h4>
+                  <ChoiceRuleEditor
+                    rules={selectedState.Choices || []}
+                    onChange={(rules, indexMap) => updateChoiceRules(selectedStateNode.id, rules, indexMap)}
+                  />
+                  <p className="text-xs text-gray-400 mt-3">
+                    Drag from a rule&apos;s handle to the state it should transition to. Unmatched input follows the Default handle.
+                  </p>
+                </div>
+              )}
+
+              {selectedState.Type === 'Wait' && (
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-300 mb-2">Wait</h4>
+                  <WaitStateEditor
+                    state={selectedState}
+                    onChange={(patch) => updateStateFields(selectedStateNode.id, patch)}
+                  />
+                </div>
+              )}
+
+              {selectedState.Type === 'Fail' && (
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-300 mb-2">Fail</h4>
+                  <FailStateEditor
+                    state={selectedState}
+                    onChange={(patch) => updateStateFields(selectedStateNode.id, patch)}
+                  />
+                </div>
+              )}
+
+              {ERROR_HANDLING_STATE_TYPES.has(selectedState.Type) && (
+                <ErrorHandlingEditor
+                  retriers={selectedState.Retry || []}
+                  catchers={selectedState.Catch || []}
+                  catchTargets={(selectedState.Catch || []).map((_, index) => {
+                    const edge = edges.find(
+                      (e) =>
+                        e.source === selectedStateNode.id &&
+                        (e.data as TransitionEdgeData | undefined)?.kind === 'catch' &&
+                        (e.data as TransitionEdgeData).index === index
+                    );
+                    const target = edge && nodes.find((n) => n.id === edge.target);
+                    return target ? getStateName(target) : undefined;
+                  })}
+                  onRetryChange={(retriers: Retrier[]) =>
+                    updateStateFields(selectedStateNode.id, { Retry: retriers.length > 0 ? retriers : undefined })
+                  }
+                  onCatchChange={(catchers, indexMap) => updateCatchers(selectedStateNode.id, catchers, indexMap)}
+                />
+              )}
+            </StateInspector>
+          </Panel>
+        )}
+
+        {/* What the selected state did in the execution drawn on the canvas */}
+        {selectedStateNode && executionPath && (
+          <Panel position="top-right" className="bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-700 p-4 m-4 w-96 max-h-[calc(100vh-2rem)] overflow-auto">
+            <h3 className="text-lg font-bold text-white mb-3">{getStateName(selectedStateNode)}</h3>
+            {inspectedVisits.length === 0 && (
+              <p className="text-sm text-gray-400">This state did not run in the selected execution.</p>
+            )}
+            <div className="space-y-3">
+              {inspectedVisits.map((visit, index) => {
+                const status: PathStatus = pathStatusOf(visit);
+                return (
+                  <div key={visit.id} className="border border-gray-700 rounded p-2">
+                    <div className="flex justify-between items-center text-xs mb-2">
+                      <span className="text-gray-300">
+                        {inspectedVisits.length > 1 ? `Visit ${index + 1}` : visit.type}
+                        {' · '}
+                        {formatDuration(visit.end - visit.start)}
+                        {visit.retries > 0 && ` · ${visit.retries} ${visit.retries === 1 ? 'retry' : 'retries'}`}
+                      </span>
+                      <span style={{ color: EXECUTION_EDGE_COLOR[status] }}>{PATH_STATUS_LABEL[status]}</span>
+                    </div>
+                    {visit.input !== undefined && (
+                      <>
+                        <p className="text-xs text-gray-400 mb-1">Input</p>
+                        <pre className="bg-gray-900/50 border border-gray-700 p-2 rounded text-xs font-mono overflow-auto max-h-40 text-gray-300 mb-2">
+                          {formatPayload(visit.input)}
+                        </pre>
+                      </>
+                    )}
+                    {visit.output !== undefined && (
+                      <>
+                        <p className="text-xs text-gray-400 mb-1">Output</p>
+                        <pre className="bg-gray-900/50 border border-gray-700 p-2 rounded text-xs font-mono overflow-auto max-h-40 text-gray-300 mb-2">
+                          {formatPayload(visit.output)}
+                        </pre>
+                      </>
+                    )}
+                    {visit.error && (
+                      <pre className="bg-red-500/10 border border-red-500/30 p-2 rounded text-xs font-mono overflow-auto max-h-32 text-red-300">
+                        {visit.error}
+                        {visit.cause ? `\n${visit.cause}` : ''}
+                      </pre>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </Panel>
+        )}
+
         {/* Execution History Panel */}
-        {stateMachineArn && executionHistory.length > 0 && (
+        {stateMachineArn && executionHistory.length > 0 && !selectedStateNode && (
           <Panel position="top-right" className="bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-700 p-4 m-4 max-w-sm max-h-[60vh] overflow-auto">
             <div className="flex justify-between items-center mb-3">
               <h3 className="text-lg font-bold text-white">Execution History</h3>
@@ -526,8 +1655,20 @@ export default function FlowBuilder() {
                       {execution.status}
                     </span>
                   </div>
-                  <div className="text-xs text-gray-500 mt-1">
+                  <div className="flex justify-between items-center text-xs text-gray-500 mt-1">
                     {new Date(execution.startDate).toLocaleString()}
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        showExecutionOnCanvas(
+                          execution.executionArn,
+                          execution.name || execution.executionArn.split(':').pop() || execution.executionArn
+                        );
+                      }}
+                      className="text-indigo-400 hover:text-indigo-300 transition-colors"
+                    >
+                      Show on canvas
+                    </button>
                   </div>
                 </div>
               ))}
@@ -550,8 +1691,147 @@ export default function FlowBuilder() {
             </div>
           </Panel>
         )}
+        {executionOverlay && executionPath && (
+          <Panel position="top-center" className="bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-700 p-3 m-4 max-w-lg">
+            <div className="flex items-center justify-between gap-4 mb-2">
+              <h3 className="text-sm font-semibold text-white">
+                Execution <span className="font-mono">{executionOverlay.label}</span>
+                {!isCompleteHistory(executionOverlay.events) && <span className="text-blue-400"> · running</span>}
+              </h3>
+              <button
+                onClick={() => setExecutionOverlay(null)}
+                className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors text-xs"
+              >
+                Exit execution view
+              </button>
+            </div>
+            <div className="flex gap-3 text-xs mb-1">
+              {(Object.keys(PATH_STATUS_LABEL) as PathStatus[]).map((status) => (
+                <span key={status} style={{ color: EXECUTION_EDGE_COLOR[status] }}>
+                  ● {PATH_STATUS_LABEL[status]}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">Select a state to see its input and output in this run.</p>
+          </Panel>
+        )}
+        {diffView && (
+          <Panel position="top-center" className="bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-700 p-3 m-4 max-w-lg">
+            <div className="flex items-center justify-between gap-4 mb-2">
+              <h3 className="text-sm font-semibold text-white">
+                Version {diffView.from} → version {diffView.to}
+              </h3>
+              <button
+                onClick={exitDiffView}
+                className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors text-xs"
+              >
+                Exit diff
+              </button>
+            </div>
+            <div className="flex gap-3 text-xs mb-2">
+              <span className="text-green-400">● {diffView.diff.added.length} added</span>
+              <span className="text-red-400">● {diffView.diff.removed.length} removed</span>
+              <span className="text-amber-300">● {diffView.diff.changed.length} changed</span>
+            </div>
+            {diffView.diff.changed.length > 0 && (
+              <ul className="text-xs text-gray-300 space-y-0.5 max-h-24 overflow-auto">
+                {diffView.diff.changed.map(({ state, fields }) => (
+                  <li key={state}>
+                    <span className="font-mono">{state}</span>: {fields.join(', ')}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {diffView.diff.definitionFields.length > 0 && (
+              <p className="text-xs text-gray-400 mt-1">
+                Definition fields changed: {diffView.diff.definitionFields.join(', ')}
+              </p>
+            )}
+          </Panel>
+        )}
       </ReactFlow>
 
+      {showVersions && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg shadow-2xl border border-gray-700 p-6 max-w-2xl w-full max-h-[80vh] overflow-auto m-4">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-bold text-white">Versions</h3>
+              <button
+                onClick={() => setShowVersions(false)}
+                className="text-gray-400 hover:text-white text-2xl transition-colors"
+              >
+                ×
+              </button>
+            </div>
+            {versions.length === 0 ? (
+              <p className="text-gray-400 text-sm">No versions recorded yet.</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-2 mb-4">
+                  <label className="text-sm text-gray-300">
+                    From
+                    <select
+                      value={compareFrom ?? ''}
+                      onChange={(e) => setCompareFrom(Number(e.target.value))}
+                      className="block mt-1 p-2 bg-gray-900/50 border border-gray-700 rounded text-sm text-white"
+                    >
+                      {versions.map((v) => (
+                        <option key={v.version} value={v.version}>Version {v.version}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-gray-300">
+                    To
+                    <select
+                      value={compareTo ?? ''}
+                      onChange={(e) => setCompareTo(Number(e.target.value))}
+                      className="block mt-1 p-2 bg-gray-900/50 border border-gray-700 rounded text-sm text-white"
+                    >
+                      {versions.map((v) => (
+                        <option key={v.version} value={v.version}>Version {v.version}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={compareVersions}
+                    disabled={compareFrom === null || compareTo === null || compareFrom === compareTo}
+                    className="px-4 py-2 bg-teal-600 text-white rounded hover:bg-teal-500 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-teal-500/20"
+                  >
+                    Compare on canvas
+                  </button>
+                </div>
+                <ul className="divide-y divide-gray-700">
+                  {versions.map((v) => (
+                    <li key={v.version} className="py-3 flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-sm text-white">
+                          Version {v.version}
+                          {v.current && <span className="ml-2 text-xs text-green-400">current</span>}
+                        </p>
+                        <p className="text-xs text-gray-300 truncate">{v.message || 'No message'}</p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(v.createdAt).toLocaleString()}
+                          {v.author && ` · ${v.author}`}
+                        </p>
+                      </div>
+                      {!v.current && (
+                        <button
+                          onClick={() => rollbackToVersion(v.version)}
+                          disabled={isRollingBack !== null}
+                          className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-500 transition-colors text-xs disabled:opacity-50 shrink-0"
+                        >
+                          {isRollingBack === v.version ? 'Rolling back...' : 'Roll back'}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {showAsl && (
         <div className="absolute inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
           <div className="bg-gray-800 rounded-lg shadow-2xl border border-gray-700 p-6 max-w-2xl max-h-[80vh] overflow-auto m-4">
@@ -643,6 +1923,39 @@ export default function FlowBuilder() {
                 placeholder='{"key": "value"}'
               />
             </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Run on:
+              </label>
+              <select
+                value={executionBackend}
+                onChange={(e) => setExecutionBackend(e.target.value as '' | 'aws' | 'local')}
+                className="w-full p-2 bg-gray-900/50 border border-gray-700 rounded text-sm text-white"
+              >
+                <option value="">Server default</option>
+                <option value="aws">AWS Step Functions</option>
+                <option value="local">Local (in-process interpreter)</option>
+              </select>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Mock test case (optional):
+              </label>
+              <input
+                value={mockTestCase}
+                onChange={(e) => setMockTestCase(e.target.value)}
+                className="w-full p-2 bg-gray-900/50 border border-gray-700 rounded text-sm text-white placeholder-gray-500"
+                placeholder="e.g. RetryPath"
+              />
+              {mockTestCase.trim() && executionBackend !== 'aws' && (
+                <p className="mt-1 text-xs text-gray-400">
+                  Runs locally; Task states answer from the state machine&apos;s mock config.
+                </p>
+              )}
+              {mockTestCase.trim() && executionBackend === 'aws' && (
+                <p className="mt-1 text-xs text-yellow-400">Mocked executions cannot run on AWS.</p>
+              )}
+            </div>
             <div className="flex gap-2">
               <button
                 onClick={startExecution}
@@ -697,6 +2010,11 @@ export default function FlowBuilder() {
                 </span>
               </div>
 
+              <div>
+                <h4 className="font-semibold text-gray-300 mb-2">Timeline</h4>
+                <ExecutionTimeline executionArn={currentExecution.executionArn} status={currentExecution.status} />
+              </div>
+
               <div>
                 <h4 className="font-semibold text-gray-300 mb-2">Input</h4>
                 <pre className="bg-gray-900/50 border border-gray-700 p-3 rounded text-sm overflow-auto">
@@ -750,6 +2068,12 @@ export default function FlowBuilder() {
                     </p>
                   </div>
                 )}
+                {!!currentExecution.redriveCount && (
+                  <div>
+                    <span className="text-gray-400">Redrives:</span>
+                    <p className="text-white">{currentExecution.redriveCount}</p>
+                  </div>
+                )}
               </div>
 
               <div>
@@ -760,6 +2084,29 @@ export default function FlowBuilder() {
               </div>
             </div>
 
+            <button
+              onClick={() =>
+                showExecutionOnCanvas(
+                  currentExecution.executionArn,
+                  currentExecution.name || currentExecution.executionArn.split(':').pop() || currentExecution.executionArn
+                )
+              }
+              className="mt-4 w-full px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-500 transition-colors"
+            >
+              Show on canvas
+            </button>
+
+            {canRedrive(currentExecution) && (
+              <button
+                onClick={() => redriveExecution(currentExecution.executionArn)}
+                disabled={isRedriving}
+                title="Restart the execution from the state where it failed"
+                className="mt-4 w-full px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isRedriving ? 'Redriving...' : 'Redrive'}
+              </button>
+            )}
+
             <button
               onClick={() => {
                 setShowExecutionDetails(false);
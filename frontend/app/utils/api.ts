@@ -0,0 +1,15 @@
+/**
+ * Requests to the backend API.
+ */
+
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:5000';
+
+// Parses the JSON response; failed requests throw with the backend's error details
+export async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, init);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || result.message || 'Request failed');
+  }
+  return result as T;
+}
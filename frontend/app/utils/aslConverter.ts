@@ -1,4 +1,12 @@
 import { Node, Edge } from 'reactflow';
+import {
+  ChoiceRule,
+  describeRule,
+  getChoiceHandleId,
+  DEFAULT_CHOICE_HANDLE_ID,
+} from './choiceRules';
+import { Catcher, Retrier, CATCH_EDGE_STYLE, ERROR_HANDLE_ID, describeCatcher } from './errorHandling';
+import type { Diagnostic } from './aslValidator';
 
 export interface ASLState {
   Type: string;
@@ -7,9 +15,15 @@ export interface ASLState {
   End?: boolean;
   Resource?: string;
   Parameters?: Record<string, unknown>;
+  Arguments?: Record<string, unknown> | string;
+  QueryLanguage?: 'JSONPath' | 'JSONata';
+  TimeoutSeconds?: number;
+  HeartbeatSeconds?: number;
   Result?: unknown;
-  Choices?: Array<{ Next?: string; Variable?: string }>;
+  Choices?: ChoiceRule[];
   Default?: string;
+  Retry?: Retrier[];
+  Catch?: Catcher[];
   [key: string]: unknown;
 }
 
@@ -17,186 +31,556 @@ export interface ASLDefinition {
   Comment?: string;
   StartAt: string;
   States: Record<string, ASLState>;
+  [key: string]: unknown;
 }
 
 /**
- * Converts React Flow nodes and edges to Amazon States Language (ASL) JSON
+ * Top-level definition fields other than StartAt/States (Comment, TimeoutSeconds,
+ * Version, QueryLanguage, ...). Kept alongside the canvas so they survive a round trip.
  */
-export function convertToASL(nodes: Node[], edges: Edge[]): ASLDefinition | null {
-  if (nodes.length === 0) {
-    return null;
+export type ASLDefinitionMetadata = Omit<ASLDefinition, 'StartAt' | 'States'>;
+
+/**
+ * Data carried by every state node on the canvas.
+ * `fullState` holds the ASL fields of the state; transitions (Next/End, the
+ * Next of each Choice rule and of each Catch) are derived from edges when
+ * converting back to ASL.
+ */
+export interface StateNodeData {
+  label: string;
+  stateType: string;
+  stateName?: string;
+  result?: unknown;
+  resultPath?: string;
+  resource?: string;
+  parameters?: Record<string, unknown>;
+  fullState?: ASLState;
+  isStart?: boolean;
+  // Parallel/Map group nodes can be collapsed to hide their inner states
+  collapsed?: boolean;
+  expandedSize?: { width: number; height: number };
+  // Validation results of the node, only set on the nodes handed to React Flow
+  diagnostics?: Diagnostic[];
+}
+
+export type TransitionKind = 'next' | 'choice' | 'default' | 'catch';
+
+export interface TransitionEdgeData {
+  kind: TransitionKind;
+  index?: number;
+}
+
+// States that end the execution (or branch) on their own and never carry Next/End
+export const TERMINAL_STATE_TYPES = new Set(['Succeed', 'Fail']);
+
+export const DEFAULT_DEFINITION_COMMENT = 'State machine generated from Flow Builder';
+
+// React Flow node type used to render each ASL state type
+const NODE_TYPES_BY_STATE_TYPE: Record<string, string> = {
+  Task: 'task',
+  Choice: 'choice',
+  Wait: 'wait',
+  Succeed: 'succeed',
+  Fail: 'fail',
+  Parallel: 'parallel',
+  Map: 'map',
+};
+
+// Container for the states of one Parallel branch; not a state itself
+export const BRANCH_NODE_TYPE = 'branch';
+
+export interface BranchNodeData {
+  label: string;
+  branchIndex: number;
+}
+
+export function getNodeType(stateType: string): string {
+  return NODE_TYPES_BY_STATE_TYPE[stateType] || 'pass';
+}
+
+export function getStateName(node: Node): string {
+  return (node.data?.stateName as string | undefined) || `State_${node.id}`;
+}
+
+function getTransitionKind(edge: Edge): TransitionKind {
+  return (edge.data as TransitionEdgeData | undefined)?.kind || 'next';
+}
+
+/**
+ * Describes the transition an edge drawn from the given source handle represents.
+ */
+export function getTransitionForHandle(sourceHandle?: string | null): TransitionEdgeData {
+  if (sourceHandle === DEFAULT_CHOICE_HANDLE_ID) {
+    return { kind: 'default' };
+  }
+  if (sourceHandle === ERROR_HANDLE_ID) {
+    // The index is assigned when the edge adds a new catcher to the source state
+    return { kind: 'catch' };
+  }
+  const choiceMatch = sourceHandle?.match(/^choice-(\d+)$/);
+  if (choiceMatch) {
+    return { kind: 'choice', index: Number(choiceMatch[1]) };
   }
+  return { kind: 'next' };
+}
 
-  // Find the start node (first node or node with no incoming edges)
-  const nodesWithIncoming = new Set(edges.map((e) => e.target));
-  const startNode = nodes.find((n) => !nodesWithIncoming.has(n.id)) || nodes[0];
+/**
+ * Moves the indexed edges (Choice rules or catchers) of a node after its list was
+ * edited: `indexMap[oldIndex]` is the new index, or null when the entry was removed.
+ */
+export function remapIndexedEdges(
+  edges: Edge[],
+  nodeId: string,
+  kind: 'choice' | 'catch',
+  indexMap: Array<number | null>,
+  update: (edge: Edge, newIndex: number) => Edge
+): Edge[] {
+  return edges.flatMap((edge) => {
+    const transition = edge.data as TransitionEdgeData | undefined;
+    if (edge.source !== nodeId || transition?.kind !== kind || transition.index === undefined) {
+      return [edge];
+    }
+    const newIndex = indexMap[transition.index];
+    if (newIndex === null || newIndex === undefined) {
+      return [];
+    }
+    return [update(edge, newIndex)];
+  });
+}
 
-  if (!startNode) {
-    return null;
+/**
+ * Dashed error-path edge from a state's error handle to the state its catcher falls back to.
+ */
+export function createCatchEdge(source: string, target: string, index: number, catcher: Catcher): Edge {
+  return {
+    id: `edge-${source}-${target}-catch-${index}`,
+    source,
+    sourceHandle: ERROR_HANDLE_ID,
+    target,
+    label: describeCatcher(catcher),
+    style: CATCH_EDGE_STYLE,
+    labelStyle: { fill: '#ef4444' },
+    data: { kind: 'catch', index } satisfies TransitionEdgeData,
+  };
+}
+
+/**
+ * Builds the ASL fields of a single node, without transitions.
+ * Nodes created on the canvas (no `fullState`) fall back to a Pass state.
+ */
+export function buildState(node: Node): ASLState {
+  const data = (node.data || {}) as StateNodeData;
+
+  if (!data.fullState) {
+    return {
+      Type: 'Pass',
+      Comment: data.label || `Pass state ${node.id}`,
+      Result: data.result || data.label || 'Pass',
+    };
   }
 
+  const state = structuredClone(data.fullState);
+  delete state.Next;
+  delete state.End;
+
+  if (state.Type === 'Pass' && data.result !== undefined) {
+    state.Result = data.result;
+  }
+  if (data.resultPath !== undefined) {
+    state.ResultPath = data.resultPath;
+  }
+
+  return state;
+}
+
+interface ASLScope {
+  StartAt: string;
+  States: Record<string, ASLState>;
+}
+
+function getChildNodes(nodes: Node[], parentId?: string): Node[] {
+  return nodes.filter((n) => (n.parentNode || undefined) === parentId);
+}
+
+/**
+ * Ids of every node nested (at any depth) inside the given group node.
+ */
+export function getDescendantIds(nodes: Node[], parentId: string): Set<string> {
+  const descendants = new Set<string>();
+  const visit = (id: string) => {
+    getChildNodes(nodes, id).forEach((child) => {
+      descendants.add(child.id);
+      visit(child.id);
+    });
+  };
+  visit(parentId);
+  return descendants;
+}
+
+/**
+ * Builds the StartAt/States of one scope: the top level of the definition, a
+ * Parallel branch or a Map item processor. Nested scopes are built recursively
+ * from the children of group nodes.
+ */
+function buildScope(scopeNodes: Node[], nodes: Node[], edges: Edge[]): ASLScope {
+  const stateNodes = scopeNodes.filter((n) => n.type !== BRANCH_NODE_TYPE);
+  if (stateNodes.length === 0) {
+    return { StartAt: '', States: {} };
+  }
+
+  // Prefer the node marked as StartAt on import, otherwise the first node with no incoming edges
+  const scopeIds = new Set(stateNodes.map((n) => n.id));
+  const nodesWithIncoming = new Set(
+    edges.filter((e) => scopeIds.has(e.source) && scopeIds.has(e.target)).map((e) => e.target)
+  );
+  const startNode =
+    stateNodes.find((n) => n.data?.isStart) ||
+    stateNodes.find((n) => !nodesWithIncoming.has(n.id)) ||
+    stateNodes[0];
+
   const states: Record<string, ASLState> = {};
   const stateMap = new Map<string, string>(); // nodeId -> stateName
 
-  // Create states from nodes
-  nodes.forEach((node) => {
-    const stateName = `State_${node.id}`;
+  stateNodes.forEach((node) => {
+    const stateName = getStateName(node);
     stateMap.set(node.id, stateName);
+    const state = buildState(node);
 
-    if (node.type === 'pass' || node.data?.stateType === 'Pass') {
-      // Pass State - simplest Step Functions state
-      states[stateName] = {
-        Type: 'Pass',
-        Comment: node.data?.label || `Pass state ${node.id}`,
-        Result: node.data?.result || node.data?.label || 'Pass',
-        End: true, // Default to end state, will be updated if has outgoing edges
-      };
-    } else {
-      // Default to Pass state for unknown types
-      states[stateName] = {
-        Type: 'Pass',
-        Comment: node.data?.label || `State ${node.id}`,
-        Result: node.data?.label || 'Pass',
-        End: true,
-      };
+    if (state.Type === 'Parallel') {
+      const branches = getChildNodes(nodes, node.id)
+        .filter((n) => n.type === BRANCH_NODE_TYPE)
+        .sort((a, b) => (a.data as BranchNodeData).branchIndex - (b.data as BranchNodeData).branchIndex);
+      state.Branches = branches.map((branch) => buildScope(getChildNodes(nodes, branch.id), nodes, edges));
+    } else if (state.Type === 'Map') {
+      const processor = buildScope(getChildNodes(nodes, node.id), nodes, edges);
+      // Keep the legacy Iterator field when the imported definition used it
+      const field = state.Iterator ? 'Iterator' : 'ItemProcessor';
+      state[field] = { ...(state[field] as Record<string, unknown> | undefined), ...processor };
     }
+
+    states[stateName] = state;
   });
 
-  // Update states with Next transitions based on edges
-  edges.forEach((edge) => {
-    const sourceStateName = stateMap.get(edge.source);
-    const targetStateName = stateMap.get(edge.target);
+  // Apply transitions from edges. Choice rules are rewired from their edges so that
+  // reconnecting a branch on the canvas is reflected in the exported definition.
+  stateNodes.forEach((node) => {
+    const stateName = stateMap.get(node.id)!;
+    const state = states[stateName];
+    const outgoing = edges.filter((e) => e.source === node.id && stateMap.has(e.target));
 
-    if (sourceStateName && targetStateName && states[sourceStateName]) {
-      // Remove End flag and add Next
-      delete states[sourceStateName].End;
-      states[sourceStateName].Next = targetStateName;
+    if (state.Catch) {
+      const catchers = state.Catch.map((catcher) => {
+        const copy = { ...catcher };
+        delete copy.Next;
+        return copy;
+      });
+      outgoing.forEach((edge) => {
+        const data = edge.data as TransitionEdgeData | undefined;
+        if (data?.kind === 'catch' && data.index !== undefined && catchers[data.index]) {
+          catchers[data.index].Next = stateMap.get(edge.target);
+        }
+      });
+      state.Catch = catchers;
     }
-  });
 
-  // Mark the last node(s) as End states (nodes with no outgoing edges)
-  const nodesWithOutgoing = new Set(edges.map((e) => e.source));
-  nodes.forEach((node) => {
-    if (!nodesWithOutgoing.has(node.id)) {
-      const stateName = stateMap.get(node.id);
-      if (stateName && states[stateName]) {
-        delete states[stateName].Next;
-        states[stateName].End = true;
-      }
+    if (state.Type === 'Choice') {
+      const choices = (state.Choices || []).map((choice) => {
+        const rule = { ...choice };
+        delete rule.Next;
+        return rule;
+      });
+      delete state.Default;
+
+      outgoing.forEach((edge) => {
+        const data = edge.data as TransitionEdgeData | undefined;
+        const target = stateMap.get(edge.target)!;
+        if (data?.kind === 'choice' && data.index !== undefined && choices[data.index]) {
+          choices[data.index].Next = target;
+        } else if (data?.kind === 'default') {
+          state.Default = target;
+        }
+      });
+
+      state.Choices = choices;
+      return;
+    }
+
+    if (TERMINAL_STATE_TYPES.has(state.Type)) {
+      return;
+    }
+
+    const nextEdge = outgoing.find((e) => getTransitionKind(e) === 'next');
+    if (nextEdge) {
+      state.Next = stateMap.get(nextEdge.target);
+    } else {
+      state.End = true;
     }
   });
 
   return {
-    Comment: 'State machine generated from Flow Builder',
-    StartAt: stateMap.get(startNode.id) || `State_${startNode.id}`,
+    StartAt: stateMap.get(startNode.id) || getStateName(startNode),
     States: states,
   };
 }
 
 /**
- * Converts Amazon States Language (ASL) JSON back to React Flow nodes and edges
+ * Converts React Flow nodes and edges to Amazon States Language (ASL) JSON
  */
-export function convertFromASL(aslDefinition: ASLDefinition): { nodes: Node[]; edges: Edge[] } | null {
-  if (!aslDefinition || !aslDefinition.States || !aslDefinition.StartAt) {
+export function convertToASL(
+  nodes: Node[],
+  edges: Edge[],
+  metadata?: ASLDefinitionMetadata
+): ASLDefinition | null {
+  const topLevel = getChildNodes(nodes);
+  if (topLevel.length === 0) {
     return null;
   }
 
-  const nodes: Node[] = [];
+  return {
+    Comment: DEFAULT_DEFINITION_COMMENT,
+    ...metadata,
+    ...buildScope(topLevel, nodes, edges),
+  };
+}
+
+// Layout of imported definitions: one grid cell per state, groups sized to their content
+const STATE_SIZE = { width: 220, height: 100 };
+const CELL_GAP = { x: 80, y: 100 };
+const GROUP_PADDING = 40;
+const GROUP_HEADER = 70;
+
+interface ScopeLayout {
+  nodes: Node[];
+  edges: Edge[];
+  width: number;
+  height: number;
+}
+
+interface StateBlock {
+  nodes: Node[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Strips nested states from a Parallel/Map state; they live on child nodes instead.
+ */
+function withoutNestedStates(state: ASLState): ASLState {
+  const copy = structuredClone(state);
+  if (copy.Type === 'Parallel') {
+    copy.Branches = [];
+  } else if (copy.Type === 'Map') {
+    const field = copy.Iterator ? 'Iterator' : 'ItemProcessor';
+    const processor = { ...(copy[field] as Record<string, unknown> | undefined) };
+    delete processor.StartAt;
+    delete processor.States;
+    copy[field] = processor;
+  }
+  return copy;
+}
+
+function getNestedScope(state: ASLState): ASLScope | undefined {
+  return (state.ItemProcessor || state.Iterator) as ASLScope | undefined;
+}
+
+/**
+ * Creates the nodes and edges of one scope, positioned relative to `origin`
+ * inside the parent group (or the canvas for the top level).
+ */
+function layoutScope(
+  scope: ASLScope,
+  parentId: string | undefined,
+  origin: { x: number; y: number },
+  nextId: () => string
+): ScopeLayout {
   const edges: Edge[] = [];
   const stateToNodeId = new Map<string, string>();
-  let nodeCounter = 1;
+  const blocks: StateBlock[] = [];
 
-  // Create nodes from ASL states
-  const stateEntries = Object.entries(aslDefinition.States);
-  stateEntries.forEach(([stateName, state], index) => {
-    const nodeId = `node-${nodeCounter++}`;
+  Object.entries(scope.States || {}).forEach(([stateName, state]) => {
+    const nodeId = nextId();
     stateToNodeId.set(stateName, nodeId);
 
-    // Determine position (simple grid layout)
-    const cols = Math.ceil(Math.sqrt(stateEntries.length));
-    const row = Math.floor(index / cols);
-    const col = index % cols;
-    const x = col * 300 + 100;
-    const y = row * 200 + 100;
-
-    // Extract state information
-    const stateType = state.Type || 'Pass';
-    const comment = (state as { Comment?: string }).Comment || stateName;
-    const resource = (state as { Resource?: string }).Resource;
-    const parameters = (state as { Parameters?: Record<string, unknown> }).Parameters;
-    const result = (state as { Result?: unknown }).Result;
+    const data: StateNodeData = {
+      label: state.Comment || stateName,
+      stateType: state.Type || 'Pass',
+      stateName: stateName,
+      resource: state.Resource,
+      parameters: state.Parameters,
+      // Store full state so every ASL field survives the round trip
+      fullState: withoutNestedStates(state),
+      isStart: stateName === scope.StartAt,
+    };
 
     const node: Node = {
       id: nodeId,
-      type: 'pass', // Use pass node type for all states for now
-      data: {
-        label: comment,
-        stateType: stateType,
-        stateName: stateName,
-        resource: resource,
-        parameters: parameters,
-        result: result,
-        // Store full state for potential editing
-        fullState: state,
-      },
-      position: { x, y },
+      type: getNodeType(data.stateType),
+      data,
+      position: { x: 0, y: 0 },
+      ...(parentId ? { parentNode: parentId, extent: 'parent' as const } : {}),
     };
 
-    nodes.push(node);
+    const block: StateBlock = { nodes: [node], ...STATE_SIZE };
+
+    if (state.Type === 'Parallel' || state.Type === 'Map') {
+      const children: Node[] = [];
+      let contentWidth = 0;
+      let contentHeight = 0;
+
+      if (state.Type === 'Parallel') {
+        ((state.Branches || []) as ASLScope[]).forEach((branch, branchIndex) => {
+          const branchId = nextId();
+          const inner = layoutScope(branch, branchId, { x: GROUP_PADDING, y: GROUP_HEADER }, nextId);
+          const width = inner.width + GROUP_PADDING * 2;
+          const height = inner.height + GROUP_HEADER + GROUP_PADDING;
+          children.push(
+            {
+              id: branchId,
+              type: BRANCH_NODE_TYPE,
+              data: { label: `Branch ${branchIndex + 1}`, branchIndex } satisfies BranchNodeData,
+              position: { x: GROUP_PADDING + contentWidth, y: GROUP_HEADER },
+              parentNode: nodeId,
+              extent: 'parent',
+              style: { width, height },
+            },
+            ...inner.nodes
+          );
+          edges.push(...inner.edges);
+          contentWidth += width + GROUP_PADDING;
+          contentHeight = Math.max(contentHeight, height);
+        });
+        contentWidth = Math.max(contentWidth - GROUP_PADDING, 0);
+      } else {
+        const nested = getNestedScope(state);
+        if (nested) {
+          const inner = layoutScope(nested, nodeId, { x: GROUP_PADDING, y: GROUP_HEADER }, nextId);
+          children.push(...inner.nodes);
+          edges.push(...inner.edges);
+          contentWidth = inner.width;
+          contentHeight = inner.height;
+        }
+      }
+
+      const width = Math.max(contentWidth + GROUP_PADDING * 2, STATE_SIZE.width + GROUP_PADDING * 2);
+      const height = Math.max(contentHeight + GROUP_HEADER + GROUP_PADDING, STATE_SIZE.height + GROUP_HEADER);
+      node.style = { width, height };
+      block.nodes.push(...children);
+      block.width = width;
+      block.height = height;
+    }
+
+    blocks.push(block);
+  });
+
+  // Place blocks on a grid; rows and columns grow to fit the largest group they hold
+  const cols = Math.max(Math.ceil(Math.sqrt(blocks.length)), 1);
+  const colWidths: number[] = [];
+  const rowHeights: number[] = [];
+  blocks.forEach((block, index) => {
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    colWidths[col] = Math.max(colWidths[col] || 0, block.width + CELL_GAP.x);
+    rowHeights[row] = Math.max(rowHeights[row] || 0, block.height + CELL_GAP.y);
+  });
+
+  const nodes: Node[] = [];
+  blocks.forEach((block, index) => {
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    block.nodes[0].position = {
+      x: origin.x + colWidths.slice(0, col).reduce((sum, w) => sum + w, 0),
+      y: origin.y + rowHeights.slice(0, row).reduce((sum, h) => sum + h, 0),
+    };
+    // Parents must precede their children in the node list
+    nodes.push(...block.nodes);
   });
 
   // Create edges from Next transitions
-  Object.entries(aslDefinition.States).forEach(([stateName, state]) => {
+  Object.entries(scope.States || {}).forEach(([stateName, state]) => {
     const sourceNodeId = stateToNodeId.get(stateName);
     if (!sourceNodeId) return;
 
     // Handle Next transition
-    const nextState = (state as { Next?: string }).Next;
-    if (nextState) {
-      const targetNodeId = stateToNodeId.get(nextState);
+    if (state.Next) {
+      const targetNodeId = stateToNodeId.get(state.Next);
       if (targetNodeId) {
         edges.push({
           id: `edge-${sourceNodeId}-${targetNodeId}`,
           source: sourceNodeId,
           target: targetNodeId,
+          data: { kind: 'next' } satisfies TransitionEdgeData,
         });
       }
     }
 
+    // Handle Catch error paths
+    (state.Catch || []).forEach((catcher, index) => {
+      const targetNodeId = catcher.Next ? stateToNodeId.get(catcher.Next) : undefined;
+      if (targetNodeId) {
+        edges.push(createCatchEdge(sourceNodeId, targetNodeId, index, catcher));
+      }
+    });
+
     // Handle Choices (conditional branches)
     if (state.Type === 'Choice') {
-      const choiceState = state as unknown as { Choices?: Array<{ Next?: string; Variable?: string }>; Default?: string };
-      if (choiceState.Choices) {
-        choiceState.Choices.forEach((choice, index) => {
+      if (state.Choices) {
+        state.Choices.forEach((choice, index) => {
           if (choice.Next) {
             const targetNodeId = stateToNodeId.get(choice.Next);
             if (targetNodeId) {
               edges.push({
                 id: `edge-${sourceNodeId}-${targetNodeId}-${index}`,
                 source: sourceNodeId,
+                sourceHandle: getChoiceHandleId(index),
                 target: targetNodeId,
-                label: choice.Variable || `Choice ${index + 1}`,
+                label: describeRule(choice),
+                data: { kind: 'choice', index } satisfies TransitionEdgeData,
               });
             }
           }
         });
       }
       // Default choice
-      if (choiceState.Default) {
-        const defaultNodeId = stateToNodeId.get(choiceState.Default);
+      if (state.Default) {
+        const defaultNodeId = stateToNodeId.get(state.Default);
         if (defaultNodeId) {
           edges.push({
             id: `edge-${sourceNodeId}-${defaultNodeId}-default`,
             source: sourceNodeId,
+            sourceHandle: DEFAULT_CHOICE_HANDLE_ID,
             target: defaultNodeId,
             label: 'Default',
+            data: { kind: 'default' } satisfies TransitionEdgeData,
           });
         }
       }
     }
   });
 
-  return { nodes, edges };
+  return {
+    nodes,
+    edges,
+    width: Math.max(colWidths.reduce((sum, w) => sum + w, 0) - CELL_GAP.x, 0),
+    height: Math.max(rowHeights.reduce((sum, h) => sum + h, 0) - CELL_GAP.y, 0),
+  };
 }
 
+/**
+ * Converts Amazon States Language (ASL) JSON back to React Flow nodes and edges
+ */
+export function convertFromASL(
+  aslDefinition: ASLDefinition
+): { nodes: Node[]; edges: Edge[]; metadata: ASLDefinitionMetadata } | null {
+  if (!aslDefinition || !aslDefinition.States || !aslDefinition.StartAt) {
+    return null;
+  }
 
+  let nodeCounter = 1;
+  const metadata: ASLDefinitionMetadata = Object.fromEntries(
+    Object.entries(aslDefinition).filter(([key]) => key !== 'StartAt' && key !== 'States')
+  );
+
+  const { nodes, edges } = layoutScope(aslDefinition, undefined, { x: 100, y: 100 }, () => `node-${nodeCounter++}`);
+
+  return { nodes, edges, metadata };
+}
@@ -0,0 +1,400 @@
+/**
+ * Static checks of a workflow before it is deployed. Graph checks run on the
+ * canvas (reachability, start candidates, missing or ambiguous transitions) and
+ * definition checks run on the ASL produced by `convertToASL` (fields allowed
+ * per Type, path syntax, dangling targets, size limits). Each diagnostic points
+ * at the node it concerns so the canvas can show it as a badge.
+ */
+import { Node, Edge } from 'reactflow';
+import {
+  ASLDefinition,
+  ASLDefinitionMetadata,
+  ASLState,
+  StateNodeData,
+  TransitionEdgeData,
+  BRANCH_NODE_TYPE,
+  TERMINAL_STATE_TYPES,
+  convertToASL,
+  getStateName,
+} from './aslConverter';
+import { validateFailState, validateWaitState } from './flowControl';
+import { validateJsonataValue, validatePath, validatePayloadTemplate } from './jsonPath';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  stateName?: string;
+  nodeId?: string;
+}
+
+// Step Functions rejects definitions larger than 1 MiB and state names longer than 80 characters
+export const MAX_DEFINITION_BYTES = 1024 * 1024;
+const MAX_STATE_NAME_LENGTH = 80;
+
+const COMMON_FIELDS = ['Type', 'Comment', 'QueryLanguage'];
+
+const ALLOWED_FIELDS: Record<string, string[]> = {
+  Pass: ['Next', 'End', 'InputPath', 'OutputPath', 'ResultPath', 'Parameters', 'Result', 'Assign', 'Output'],
+  Task: [
+    'Next', 'End', 'Resource', 'InputPath', 'OutputPath', 'ResultPath', 'Parameters', 'ResultSelector',
+    'Retry', 'Catch', 'TimeoutSeconds', 'TimeoutSecondsPath', 'HeartbeatSeconds', 'HeartbeatSecondsPath',
+    'Credentials', 'Arguments', 'Output', 'Assign',
+  ],
+  Choice: ['Choices', 'Default', 'InputPath', 'OutputPath', 'Assign', 'Output'],
+  Wait: ['Next', 'End', 'Seconds', 'Timestamp', 'SecondsPath', 'TimestampPath', 'InputPath', 'OutputPath', 'Assign', 'Output'],
+  Succeed: ['InputPath', 'OutputPath', 'Output'],
+  Fail: ['Error', 'Cause', 'ErrorPath', 'CausePath'],
+  Parallel: [
+    'Branches', 'Next', 'End', 'InputPath', 'OutputPath', 'ResultPath', 'Parameters', 'ResultSelector',
+    'Retry', 'Catch', 'Arguments', 'Output', 'Assign',
+  ],
+  Map: [
+    'Next', 'End', 'ItemProcessor', 'Iterator', 'ItemsPath', 'Items', 'ItemReader', 'ItemSelector', 'ItemBatcher',
+    'ResultWriter', 'MaxConcurrency', 'MaxConcurrencyPath', 'ToleratedFailurePercentage',
+    'ToleratedFailurePercentagePath', 'ToleratedFailureCount', 'ToleratedFailureCountPath', 'Label',
+    'InputPath', 'OutputPath', 'ResultPath', 'Parameters', 'ResultSelector', 'Retry', 'Catch', 'Output', 'Assign',
+  ],
+};
+
+const JSONPATH_ONLY_FIELDS = [
+  'InputPath', 'OutputPath', 'ResultPath', 'Parameters', 'ResultSelector', 'ItemsPath', 'SecondsPath',
+  'TimestampPath', 'ErrorPath', 'CausePath', 'TimeoutSecondsPath', 'HeartbeatSecondsPath', 'MaxConcurrencyPath',
+  'ToleratedFailurePercentagePath', 'ToleratedFailureCountPath',
+];
+const JSONATA_ONLY_FIELDS = ['Arguments', 'Output', 'Items'];
+
+interface Scope {
+  StartAt?: string;
+  States?: Record<string, ASLState>;
+}
+
+type QueryLanguage = 'JSONPath' | 'JSONata';
+
+function checkState(
+  stateName: string,
+  state: ASLState,
+  scopeNames: Set<string>,
+  defaultLanguage: QueryLanguage,
+  report: (severity: DiagnosticSeverity, code: string, message: string) => void
+) {
+  const allowed = ALLOWED_FIELDS[state.Type];
+  if (!allowed) {
+    report('error', 'INVALID_TYPE', `Unknown state type "${state.Type}".`);
+    return;
+  }
+
+  const language: QueryLanguage = state.QueryLanguage || defaultLanguage;
+  Object.keys(state).forEach((field) => {
+    if (!COMMON_FIELDS.includes(field) && !allowed.includes(field)) {
+      report('error', 'FIELD_NOT_ALLOWED', `Field "${field}" is not allowed in a ${state.Type} state.`);
+    } else if (language === 'JSONata' && JSONPATH_ONLY_FIELDS.includes(field)) {
+      report('error', 'FIELD_NOT_ALLOWED', `Field "${field}" is JSONPath-only; use JSONata fields in this state.`);
+    } else if (language === 'JSONPath' && JSONATA_ONLY_FIELDS.includes(field)) {
+      report('error', 'FIELD_NOT_ALLOWED', `Field "${field}" requires QueryLanguage "JSONata".`);
+    }
+  });
+
+  if (stateName.length > MAX_STATE_NAME_LENGTH) {
+    report('error', 'NAME_TOO_LONG', `State names are limited to ${MAX_STATE_NAME_LENGTH} characters.`);
+  }
+
+  // Transitions
+  const checkTarget = (target: unknown, what: string) => {
+    if (typeof target === 'string' && !scopeNames.has(target)) {
+      report('error', 'DANGLING_TRANSITION', `${what} points to "${target}", which is not a state in this scope.`);
+    }
+  };
+  checkTarget(state.Next, 'Next');
+  checkTarget(state.Default, 'Default');
+  (state.Choices || []).forEach((rule, i) => checkTarget(rule.Next, `Choice rule ${i + 1}`));
+  (state.Catch || []).forEach((catcher, i) => checkTarget(catcher.Next, `Catcher ${i + 1}`));
+
+  if (!TERMINAL_STATE_TYPES.has(state.Type) && state.Type !== 'Choice') {
+    if (state.Next !== undefined && state.End) {
+      report('error', 'NEXT_AND_END', 'A state cannot have both Next and End.');
+    } else if (state.Next === undefined && !state.End) {
+      report('error', 'MISSING_TRANSITION', 'State needs either Next or End.');
+    }
+  }
+
+  // Type-specific fields
+  switch (state.Type) {
+    case 'Task':
+      if (!state.Resource) report('error', 'MISSING_FIELD', 'Task states need a Resource.');
+      if (state.TimeoutSeconds !== undefined && state.HeartbeatSeconds !== undefined && state.HeartbeatSeconds >= state.TimeoutSeconds) {
+        report('error', 'INVALID_TIMEOUT', 'HeartbeatSeconds must be smaller than TimeoutSeconds.');
+      }
+      (['TimeoutSeconds', 'HeartbeatSeconds'] as const).forEach((field) => {
+        const value = state[field];
+        if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+          report('error', 'INVALID_TIMEOUT', `${field} must be a positive integer.`);
+        }
+      });
+      break;
+    case 'Choice':
+      if (!state.Choices || state.Choices.length === 0) {
+        report('error', 'MISSING_FIELD', 'Choice states need at least one rule.');
+      }
+      (state.Choices || []).forEach((rule, i) => {
+        if (!rule.Next) report('error', 'MISSING_TRANSITION', `Choice rule ${i + 1} has no target state.`);
+      });
+      if (!state.Default) {
+        report('warning', 'NO_DEFAULT', 'No Default: input matching no rule fails with States.NoChoiceMatched.');
+      }
+      break;
+    case 'Wait':
+      validateWaitState(state).forEach((message) => report('error', 'INVALID_WAIT', message));
+      break;
+    case 'Fail':
+      validateFailState(state).forEach((message) => report('error', 'INVALID_FAIL', message));
+      break;
+    case 'Parallel':
+      if (!Array.isArray(state.Branches) || state.Branches.length === 0) {
+        report('error', 'MISSING_FIELD', 'Parallel states need at least one branch.');
+      }
+      break;
+    case 'Map': {
+      const processor = (state.ItemProcessor || state.Iterator) as Scope | undefined;
+      if (!processor?.States || Object.keys(processor.States).length === 0) {
+        report('error', 'MISSING_FIELD', 'Map states need at least one state in their item processor.');
+      }
+      break;
+    }
+  }
+  (state.Catch || []).forEach((catcher, i) => {
+    if (!catcher.Next) report('error', 'MISSING_TRANSITION', `Catcher ${i + 1} has no target state.`);
+  });
+
+  // Path and payload syntax
+  if (language === 'JSONPath') {
+    (['InputPath', 'OutputPath', 'ResultPath'] as const).forEach((field) => {
+      const value = state[field];
+      if (typeof value === 'string') {
+        const error = validatePath(value, { reference: field === 'ResultPath' });
+        if (error) report('error', 'INVALID_PATH', `${field}: ${error}`);
+      }
+    });
+    (['Parameters', 'ResultSelector', 'ItemSelector', 'Assign'] as const).forEach((field) => {
+      validatePayloadTemplate(state[field], field).forEach((message) => report('error', 'INVALID_PATH', message));
+    });
+  } else {
+    (['Arguments', 'Output', 'Assign', 'ItemSelector', 'Items'] as const).forEach((field) => {
+      validateJsonataValue(state[field], field).forEach((message) => report('error', 'INVALID_JSONATA', message));
+    });
+  }
+}
+
+function checkScope(
+  scope: Scope,
+  defaultLanguage: QueryLanguage,
+  diagnostics: Diagnostic[],
+  seenNames: Set<string>
+) {
+  const states = scope.States || {};
+  const names = new Set(Object.keys(states));
+
+  if (!scope.StartAt || !names.has(scope.StartAt)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'INVALID_START',
+      message: `StartAt "${scope.StartAt ?? ''}" is not a state in this scope.`,
+    });
+  }
+
+  Object.entries(states).forEach(([stateName, state]) => {
+    const report = (severity: DiagnosticSeverity, code: string, message: string) =>
+      diagnostics.push({ severity, code, message, stateName });
+
+    // State names are unique across the whole state machine, nested scopes included
+    if (seenNames.has(stateName)) {
+      report('error', 'DUPLICATE_NAME', `State name "${stateName}" is used more than once.`);
+    }
+    seenNames.add(stateName);
+
+    checkState(stateName, state, names, defaultLanguage, report);
+
+    const language = state.QueryLanguage || defaultLanguage;
+    if (state.Type === 'Parallel' && Array.isArray(state.Branches)) {
+      (state.Branches as Scope[]).forEach((branch) => checkScope(branch, language, diagnostics, seenNames));
+    }
+    const processor = (state.ItemProcessor || state.Iterator) as Scope | undefined;
+    if (state.Type === 'Map' && processor?.States) {
+      checkScope(processor, language, diagnostics, seenNames);
+    }
+  });
+}
+
+/**
+ * Checks an ASL definition against the States Language rules the builder knows about.
+ */
+export function validateDefinition(definition: ASLDefinition): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const language: QueryLanguage = definition.QueryLanguage === 'JSONata' ? 'JSONata' : 'JSONPath';
+
+  checkScope(definition, language, diagnostics, new Set());
+
+  const size = new TextEncoder().encode(JSON.stringify(definition)).length;
+  if (size > MAX_DEFINITION_BYTES) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'DEFINITION_TOO_LARGE',
+      message: `Definition is ${size} bytes; Step Functions accepts at most ${MAX_DEFINITION_BYTES}.`,
+    });
+  } else if (size > MAX_DEFINITION_BYTES * 0.8) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'DEFINITION_TOO_LARGE',
+      message: `Definition is ${size} bytes, close to the ${MAX_DEFINITION_BYTES}-byte limit.`,
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Checks that only show up on the canvas: things `convertToASL` silently resolves
+ * (extra start candidates, a second outgoing edge) and states nothing leads to.
+ */
+function checkGraph(nodes: Node[], edges: Edge[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const stateNodes = nodes.filter((n) => n.type !== BRANCH_NODE_TYPE);
+
+  // Group states by the scope they live in: top level, a Parallel branch or a Map
+  const scopes = new Map<string, Node[]>();
+  stateNodes.forEach((node) => {
+    const key = node.parentNode || '';
+    scopes.set(key, [...(scopes.get(key) || []), node]);
+  });
+
+  const names = new Map<string, Node[]>();
+  stateNodes.forEach((node) => {
+    const name = getStateName(node);
+    names.set(name, [...(names.get(name) || []), node]);
+  });
+  names.forEach((sameName, name) => {
+    if (sameName.length > 1) {
+      sameName.forEach((node) =>
+        diagnostics.push({
+          severity: 'error',
+          code: 'DUPLICATE_NAME',
+          message: `State name "${name}" is used by ${sameName.length} nodes.`,
+          nodeId: node.id,
+          stateName: name,
+        })
+      );
+    }
+  });
+
+  scopes.forEach((scopeNodes) => {
+    const ids = new Set(scopeNodes.map((n) => n.id));
+    const scopeEdges = edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+
+    const explicitStart = scopeNodes.find((n) => (n.data as StateNodeData).isStart);
+    const roots = scopeNodes.filter((n) => !scopeEdges.some((e) => e.target === n.id));
+    const start = explicitStart || roots[0] || scopeNodes[0];
+
+    if (!explicitStart && roots.length > 1) {
+      roots.slice(1).forEach((node) =>
+        diagnostics.push({
+          severity: 'warning',
+          code: 'MULTIPLE_START',
+          message: `Several states have no incoming transition; "${getStateName(start)}" is used as the start state.`,
+          nodeId: node.id,
+          stateName: getStateName(node),
+        })
+      );
+    }
+
+    const reachable = new Set<string>([start.id]);
+    const queue = [start.id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      scopeEdges
+        .filter((e) => e.source === current && !reachable.has(e.target))
+        .forEach((e) => {
+          reachable.add(e.target);
+          queue.push(e.target);
+        });
+    }
+    scopeNodes
+      .filter((n) => !reachable.has(n.id) && !(roots.length > 1 && !explicitStart && roots.includes(n)))
+      .forEach((node) =>
+        diagnostics.push({
+          severity: 'warning',
+          code: 'UNREACHABLE_STATE',
+          message: 'No transition leads to this state from the start state; it will never run.',
+          nodeId: node.id,
+          stateName: getStateName(node),
+        })
+      );
+
+    scopeNodes.forEach((node) => {
+      const nextEdges = scopeEdges.filter(
+        (e) => e.source === node.id && ((e.data as TransitionEdgeData | undefined)?.kind || 'next') === 'next'
+      );
+      if (nextEdges.length > 1) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'MULTIPLE_NEXT',
+          message: `${nextEdges.length} outgoing transitions, but a state has a single Next; use a Choice or Parallel state to branch.`,
+          nodeId: node.id,
+          stateName: getStateName(node),
+        });
+      }
+    });
+  });
+
+  // Transitions that leave their scope are dropped by convertToASL
+  edges.forEach((edge) => {
+    const source = nodes.find((n) => n.id === edge.source);
+    const target = nodes.find((n) => n.id === edge.target);
+    if (source && target && (source.parentNode || '') !== (target.parentNode || '')) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'CROSS_SCOPE_TRANSITION',
+        message: `Transition to "${getStateName(target)}" leaves the branch or Map this state belongs to.`,
+        nodeId: source.id,
+        stateName: getStateName(source),
+      });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Validates the canvas and the definition it produces. Definition diagnostics are
+ * attached to the node of the state they concern.
+ */
+export function validateFlow(nodes: Node[], edges: Edge[], metadata?: ASLDefinitionMetadata): Diagnostic[] {
+  const definition = convertToASL(nodes, edges, metadata);
+  if (!definition) {
+    return [{ severity: 'error', code: 'EMPTY_DEFINITION', message: 'Add at least one state to the flow.' }];
+  }
+
+  const graphDiagnostics = checkGraph(nodes, edges);
+  const duplicated = new Set(graphDiagnostics.filter((d) => d.code === 'DUPLICATE_NAME').map((d) => d.stateName));
+
+  const nodeIdsByName = new Map<string, string>();
+  nodes
+    .filter((n) => n.type !== BRANCH_NODE_TYPE)
+    .forEach((node) => nodeIdsByName.set(getStateName(node), node.id));
+
+  const definitionDiagnostics = validateDefinition(definition)
+    // Duplicates are already reported per node by the graph checks
+    .filter((d) => !(d.code === 'DUPLICATE_NAME' && duplicated.has(d.stateName)))
+    .map((d) => (d.stateName ? { ...d, nodeId: nodeIdsByName.get(d.stateName) } : d));
+
+  return [...graphDiagnostics, ...definitionDiagnostics];
+}
+
+export function groupDiagnosticsByNode(diagnostics: Diagnostic[]): Map<string, Diagnostic[]> {
+  const byNode = new Map<string, Diagnostic[]>();
+  diagnostics.forEach((diagnostic) => {
+    if (!diagnostic.nodeId) return;
+    byNode.set(diagnostic.nodeId, [...(byNode.get(diagnostic.nodeId) || []), diagnostic]);
+  });
+  return byNode;
+}
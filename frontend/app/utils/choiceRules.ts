@@ -0,0 +1,165 @@
+/**
+ * Helpers for editing Choice state rules (comparison operators, And/Or/Not nesting
+ * and JSONata `Condition` rules).
+ */
+
+export interface ChoiceRule {
+  Variable?: string;
+  Next?: string;
+  Comment?: string;
+  And?: ChoiceRule[];
+  Or?: ChoiceRule[];
+  Not?: ChoiceRule;
+  Condition?: string;
+  [operator: string]: unknown;
+}
+
+export type ChoiceValueKind = 'string' | 'number' | 'boolean' | 'timestamp' | 'path';
+
+export interface ChoiceOperator {
+  name: string;
+  symbol: string;
+  valueKind: ChoiceValueKind;
+}
+
+const comparison = (prefix: string, valueKind: ChoiceValueKind): ChoiceOperator[] => {
+  const ops: Array<[string, string]> = [
+    ['Equals', '=='],
+    ['LessThan', '<'],
+    ['GreaterThan', '>'],
+    ['LessThanEquals', '<='],
+    ['GreaterThanEquals', '>='],
+  ];
+  return ops.flatMap(([suffix, symbol]) => [
+    { name: `${prefix}${suffix}`, symbol, valueKind },
+    { name: `${prefix}${suffix}Path`, symbol, valueKind: 'path' as const },
+  ]);
+};
+
+export const CHOICE_OPERATORS: ChoiceOperator[] = [
+  ...comparison('String', 'string'),
+  { name: 'StringMatches', symbol: 'matches', valueKind: 'string' },
+  ...comparison('Numeric', 'number'),
+  { name: 'BooleanEquals', symbol: '==', valueKind: 'boolean' },
+  { name: 'BooleanEqualsPath', symbol: '==', valueKind: 'path' },
+  ...comparison('Timestamp', 'timestamp'),
+  { name: 'IsNull', symbol: 'is null', valueKind: 'boolean' },
+  { name: 'IsPresent', symbol: 'is present', valueKind: 'boolean' },
+  { name: 'IsNumeric', symbol: 'is numeric', valueKind: 'boolean' },
+  { name: 'IsString', symbol: 'is string', valueKind: 'boolean' },
+  { name: 'IsBoolean', symbol: 'is boolean', valueKind: 'boolean' },
+  { name: 'IsTimestamp', symbol: 'is timestamp', valueKind: 'boolean' },
+];
+
+const OPERATORS_BY_NAME = new Map(CHOICE_OPERATORS.map((op) => [op.name, op]));
+
+export type ChoiceRuleKind = 'comparison' | 'And' | 'Or' | 'Not' | 'Condition';
+
+export function getRuleKind(rule: ChoiceRule): ChoiceRuleKind {
+  if (Array.isArray(rule.And)) return 'And';
+  if (Array.isArray(rule.Or)) return 'Or';
+  if (rule.Not) return 'Not';
+  if (typeof rule.Condition === 'string') return 'Condition';
+  return 'comparison';
+}
+
+export function getRuleOperator(rule: ChoiceRule): ChoiceOperator | undefined {
+  const name = Object.keys(rule).find((key) => OPERATORS_BY_NAME.has(key));
+  return name ? OPERATORS_BY_NAME.get(name) : undefined;
+}
+
+export function createRule(kind: ChoiceRuleKind = 'comparison'): ChoiceRule {
+  switch (kind) {
+    case 'And':
+    case 'Or':
+      return { [kind]: [createRule(), createRule()] };
+    case 'Not':
+      return { Not: createRule() };
+    case 'Condition':
+      return { Condition: '{% $states.input.value = true %}' };
+    default:
+      return { Variable: '$.value', StringEquals: '' };
+  }
+}
+
+/**
+ * Replaces the operator of a comparison rule, converting the operand to the
+ * new operator's value kind.
+ */
+export function setRuleOperator(rule: ChoiceRule, operatorName: string): ChoiceRule {
+  const previous = getRuleOperator(rule);
+  const next = OPERATORS_BY_NAME.get(operatorName);
+  if (!next) return rule;
+
+  const updated: ChoiceRule = { ...rule };
+  let value = previous ? updated[previous.name] : undefined;
+  if (previous) delete updated[previous.name];
+
+  if (!previous || previous.valueKind !== next.valueKind) {
+    value = defaultValueFor(next.valueKind);
+  }
+  updated[next.name] = value;
+  return updated;
+}
+
+function defaultValueFor(kind: ChoiceValueKind): unknown {
+  switch (kind) {
+    case 'number':
+      return 0;
+    case 'boolean':
+      return true;
+    case 'path':
+      return '$.other';
+    case 'timestamp':
+      return new Date(0).toISOString();
+    default:
+      return '';
+  }
+}
+
+/**
+ * Parses a value typed in the rule builder into the operand type of the operator.
+ */
+export function parseOperand(kind: ChoiceValueKind, raw: string): unknown {
+  switch (kind) {
+    case 'number': {
+      const parsed = Number(raw);
+      return raw.trim() === '' || Number.isNaN(parsed) ? raw : parsed;
+    }
+    case 'boolean':
+      return raw === 'true';
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Short human readable form of a rule, used as the label of its branch edge.
+ */
+export function describeRule(rule: ChoiceRule): string {
+  switch (getRuleKind(rule)) {
+    case 'And':
+      return rule.And!.map(describeRule).join(' && ');
+    case 'Or':
+      return rule.Or!.map(describeRule).join(' || ');
+    case 'Not':
+      return `!(${describeRule(rule.Not!)})`;
+    case 'Condition':
+      return rule.Condition!.replace(/^\{%\s*|\s*%\}$/g, '');
+    default: {
+      const operator = getRuleOperator(rule);
+      if (!operator) return rule.Variable || 'rule';
+      const value = rule[operator.name];
+      if (operator.name.startsWith('Is')) {
+        return `${rule.Variable} ${value === false ? 'is not' : 'is'} ${operator.symbol.replace('is ', '')}`;
+      }
+      return `${rule.Variable} ${operator.symbol} ${typeof value === 'string' ? JSON.stringify(value) : String(value)}`;
+    }
+  }
+}
+
+export function getChoiceHandleId(index: number): string {
+  return `choice-${index}`;
+}
+
+export const DEFAULT_CHOICE_HANDLE_ID = 'default';
@@ -0,0 +1,75 @@
+/**
+ * Canvas view of the difference between two deployed versions, as returned by
+ * GET /state-machines/:id/versions/diff.
+ */
+import type { ASLDefinition, ASLState } from './aslConverter';
+
+export interface DefinitionDiff {
+  added: string[];
+  removed: string[];
+  changed: Array<{ state: string; fields: string[] }>;
+  definitionFields: string[];
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+// Ring drawn around a state node on the diff canvas
+export const DIFF_NODE_CLASS: Record<DiffStatus, string> = {
+  added: 'rounded-lg ring-4 ring-green-500/80',
+  removed: 'rounded-lg ring-4 ring-red-500/80 opacity-60',
+  changed: 'rounded-lg ring-4 ring-amber-400/80',
+};
+
+interface Scope {
+  StartAt?: string;
+  States?: Record<string, ASLState>;
+}
+
+// Scopes keyed by the state that owns them: '' for the top level, `<state>#<branch>` or `<state>#processor`
+function collectScopes(scope: Scope, key: string, scopes: Map<string, Scope>) {
+  scopes.set(key, scope);
+  Object.entries(scope.States || {}).forEach(([name, state]) => {
+    ((state.Branches || []) as Scope[]).forEach((branch, index) =>
+      collectScopes(branch, `${name}#${index}`, scopes)
+    );
+    const processor = (state.ItemProcessor || state.Iterator) as Scope | undefined;
+    if (processor) collectScopes(processor, `${name}#processor`, scopes);
+  });
+  return scopes;
+}
+
+/**
+ * The newer definition with the removed states put back in the scope they had,
+ * so both sides show on one canvas, plus the diff status of every affected state.
+ */
+export function buildDiffDefinition(
+  from: ASLDefinition,
+  to: ASLDefinition,
+  diff: DefinitionDiff
+): { definition: ASLDefinition; statusByState: Map<string, DiffStatus> } {
+  const definition = structuredClone(to);
+  const targetScopes = collectScopes(definition, '', new Map());
+  const removed = new Set(diff.removed);
+
+  const restore = (scope: Scope, key: string) => {
+    Object.entries(scope.States || {}).forEach(([name, state]) => {
+      if (removed.has(name)) {
+        // Nested states of a removed Parallel/Map come back with it
+        const target = targetScopes.get(key) || definition;
+        target.States = { ...target.States, [name]: structuredClone(state) };
+        return;
+      }
+      ((state.Branches || []) as Scope[]).forEach((branch, index) => restore(branch, `${name}#${index}`));
+      const processor = (state.ItemProcessor || state.Iterator) as Scope | undefined;
+      if (processor) restore(processor, `${name}#processor`);
+    });
+  };
+  restore(from, '');
+
+  const statusByState = new Map<string, DiffStatus>();
+  diff.added.forEach((name) => statusByState.set(name, 'added'));
+  diff.removed.forEach((name) => statusByState.set(name, 'removed'));
+  diff.changed.forEach(({ state }) => statusByState.set(state, 'changed'));
+
+  return { definition, statusByState };
+}
@@ -0,0 +1,75 @@
+/**
+ * Workflows saved from the builder without deploying them, stored by the /drafts endpoints.
+ */
+import type { Edge, Node } from 'reactflow';
+import type { ASLDefinitionMetadata } from './aslConverter';
+import { request } from './api';
+
+// The canvas as React Flow keeps it, positions included
+export interface DraftGraph {
+  nodes: Node[];
+  edges: Edge[];
+  definitionMeta?: ASLDefinitionMetadata;
+}
+
+export interface Draft {
+  id: string;
+  name: string;
+  graph: DraftGraph;
+  stateMachineArn: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A draft listed by GET /drafts, with the number of states instead of the graph
+export interface DraftSummary extends Omit<Draft, 'graph'> {
+  states: number;
+}
+
+export interface SaveDraftRequest {
+  name?: string;
+  graph: DraftGraph;
+  stateMachineArn: string | null;
+}
+
+// Clears what React Flow sets while editing (selection, dragging), so selecting a node is not a change;
+// undefined fields are left out of the saved JSON
+export function toDraftGraph(nodes: Node[], edges: Edge[], definitionMeta?: ASLDefinitionMetadata): DraftGraph {
+  return {
+    nodes: nodes.map((node) => ({ ...node, selected: undefined, dragging: undefined, positionAbsolute: undefined })),
+    edges: edges.map((edge) => ({ ...edge, selected: undefined })),
+    definitionMeta,
+  };
+}
+
+// Node ids are node-<n>; new nodes must continue after the highest one in the draft
+export function nextNodeId(nodes: Node[]): number {
+  return nodes.reduce((next, node) => {
+    const match = /^node-(\d+)$/.exec(node.id);
+    return match ? Math.max(next, Number(match[1]) + 1) : next;
+  }, nodes.length + 1);
+}
+
+export async function fetchDrafts(): Promise<DraftSummary[]> {
+  const result = await request<{ drafts: DraftSummary[] }>('/drafts');
+  return result.drafts;
+}
+
+export async function fetchDraft(id: string): Promise<Draft> {
+  const result = await request<{ draft: Draft }>(`/drafts/${encodeURIComponent(id)}`);
+  return result.draft;
+}
+
+// Creates a draft without an id, otherwise overwrites the draft
+export async function saveDraft(id: string | null, body: SaveDraftRequest): Promise<Draft> {
+  const result = await request<{ draft: Draft }>(id ? `/drafts/${encodeURIComponent(id)}` : '/drafts', {
+    method: id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return result.draft;
+}
+
+export function deleteDraft(id: string): Promise<{ message: string }> {
+  return request(`/drafts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
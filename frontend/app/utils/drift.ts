@@ -0,0 +1,77 @@
+/**
+ * Drift between the database and AWS, as reported by GET /state-machines/drift.
+ */
+
+import { request } from './api';
+
+export type DriftStatus = 'IN_SYNC' | 'DRIFTED' | 'DELETED_IN_AWS' | 'ERROR';
+
+// Definitions are compared by hash, so database and aws hold the two hashes
+export interface DriftDifference {
+  field: string;
+  database: unknown;
+  aws: unknown;
+}
+
+export interface ExecutionDrift {
+  executionArn: string;
+  name: string | null;
+  missingInAws: boolean;
+  differences: DriftDifference[];
+}
+
+export interface StateMachineDrift {
+  id: string;
+  name: string;
+  stateMachineArn: string;
+  drift: DriftStatus;
+  differences: DriftDifference[];
+  executions: ExecutionDrift[];
+  untrackedExecutions: number;
+  error: string | null;
+}
+
+export interface DriftReport {
+  checkedAt: string;
+  summary: {
+    stateMachines: number;
+    drifted: number;
+    deletedInAws: number;
+    errors: number;
+    driftedExecutions: number;
+  };
+  stateMachines: StateMachineDrift[];
+}
+
+export const DRIFT_STATUS_LABEL: Record<DriftStatus, string> = {
+  IN_SYNC: 'In sync',
+  DRIFTED: 'Drifted',
+  DELETED_IN_AWS: 'Deleted in AWS',
+  ERROR: 'Not checked',
+};
+
+export const DRIFT_STATUS_CLASS: Record<DriftStatus, string> = {
+  IN_SYNC: 'bg-green-500/20 text-green-300 border-green-500/30',
+  DRIFTED: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+  DELETED_IN_AWS: 'bg-red-500/20 text-red-300 border-red-500/30',
+  ERROR: 'bg-white/10 text-white/60 border-white/20',
+};
+
+export function formatDriftValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+export function fetchDriftReport(): Promise<DriftReport> {
+  return request<DriftReport>('/state-machines/drift');
+}
+
+// pull copies the AWS state machine into the database; push deploys the database copy
+export function resolveDrift(id: string, direction: 'pull' | 'push'): Promise<{ message: string }> {
+  return request(`/state-machines/${encodeURIComponent(id)}/drift/${direction}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({}),
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Retry and Catch configuration for Task, Parallel and Map states.
+ */
+
+export interface Retrier {
+  ErrorEquals: string[];
+  IntervalSeconds?: number;
+  MaxAttempts?: number;
+  BackoffRate?: number;
+  MaxDelaySeconds?: number;
+  JitterStrategy?: 'FULL' | 'NONE';
+  Comment?: string;
+}
+
+export interface Catcher {
+  ErrorEquals: string[];
+  Next?: string;
+  ResultPath?: string | null;
+  Comment?: string;
+  [key: string]: unknown;
+}
+
+// State types that accept Retry and Catch fields
+export const ERROR_HANDLING_STATE_TYPES = new Set(['Task', 'Parallel', 'Map']);
+
+export const ERROR_HANDLE_ID = 'error';
+
+export const PREDEFINED_ERROR_NAMES = [
+  'States.ALL',
+  'States.TaskFailed',
+  'States.Timeout',
+  'States.HeartbeatTimeout',
+  'States.Permissions',
+  'States.ResultPathMatchFailure',
+  'States.ParameterPathFailure',
+  'States.QueryEvaluationError',
+  'States.BranchFailed',
+  'States.NoChoiceMatched',
+  'States.IntrinsicFailure',
+  'States.ExceedToleratedFailureThreshold',
+  'States.ItemReaderFailed',
+  'States.ResultWriterFailed',
+];
+
+export function createRetrier(): Retrier {
+  return {
+    ErrorEquals: ['States.TaskFailed'],
+    IntervalSeconds: 1,
+    MaxAttempts: 3,
+    BackoffRate: 2,
+  };
+}
+
+export function createCatcher(): Catcher {
+  return {
+    ErrorEquals: ['States.ALL'],
+    ResultPath: '$.error',
+  };
+}
+
+/**
+ * Label of a catch edge: the errors it handles.
+ */
+export function describeCatcher(catcher: Catcher): string {
+  return `catch: ${(catcher.ErrorEquals || []).join(', ') || 'no errors'}`;
+}
+
+export function parseErrorNames(raw: string): string[] {
+  return raw
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+// Dashed red styling that tells error paths apart from normal transitions
+export const CATCH_EDGE_STYLE = { stroke: '#ef4444', strokeDasharray: '6 4' };
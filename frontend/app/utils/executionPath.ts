@@ -0,0 +1,77 @@
+/**
+ * Canvas overlay of one execution: the states it visited and the transitions it took,
+ * coloured by outcome like the Step Functions console graph inspector.
+ */
+import type { ExecutionTimeline, StateSpan } from './executionTimeline';
+
+export type PathStatus = 'succeeded' | 'retried' | 'caught' | 'failed' | 'running';
+
+export const PATH_STATUS_LABEL: Record<PathStatus, string> = {
+  succeeded: 'Succeeded',
+  retried: 'Retried',
+  caught: 'Caught',
+  failed: 'Failed',
+  running: 'Running',
+};
+
+// Ring drawn around a visited state node
+export const EXECUTION_NODE_CLASS: Record<PathStatus, string> = {
+  succeeded: 'rounded-lg ring-4 ring-green-500/80',
+  retried: 'rounded-lg ring-4 ring-amber-300/80',
+  caught: 'rounded-lg ring-4 ring-orange-400/80',
+  failed: 'rounded-lg ring-4 ring-red-500/80',
+  running: 'rounded-lg ring-4 ring-blue-500/80 animate-pulse',
+};
+
+// Stroke of a traversed edge
+export const EXECUTION_EDGE_COLOR: Record<PathStatus, string> = {
+  succeeded: '#22c55e',
+  retried: '#fcd34d',
+  caught: '#fb923c',
+  failed: '#ef4444',
+  running: '#3b82f6',
+};
+
+// A state visited several times (loops, Map iterations) shows its most notable outcome
+const PRIORITY: PathStatus[] = ['running', 'failed', 'caught', 'retried', 'succeeded'];
+
+export interface ExecutionPath {
+  statusByState: Map<string, PathStatus>;
+  visitsByState: Map<string, StateSpan[]>;
+  // Keyed by transitionKey(from, to)
+  transitions: Map<string, PathStatus>;
+}
+
+export function transitionKey(from: string, to: string): string {
+  return `${from}\u0000${to}`;
+}
+
+export function pathStatusOf(span: StateSpan): PathStatus {
+  return span.status === 'succeeded' && span.retries > 0 ? 'retried' : span.status;
+}
+
+function mostNotable(current: PathStatus | undefined, next: PathStatus): PathStatus {
+  return current && PRIORITY.indexOf(current) < PRIORITY.indexOf(next) ? current : next;
+}
+
+export function buildExecutionPath(timeline: ExecutionTimeline): ExecutionPath {
+  const spansById = new Map(timeline.spans.map((span) => [span.id, span]));
+  const statusByState = new Map<string, PathStatus>();
+  const visitsByState = new Map<string, StateSpan[]>();
+  const transitions = new Map<string, PathStatus>();
+
+  timeline.spans.forEach((span) => {
+    statusByState.set(span.name, mostNotable(statusByState.get(span.name), pathStatusOf(span)));
+    visitsByState.set(span.name, [...(visitsByState.get(span.name) || []), span]);
+
+    const previous = span.previousId !== undefined ? spansById.get(span.previousId) : undefined;
+    if (previous) {
+      // The edge takes the colour of how the previous state was left (e.g. through a Catch)
+      const key = transitionKey(previous.name, span.name);
+      const status = span.status === 'running' ? 'running' : pathStatusOf(previous);
+      transitions.set(key, mostNotable(transitions.get(key), status));
+    }
+  });
+
+  return { statusByState, visitsByState, transitions };
+}
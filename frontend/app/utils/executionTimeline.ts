@@ -0,0 +1,183 @@
+/**
+ * Per-state timeline of an execution, built from the events returned by
+ * GET /executions/:executionArn/history (Step Functions history event types).
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:5000';
+
+export interface ExecutionHistoryEvent {
+  id: number;
+  previousEventId?: number;
+  type: string;
+  timestamp: string;
+  details?: Record<string, unknown>;
+}
+
+// caught: the last attempt failed and a Catch routed the execution on
+export type StateSpanStatus = 'succeeded' | 'caught' | 'failed' | 'running';
+
+export interface StateSpan {
+  // Id of the StateEntered event; a state visited twice (loops, Map iterations) gets two spans
+  id: number;
+  name: string;
+  type: string;
+  start: number;
+  end: number;
+  status: StateSpanStatus;
+  // Task attempts beyond the first
+  retries: number;
+  // Span of the state that transitioned into this one, within the same scope
+  previousId?: number;
+  input?: string;
+  output?: string;
+  error?: string;
+  cause?: string;
+}
+
+export interface ExecutionTimeline {
+  spans: StateSpan[];
+  start: number;
+  end: number;
+}
+
+const TERMINAL_EVENT_TYPES = ['ExecutionSucceeded', 'ExecutionFailed', 'ExecutionAborted', 'ExecutionTimedOut'];
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// A redriven execution carries on after its earlier terminal event, so only the last one counts
+export function isCompleteHistory(events: ExecutionHistoryEvent[]): boolean {
+  const last = events.reduce<ExecutionHistoryEvent | undefined>(
+    (latest, event) => (!latest || event.id > latest.id ? event : latest),
+    undefined
+  );
+  return Boolean(last && TERMINAL_EVENT_TYPES.includes(last.type));
+}
+
+export function buildExecutionTimeline(events: ExecutionHistoryEvent[], now = Date.now()): ExecutionTimeline {
+  const byId = new Map(events.map((event) => [event.id, event]));
+  const spans = new Map<number, StateSpan>();
+  const attempts = new Map<number, number>();
+  const exited = new Set<number>();
+  const lastAttemptFailed = new Set<number>();
+
+  // Events of a state chain back to its StateEntered event through previousEventId
+  const owners = new Map<number, number | undefined>();
+  const ownerOf = (event: ExecutionHistoryEvent): number | undefined => {
+    const visited: number[] = [];
+    let current: ExecutionHistoryEvent | undefined = event;
+    let owner: number | undefined;
+    while (current) {
+      if (owners.has(current.id)) {
+        owner = owners.get(current.id);
+        break;
+      }
+      visited.push(current.id);
+      if (current !== event && current.type.endsWith('StateEntered')) {
+        owner = current.id;
+        break;
+      }
+      current = current.previousEventId ? byId.get(current.previousEventId) : undefined;
+    }
+    visited.forEach((id) => owners.set(id, owner));
+    return owner;
+  };
+
+  const sorted = [...events].sort((a, b) => a.id - b.id);
+  for (const event of sorted) {
+    const time = new Date(event.timestamp).getTime();
+    if (event.type.endsWith('StateEntered')) {
+      const previous = event.previousEventId ? byId.get(event.previousEventId) : undefined;
+      spans.set(event.id, {
+        id: event.id,
+        name: text(event.details?.name) || 'Unknown',
+        type: event.type.slice(0, -'StateEntered'.length),
+        start: time,
+        end: time,
+        status: 'running',
+        retries: 0,
+        previousId: previous?.type.endsWith('StateExited') ? ownerOf(previous) : undefined,
+        input: text(event.details?.input),
+      });
+      continue;
+    }
+    if (event.type.startsWith('Execution')) continue;
+
+    const ownerId = ownerOf(event);
+    const span = ownerId !== undefined ? spans.get(ownerId) : undefined;
+    if (!span) continue;
+
+    if (event.type.endsWith('StateExited')) {
+      span.end = time;
+      exited.add(span.id);
+      span.status = lastAttemptFailed.has(span.id) ? 'caught' : 'succeeded';
+      span.output = text(event.details?.output);
+    } else if (event.type.endsWith('Scheduled')) {
+      const count = (attempts.get(span.id) || 0) + 1;
+      attempts.set(span.id, count);
+      span.retries = count - 1;
+    } else if (event.type.endsWith('Succeeded')) {
+      lastAttemptFailed.delete(span.id);
+    } else if (event.type.endsWith('Failed') || event.type.endsWith('TimedOut')) {
+      lastAttemptFailed.add(span.id);
+      span.error = text(event.details?.error);
+      span.cause = text(event.details?.cause);
+    }
+  }
+
+  const start = sorted.length ? new Date(sorted[0].timestamp).getTime() : now;
+  const terminal = isCompleteHistory(sorted) ? sorted[sorted.length - 1] : undefined;
+  const end = terminal ? new Date(terminal.timestamp).getTime() : now;
+
+  // States that never exited either failed the execution or are still running
+  const result = [...spans.values()].map((span) =>
+    exited.has(span.id) ? span : { ...span, end, status: terminal ? ('failed' as const) : ('running' as const) }
+  );
+
+  return { spans: result, start, end: Math.max(end, ...result.map((span) => span.end)) };
+}
+
+// Adds streamed events to a fetched history; the two overlap around a (re)connection
+export function mergeHistoryEvents(
+  events: ExecutionHistoryEvent[],
+  added: ExecutionHistoryEvent[]
+): ExecutionHistoryEvent[] {
+  const byId = new Map(events.map((event) => [event.id, event]));
+  added.forEach((event) => byId.set(event.id, event));
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)}s`;
+  const minutes = Math.floor(ms / 60000);
+  return `${minutes}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+export function formatPayload(value?: string): string {
+  if (value === undefined) return '';
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+// Fetches every page of GET /executions/:executionArn/history
+export async function fetchExecutionHistory(executionArn: string): Promise<ExecutionHistoryEvent[]> {
+  const events: ExecutionHistoryEvent[] = [];
+  let nextToken: string | null = null;
+  do {
+    const params = new URLSearchParams({ maxResults: '1000' });
+    if (nextToken) params.set('nextToken', nextToken);
+    const response = await fetch(`${API_BASE_URL}/executions/${encodeURIComponent(executionArn)}/history?${params}`);
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details || result.error || result.message || 'Failed to load execution history');
+    }
+    events.push(...(result.events || []));
+    nextToken = result.nextToken;
+  } while (nextToken);
+  return events;
+}
@@ -0,0 +1,72 @@
+/**
+ * Execution helpers shared by the builder and the dashboard.
+ */
+import type { ExecutionHistoryEvent } from './executionTimeline';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:5000';
+
+// Executions that stopped short of completion and can be redriven from their point of failure
+export const REDRIVABLE_STATUSES = ['FAILED', 'TIMED_OUT', 'ABORTED'];
+
+// Local executions use the region segment `local` (arn:aws:states:local:...)
+export function isLocalExecutionArn(executionArn: string): boolean {
+  return executionArn.split(':')[3] === 'local';
+}
+
+// Redrive is a Step Functions feature, so in-process runs cannot be redriven
+export function canRedrive(execution: { executionArn: string; status: string }): boolean {
+  return REDRIVABLE_STATUSES.includes(execution.status) && !isLocalExecutionArn(execution.executionArn);
+}
+
+// execution-status message of GET /executions/stream and /executions/:executionArn/stream
+export interface ExecutionStatusMessage {
+  executionArn: string;
+  stateMachineArn: string;
+  name: string | null;
+  qualifier: string | null;
+  status: string;
+  startDate: string | null;
+  stopDate: string | null;
+  error: string | null;
+  cause: string | null;
+  redriveCount: number;
+}
+
+// execution-event message: one new history event (state transition, task result...)
+export interface ExecutionEventMessage {
+  executionArn: string;
+  stateMachineArn: string;
+  event: ExecutionHistoryEvent;
+}
+
+interface ExecutionStreamHandlers {
+  // Called on every (re)connection; messages sent while disconnected are lost, so reload here
+  onOpen?: () => void;
+  onStatus?: (message: ExecutionStatusMessage) => void;
+  onEvent?: (message: ExecutionEventMessage) => void;
+}
+
+/**
+ * Subscribes to the Server-Sent Events of one execution or of every execution of a
+ * state machine. The browser reconnects on its own; returns the unsubscribe function.
+ */
+export function subscribeToExecutions(
+  target: { executionArn: string } | { stateMachineArn: string },
+  { onOpen, onStatus, onEvent }: ExecutionStreamHandlers
+): () => void {
+  const url =
+    'executionArn' in target
+      ? `${API_BASE_URL}/executions/${encodeURIComponent(target.executionArn)}/stream`
+      : `${API_BASE_URL}/executions/stream?stateMachineArn=${encodeURIComponent(target.stateMachineArn)}`;
+  const source = new EventSource(url);
+
+  if (onOpen) source.addEventListener('open', onOpen);
+  if (onStatus) {
+    source.addEventListener('execution-status', (message) => onStatus(JSON.parse((message as MessageEvent).data)));
+  }
+  if (onEvent) {
+    source.addEventListener('execution-event', (message) => onEvent(JSON.parse((message as MessageEvent).data)));
+  }
+
+  return () => source.close();
+}
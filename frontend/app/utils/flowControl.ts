@@ -0,0 +1,110 @@
+/**
+ * Fields of the Wait and Fail states, and the checks their property forms show
+ * inline. A JSONata expression (`{% ... %}`) is accepted wherever a literal is.
+ */
+import type { ASLState } from './aslConverter';
+
+export type WaitMode = 'Seconds' | 'Timestamp' | 'SecondsPath' | 'TimestampPath';
+
+export const WAIT_MODES: Array<{ field: WaitMode; label: string; placeholder: string }> = [
+  { field: 'Seconds', label: 'Fixed duration (s)', placeholder: '10' },
+  { field: 'Timestamp', label: 'Until timestamp', placeholder: '2026-01-01T00:00:00Z' },
+  { field: 'SecondsPath', label: 'Duration from input', placeholder: '$.waitSeconds' },
+  { field: 'TimestampPath', label: 'Timestamp from input', placeholder: '$.expiresAt' },
+];
+
+// RFC 3339 timestamp with an uppercase T and a time zone, as Step Functions requires
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+export function isJsonataExpression(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('{%') && value.endsWith('%}');
+}
+
+function isReferencePath(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('$');
+}
+
+export function getWaitMode(state: ASLState): WaitMode {
+  return WAIT_MODES.find((mode) => state[mode.field] !== undefined)?.field || 'Seconds';
+}
+
+/**
+ * Fields to patch onto a Wait state when switching mode: the old mode's field is
+ * removed so the state keeps exactly one of them.
+ */
+export function switchWaitMode(mode: WaitMode): Partial<ASLState> {
+  const patch: Partial<ASLState> = {};
+  WAIT_MODES.forEach(({ field }) => {
+    patch[field] = undefined;
+  });
+  patch[mode] = mode === 'Seconds' ? 10 : '';
+  return patch;
+}
+
+/**
+ * Parses the Seconds input: an integer stays a number, anything else (e.g. a
+ * JSONata expression or a half-typed value) is kept as text.
+ */
+export function parseWaitSeconds(raw: string): number | string {
+  return /^\d+$/.test(raw.trim()) ? Number(raw) : raw;
+}
+
+export function validateWaitState(state: ASLState): string[] {
+  const errors: string[] = [];
+  const present = WAIT_MODES.filter(({ field }) => state[field] !== undefined);
+
+  if (present.length !== 1) {
+    errors.push('A Wait state needs exactly one of Seconds, Timestamp, SecondsPath or TimestampPath.');
+    return errors;
+  }
+
+  const { field } = present[0];
+  const value = state[field];
+  switch (field) {
+    case 'Seconds':
+      if (!isJsonataExpression(value) && !(Number.isInteger(value) && (value as number) >= 0)) {
+        errors.push('Seconds must be a non-negative integer.');
+      }
+      break;
+    case 'Timestamp':
+      if (!isJsonataExpression(value) && !TIMESTAMP_PATTERN.test(String(value))) {
+        errors.push('Timestamp must be an ISO 8601 date-time such as 2026-01-01T00:00:00Z.');
+      }
+      break;
+    default:
+      if (!isReferencePath(value)) {
+        errors.push(`${field} must be a reference path starting with "$".`);
+      }
+  }
+  return errors;
+}
+
+export function validateFailState(state: ASLState): string[] {
+  const errors: string[] = [];
+  if (state.Error !== undefined && state.ErrorPath !== undefined) {
+    errors.push('Use either Error or ErrorPath, not both.');
+  }
+  if (state.Cause !== undefined && state.CausePath !== undefined) {
+    errors.push('Use either Cause or CausePath, not both.');
+  }
+  (['ErrorPath', 'CausePath'] as const).forEach((field) => {
+    const value = state[field];
+    // JSONPath Fail states may also build the message with an intrinsic such as States.Format
+    const isIntrinsic = typeof value === 'string' && value.startsWith('States.');
+    if (value !== undefined && !isReferencePath(value) && !isIntrinsic && !isJsonataExpression(value)) {
+      errors.push(`${field} must be a reference path starting with "$" or an intrinsic function.`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Short summary shown on a Wait node, e.g. "wait 10s" or "until $.expiresAt".
+ */
+export function describeWait(state: ASLState): string {
+  const mode = getWaitMode(state);
+  const value = state[mode];
+  if (value === undefined || value === '') return 'not configured';
+  if (mode === 'Seconds' && typeof value === 'number') return `wait ${value}s`;
+  return `${mode === 'Seconds' || mode === 'SecondsPath' ? 'wait' : 'until'} ${String(value)}`;
+}
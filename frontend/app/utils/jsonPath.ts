@@ -0,0 +1,91 @@
+/**
+ * Syntax checks for the JSONPath fields of a state (InputPath, ResultPath,
+ * OutputPath, `.$` template keys) and for JSONata `{% ... %}` strings. These
+ * catch typos before deploy; they are not a full JSONPath parser.
+ */
+
+export function isJsonataString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().startsWith('{%');
+}
+
+/**
+ * Returns an error message for an invalid path, or null when it looks fine.
+ * Reference paths (ResultPath) may only address a single node: no wildcards,
+ * filters, slices or deep scans.
+ */
+export function validatePath(path: string, options: { reference?: boolean } = {}): string | null {
+  if (!path.startsWith('$')) {
+    return 'Paths must start with "$".';
+  }
+  if (path.endsWith('.')) {
+    return 'Path must not end with ".".';
+  }
+
+  let depth = 0;
+  let quote: string | null = null;
+  for (const char of path) {
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === "'" || char === '"') quote = char;
+    else if (char === '[') depth++;
+    else if (char === ']') depth--;
+    if (depth < 0) return 'Unbalanced "]" in path.';
+  }
+  if (quote) return 'Unterminated quote in path.';
+  if (depth !== 0) return 'Unbalanced "[" in path.';
+
+  if (options.reference && (/\*|\.\.|\?\(|:|,/.test(path) || path.startsWith('$$'))) {
+    return 'Reference paths cannot use wildcards, filters, slices, deep scans or the context object.';
+  }
+  return null;
+}
+
+/**
+ * Checks a Parameters-style template: keys ending in `.$` must hold a path or an
+ * intrinsic function call.
+ */
+export function validatePayloadTemplate(template: unknown, location = ''): string[] {
+  if (Array.isArray(template)) {
+    return template.flatMap((item, index) => validatePayloadTemplate(item, `${location}[${index}]`));
+  }
+  if (!template || typeof template !== 'object') {
+    return [];
+  }
+
+  return Object.entries(template as Record<string, unknown>).flatMap(([key, value]) => {
+    const here = location ? `${location}.${key}` : key;
+    if (!key.endsWith('.$')) {
+      return validatePayloadTemplate(value, here);
+    }
+    if (typeof value !== 'string') {
+      return [`${here}: a ".$" field must hold a path or intrinsic function string.`];
+    }
+    if (value.startsWith('States.')) {
+      return [];
+    }
+    const error = validatePath(value);
+    return error ? [`${here}: ${error}`] : [];
+  });
+}
+
+/**
+ * Checks that every `{% ... %}` string inside a JSONata field is closed.
+ */
+export function validateJsonataValue(value: unknown, location = ''): string[] {
+  if (typeof value === 'string') {
+    return isJsonataString(value) && !value.trim().endsWith('%}')
+      ? [`${location || 'value'}: JSONata expressions must be wrapped in {% %}.`]
+      : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => validateJsonataValue(item, `${location}[${index}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, child]) =>
+      validateJsonataValue(child, location ? `${location}.${key}` : key)
+    );
+  }
+  return [];
+}
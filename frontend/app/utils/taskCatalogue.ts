@@ -0,0 +1,244 @@
+/**
+ * Catalogue of Task state service integrations. Each entry knows its base
+ * Resource ARN, which integration patterns it supports and how to build a
+ * starting Parameters (JSONPath) or Arguments (JSONata) template.
+ */
+
+export type IntegrationPattern = 'requestResponse' | 'sync' | 'waitForTaskToken';
+
+export type TaskQueryLanguage = 'JSONPath' | 'JSONata';
+
+export interface TaskIntegration {
+  id: string;
+  label: string;
+  service: string;
+  resource: string;
+  patterns: IntegrationPattern[];
+  // Resource suffix of the .sync pattern when it differs from plain ".sync"
+  syncSuffix?: string;
+  template: (pattern: IntegrationPattern, language: TaskQueryLanguage) => Record<string, unknown>;
+}
+
+export const INTEGRATION_PATTERN_LABELS: Record<IntegrationPattern, string> = {
+  requestResponse: 'Request Response',
+  sync: 'Run a Job (.sync)',
+  waitForTaskToken: 'Wait for Callback (.waitForTaskToken)',
+};
+
+// JSONata expressions for the state input and the callback task token
+const JSONATA_INPUT = '{% $states.input %}';
+const JSONATA_TASK_TOKEN = '{% $states.context.Task.Token %}';
+
+/**
+ * Builds a payload field that passes the state input through, and the task token
+ * alongside it for callback patterns. JSONPath fields use the `.$` key suffix.
+ */
+function payloadField(
+  key: string,
+  pattern: IntegrationPattern,
+  language: TaskQueryLanguage
+): Record<string, unknown> {
+  if (pattern === 'waitForTaskToken') {
+    const body =
+      language === 'JSONata'
+        ? { input: JSONATA_INPUT, taskToken: JSONATA_TASK_TOKEN }
+        : { 'input.$': '$', 'taskToken.$': '$$.Task.Token' };
+    return { [key]: body };
+  }
+  return language === 'JSONata' ? { [key]: JSONATA_INPUT } : { [`${key}.$`]: '$' };
+}
+
+export const TASK_INTEGRATIONS: TaskIntegration[] = [
+  {
+    id: 'lambda-invoke',
+    label: 'Lambda: Invoke',
+    service: 'AWS Lambda',
+    resource: 'arn:aws:states:::lambda:invoke',
+    patterns: ['requestResponse', 'waitForTaskToken'],
+    template: (pattern, language) => ({
+      FunctionName: 'arn:aws:lambda:REGION:ACCOUNT_ID:function:FUNCTION_NAME',
+      ...payloadField('Payload', pattern, language),
+    }),
+  },
+  {
+    id: 'sqs-send-message',
+    label: 'SQS: SendMessage',
+    service: 'Amazon SQS',
+    resource: 'arn:aws:states:::sqs:sendMessage',
+    patterns: ['requestResponse', 'waitForTaskToken'],
+    template: (pattern, language) => ({
+      QueueUrl: 'https://sqs.REGION.amazonaws.com/ACCOUNT_ID/QUEUE_NAME',
+      ...payloadField('MessageBody', pattern, language),
+    }),
+  },
+  {
+    id: 'sns-publish',
+    label: 'SNS: Publish',
+    service: 'Amazon SNS',
+    resource: 'arn:aws:states:::sns:publish',
+    patterns: ['requestResponse', 'waitForTaskToken'],
+    template: (pattern, language) => ({
+      TopicArn: 'arn:aws:sns:REGION:ACCOUNT_ID:TOPIC_NAME',
+      ...payloadField('Message', pattern, language),
+    }),
+  },
+  {
+    id: 'dynamodb-get-item',
+    label: 'DynamoDB: GetItem',
+    service: 'Amazon DynamoDB',
+    resource: 'arn:aws:states:::dynamodb:getItem',
+    patterns: ['requestResponse'],
+    template: (_pattern, language) => ({
+      TableName: 'TABLE_NAME',
+      Key: {
+        pk: language === 'JSONata' ? { S: '{% $states.input.id %}' } : { 'S.$': '$.id' },
+      },
+    }),
+  },
+  {
+    id: 'dynamodb-put-item',
+    label: 'DynamoDB: PutItem',
+    service: 'Amazon DynamoDB',
+    resource: 'arn:aws:states:::dynamodb:putItem',
+    patterns: ['requestResponse'],
+    template: (_pattern, language) => ({
+      TableName: 'TABLE_NAME',
+      Item: {
+        pk: language === 'JSONata' ? { S: '{% $states.input.id %}' } : { 'S.$': '$.id' },
+      },
+    }),
+  },
+  {
+    id: 'ecs-run-task',
+    label: 'ECS: RunTask',
+    service: 'Amazon ECS',
+    resource: 'arn:aws:states:::ecs:runTask',
+    patterns: ['requestResponse', 'sync', 'waitForTaskToken'],
+    template: (pattern, language) => ({
+      LaunchType: 'FARGATE',
+      Cluster: 'arn:aws:ecs:REGION:ACCOUNT_ID:cluster/CLUSTER_NAME',
+      TaskDefinition: 'arn:aws:ecs:REGION:ACCOUNT_ID:task-definition/TASK_DEFINITION:1',
+      NetworkConfiguration: {
+        AwsvpcConfiguration: {
+          Subnets: ['SUBNET_ID'],
+          AssignPublicIp: 'ENABLED',
+        },
+      },
+      ...(pattern === 'waitForTaskToken'
+        ? {
+            Overrides: {
+              ContainerOverrides: [
+                {
+                  Name: 'CONTAINER_NAME',
+                  Environment: [
+                    language === 'JSONata'
+                      ? { Name: 'TASK_TOKEN', Value: JSONATA_TASK_TOKEN }
+                      : { Name: 'TASK_TOKEN', 'Value.$': '$$.Task.Token' },
+                  ],
+                },
+              ],
+            },
+          }
+        : {}),
+    }),
+  },
+  {
+    id: 'states-start-execution',
+    label: 'Step Functions: StartExecution',
+    service: 'AWS Step Functions',
+    resource: 'arn:aws:states:::states:startExecution',
+    patterns: ['requestResponse', 'sync', 'waitForTaskToken'],
+    syncSuffix: '.sync:2',
+    template: (pattern, language) => {
+      const jsonata = language === 'JSONata';
+      const inputBody: Record<string, unknown> = jsonata
+        ? {
+            payload: JSONATA_INPUT,
+            AWS_STEP_FUNCTIONS_STARTED_BY_EXECUTION_ID: '{% $states.context.Execution.Id %}',
+          }
+        : {
+            'payload.$': '$',
+            'AWS_STEP_FUNCTIONS_STARTED_BY_EXECUTION_ID.$': '$$.Execution.Id',
+          };
+      if (pattern === 'waitForTaskToken') {
+        if (jsonata) {
+          inputBody.TaskToken = JSONATA_TASK_TOKEN;
+        } else {
+          inputBody['TaskToken.$'] = '$$.Task.Token';
+        }
+      }
+      return {
+        StateMachineArn: 'arn:aws:states:REGION:ACCOUNT_ID:stateMachine:STATE_MACHINE_NAME',
+        Input: inputBody,
+      };
+    },
+  },
+  {
+    id: 'http-invoke',
+    label: 'HTTP Task: Invoke API',
+    service: 'HTTPS endpoint',
+    resource: 'arn:aws:states:::http:invoke',
+    patterns: ['requestResponse'],
+    template: (_pattern, language) => ({
+      ApiEndpoint: 'https://api.example.com/resource',
+      Method: 'POST',
+      Authentication: {
+        ConnectionArn: 'arn:aws:events:REGION:ACCOUNT_ID:connection/CONNECTION_NAME/ID',
+      },
+      ...(language === 'JSONata' ? { RequestBody: JSONATA_INPUT } : { 'RequestBody.$': '$' }),
+    }),
+  },
+];
+
+const INTEGRATIONS_BY_ID = new Map(TASK_INTEGRATIONS.map((integration) => [integration.id, integration]));
+
+export function getIntegration(id: string): TaskIntegration | undefined {
+  return INTEGRATIONS_BY_ID.get(id);
+}
+
+export function getResourceArn(integration: TaskIntegration, pattern: IntegrationPattern): string {
+  switch (pattern) {
+    case 'sync':
+      return `${integration.resource}${integration.syncSuffix || '.sync'}`;
+    case 'waitForTaskToken':
+      return `${integration.resource}.waitForTaskToken`;
+    default:
+      return integration.resource;
+  }
+}
+
+/**
+ * Finds the catalogue entry and pattern an existing Resource ARN corresponds to.
+ */
+export function matchIntegration(
+  resource?: string
+): { integration: TaskIntegration; pattern: IntegrationPattern } | undefined {
+  if (!resource) return undefined;
+
+  for (const integration of TASK_INTEGRATIONS) {
+    for (const pattern of integration.patterns) {
+      if (getResourceArn(integration, pattern) === resource) {
+        return { integration, pattern };
+      }
+    }
+    // Accept the plain .sync form for integrations that default to a versioned suffix
+    if (integration.syncSuffix && resource === `${integration.resource}.sync`) {
+      return { integration, pattern: 'sync' };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * ASL fields of a Task state generated from a catalogue entry.
+ */
+export function buildTaskFields(
+  integration: TaskIntegration,
+  pattern: IntegrationPattern,
+  language: TaskQueryLanguage
+): { Resource: string; Parameters?: Record<string, unknown>; Arguments?: Record<string, unknown> } {
+  const template = integration.template(pattern, language);
+  return language === 'JSONata'
+    ? { Resource: getResourceArn(integration, pattern), Arguments: template }
+    : { Resource: getResourceArn(integration, pattern), Parameters: template };
+}